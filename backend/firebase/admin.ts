@@ -49,7 +49,7 @@ const db = admin.firestore();
  *
  * Returns the created document (including its `id`).
  */
-export async function createDocument(collectionName: string, data: Record<string, any>) {
+export async function createDocument(collectionName: string, data: Record<string, unknown>) {
   const docRef = db.collection(collectionName).doc(); // generate id locally
   const now = new Date().toISOString();
 
@@ -70,18 +70,18 @@ export async function createDocument(collectionName: string, data: Record<string
  */
 export async function getDocumentById(collectionName: string, id: string) {
   const snap = await db.collection(collectionName).doc(id).get();
-  return snap.exists ? (snap.data() as Record<string, any>) : null;
+  return snap.exists ? (snap.data() as Record<string, unknown>) : null;
 }
 
 /**
  * Update a document (partial update).
  * Automatically updates the `updatedAt` timestamp.
  */
-export async function updateDocument(collectionName: string, id: string, updates: Record<string, any>) {
+export async function updateDocument(collectionName: string, id: string, updates: Record<string, unknown>) {
   const now = new Date().toISOString();
   await db.collection(collectionName).doc(id).update({ ...updates, updatedAt: now });
   const snap = await db.collection(collectionName).doc(id).get();
-  return snap.exists ? (snap.data() as Record<string, any>) : null;
+  return snap.exists ? (snap.data() as Record<string, unknown>) : null;
 }
 
 /**
@@ -0,0 +1,76 @@
+// src/app/ApiDocs.tsx
+// Interactive API reference: Swagger UI (loaded from a CDN) pointed at /api/openapi.json.
+// "Authorize" accepts an API key (X-API-Key) or a Firebase ID token, so requests can be tried out;
+// the credentials only live as long as the page.
+'use client';
+
+import { useEffect, useRef } from 'react';
+
+const SWAGGER_UI_VERSION = '5.17.14';
+const SWAGGER_UI_BASE = `https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}`;
+
+// Subresource Integrity hashes of the files in the swagger-ui-dist 5.17.14 npm package; update them
+// together with SWAGGER_UI_VERSION
+const SWAGGER_UI_CSS = {
+  href: `${SWAGGER_UI_BASE}/swagger-ui.css`,
+  integrity: 'sha384-wxLW6kwyHktdDGr6Pv1zgm/VGJh99lfUbzSn6HNHBENZlCN7W602k9VkGdxuFvPn',
+};
+const SWAGGER_UI_JS = {
+  src: `${SWAGGER_UI_BASE}/swagger-ui-bundle.js`,
+  integrity: 'sha384-wmyclcVGX/WhUkdkATwhaK1X1JtiNrr2EoYJ+diV3vj4v6OC5yCeSu+yW13SYJep',
+};
+
+declare global {
+  interface Window {
+    SwaggerUIBundle?: (options: Record<string, unknown>) => unknown;
+  }
+}
+
+/**
+ * Add a stylesheet or script to the page once. A remount reuses the element already there and
+ * waits for it if it is still loading.
+ */
+function load(tag: 'link' | 'script', attributes: Record<string, string>): Promise<void> {
+  const url = tag === 'link' ? attributes.href : attributes.src;
+  return new Promise((resolve, reject) => {
+    let element = document.head.querySelector<HTMLElement>(`${tag}[${tag === 'link' ? 'href' : 'src'}="${url}"]`);
+    if (element?.dataset.loaded) return resolve();
+    if (!element) {
+      const created = document.createElement(tag);
+      Object.entries({ ...attributes, crossorigin: 'anonymous' }).forEach(([key, value]) => created.setAttribute(key, value));
+      created.addEventListener('load', () => {
+        created.dataset.loaded = 'true';
+      });
+      document.head.appendChild(created);
+      element = created;
+    }
+    element.addEventListener('load', () => resolve());
+    element.addEventListener('error', () => reject(new Error(`Failed to load ${url}`)));
+  });
+}
+
+export default function ApiDocs() {
+  const container = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([
+      load('link', { rel: 'stylesheet', ...SWAGGER_UI_CSS }),
+      window.SwaggerUIBundle ? Promise.resolve() : load('script', SWAGGER_UI_JS),
+    ])
+      .then(() => {
+        if (cancelled || !container.current || !window.SwaggerUIBundle) return;
+        window.SwaggerUIBundle({ url: '/api/openapi.json', domNode: container.current, tryItOutEnabled: true });
+      })
+      .catch(() => {
+        if (container.current) {
+          container.current.textContent = 'The API reference could not be loaded. The raw spec is at /api/openapi.json.';
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return <div ref={container} />;
+}
@@ -0,0 +1,49 @@
+// src/app/api/categories/[id]/route.ts
+// GET / PUT / DELETE category by ID
+// PUT with a new parentId moves the category (with everything below it).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getCategory, updateCategory, deleteCategory } from '../../../../controllers/categoryController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { categoryUpdateSchema } from '../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/categories/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const category = await getCategory(id);
+    return NextResponse.json(category);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const PUT = instrumentRoute('/api/categories/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(categoryUpdateSchema, body);
+    const updated = await updateCategory(id, validated);
+    return NextResponse.json(updated);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const DELETE = instrumentRoute('/api/categories/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const deleted = await deleteCategory(id);
+    return NextResponse.json(deleted);
+  } catch (err) {
+    return handleError(err);
+  }
+});
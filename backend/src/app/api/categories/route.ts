@@ -0,0 +1,33 @@
+// src/app/api/categories/route.ts
+// GET /api/categories -> list categories in tree order (each with its path)
+// POST /api/categories -> create a category -> body: { name, parentId?, description? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listCategories, createCategory } from '../../../controllers/categoryController';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { readJson, validateBody } from '../../../middlewares/validateBody';
+import { categoryCreateSchema } from '../../../lib/validate';
+
+export const GET = instrumentRoute('/api/categories', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const categories = await listCategories();
+    return NextResponse.json(categories);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/categories', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const body = await readJson(req);
+    const validated = validateBody(categoryCreateSchema, body);
+    const category = await createCategory(validated);
+    return NextResponse.json(category, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
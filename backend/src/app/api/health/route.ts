@@ -2,7 +2,8 @@
 // Simple health check endpoint
 
 import { NextResponse } from 'next/server';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
 
-export async function GET() {
+export const GET = instrumentRoute('/api/health', async () => {
   return NextResponse.json({ ok: true, timestamp: new Date().toISOString() });
-}
+});
@@ -0,0 +1,48 @@
+// src/app/api/locations/[id]/route.ts
+// GET / PUT / DELETE location by ID
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getLocation, updateLocation, deleteLocation } from '../../../../controllers/locationController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { locationUpdateSchema } from '../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/locations/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const location = await getLocation(id);
+    return NextResponse.json(location);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const PUT = instrumentRoute('/api/locations/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(locationUpdateSchema, body);
+    const updated = await updateLocation(id, validated);
+    return NextResponse.json(updated);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const DELETE = instrumentRoute('/api/locations/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const deleted = await deleteLocation(id);
+    return NextResponse.json(deleted);
+  } catch (err) {
+    return handleError(err);
+  }
+});
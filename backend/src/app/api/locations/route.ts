@@ -0,0 +1,33 @@
+// src/app/api/locations/route.ts
+// GET /api/locations -> list locations
+// POST /api/locations -> create a location
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listLocations, createLocation } from '../../../controllers/locationController';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { readJson, validateBody } from '../../../middlewares/validateBody';
+import { locationCreateSchema } from '../../../lib/validate';
+
+export const GET = instrumentRoute('/api/locations', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const locations = await listLocations();
+    return NextResponse.json(locations);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/locations', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const body = await readJson(req);
+    const validated = validateBody(locationCreateSchema, body);
+    const location = await createLocation(validated);
+    return NextResponse.json(location, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
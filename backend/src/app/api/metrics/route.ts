@@ -0,0 +1,20 @@
+// src/app/api/metrics/route.ts
+// GET /api/metrics -> request counts, latencies and error rates per route plus stock-operation
+// counters, in the Prometheus text format (scrape with an X-API-Key of any role)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { renderMetrics } from '../../../lib/metrics';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+
+export const GET = instrumentRoute('/api/metrics', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    return new NextResponse(renderMetrics(), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+});
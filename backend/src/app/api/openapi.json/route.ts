@@ -0,0 +1,15 @@
+// src/app/api/openapi.json/route.ts
+// GET /api/openapi.json -> OpenAPI 3.1 description of the API (public; used by the docs page at /)
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '../../../lib/openapi';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+
+export const GET = instrumentRoute('/api/openapi.json', async () => {
+  try {
+    return NextResponse.json(buildOpenApiDocument());
+  } catch (err) {
+    return handleError(err);
+  }
+});
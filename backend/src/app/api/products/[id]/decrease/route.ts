@@ -1,23 +1,31 @@
 // src/app/api/products/[id]/decrease/route.ts
-// POST /api/products/:id/decrease -> body: { amount }
+// POST /api/products/:id/decrease -> body: { amount, unit?, locationId?, lotNumber?, reason?, reference? }
+// Honors an optional Idempotency-Key header (retries replay the first result).
+// :id may also be the product's SKU.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { decreaseStock } from '../../../../../controllers/productController';
 import { handleError } from '../../../../../middlewares/errorHandler';
-import { validateBody } from '../../../../../middlewares/validateBody';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../middlewares/idempotency';
 import { stockAmountSchema } from '../../../../../lib/validate';
 
 type Params = {
   params: Promise<{ id: string }>;
 }
-export async function POST(req: NextRequest, context: Params) {
+export const POST = instrumentRoute('/api/products/:id/decrease', async (req: NextRequest, context: Params) => {
   try {
+    const principal = await authorize(req, 'clerk');
     const { id } = await context.params;
-    const body = await req.json();
+    const body = await readJson(req);
     const validated = validateBody(stockAmountSchema, body);
-    const result = await decreaseStock(id, validated.amount);
+    const idempotency = readIdempotencyKey(req, principal, `products:decrease:${id}`, validated);
+    const { amount, unit, locationId, lotNumber, ...meta } = validated;
+    const result = await decreaseStock(id, { amount, unit }, { ...meta, actor: principal.id }, idempotency, locationId, lotNumber);
     return NextResponse.json(result);
   } catch (err) {
     return handleError(err);
   }
-}
+});
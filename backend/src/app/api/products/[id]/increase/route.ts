@@ -1,23 +1,32 @@
 // src/app/api/products/[id]/increase/route.ts
-// POST /api/products/:id/increase -> body: { amount }
+// POST /api/products/:id/increase -> body: { amount, unit?, locationId?, lotNumber?, expiresAt?, unitCost?, reason?, reference? }
+// Honors an optional Idempotency-Key header (retries replay the first result).
+// :id may also be the product's SKU.
 
 import { NextRequest, NextResponse } from 'next/server';
 import { increaseStock } from '../../../../../controllers/productController';
 import { handleError } from '../../../../../middlewares/errorHandler';
-import { validateBody } from '../../../../../middlewares/validateBody';
-import { stockAmountSchema } from '../../../../../lib/validate';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../middlewares/idempotency';
+import { stockReceiptSchema } from '../../../../../lib/validate';
 
 type Params = {
   params: Promise<{ id: string }>;
 }
-export async function POST(req: NextRequest, context: Params) {
+export const POST = instrumentRoute('/api/products/:id/increase', async (req: NextRequest, context: Params) => {
   try {
+    const principal = await authorize(req, 'clerk');
     const { id } = await context.params;
-    const body = await req.json();
-    const validated = validateBody(stockAmountSchema, body);
-    const result = await increaseStock(id, validated.amount);
+    const body = await readJson(req);
+    const validated = validateBody(stockReceiptSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:increase:${id}`, validated);
+    const { amount, unit, locationId, lotNumber, expiresAt, unitCost, ...meta } = validated;
+    const lot = lotNumber ? { lotNumber, expiresAt } : undefined;
+    const result = await increaseStock(id, { amount, unit }, { ...meta, actor: principal.id }, idempotency, locationId, lot, unitCost);
     return NextResponse.json(result);
   } catch (err) {
     return handleError(err);
   }
-}
+});
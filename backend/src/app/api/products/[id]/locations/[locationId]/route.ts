@@ -0,0 +1,26 @@
+// src/app/api/products/[id]/locations/[locationId]/route.ts
+// PUT /api/products/:id/locations/:locationId -> body: { low_stock_threshold } (null clears it)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { setProductLocationThreshold } from '../../../../../../controllers/locationController';
+import { handleError } from '../../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../../middlewares/validateBody';
+import { locationStockSettingsSchema } from '../../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string; locationId: string }>;
+};
+export const PUT = instrumentRoute('/api/products/:id/locations/:locationId', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id, locationId } = await context.params;
+    const body = await readJson(req);
+    const { low_stock_threshold } = validateBody(locationStockSettingsSchema, body);
+    const record = await setProductLocationThreshold(id, locationId, low_stock_threshold);
+    return NextResponse.json(record);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,22 @@
+// src/app/api/products/[id]/locations/route.ts
+// GET /api/products/:id/locations -> the product's stock per location
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listProductLocations } from '../../../../../controllers/locationController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/products/:id/locations', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const items = await listProductLocations(id);
+    return NextResponse.json(items);
+  } catch (err) {
+    return handleError(err);
+  }
+});
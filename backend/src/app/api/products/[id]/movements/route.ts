@@ -0,0 +1,26 @@
+// src/app/api/products/[id]/movements/route.ts
+// GET /api/products/:id/movements -> stock movement history
+// Query: ?limit=&cursor=&from=&to= (from/to are ISO timestamps)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listMovements } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { validateQuery } from '../../../../../middlewares/validateQuery';
+import { movementListQuerySchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/products/:id/movements', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const query = validateQuery(movementListQuerySchema, req.nextUrl.searchParams);
+    const page = await listMovements(id, query);
+    return NextResponse.json(page);
+  } catch (err) {
+    return handleError(err);
+  }
+});
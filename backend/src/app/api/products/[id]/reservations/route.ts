@@ -0,0 +1,44 @@
+// src/app/api/products/[id]/reservations/route.ts
+// GET /api/products/:id/reservations -> reservations for the product (?status=)
+// POST /api/products/:id/reservations -> body: { quantity, ttlSeconds?, reference? }
+// POST honors an optional Idempotency-Key header (retries replay the first result).
+// POST accepts the product's SKU in place of :id.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createReservation, listReservations } from '../../../../../controllers/reservationController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { validateQuery } from '../../../../../middlewares/validateQuery';
+import { readIdempotencyKey } from '../../../../../middlewares/idempotency';
+import { reservationCreateSchema, reservationListQuerySchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/products/:id/reservations', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const { status } = validateQuery(reservationListQuerySchema, req.nextUrl.searchParams);
+    const items = await listReservations(id, status);
+    return NextResponse.json(items);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/products/:id/reservations', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(reservationCreateSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:reserve:${id}`, validated);
+    const reservation = await createReservation(id, { ...validated, actor: principal.id }, idempotency);
+    return NextResponse.json(reservation, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
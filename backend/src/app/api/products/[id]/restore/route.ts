@@ -0,0 +1,23 @@
+// src/app/api/products/[id]/restore/route.ts
+// POST /api/products/:id/restore -> take a product out of the trash
+
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreProduct } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { versionETag } from '../../../../../middlewares/conditional';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/products/:id/restore', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const product = await restoreProduct(id);
+    return NextResponse.json(product, { headers: { ETag: versionETag(product.version, product.variants_version) } });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -1,43 +1,55 @@
 // src/app/api/products/[id]/route.ts
 // GET / PUT / DELETE product by ID
+// GET returns the product's version (with its variants' for a parent) as an ETag and answers 304
+// when If-None-Match matches.
+// PUT / DELETE honor If-Match: a stale version returns 412 Precondition Failed.
+// DELETE moves the product to the trash (see /api/products/trash).
 
 import { NextRequest, NextResponse } from 'next/server';
 import { getProduct, updateProduct, deleteProduct } from '../../../../controllers/productController';
 import { handleError } from '../../../../middlewares/errorHandler';
-import { validateBody } from '../../../../middlewares/validateBody';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { isNotModified, readIfMatch, versionETag } from '../../../../middlewares/conditional';
 import { productUpdateSchema } from '../../../../lib/validate';
 
 type Params = {
   params: Promise<{ id: string }>;
 };
-export async function GET(_: NextRequest, context: Params) {
+export const GET = instrumentRoute('/api/products/:id', async (req: NextRequest, context: Params) => {
   try {
+    await authorize(req, 'viewer');
     const { id } = await context.params;
     const product = await getProduct(id);
-    return NextResponse.json(product);
+    const etag = versionETag(product.version, product.variants_version);
+    if (isNotModified(req, etag)) return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    return NextResponse.json(product, { headers: { ETag: etag } });
   } catch (err) {
     return handleError(err);
   }
-}
+});
 
-export async function PUT(req: NextRequest, context: Params) {
+export const PUT = instrumentRoute('/api/products/:id', async (req: NextRequest, context: Params) => {
   try {
+    const principal = await authorize(req, 'manager');
     const { id } = await context.params;
-    const body = await req.json();
-    const validated = validateBody(productUpdateSchema, body);
-    const updated = await updateProduct(id, validated);
-    return NextResponse.json(updated);
+    const body = await readJson(req);
+    const { reason, reference, ...updates } = validateBody(productUpdateSchema, body);
+    const updated = await updateProduct(id, updates, { reason, reference, actor: principal.id }, readIfMatch(req));
+    return NextResponse.json(updated, { headers: { ETag: versionETag(updated.version, updated.variants_version) } });
   } catch (err) {
     return handleError(err);
   }
-}
+});
 
-export async function DELETE(_: NextRequest, context: Params) {
+export const DELETE = instrumentRoute('/api/products/:id', async (req: NextRequest, context: Params) => {
   try {
+    const principal = await authorize(req, 'manager');
     const { id } = await context.params;
-    const deleted = await deleteProduct(id);
+    const deleted = await deleteProduct(id, readIfMatch(req), principal.id);
     return NextResponse.json(deleted);
   } catch (err) {
     return handleError(err);
   }
-}
+});
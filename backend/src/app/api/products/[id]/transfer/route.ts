@@ -0,0 +1,32 @@
+// src/app/api/products/[id]/transfer/route.ts
+// POST /api/products/:id/transfer -> body: { fromLocationId, toLocationId, amount, reason?, reference? }
+// Honors an optional Idempotency-Key header (retries replay the first result).
+// :id may also be the product's SKU.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { transferStock } from '../../../../../controllers/locationController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../middlewares/idempotency';
+import { stockTransferSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/products/:id/transfer', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(stockTransferSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:transfer:${id}`, validated);
+    const { fromLocationId, toLocationId, amount, ...meta } = validated;
+    const ledger = { ...meta, actor: principal.id };
+    const result = await transferStock(id, fromLocationId, toLocationId, amount, ledger, idempotency);
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,31 @@
+// src/app/api/products/[id]/variants/[variantId]/decrease/route.ts
+// POST /api/products/:id/variants/:variantId/decrease -> body: { amount, unit?, locationId?, lotNumber?, reason?, reference? }
+// Same as /api/products/:id/decrease, applied to one variant of the product.
+// Honors an optional Idempotency-Key header (retries replay the first result).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { decreaseVariantStock } from '../../../../../../../controllers/productController';
+import { handleError } from '../../../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../../../middlewares/idempotency';
+import { stockAmountSchema } from '../../../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string; variantId: string }>;
+};
+export const POST = instrumentRoute('/api/products/:id/variants/:variantId/decrease', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id, variantId } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(stockAmountSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:decrease:${variantId}`, validated);
+    const { amount, unit, locationId, lotNumber, ...meta } = validated;
+    const result = await decreaseVariantStock(id, variantId, { amount, unit }, { ...meta, actor: principal.id }, idempotency, locationId, lotNumber);
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,32 @@
+// src/app/api/products/[id]/variants/[variantId]/increase/route.ts
+// POST /api/products/:id/variants/:variantId/increase -> body: { amount, unit?, locationId?, lotNumber?, expiresAt?, unitCost?, reason?, reference? }
+// Same as /api/products/:id/increase, applied to one variant of the product.
+// Honors an optional Idempotency-Key header (retries replay the first result).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { increaseVariantStock } from '../../../../../../../controllers/productController';
+import { handleError } from '../../../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../../../middlewares/idempotency';
+import { stockReceiptSchema } from '../../../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string; variantId: string }>;
+};
+export const POST = instrumentRoute('/api/products/:id/variants/:variantId/increase', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id, variantId } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(stockReceiptSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:increase:${variantId}`, validated);
+    const { amount, unit, locationId, lotNumber, expiresAt, unitCost, ...meta } = validated;
+    const lot = lotNumber ? { lotNumber, expiresAt } : undefined;
+    const result = await increaseVariantStock(id, variantId, { amount, unit }, { ...meta, actor: principal.id }, idempotency, locationId, lot, unitCost);
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,53 @@
+// src/app/api/products/[id]/variants/[variantId]/route.ts
+// GET / PUT / DELETE one variant of a product (404 unless the variant belongs to the product)
+// Same rules as /api/products/:id: ETag / If-None-Match on GET, If-Match on PUT / DELETE.
+// A variant's attributes cannot be changed; DELETE moves it to the trash.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVariant, updateVariant, deleteVariant } from '../../../../../../controllers/productController';
+import { handleError } from '../../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../../middlewares/validateBody';
+import { isNotModified, readIfMatch, versionETag } from '../../../../../../middlewares/conditional';
+import { productUpdateSchema } from '../../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string; variantId: string }>;
+};
+export const GET = instrumentRoute('/api/products/:id/variants/:variantId', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id, variantId } = await context.params;
+    const variant = await getVariant(id, variantId);
+    const etag = versionETag(variant.version);
+    if (isNotModified(req, etag)) return new NextResponse(null, { status: 304, headers: { ETag: etag } });
+    return NextResponse.json(variant, { headers: { ETag: etag } });
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const PUT = instrumentRoute('/api/products/:id/variants/:variantId', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    const { id, variantId } = await context.params;
+    const body = await readJson(req);
+    const { reason, reference, ...updates } = validateBody(productUpdateSchema, body);
+    const updated = await updateVariant(id, variantId, updates, { reason, reference, actor: principal.id }, readIfMatch(req));
+    return NextResponse.json(updated, { headers: { ETag: versionETag(updated.version) } });
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const DELETE = instrumentRoute('/api/products/:id/variants/:variantId', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    const { id, variantId } = await context.params;
+    const deleted = await deleteVariant(id, variantId, readIfMatch(req), principal.id);
+    return NextResponse.json(deleted);
+  } catch (err) {
+    return handleError(err);
+  }
+});
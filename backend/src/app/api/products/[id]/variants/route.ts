@@ -0,0 +1,41 @@
+// src/app/api/products/[id]/variants/route.ts
+// GET /api/products/:id/variants -> the product's variants, oldest first -> { items }
+// POST /api/products/:id/variants -> add a variant -> body: { attributes, stock_quantity, name?, sku?, ... }
+//   Honors an optional Idempotency-Key header.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { createVariant, listVariants } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../../middlewares/idempotency';
+import { variantCreateSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/products/:id/variants', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const variants = await listVariants(id);
+    return NextResponse.json(variants);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/products/:id/variants', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(variantCreateSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, `products:variants:create:${id}`, validated);
+    const variant = await createVariant(id, validated, { actor: principal.id }, idempotency);
+    return NextResponse.json(variant, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,23 @@
+// src/app/api/products/by-barcode/[code]/route.ts
+// GET /api/products/by-barcode/:code -> product with this barcode
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProductByBarcode } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { versionETag } from '../../../../../middlewares/conditional';
+
+type Params = {
+  params: Promise<{ code: string }>;
+};
+export const GET = instrumentRoute('/api/products/by-barcode/:code', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { code } = await context.params;
+    const product = await getProductByBarcode(code);
+    return NextResponse.json(product, { headers: { ETag: versionETag(product.version, product.variants_version) } });
+  } catch (err) {
+    return handleError(err);
+  }
+});
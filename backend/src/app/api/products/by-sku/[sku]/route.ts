@@ -0,0 +1,23 @@
+// src/app/api/products/by-sku/[sku]/route.ts
+// GET /api/products/by-sku/:sku -> product with this SKU (case-insensitive)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getProductBySku } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { versionETag } from '../../../../../middlewares/conditional';
+
+type Params = {
+  params: Promise<{ sku: string }>;
+};
+export const GET = instrumentRoute('/api/products/by-sku/:sku', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { sku } = await context.params;
+    const product = await getProductBySku(sku);
+    return NextResponse.json(product, { headers: { ETag: versionETag(product.version, product.variants_version) } });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,23 @@
+// src/app/api/products/expiring/route.ts
+// GET /api/products/expiring -> lots that expire within the window, soonest first -> { items }
+//   Query: ?withinDays= (default 30, at most 365)
+// Lots that have already expired are always listed (with `expired: true`) until written off.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listExpiringLots } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { expiringLotsQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/products/expiring', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { withinDays } = validateQuery(expiringLotsQuerySchema, req.nextUrl.searchParams);
+    const results = await listExpiringLots(withinDays);
+    return NextResponse.json(results);
+  } catch (err) {
+    return handleError(err);
+  }
+});
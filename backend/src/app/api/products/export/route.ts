@@ -0,0 +1,27 @@
+// src/app/api/products/export/route.ts
+// GET /api/products/export -> stream the whole catalog as a download
+//   Query: ?format=json (default, an array of products) or ?format=csv (same columns as the import)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { exportProducts } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { productExportQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/products/export', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { format = 'json' } = validateQuery(productExportQuerySchema, req.nextUrl.searchParams);
+    const stream = exportProducts(format);
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="products.${format}"`,
+      },
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,26 @@
+// src/app/api/products/import/route.ts
+// POST /api/products/import -> create (or update) many products from a CSV or JSON body
+//   Content-Type: text/csv (header row first) or application/json (array of products)
+//   Query: ?dryRun=true validates and reports without writing
+//          ?upsert=true updates products whose SKU already exists
+//   -> { dryRun, total, created, updated, failed, errors: [{ row, sku?, error }] }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { importProducts } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { productImportQuerySchema } from '../../../../lib/validate';
+
+export const POST = instrumentRoute('/api/products/import', async (req: NextRequest) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    const options = validateQuery(productImportQuerySchema, req.nextUrl.searchParams);
+    const body = await req.text();
+    const report = await importProducts(body, req.headers.get('content-type'), options, { actor: principal.id });
+    return NextResponse.json(report);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -1,15 +1,26 @@
 // src/app/api/products/low-stock/route.ts
 // GET /api/products/low-stock -> products with stock_quantity < low_stock_threshold
+// Query: ?basis=available compares available (on hand minus reserved) quantity instead
+//        ?locationId=<id> reports per-location stock of one location
+//        ?scope=location reports per-location stock of every location
 
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { listLowStock } from '../../../../controllers/productController';
+import { listLowStockByLocation } from '../../../../controllers/locationController';
 import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { lowStockQuerySchema } from '../../../../lib/validate';
 
-export async function GET() {
+export const GET = instrumentRoute('/api/products/low-stock', async (req: NextRequest) => {
   try {
-    const items = await listLowStock();
+    await authorize(req, 'viewer');
+    const { basis, locationId, scope } = validateQuery(lowStockQuerySchema, req.nextUrl.searchParams);
+    const items =
+      locationId || scope === 'location' ? await listLowStockByLocation(locationId) : await listLowStock(basis);
     return NextResponse.json(items);
   } catch (err) {
     return handleError(err);
   }
-}
+});
@@ -1,29 +1,39 @@
 // src/app/api/products/route.ts
-// GET /api/products -> list products
-// POST /api/products -> create a product
+// GET /api/products -> list products, one page at a time -> { items, nextCursor }
+//   Query: ?limit=&cursor=&sort=name|stock_quantity|updatedAt|createdAt&direction=asc|desc
+//          &namePrefix=&minStock=&maxStock=
+// POST /api/products -> create a product (honors an optional Idempotency-Key header)
 
 import { NextRequest, NextResponse } from 'next/server';
 import { listProducts, createProduct } from '../../../controllers/productController';
 import { handleError } from '../../../middlewares/errorHandler';
-import { validateBody } from '../../../middlewares/validateBody';
-import { productCreateSchema } from '../../../lib/validate';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { readJson, validateBody } from '../../../middlewares/validateBody';
+import { validateQuery } from '../../../middlewares/validateQuery';
+import { readIdempotencyKey } from '../../../middlewares/idempotency';
+import { productCreateSchema, productListQuerySchema } from '../../../lib/validate';
 
-export async function GET() {
+export const GET = instrumentRoute('/api/products', async (req: NextRequest) => {
   try {
-    const products = await listProducts();
-    return NextResponse.json(products);
+    await authorize(req, 'viewer');
+    const query = validateQuery(productListQuerySchema, req.nextUrl.searchParams);
+    const page = await listProducts(query);
+    return NextResponse.json(page);
   } catch (err) {
     return handleError(err);
   }
-}
+});
 
-export async function POST(req: NextRequest) {
+export const POST = instrumentRoute('/api/products', async (req: NextRequest) => {
   try {
-    const body = await req.json();
+    const principal = await authorize(req, 'manager');
+    const body = await readJson(req);
     const validated = validateBody(productCreateSchema, body);
-    const product = await createProduct(validated);
+    const idempotency = readIdempotencyKey(req, principal, 'products:create', validated);
+    const product = await createProduct(validated, { actor: principal.id }, idempotency);
     return NextResponse.json(product, { status: 201 });
   } catch (err) {
     return handleError(err);
   }
-}
+});
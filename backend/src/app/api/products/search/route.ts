@@ -0,0 +1,23 @@
+// src/app/api/products/search/route.ts
+// GET /api/products/search -> full-text product search, best matches first -> { items, total, nextCursor }
+//   Query: ?q=&categoryId=&tag=&stock=in_stock|low_stock|out_of_stock&limit=&cursor=
+// `q` matches name, description, SKU and tags (prefixes and small typos included).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { searchProducts } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { productSearchQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/products/search', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const query = validateQuery(productSearchQuerySchema, req.nextUrl.searchParams);
+    const results = await searchProducts(query);
+    return NextResponse.json(results);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,31 @@
+// src/app/api/products/stream/route.ts
+// GET /api/products/stream -> product change events as Server-Sent Events (text/event-stream)
+//   Events: product.created, product.updated, product.deleted, stock.changed, plus heartbeat and resync
+//   Query: ?productIds=a,b (only these products and their variants), ?lowStock=true
+//   Header: Last-Event-ID replays the events missed since that id (sent by EventSource on reconnect)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { streamProductEvents } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { productStreamQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/products/stream', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { productIds, lowStock } = validateQuery(productStreamQuerySchema, req.nextUrl.searchParams);
+    const stream = streamProductEvents({ productIds, lowStock, lastEventId: req.headers.get('last-event-id'), signal: req.signal });
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (err) {
+    return handleError(err);
+  }
+});
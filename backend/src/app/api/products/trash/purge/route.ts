@@ -0,0 +1,19 @@
+// src/app/api/products/trash/purge/route.ts
+// POST /api/products/trash/purge -> permanently remove products deleted more than
+// PRODUCT_TRASH_RETENTION_DAYS (default 30) days ago. Meant to be called by a cron job.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { purgeTrash } from '../../../../../controllers/productController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+export const POST = instrumentRoute('/api/products/trash/purge', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const result = await purgeTrash();
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
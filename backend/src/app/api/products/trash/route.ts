@@ -0,0 +1,22 @@
+// src/app/api/products/trash/route.ts
+// GET /api/products/trash -> deleted products, most recently deleted first
+// Query: ?limit=<1-200>&cursor=<nextCursor of the previous page>
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listTrash } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { trashListQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/products/trash', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const options = validateQuery(trashListQuerySchema, req.nextUrl.searchParams);
+    const page = await listTrash(options);
+    return NextResponse.json(page);
+  } catch (err) {
+    return handleError(err);
+  }
+});
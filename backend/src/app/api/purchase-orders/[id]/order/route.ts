@@ -0,0 +1,22 @@
+// src/app/api/purchase-orders/[id]/order/route.ts
+// POST /api/purchase-orders/:id/order -> mark a draft as sent to the supplier
+
+import { NextRequest, NextResponse } from 'next/server';
+import { markPurchaseOrderOrdered } from '../../../../../controllers/reorderController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/purchase-orders/:id/order', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const order = await markPurchaseOrderOrdered(id);
+    return NextResponse.json(order);
+  } catch (err) {
+    return handleError(err);
+  }
+});
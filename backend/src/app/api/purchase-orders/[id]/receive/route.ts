@@ -0,0 +1,27 @@
+// src/app/api/purchase-orders/[id]/receive/route.ts
+// POST /api/purchase-orders/:id/receive -> book every line into stock and mark the order received
+//   optional body: { reference } recorded on the receipt movements
+
+import { NextRequest, NextResponse } from 'next/server';
+import { receivePurchaseOrder } from '../../../../../controllers/reorderController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { purchaseOrderReceiveSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/purchase-orders/:id/receive', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id } = await context.params;
+    // The body is optional for this endpoint
+    const { reference } = validateBody(purchaseOrderReceiveSchema, await readJson(req, {}));
+    const order = await receivePurchaseOrder(id, { reference, actor: principal.id });
+    return NextResponse.json(order);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,37 @@
+// src/app/api/purchase-orders/[id]/route.ts
+// GET / PUT purchase order by ID (PUT only while the order is a draft)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPurchaseOrder, updatePurchaseOrder } from '../../../../controllers/reorderController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { purchaseOrderUpdateSchema } from '../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/purchase-orders/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const order = await getPurchaseOrder(id);
+    return NextResponse.json(order);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const PUT = instrumentRoute('/api/purchase-orders/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(purchaseOrderUpdateSchema, body);
+    const updated = await updatePurchaseOrder(id, validated);
+    return NextResponse.json(updated);
+  } catch (err) {
+    return handleError(err);
+  }
+});
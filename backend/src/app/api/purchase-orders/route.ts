@@ -0,0 +1,22 @@
+// src/app/api/purchase-orders/route.ts
+// GET /api/purchase-orders -> list purchase orders, newest first
+// Query: ?status=draft|ordered|received|cancelled
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listPurchaseOrders } from '../../../controllers/reorderController';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { validateQuery } from '../../../middlewares/validateQuery';
+import { purchaseOrderListQuerySchema } from '../../../lib/validate';
+
+export const GET = instrumentRoute('/api/purchase-orders', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { status } = validateQuery(purchaseOrderListQuerySchema, req.nextUrl.searchParams);
+    const orders = await listPurchaseOrders(status);
+    return NextResponse.json(orders);
+  } catch (err) {
+    return handleError(err);
+  }
+});
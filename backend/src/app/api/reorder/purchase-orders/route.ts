@@ -0,0 +1,23 @@
+// src/app/api/reorder/purchase-orders/route.ts
+// POST /api/reorder/purchase-orders -> draft purchase orders (one per supplier) from the suggestions
+//   optional body: { productIds?, supplier?, reference? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { draftPurchaseOrders } from '../../../../controllers/reorderController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { purchaseOrderDraftSchema } from '../../../../lib/validate';
+
+export const POST = instrumentRoute('/api/reorder/purchase-orders', async (req: NextRequest) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    // The body is optional for this endpoint
+    const validated = validateBody(purchaseOrderDraftSchema, await readJson(req, {}));
+    const drafts = await draftPurchaseOrders(validated, principal.id);
+    return NextResponse.json(drafts, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,23 @@
+// src/app/api/reorder/suggestions/route.ts
+// GET /api/reorder/suggestions -> products to reorder with suggested quantities
+// Query: ?supplier=<name> only products with this preferred supplier
+//        ?days=<n> consumption window in days (default 30)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listReorderSuggestions } from '../../../../controllers/reorderController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { reorderSuggestionQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/reorder/suggestions', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const options = validateQuery(reorderSuggestionQuerySchema, req.nextUrl.searchParams);
+    const items = await listReorderSuggestions(options);
+    return NextResponse.json(items);
+  } catch (err) {
+    return handleError(err);
+  }
+});
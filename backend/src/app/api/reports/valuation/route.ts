@@ -0,0 +1,23 @@
+// src/app/api/reports/valuation/route.ts
+// GET /api/reports/valuation -> { asOf, currency, total_quantity, total_value, items }
+//   Query: ?asOf= ISO timestamp or YYYY-MM-DD (end of that day UTC); default now
+// Amounts are integers in minor units of the currency (e.g. cents).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getInventoryValuation } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { validateQuery } from '../../../../middlewares/validateQuery';
+import { valuationQuerySchema } from '../../../../lib/validate';
+
+export const GET = instrumentRoute('/api/reports/valuation', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { asOf } = validateQuery(valuationQuerySchema, req.nextUrl.searchParams);
+    const report = await getInventoryValuation(asOf);
+    return NextResponse.json(report);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,27 @@
+// src/app/api/reservations/[id]/commit/route.ts
+// POST /api/reservations/:id/commit -> turn the hold into a stock decrease
+//   optional body: { locationId } to ship from a location
+
+import { NextRequest, NextResponse } from 'next/server';
+import { commitReservation } from '../../../../../controllers/reservationController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { reservationCommitSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/reservations/:id/commit', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id } = await context.params;
+    // The body is optional for this endpoint
+    const { locationId } = validateBody(reservationCommitSchema, await readJson(req, {}));
+    const reservation = await commitReservation(id, { actor: principal.id }, locationId);
+    return NextResponse.json(reservation);
+  } catch (err) {
+    return handleError(err);
+  }
+});
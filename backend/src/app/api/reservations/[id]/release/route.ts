@@ -0,0 +1,22 @@
+// src/app/api/reservations/[id]/release/route.ts
+// POST /api/reservations/:id/release -> give the held quantity back
+
+import { NextRequest, NextResponse } from 'next/server';
+import { releaseReservation } from '../../../../../controllers/reservationController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/reservations/:id/release', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'clerk');
+    const { id } = await context.params;
+    const reservation = await releaseReservation(id);
+    return NextResponse.json(reservation);
+  } catch (err) {
+    return handleError(err);
+  }
+});
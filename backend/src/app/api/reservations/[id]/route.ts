@@ -0,0 +1,22 @@
+// src/app/api/reservations/[id]/route.ts
+// GET /api/reservations/:id -> a single reservation
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getReservation } from '../../../../controllers/reservationController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/reservations/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const reservation = await getReservation(id);
+    return NextResponse.json(reservation);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,19 @@
+// src/app/api/reservations/sweep/route.ts
+// POST /api/reservations/sweep -> expire lapsed reservations now
+// The server also sweeps on a timer (see src/instrumentation.ts); this endpoint is for cron jobs.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { sweepReservations } from '../../../../controllers/reservationController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+
+export const POST = instrumentRoute('/api/reservations/sweep', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const result = await sweepReservations();
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
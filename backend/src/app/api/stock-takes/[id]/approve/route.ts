@@ -0,0 +1,27 @@
+// src/app/api/stock-takes/[id]/approve/route.ts
+// POST /api/stock-takes/:id/approve -> apply the counted variances to stock in one transaction
+//   optional body: { reference } recorded on the adjustment movements
+
+import { NextRequest, NextResponse } from 'next/server';
+import { approveStockTake } from '../../../../../controllers/stockTakeController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { stockTakeApproveSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/stock-takes/:id/approve', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'manager');
+    const { id } = await context.params;
+    // The body is optional for this endpoint
+    const { reference } = validateBody(stockTakeApproveSchema, await readJson(req, {}));
+    const take = await approveStockTake(id, { reference, actor: principal.id });
+    return NextResponse.json(take);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,22 @@
+// src/app/api/stock-takes/[id]/cancel/route.ts
+// POST /api/stock-takes/:id/cancel -> abandon an open stock take (stock is not touched)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { cancelStockTake } from '../../../../../controllers/stockTakeController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/stock-takes/:id/cancel', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const take = await cancelStockTake(id);
+    return NextResponse.json(take);
+  } catch (err) {
+    return handleError(err);
+  }
+});
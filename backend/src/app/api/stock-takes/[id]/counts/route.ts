@@ -0,0 +1,27 @@
+// src/app/api/stock-takes/[id]/counts/route.ts
+// POST /api/stock-takes/:id/counts -> record counts: { counts: [{ productId, counted_quantity }] }
+// Can be called several times while the stock take is open; a recount replaces the earlier count.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { recordCounts } from '../../../../../controllers/stockTakeController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../../middlewares/validateBody';
+import { stockTakeCountsSchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const POST = instrumentRoute('/api/stock-takes/:id/counts', async (req: NextRequest, context: Params) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const { counts } = validateBody(stockTakeCountsSchema, body);
+    const take = await recordCounts(id, counts, principal.id);
+    return NextResponse.json(take);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,22 @@
+// src/app/api/stock-takes/[id]/route.ts
+// GET /api/stock-takes/:id -> the stock take with its lines and counts
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getStockTake } from '../../../../controllers/stockTakeController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/stock-takes/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const take = await getStockTake(id);
+    return NextResponse.json(take);
+  } catch (err) {
+    return handleError(err);
+  }
+});
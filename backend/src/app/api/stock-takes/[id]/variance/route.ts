@@ -0,0 +1,22 @@
+// src/app/api/stock-takes/[id]/variance/route.ts
+// GET /api/stock-takes/:id/variance -> expected, counted and variance per line, with totals
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getVarianceReport } from '../../../../../controllers/stockTakeController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/stock-takes/:id/variance', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'viewer');
+    const { id } = await context.params;
+    const report = await getVarianceReport(id);
+    return NextResponse.json(report);
+  } catch (err) {
+    return handleError(err);
+  }
+});
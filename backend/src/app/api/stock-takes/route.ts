@@ -0,0 +1,35 @@
+// src/app/api/stock-takes/route.ts
+// GET  /api/stock-takes -> list stock takes, newest first (?status=open|approved|cancelled)
+// POST /api/stock-takes -> open a stock take: { productIds, reference? }
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listStockTakes, openStockTake } from '../../../controllers/stockTakeController';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { validateQuery } from '../../../middlewares/validateQuery';
+import { readJson, validateBody } from '../../../middlewares/validateBody';
+import { stockTakeCreateSchema, stockTakeListQuerySchema } from '../../../lib/validate';
+
+export const GET = instrumentRoute('/api/stock-takes', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'viewer');
+    const { status } = validateQuery(stockTakeListQuerySchema, req.nextUrl.searchParams);
+    const takes = await listStockTakes(status);
+    return NextResponse.json(takes);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/stock-takes', async (req: NextRequest) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const body = await readJson(req);
+    const validated = validateBody(stockTakeCreateSchema, body);
+    const take = await openStockTake(validated, principal.id);
+    return NextResponse.json(take, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,27 @@
+// src/app/api/stock/adjustments/route.ts
+// POST /api/stock/adjustments -> body: { lines: [{ productId | sku, delta }], reason?, reference? }
+// All lines are applied in one transaction; if any line fails nothing is applied.
+// Honors an optional Idempotency-Key header (retries replay the first result).
+
+import { NextRequest, NextResponse } from 'next/server';
+import { adjustStock } from '../../../../controllers/productController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { readIdempotencyKey } from '../../../../middlewares/idempotency';
+import { stockAdjustmentSchema } from '../../../../lib/validate';
+
+export const POST = instrumentRoute('/api/stock/adjustments', async (req: NextRequest) => {
+  try {
+    const principal = await authorize(req, 'clerk');
+    const body = await readJson(req);
+    const validated = validateBody(stockAdjustmentSchema, body);
+    const idempotency = readIdempotencyKey(req, principal, 'stock:adjustments', validated);
+    const { lines, ...meta } = validated;
+    const result = await adjustStock(lines, { ...meta, actor: principal.id }, idempotency);
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
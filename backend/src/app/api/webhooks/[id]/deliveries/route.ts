@@ -0,0 +1,26 @@
+// src/app/api/webhooks/[id]/deliveries/route.ts
+// GET /api/webhooks/:id/deliveries -> delivery log, newest first -> { items, nextCursor }
+//   Query: ?limit=&cursor=&status=pending|succeeded|failed
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listDeliveries } from '../../../../../controllers/webhookController';
+import { handleError } from '../../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../../middlewares/auth';
+import { validateQuery } from '../../../../../middlewares/validateQuery';
+import { deliveryListQuerySchema } from '../../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/webhooks/:id/deliveries', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const query = validateQuery(deliveryListQuerySchema, req.nextUrl.searchParams);
+    const page = await listDeliveries(id, query);
+    return NextResponse.json(page);
+  } catch (err) {
+    return handleError(err);
+  }
+});
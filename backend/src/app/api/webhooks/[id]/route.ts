@@ -0,0 +1,48 @@
+// src/app/api/webhooks/[id]/route.ts
+// GET / PUT / DELETE webhook subscription by ID
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSubscription, updateSubscription, deleteSubscription } from '../../../../controllers/webhookController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+import { readJson, validateBody } from '../../../../middlewares/validateBody';
+import { webhookUpdateSchema } from '../../../../lib/validate';
+
+type Params = {
+  params: Promise<{ id: string }>;
+};
+export const GET = instrumentRoute('/api/webhooks/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const subscription = await getSubscription(id);
+    return NextResponse.json(subscription);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const PUT = instrumentRoute('/api/webhooks/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const body = await readJson(req);
+    const validated = validateBody(webhookUpdateSchema, body);
+    const updated = await updateSubscription(id, validated);
+    return NextResponse.json(updated);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const DELETE = instrumentRoute('/api/webhooks/:id', async (req: NextRequest, context: Params) => {
+  try {
+    await authorize(req, 'manager');
+    const { id } = await context.params;
+    const deleted = await deleteSubscription(id);
+    return NextResponse.json(deleted);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,19 @@
+// src/app/api/webhooks/process/route.ts
+// POST /api/webhooks/process -> dispatch pending alerts and retry due deliveries now
+// The server also does this on a timer (see src/instrumentation.ts); this endpoint is for cron jobs.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { processQueue } from '../../../../controllers/webhookController';
+import { handleError } from '../../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../../middlewares/instrumentRoute';
+import { authorize } from '../../../../middlewares/auth';
+
+export const POST = instrumentRoute('/api/webhooks/process', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const result = await processQueue();
+    return NextResponse.json(result);
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,33 @@
+// src/app/api/webhooks/route.ts
+// GET /api/webhooks -> list webhook subscriptions (secrets are not included)
+// POST /api/webhooks -> register a subscription -> includes the signing `secret` (shown only once)
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listSubscriptions, createSubscription } from '../../../controllers/webhookController';
+import { handleError } from '../../../middlewares/errorHandler';
+import { instrumentRoute } from '../../../middlewares/instrumentRoute';
+import { authorize } from '../../../middlewares/auth';
+import { readJson, validateBody } from '../../../middlewares/validateBody';
+import { webhookCreateSchema } from '../../../lib/validate';
+
+export const GET = instrumentRoute('/api/webhooks', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const subscriptions = await listSubscriptions();
+    return NextResponse.json(subscriptions);
+  } catch (err) {
+    return handleError(err);
+  }
+});
+
+export const POST = instrumentRoute('/api/webhooks', async (req: NextRequest) => {
+  try {
+    await authorize(req, 'manager');
+    const body = await readJson(req);
+    const validated = validateBody(webhookCreateSchema, body);
+    const subscription = await createSubscription(validated);
+    return NextResponse.json(subscription, { status: 201 });
+  } catch (err) {
+    return handleError(err);
+  }
+});
@@ -0,0 +1,53 @@
+// src/controllers/categoryController.ts
+// Thin controller layer for product categories.
+// Keeps route handlers small and delegates the business rules to categoryService.
+
+import {
+  createCategory as svcCreate,
+  getCategory as svcGet,
+  listCategories as svcList,
+  updateCategory as svcUpdate,
+  deleteCategory as svcDelete,
+} from '../services/categoryService';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Create a category.
+ * - expects a validated payload with `name` (and `parentId` for a subcategory)
+ */
+export async function createCategory(payload: { name: string; parentId?: string | null; description?: string }) {
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcCreate(payload);
+}
+
+/**
+ * List all categories in tree order.
+ */
+export async function listCategories() {
+  return svcList();
+}
+
+/**
+ * Fetch a single category by its id.
+ */
+export async function getCategory(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing category id');
+  return svcGet(id);
+}
+
+/**
+ * Update (rename or move) a category.
+ */
+export async function updateCategory(id: string, updates: { name?: string; parentId?: string | null; description?: string }) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing category id');
+  if (!updates || typeof updates !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid updates');
+  return svcUpdate(id, updates);
+}
+
+/**
+ * Delete a category (only when it has no subcategories and no products).
+ */
+export async function deleteCategory(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing category id');
+  return svcDelete(id);
+}
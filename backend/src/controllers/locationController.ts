@@ -0,0 +1,108 @@
+// src/controllers/locationController.ts
+// Thin controller layer for locations (warehouses) and per-location stock.
+// Keeps route handlers small and delegates the business rules to locationService.
+
+import {
+  createLocation as svcCreate,
+  getLocation as svcGet,
+  listLocations as svcList,
+  updateLocation as svcUpdate,
+  deleteLocation as svcDelete,
+  listProductLocations as svcListProductLocations,
+  setLocationThreshold as svcSetThreshold,
+  transferStock as svcTransfer,
+  listLowStockByLocation as svcListLowStock,
+} from '../services/locationService';
+import { getProductById, resolveProductId } from '../services/productService';
+import { StockMovementMeta } from '../models/stockMovement';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Create a location.
+ * - expects a validated payload with `code` and `name`
+ */
+export async function createLocation(payload: { code: string; name: string; address?: string; active?: boolean }) {
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcCreate(payload);
+}
+
+/**
+ * List all locations.
+ */
+export async function listLocations() {
+  return svcList();
+}
+
+/**
+ * Fetch a single location by its id.
+ */
+export async function getLocation(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing location id');
+  return svcGet(id);
+}
+
+/**
+ * Update location details (partial).
+ */
+export async function updateLocation(
+  id: string,
+  updates: { code?: string; name?: string; address?: string; active?: boolean }
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing location id');
+  if (!updates || typeof updates !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid updates');
+  return svcUpdate(id, updates);
+}
+
+/**
+ * Delete a location (only when it holds no stock).
+ */
+export async function deleteLocation(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing location id');
+  return svcDelete(id);
+}
+
+/**
+ * List a product's stock per location.
+ * Throws 404 if the product does not exist.
+ */
+export async function listProductLocations(productId: string) {
+  if (!productId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  await getProductById(productId);
+  return svcListProductLocations(productId);
+}
+
+/**
+ * Set a product's low-stock threshold at a location (null clears it).
+ */
+export async function setProductLocationThreshold(productId: string, locationId: string, threshold: number | null) {
+  if (!productId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  if (!locationId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing location id');
+  return svcSetThreshold(productId, locationId, threshold);
+}
+
+/**
+ * Move stock of a product (by id or SKU) between two locations.
+ * - `amount` must be a positive integer
+ */
+export async function transferStock(
+  productId: string,
+  fromLocationId: string,
+  toLocationId: string,
+  amount: number,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext
+) {
+  if (!productId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be an integer > 0');
+  return svcTransfer(await resolveProductId(productId), fromLocationId, toLocationId, amount, meta, idempotency);
+}
+
+/**
+ * List per-location stock records below their threshold
+ * (one location when `locationId` is given, otherwise every location).
+ */
+export async function listLowStockByLocation(locationId?: string) {
+  if (locationId) await svcGet(locationId);
+  return svcListLowStock(locationId);
+}
@@ -7,89 +7,483 @@ import {
   createProduct as svcCreate,
   listProducts as svcList,
   getProductById as svcGetById,
+  getProductBySku as svcGetBySku,
+  getProductByBarcode as svcGetByBarcode,
+  resolveProductId as svcResolveId,
   updateProduct as svcUpdate,
   deleteProduct as svcDelete,
+  listTrash as svcListTrash,
+  restoreProduct as svcRestore,
+  purgeTrash as svcPurgeTrash,
+  createVariant as svcCreateVariant,
+  listVariants as svcListVariants,
+  getVariant as svcGetVariant,
+  resolveQuantity as svcResolveQuantity,
   increaseStock as svcIncrease,
   decreaseStock as svcDecrease,
   listLowStock as svcListLowStock,
+  listExpiringLots as svcListExpiringLots,
+  getInventoryValuation as svcGetValuation,
+  searchProducts as svcSearch,
+  applyStockAdjustments as svcApplyAdjustments,
+  importProducts as svcImport,
+  iterateProducts as svcIterate,
+  ImportOptions,
+  ListProductsOptions,
+  SearchProductsOptions,
+  StockAdjustmentLine,
 } from '../services/productService';
-import { Product } from '../models/product';
+import { listMovements as svcListMovements, ListMovementsOptions } from '../services/stockMovementService';
+import { adjustStockAtLocation as svcAdjustAtLocation } from '../services/locationService';
+import { Product, ProductInput, StockQuantity } from '../models/product';
+import { StockMovementMeta } from '../models/stockMovement';
+import { IdempotencyContext } from '../models/idempotencyRecord';
 import { HttpError } from '../utils/httpErrors';
+import { LotInput } from '../lib/lots';
+import { productsFromCsv, productCsvHeader, productToCsvRow } from '../lib/productCsv';
+import { heartbeatInterval, productEventsSince, subscribeProductEvents } from '../lib/productEvents';
+import { ProductEvent } from '../models/productEvent';
 
 /**
  * Create a new product.
- * - expects a validated payload with at least `name` and `stock_quantity`
+ * - expects a validated payload with at least `name` and `stock_quantity` (base units, or
+ *   `{ amount, unit }` in one of the units the payload declares)
  * - `description` and `low_stock_threshold` are optional
+ * - `meta` (typically the actor) is recorded on the opening-stock movement
+ * - `idempotency` (from the Idempotency-Key header) makes retries safe
  */
 export async function createProduct(payload: {
   name: string;
   description?: string;
-  stock_quantity: number;
+  stock_quantity: StockQuantity;
   low_stock_threshold?: number;
-  [k: string]: any;
-}): Promise<Product> {
+  [k: string]: unknown;
+}, meta: StockMovementMeta = {}, idempotency?: IdempotencyContext): Promise<Product> {
   // Basic safety check at the controller level
-  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'Invalid payload');
-  return svcCreate(payload);
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcCreate(payload, meta, idempotency);
 }
 
 /**
- * List products.
- * - accepts an optional `limit`
+ * List products one page at a time.
+ * - accepts pagination, sorting and filter options (see ListProductsOptions)
  */
-export async function listProducts(limit?: number): Promise<Product[]> {
-  return svcList(limit);
+export async function listProducts(options: ListProductsOptions = {}) {
+  return svcList(options);
+}
+
+/**
+ * Search products by text, category, tag and stock status (ranked, paginated).
+ */
+export async function searchProducts(options: SearchProductsOptions = {}) {
+  return svcSearch(options);
 }
 
 /**
  * Fetch a single product by its id.
  */
 export async function getProduct(id: string): Promise<Product> {
-  if (!id) throw new HttpError(400, 'Missing product id');
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
   return svcGetById(id);
 }
 
+/**
+ * Fetch a single product by its SKU (case-insensitive).
+ */
+export async function getProductBySku(sku: string): Promise<Product> {
+  if (!sku) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing SKU');
+  return svcGetBySku(sku);
+}
+
+/**
+ * Fetch a single product by one of its barcodes.
+ */
+export async function getProductByBarcode(code: string): Promise<Product> {
+  if (!code) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing barcode');
+  return svcGetByBarcode(code);
+}
+
 /**
  * Update product details.
  * - accepts partial updates (only the fields provided are changed)
+ * - `meta` describes the stock movement when stock_quantity changes
+ * - `ifMatch` (versions from the If-Match header) makes the update conditional (412 on mismatch)
+ */
+export async function updateProduct(
+  id: string,
+  updates: ProductInput,
+  meta: StockMovementMeta = {},
+  ifMatch?: number[]
+): Promise<Product> {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  if (!updates || typeof updates !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid updates');
+  return svcUpdate(id, updates, meta, ifMatch);
+}
+
+/**
+ * Move a product to the trash.
+ * - `ifMatch` (versions from the If-Match header) makes the delete conditional (412 on mismatch)
+ * - `actor` is recorded as `deletedBy`
+ */
+export async function deleteProduct(id: string, ifMatch?: number[], actor?: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  return svcDelete(id, ifMatch, actor);
+}
+
+/**
+ * List products in the trash, most recently deleted first (paginated).
+ */
+export async function listTrash(options: { limit?: number; cursor?: string } = {}) {
+  return svcListTrash(options);
+}
+
+/**
+ * Take a product out of the trash.
+ */
+export async function restoreProduct(id: string): Promise<Product> {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  return svcRestore(id);
+}
+
+/**
+ * Permanently remove products whose trash retention window has passed.
+ */
+export async function purgeTrash() {
+  return svcPurgeTrash();
+}
+
+/**
+ * Add a variant to a product.
+ * - expects a validated payload with `attributes` and `stock_quantity` (`name` defaults from the parent)
+ * - `meta` and `idempotency` work as for createProduct
+ */
+export async function createVariant(
+  parentId: string,
+  payload: ProductInput & { attributes: Record<string, string>; stock_quantity: StockQuantity },
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext
+): Promise<Product> {
+  if (!parentId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  return svcCreateVariant(parentId, payload, meta, idempotency);
+}
+
+/**
+ * List the variants of a product.
+ */
+export async function listVariants(parentId: string) {
+  if (!parentId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  return { items: await svcListVariants(parentId) };
+}
+
+/**
+ * Fetch one variant of a product (404 unless it belongs to that product).
+ */
+export async function getVariant(parentId: string, variantId: string): Promise<Product> {
+  if (!parentId || !variantId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product or variant id');
+  return svcGetVariant(parentId, variantId);
+}
+
+/**
+ * Update a variant of a product; same rules as updateProduct.
+ */
+export async function updateVariant(
+  parentId: string,
+  variantId: string,
+  updates: ProductInput,
+  meta: StockMovementMeta = {},
+  ifMatch?: number[]
+): Promise<Product> {
+  await getVariant(parentId, variantId);
+  return updateProduct(variantId, updates, meta, ifMatch);
+}
+
+/**
+ * Move a variant of a product to the trash; same rules as deleteProduct.
+ */
+export async function deleteVariant(parentId: string, variantId: string, ifMatch?: number[], actor?: string) {
+  await getVariant(parentId, variantId);
+  return svcDelete(variantId, ifMatch, actor);
+}
+
+/**
+ * Increase stock of a variant of a product; same rules as increaseStock.
+ */
+export async function increaseVariantStock(
+  parentId: string,
+  variantId: string,
+  amount: StockQuantity,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  locationId?: string,
+  lot?: LotInput,
+  unitCost?: number
+) {
+  await getVariant(parentId, variantId);
+  return increaseStock(variantId, amount, meta, idempotency, locationId, lot, unitCost);
+}
+
+/**
+ * Decrease stock of a variant of a product; same rules as decreaseStock.
+ */
+export async function decreaseVariantStock(
+  parentId: string,
+  variantId: string,
+  amount: StockQuantity,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  locationId?: string,
+  lotNumber?: string
+) {
+  await getVariant(parentId, variantId);
+  return decreaseStock(variantId, amount, meta, idempotency, locationId, lotNumber);
+}
+
+/**
+ * A stock amount in base units of the product (converted before any transaction). Throws 400
+ * unless it is a whole number of base units above 0.
  */
-export async function updateProduct(id: string, updates: Partial<Product>): Promise<Product> {
-  if (!id) throw new HttpError(400, 'Missing product id');
-  if (!updates || typeof updates !== 'object') throw new HttpError(400, 'Invalid updates');
-  return svcUpdate(id, updates);
+async function baseAmount(productId: string, quantity: StockQuantity): Promise<number> {
+  const amount = await svcResolveQuantity(productId, quantity);
+  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be an integer > 0');
+  return amount;
 }
 
 /**
- * Delete a product by id.
+ * Increase stock for a given product (by id or SKU).
+ * - `amount` is a positive number of base units, or `{ amount, unit }` in one of the product's
+ *   units; it must convert to a whole number of base units
+ * - `meta` is recorded on the movement (reason defaults to `receipt`)
+ * - `idempotency` (from the Idempotency-Key header) makes retries safe
+ * - `locationId` applies the change at a location; otherwise the unallocated stock changes
+ * - `lot` receives the units into a lot (lot number and optional expiry date)
+ * - `unitCost` values the units (minor currency units); defaults to the product's current unit cost
  */
-export async function deleteProduct(id: string) {
-  if (!id) throw new HttpError(400, 'Missing product id');
-  return svcDelete(id);
+export async function increaseStock(
+  id: string,
+  quantity: StockQuantity,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  locationId?: string,
+  lot?: LotInput,
+  unitCost?: number
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  const productId = await svcResolveId(id);
+  const amount = await baseAmount(productId, quantity);
+  if (locationId) return svcAdjustAtLocation(productId, locationId, amount, meta, idempotency, lot, unitCost);
+  return svcIncrease(productId, amount, meta, idempotency, lot, unitCost);
 }
 
 /**
- * Increase stock for a given product.
- * - `amount` must be a positive integer
+ * Decrease stock for a given product (by id or SKU).
+ * - `amount` is given as for increaseStock
+ * - `meta` is recorded on the movement (reason defaults to `sale`)
+ * - `idempotency` (from the Idempotency-Key header) makes retries safe
+ * - `locationId` applies the change at a location; otherwise the unallocated stock changes
+ * - `lotNumber` takes the units from that lot; otherwise lots are consumed first-expiry-first-out
  */
-export async function increaseStock(id: string, amount: number) {
-  if (!id) throw new HttpError(400, 'Missing product id');
-  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'amount must be an integer > 0');
-  return svcIncrease(id, amount);
+export async function decreaseStock(
+  id: string,
+  quantity: StockQuantity,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  locationId?: string,
+  lotNumber?: string
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  const productId = await svcResolveId(id);
+  const amount = await baseAmount(productId, quantity);
+  if (locationId) return svcAdjustAtLocation(productId, locationId, -amount, meta, idempotency, lotNumber ? { lotNumber } : undefined);
+  return svcDecrease(productId, amount, meta, idempotency, lotNumber);
 }
 
 /**
- * Decrease stock for a given product.
- * - `amount` must be a positive integer
+ * Apply a batch of stock adjustments all-or-nothing.
+ * - each line is `{ productId | sku, delta }` with a signed, non-zero integer delta
+ * - `meta` is recorded on every movement (reason defaults to `adjustment`)
  */
-export async function decreaseStock(id: string, amount: number) {
-  if (!id) throw new HttpError(400, 'Missing product id');
-  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'amount must be an integer > 0');
-  return svcDecrease(id, amount);
+export async function adjustStock(
+  lines: StockAdjustmentLine[],
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext
+) {
+  if (!Array.isArray(lines) || lines.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'lines must be a non-empty array');
+  return svcApplyAdjustments(lines, meta, idempotency);
 }
 
 /**
  * List products that are below their `low_stock_threshold`.
+ * - `basis` selects on-hand (default) or available (on hand minus reserved) quantity
+ */
+export async function listLowStock(basis: 'on_hand' | 'available' = 'on_hand') {
+  return svcListLowStock(basis);
+}
+
+/**
+ * List the lots expiring within `withinDays` days (default 30), expired lots included.
+ */
+export async function listExpiringLots(withinDays?: number) {
+  return { items: await svcListExpiringLots(withinDays) };
+}
+
+/**
+ * Value the stock on hand, now or as of `asOf` (ISO timestamp or YYYY-MM-DD date).
  */
-export async function listLowStock() {
-  return svcListLowStock();
+export async function getInventoryValuation(asOf?: string) {
+  return svcGetValuation(asOf);
+}
+
+/**
+ * List stock movements for a product (newest first, paginated).
+ * Throws 404 if the product does not exist.
+ */
+export async function listMovements(id: string, options: ListMovementsOptions = {}) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  await svcGetById(id);
+  return svcListMovements(id, options);
+}
+
+/**
+ * Import products from a CSV or JSON body.
+ * - `contentType` selects the parser: text/csv (header row first) or application/json
+ *   (an array of product objects)
+ * - `options` enables dry-run and upsert-by-SKU; `meta` (the actor) goes on the movements
+ * Throws 415 for other content types, 400 for a body that cannot be parsed.
+ */
+export async function importProducts(
+  body: string,
+  contentType: string | null,
+  options: ImportOptions = {},
+  meta: StockMovementMeta = {}
+) {
+  const mediaType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+  let rows: unknown;
+  if (mediaType === 'text/csv') {
+    rows = productsFromCsv(body);
+  } else if (mediaType === 'application/json') {
+    try {
+      rows = JSON.parse(body);
+    } catch {
+      throw new HttpError(400, 'MALFORMED_JSON', 'Invalid JSON body');
+    }
+    if (!Array.isArray(rows)) throw new HttpError(400, 'VALIDATION_FAILED', 'A JSON import must be an array of products');
+  } else {
+    throw new HttpError(415, 'UNSUPPORTED_MEDIA_TYPE', 'Imports must be sent as text/csv or application/json');
+  }
+  return svcImport(rows as unknown[], options, meta);
+}
+
+/**
+ * Stream the whole catalog as CSV (header row first) or as a JSON array.
+ * Products are read one page at a time while the client consumes the stream.
+ */
+export function exportProducts(format: 'csv' | 'json'): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const pages = svcIterate();
+  let first = true;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(format === 'csv' ? productCsvHeader() : '['));
+    },
+    async pull(controller) {
+      const { value: page, done } = await pages.next();
+      if (done) {
+        if (format === 'json') controller.enqueue(encoder.encode(first ? ']' : '\n]'));
+        controller.close();
+        return;
+      }
+      let chunk = '';
+      for (const product of page) {
+        if (format === 'csv') {
+          chunk += productToCsvRow(product);
+        } else {
+          chunk += `${first ? '\n' : ',\n'}${JSON.stringify(product)}`;
+          first = false;
+        }
+      }
+      controller.enqueue(encoder.encode(chunk));
+    },
+    async cancel() {
+      await pages.return(undefined);
+    },
+  });
+}
+
+/**
+ * Options of a product event stream.
+ * - productIds: only events of these products or of their variants
+ * - lowStock: only events of products that are, or just stopped being, below their threshold
+ * - lastEventId: the Last-Event-ID of a reconnecting client; missed events are replayed first
+ * - signal: closes the stream when aborted (the client went away)
+ */
+export interface ProductStreamOptions {
+  productIds?: string[];
+  lowStock?: boolean;
+  lastEventId?: string | null;
+  signal?: AbortSignal;
+}
+
+/**
+ * Events a client may fall behind by before its stream is closed; it reconnects with its
+ * Last-Event-ID and catches up from the event buffer.
+ */
+const MAX_STREAM_BACKLOG = 500;
+
+/**
+ * Stream product change events as Server-Sent Events.
+ * - each event is sent with its id, its type as the event name and the event as JSON data
+ * - a `heartbeat` event (without id) is sent every heartbeatInterval()
+ * - when `lastEventId` cannot be resumed from (unknown, or older than the buffer), a `resync`
+ *   event tells the client to reload what it shows before relying on the stream
+ */
+export function streamProductEvents(options: ProductStreamOptions = {}): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const ids = options.productIds ? new Set(options.productIds) : null;
+  const matches = (event: ProductEvent) =>
+    (!ids || ids.has(event.productId) || (event.parentId !== undefined && ids.has(event.parentId))) &&
+    (!options.lowStock || event.low_stock || event.was_low_stock);
+  let stop = () => {};
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: string, data: unknown, id?: string) => {
+        controller.enqueue(encoder.encode(`${id ? `id: ${id}\n` : ''}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
+      const deliver = (event: ProductEvent) => {
+        if (!matches(event)) return;
+        if ((controller.desiredSize ?? 0) < -MAX_STREAM_BACKLOG) {
+          stop();
+          controller.close();
+          return;
+        }
+        send(event.type, event, event.id);
+      };
+
+      // Publishing is synchronous, so nothing can be published between the replay and the subscription
+      controller.enqueue(encoder.encode(`retry: 3000\n\n`));
+      if (options.lastEventId) {
+        const missed = productEventsSince(options.lastEventId);
+        if (missed) missed.filter(matches).forEach((event) => send(event.type, event, event.id));
+        else send('resync', { reason: 'The events since Last-Event-ID are no longer available' });
+      }
+      const unsubscribe = subscribeProductEvents(deliver);
+      const heartbeat = setInterval(() => send('heartbeat', { at: new Date().toISOString() }), heartbeatInterval());
+      const onAbort = () => {
+        stop();
+        controller.close();
+      };
+      stop = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        options.signal?.removeEventListener('abort', onAbort);
+        stop = () => {};
+      };
+      if (options.signal?.aborted) onAbort();
+      else options.signal?.addEventListener('abort', onAbort);
+    },
+    cancel() {
+      stop();
+    },
+  });
 }
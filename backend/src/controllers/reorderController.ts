@@ -0,0 +1,88 @@
+// src/controllers/reorderController.ts
+// Thin controller layer for reorder suggestions and purchase orders.
+// Keeps route handlers small and delegates the business rules to reorderService.
+
+import {
+  listReorderSuggestions as svcListSuggestions,
+  draftPurchaseOrders as svcDraft,
+  getPurchaseOrder as svcGet,
+  listPurchaseOrders as svcList,
+  updatePurchaseOrder as svcUpdate,
+  markPurchaseOrderOrdered as svcMarkOrdered,
+  cancelPurchaseOrder as svcCancel,
+  receivePurchaseOrder as svcReceive,
+  ReorderSuggestionOptions,
+} from '../services/reorderService';
+import { PurchaseOrderStatus } from '../models/purchaseOrder';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * List what to order now (see ReorderSuggestionOptions for filters).
+ */
+export async function listReorderSuggestions(options: ReorderSuggestionOptions = {}) {
+  return svcListSuggestions(options);
+}
+
+/**
+ * Draft purchase orders (one per supplier) from the current suggestions.
+ * - `actor` is the authenticated caller
+ */
+export async function draftPurchaseOrders(
+  payload: { productIds?: string[]; supplier?: string; reference?: string },
+  actor?: string
+) {
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcDraft(payload, { actor });
+}
+
+/**
+ * List purchase orders (optionally filtered by status).
+ */
+export async function listPurchaseOrders(status?: PurchaseOrderStatus) {
+  return svcList(status);
+}
+
+/**
+ * Fetch a single purchase order by its id.
+ */
+export async function getPurchaseOrder(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing purchase order id');
+  return svcGet(id);
+}
+
+/**
+ * Edit a draft purchase order (partial).
+ */
+export async function updatePurchaseOrder(
+  id: string,
+  updates: { lines?: { productId: string; quantity: number; unit_cost?: number }[]; supplier?: string; reference?: string }
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing purchase order id');
+  if (!updates || typeof updates !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid updates');
+  return svcUpdate(id, updates);
+}
+
+/**
+ * Mark a draft purchase order as sent to the supplier.
+ */
+export async function markPurchaseOrderOrdered(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing purchase order id');
+  return svcMarkOrdered(id);
+}
+
+/**
+ * Cancel a purchase order that has not been received.
+ */
+export async function cancelPurchaseOrder(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing purchase order id');
+  return svcCancel(id);
+}
+
+/**
+ * Receive a purchase order into stock.
+ * - `meta.reference` overrides the reference recorded on the receipt movements
+ */
+export async function receivePurchaseOrder(id: string, meta: { reference?: string; actor?: string } = {}) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing purchase order id');
+  return svcReceive(id, meta);
+}
@@ -0,0 +1,78 @@
+// src/controllers/reservationController.ts
+// Thin controller layer for stock reservations (holds on stock for pending orders).
+// Keeps route handlers small and delegates the business rules to reservationService.
+
+import {
+  createReservation as svcCreate,
+  getReservation as svcGet,
+  listReservations as svcList,
+  commitReservation as svcCommit,
+  releaseReservation as svcRelease,
+  sweepExpiredReservations as svcSweep,
+  DEFAULT_TTL_SECONDS,
+} from '../services/reservationService';
+import { getProductById, resolveProductId } from '../services/productService';
+import { ReservationStatus } from '../models/reservation';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Hold stock on a product (by id or SKU).
+ * - `quantity` must be a positive integer
+ * - `ttlSeconds` defaults to 15 minutes
+ */
+export async function createReservation(
+  productId: string,
+  payload: { quantity: number; ttlSeconds?: number; reference?: string; actor?: string },
+  idempotency?: IdempotencyContext
+) {
+  if (!productId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  const { quantity, ttlSeconds = DEFAULT_TTL_SECONDS, reference, actor } = payload;
+  return svcCreate(await resolveProductId(productId), quantity, ttlSeconds, { reference, actor }, idempotency);
+}
+
+/**
+ * List reservations for a product (optionally filtered by status).
+ * Throws 404 if the product does not exist.
+ */
+export async function listReservations(productId: string, status?: ReservationStatus) {
+  if (!productId) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing product id');
+  await getProductById(productId);
+  return svcList(productId, status);
+}
+
+/**
+ * Fetch a single reservation by its id.
+ */
+export async function getReservation(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing reservation id');
+  return svcGet(id);
+}
+
+/**
+ * Commit a reservation (turn the hold into a real stock decrease).
+ * - `locationId` ships the goods from that location
+ */
+export async function commitReservation(
+  id: string,
+  meta: { reference?: string; actor?: string } = {},
+  locationId?: string
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing reservation id');
+  return svcCommit(id, meta, locationId);
+}
+
+/**
+ * Release a reservation (give the held quantity back).
+ */
+export async function releaseReservation(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing reservation id');
+  return svcRelease(id);
+}
+
+/**
+ * Expire all lapsed reservations.
+ */
+export async function sweepReservations() {
+  return svcSweep();
+}
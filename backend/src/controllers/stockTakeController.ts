@@ -0,0 +1,71 @@
+// src/controllers/stockTakeController.ts
+// Thin controller layer for stock takes (cycle counts).
+// Keeps route handlers small and delegates the business rules to stockTakeService.
+
+import {
+  openStockTake as svcOpen,
+  getStockTake as svcGet,
+  listStockTakes as svcList,
+  recordCounts as svcRecordCounts,
+  getVarianceReport as svcVarianceReport,
+  approveStockTake as svcApprove,
+  cancelStockTake as svcCancel,
+} from '../services/stockTakeService';
+import { StockTakeStatus } from '../models/stockTake';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Open a stock take for a set of products.
+ * - `actor` is the authenticated caller
+ */
+export async function openStockTake(payload: { productIds: string[]; reference?: string }, actor?: string) {
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcOpen(payload.productIds, { reference: payload.reference, actor });
+}
+
+/**
+ * List stock takes (optionally filtered by status).
+ */
+export async function listStockTakes(status?: StockTakeStatus) {
+  return svcList(status);
+}
+
+/**
+ * Fetch a single stock take by its id.
+ */
+export async function getStockTake(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing stock take id');
+  return svcGet(id);
+}
+
+/**
+ * Record counted quantities on an open stock take.
+ */
+export async function recordCounts(id: string, counts: { productId: string; counted_quantity: number }[], actor?: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing stock take id');
+  return svcRecordCounts(id, counts, actor);
+}
+
+/**
+ * Variance of every line of a stock take.
+ */
+export async function getVarianceReport(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing stock take id');
+  return svcVarianceReport(id);
+}
+
+/**
+ * Apply the counted variances of an open stock take to stock.
+ */
+export async function approveStockTake(id: string, meta: { reference?: string; actor?: string } = {}) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing stock take id');
+  return svcApprove(id, meta);
+}
+
+/**
+ * Cancel an open stock take.
+ */
+export async function cancelStockTake(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing stock take id');
+  return svcCancel(id);
+}
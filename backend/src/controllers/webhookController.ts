@@ -0,0 +1,77 @@
+// src/controllers/webhookController.ts
+// Thin controller layer for webhook subscriptions (low-stock alert notifications).
+// Keeps route handlers small and delegates the business rules to webhookService.
+
+import {
+  createSubscription as svcCreate,
+  getSubscription as svcGet,
+  listSubscriptions as svcList,
+  updateSubscription as svcUpdate,
+  deleteSubscription as svcDelete,
+  listDeliveries as svcListDeliveries,
+  processWebhookQueue as svcProcessQueue,
+  ListDeliveriesOptions,
+} from '../services/webhookService';
+import { AlertType } from '../models/stockAlert';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Register a subscription.
+ * - expects a validated payload with `url`
+ * - the response includes the signing secret; it is not returned again
+ */
+export async function createSubscription(payload: { url: string; events?: AlertType[]; description?: string; active?: boolean }) {
+  if (!payload || typeof payload !== 'object') throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  return svcCreate(payload);
+}
+
+/**
+ * List all subscriptions.
+ */
+export async function listSubscriptions() {
+  return svcList();
+}
+
+/**
+ * Fetch a single subscription by its id.
+ */
+export async function getSubscription(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing subscription id');
+  return svcGet(id);
+}
+
+/**
+ * Update a subscription (partial).
+ */
+export async function updateSubscription(
+  id: string,
+  updates: { url?: string; events?: AlertType[]; description?: string; active?: boolean }
+) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing subscription id');
+  return svcUpdate(id, updates);
+}
+
+/**
+ * Delete a subscription by id.
+ */
+export async function deleteSubscription(id: string) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing subscription id');
+  return svcDelete(id);
+}
+
+/**
+ * List the delivery log of a subscription (newest first, paginated).
+ * Throws 404 if the subscription does not exist.
+ */
+export async function listDeliveries(id: string, options: ListDeliveriesOptions = {}) {
+  if (!id) throw new HttpError(400, 'VALIDATION_FAILED', 'Missing subscription id');
+  await svcGet(id);
+  return svcListDeliveries(id, options);
+}
+
+/**
+ * Dispatch pending alerts and retry due deliveries now.
+ */
+export async function processQueue() {
+  return svcProcessQueue();
+}
@@ -0,0 +1,46 @@
+// src/instrumentation.ts
+// Next.js calls `register` once when a server instance starts.
+// We use it to sweep expired stock reservations and to retry webhook deliveries on timers.
+//
+// Environment:
+//   - RESERVATION_SWEEP_INTERVAL_MS: sweep interval (default 60000, 0 disables the timer)
+//   - WEBHOOK_RETRY_INTERVAL_MS: webhook queue interval (default 30000, 0 disables the timer)
+
+function intervalFromEnv(name: string, fallback: number): number | null {
+  const interval = Number(process.env[name] ?? fallback);
+  return Number.isFinite(interval) && interval > 0 ? interval : null;
+}
+
+export async function register() {
+  // Firestore (firebase-admin) only runs in the Node.js runtime
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { logger } = await import('./lib/logger');
+
+  const sweepInterval = intervalFromEnv('RESERVATION_SWEEP_INTERVAL_MS', 60_000);
+  if (sweepInterval) {
+    const { sweepExpiredReservations } = await import('./services/reservationService');
+    const timer = setInterval(() => {
+      sweepExpiredReservations()
+        .then(({ expired }) => {
+          if (expired > 0) logger.info('Expired stock reservations swept', { expired });
+        })
+        .catch((err) => logger.error('Reservation sweep failed', { err: String(err) }));
+    }, sweepInterval);
+    // Do not keep the process alive just for the sweeper
+    timer.unref();
+  }
+
+  const webhookInterval = intervalFromEnv('WEBHOOK_RETRY_INTERVAL_MS', 30_000);
+  if (webhookInterval) {
+    const { processWebhookQueue } = await import('./services/webhookService');
+    const timer = setInterval(() => {
+      processWebhookQueue()
+        .then(({ dispatched, attempted }) => {
+          if (dispatched > 0 || attempted > 0) logger.info('Webhook queue processed', { dispatched, attempted });
+        })
+        .catch((err) => logger.error('Webhook queue run failed', { err: String(err) }));
+    }, webhookInterval);
+    timer.unref();
+  }
+}
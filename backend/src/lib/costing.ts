@@ -0,0 +1,167 @@
+// src/lib/costing.ts
+// Inventory valuation on a product document.
+// Every amount is an integer in minor units (cents) of one currency, INVENTORY_CURRENCY.
+// A product stores the value of its stock on hand (`inventory_value`) and is costed either
+// FIFO (`cost_layers`: the receipts still on hand, oldest first) or at weighted-average cost.
+// Every stock change goes through costAfterChange, so the stored value and the value recorded
+// on its movement always agree.
+//
+// Rounding: FIFO values are exact (whole layers at integer unit costs). Under average cost a
+// decrease takes inventory_value * amount / stock rounded to the nearest minor unit (halves up),
+// and the last units out take whatever value is left, so the value never drifts from the stock.
+// The unit_cost shown for an average-cost product is inventory_value / stock rounded the same way.
+
+import { CostingMethod, CostLayer, Product } from '../models/product';
+import { MovementCost } from '../models/stockMovement';
+
+/**
+ * Costing fields of a product, as stored.
+ */
+export type CostState = Pick<Product, 'costing_method' | 'inventory_value' | 'unit_cost' | 'cost_layers'>;
+
+/**
+ * Costing fields to write after a stock change (cost_layers only for FIFO products).
+ */
+export interface CostFields {
+  costing_method: CostingMethod;
+  inventory_value: number;
+  unit_cost: number;
+  cost_layers?: CostLayer[];
+}
+
+/**
+ * Currency of every amount (INVENTORY_CURRENCY, an ISO 4217 code; default USD).
+ */
+export function inventoryCurrency(): string {
+  const code = (process.env.INVENTORY_CURRENCY ?? '').trim().toUpperCase();
+  return /^[A-Z]{3}$/.test(code) ? code : 'USD';
+}
+
+/**
+ * Round a non-negative amount to the nearest minor unit, halves up.
+ */
+function roundMinor(amount: number): number {
+  return Math.floor(amount + 0.5);
+}
+
+/**
+ * Unit cost of `quantity` units worth `value` in total, rounded to the minor unit (null for none).
+ */
+export function averageUnitCost(value: number, quantity: number): number | null {
+  return quantity > 0 ? roundMinor(value / quantity) : null;
+}
+
+function methodOf(state: CostState): CostingMethod {
+  return state.costing_method ?? 'average';
+}
+
+/**
+ * FIFO layers covering `stock` units. Stock that no layer accounts for (held before the product
+ * was costed) comes first, at no cost.
+ */
+function layersOf(state: CostState, stock: number, now: string): CostLayer[] {
+  const layers = state.cost_layers ?? [];
+  const missing = stock - layers.reduce((sum, layer) => sum + layer.quantity, 0);
+  return missing > 0 ? [{ quantity: missing, unit_cost: 0, receivedAt: now }, ...layers] : layers;
+}
+
+function valueOf(layers: CostLayer[]): number {
+  return layers.reduce((sum, layer) => sum + layer.quantity * layer.unit_cost, 0);
+}
+
+/**
+ * Costing fields and movement value for a stock change of `delta` units on a product holding
+ * `stock` units:
+ * - an increase is valued at `unitCost`, or at the product's current unit cost when none is given
+ *   (FIFO adds a layer, merged into the newest one at the same cost)
+ * - a decrease takes its cost of goods out of the oldest layers (FIFO) or at the average cost
+ * - no change (e.g. a transfer) only reports the current value
+ */
+export function costAfterChange(
+  state: CostState,
+  stock: number,
+  delta: number,
+  now: string,
+  unitCost?: number
+): { fields: CostFields; movement: MovementCost } {
+  const method = methodOf(state);
+  const value = state.inventory_value ?? 0;
+  const current = state.unit_cost ?? 0;
+
+  if (method === 'fifo') {
+    const layers = layersOf(state, stock, now).map((layer) => ({ ...layer }));
+    if (delta > 0) {
+      const cost = unitCost ?? current;
+      const newest = layers[layers.length - 1];
+      if (newest && newest.unit_cost === cost) newest.quantity += delta;
+      else layers.push({ quantity: delta, unit_cost: cost, receivedAt: now });
+    } else {
+      let left = -delta;
+      for (const layer of layers) {
+        const taken = Math.min(left, layer.quantity);
+        layer.quantity -= taken;
+        left -= taken;
+      }
+    }
+    const remaining = layers.filter((layer) => layer.quantity > 0);
+    const after = valueOf(remaining);
+    return {
+      fields: { costing_method: method, inventory_value: after, unit_cost: delta > 0 ? (unitCost ?? current) : current, cost_layers: remaining },
+      movement: { ...(delta > 0 ? { unit_cost: unitCost ?? current } : {}), value_delta: after - value, value_after: after },
+    };
+  }
+
+  // Layers left over from a FIFO period are cleared
+  const cleared = state.cost_layers?.length ? { cost_layers: [] } : {};
+  if (delta === 0) {
+    return { fields: { costing_method: method, inventory_value: value, unit_cost: current, ...cleared }, movement: { value_delta: 0, value_after: value } };
+  }
+  if (delta > 0) {
+    const cost = unitCost ?? current;
+    const after = value + delta * cost;
+    return {
+      fields: { costing_method: method, inventory_value: after, unit_cost: roundMinor(after / (stock + delta)), ...cleared },
+      movement: { unit_cost: cost, value_delta: after - value, value_after: after },
+    };
+  }
+  const taken = -delta >= stock ? value : roundMinor((value * -delta) / stock);
+  return {
+    fields: { costing_method: method, inventory_value: value - taken, unit_cost: current, ...cleared },
+    movement: { value_delta: -taken, value_after: value - taken },
+  };
+}
+
+/**
+ * Costing fields of a new product holding `stock` units received at `unitCost` (default 0).
+ */
+export function openingCost(method: CostingMethod | undefined, stock: number, unitCost: number | undefined, now: string): CostFields {
+  return costAfterChange({ costing_method: method ?? 'average', unit_cost: unitCost ?? 0 }, 0, stock, now).fields;
+}
+
+/**
+ * Movement value of a new product's opening stock (see openingCost).
+ */
+export function openingMovementCost(product: CostState): MovementCost {
+  const value = product.inventory_value ?? 0;
+  return { unit_cost: product.unit_cost ?? 0, value_delta: value, value_after: value };
+}
+
+/**
+ * Costing fields after switching a product holding `stock` units to another method; the value of
+ * the stock is kept. Switching to FIFO starts from layers at the average cost: when the value
+ * does not divide evenly, some units carry one minor unit more, so the layers add up exactly.
+ */
+export function switchCostingMethod(state: CostState, stock: number, method: CostingMethod, now: string): CostFields {
+  const value = state.inventory_value ?? 0;
+  if (method === methodOf(state)) return costAfterChange(state, stock, 0, now).fields;
+  if (method === 'average') {
+    return { costing_method: method, inventory_value: value, unit_cost: stock > 0 ? roundMinor(value / stock) : state.unit_cost ?? 0, cost_layers: [] };
+  }
+  const base = stock > 0 ? Math.floor(value / stock) : 0;
+  const extra = stock > 0 ? value - base * stock : 0;
+  const layers = [
+    { quantity: stock - extra, unit_cost: base, receivedAt: now },
+    { quantity: extra, unit_cost: base + 1, receivedAt: now },
+  ].filter((layer) => layer.quantity > 0);
+  return { costing_method: method, inventory_value: value, unit_cost: state.unit_cost ?? 0, cost_layers: layers };
+}
@@ -0,0 +1,66 @@
+// src/lib/csv.ts
+// Minimal RFC 4180 CSV reading and writing (comma separated, double-quote escaping).
+// Used by the product catalog import / export; kept dependency-free on purpose.
+
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Parse CSV text into rows of cells.
+ * - fields may be quoted; `""` inside a quoted field is a literal quote
+ * - quoted fields may contain commas and line breaks
+ * - LF and CRLF line endings are accepted, a leading byte order mark is ignored
+ * - blank lines are skipped
+ * Throws 400 if a quoted field is never closed.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch !== '"') field += ch;
+      else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else quoted = false;
+    } else if (ch === '"' && field === '') quoted = true;
+    else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n') endRow();
+    else if (ch === '\r' && text[i + 1] === '\n') {
+      endRow();
+      i++;
+    } else field += ch;
+  }
+  if (quoted) throw new HttpError(400, 'INVALID_CSV', 'Invalid CSV: unterminated quoted field');
+  if (field !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+/**
+ * Format one CSV line (with trailing CRLF). Null / undefined become empty cells;
+ * cells containing a comma, quote or line break are quoted.
+ */
+export function formatCsvRow(cells: (string | number | boolean | null | undefined)[]): string {
+  return (
+    cells
+      .map((cell) => {
+        if (cell === null || cell === undefined) return '';
+        const text = String(cell);
+        return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+      })
+      .join(',') + '\r\n'
+  );
+}
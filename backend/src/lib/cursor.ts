@@ -0,0 +1,36 @@
+// src/lib/cursor.ts
+// Opaque pagination cursors.
+// A cursor carries the sort value and document id of the last item on a page,
+// which is exactly what Firestore's `startAfter` needs to resume the query.
+// Clients must treat the string as opaque; its format may change.
+
+import { HttpError } from '../utils/httpErrors';
+
+export interface CursorPayload {
+  v: string | number | null; // value of the sort field on the last item
+  id: string;                // document id of the last item (tie-breaker)
+  s?: string;                // sort the cursor was issued for (when the caller can choose)
+}
+
+/**
+ * Encode a cursor payload as a URL-safe base64 string.
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by `encodeCursor`.
+ * Throws 400 if the cursor is malformed.
+ */
+export function decodeCursor(cursor: string): CursorPayload {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (!parsed || typeof parsed !== 'object' || typeof parsed.id !== 'string' || !('v' in parsed)) {
+      throw new Error('bad cursor');
+    }
+    return { v: parsed.v, id: parsed.id, ...(typeof parsed.s === 'string' ? { s: parsed.s } : {}) };
+  } catch {
+    throw new HttpError(400, 'INVALID_CURSOR', 'Invalid cursor');
+  }
+}
@@ -1,52 +1,74 @@
 // src/lib/logger.ts
 // A tiny wrapper around console logging so we don’t scatter console.log calls everywhere.
-// This makes it easy to later swap in a proper logger like pino or winston
-// without having to rewrite the entire codebase.
+// Every line is one JSON object (easy to ship to Cloud Logging, Loki, etc.):
+//   { "time": "...", "level": "info", "msg": "...", "requestId": "...", ...meta }
+//
+// Environment:
+//   - LOG_LEVEL: lowest level written (debug, info, warn, error; default info)
+
+import { getRequestContext } from './requestContext';
 
 type LogLevel = 'debug' | 'info' | 'warn' | 'error';
 
+const LEVELS: readonly LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+function enabled(level: LogLevel): boolean {
+  const configured = (process.env.LOG_LEVEL ?? 'info').toLowerCase() as LogLevel;
+  const threshold = LEVELS.includes(configured) ? LEVELS.indexOf(configured) : LEVELS.indexOf('info');
+  return LEVELS.indexOf(level) >= threshold;
+}
+
 /**
- * Format log output consistently.
- * - Adds a timestamp
- * - Uppercases the log level
- * - Handles optional metadata (stringified if it’s an object)
+ * Errors do not survive JSON.stringify, so keep their name, message and stack.
  */
-function format(level: LogLevel, message: string, meta?: any) {
-  const ts = new Date().toISOString();
-  const base = `[${ts}] [${level.toUpperCase()}]`;
+function serializable(value: unknown): unknown {
+  if (value instanceof Error) return { name: value.name, message: value.message, stack: value.stack };
+  return value;
+}
 
+/**
+ * Format one log line.
+ * - Adds a timestamp and the level
+ * - Adds the request id (and route) when called while a request is being handled
+ * - Object metadata is merged into the line; anything else goes under `meta`
+ */
+function format(level: LogLevel, message: string, meta?: unknown) {
+  const context = getRequestContext();
+  const line: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...(context ? { requestId: context.requestId, method: context.method, route: context.route } : {}),
+  };
   if (meta !== undefined) {
-    try {
-      // Ensure metadata is logged safely and compactly
-      const m = typeof meta === 'string' ? meta : JSON.stringify(meta);
-      return `${base} ${message} — ${m}`;
-    } catch {
-      return `${base} ${message} — (meta)`;
+    if (meta !== null && typeof meta === 'object' && !Array.isArray(meta) && !(meta instanceof Error)) {
+      for (const [key, value] of Object.entries(meta)) line[key] = serializable(value);
+    } else {
+      line.meta = serializable(meta);
     }
   }
-  return `${base} ${message}`;
+  try {
+    return JSON.stringify(line);
+  } catch {
+    // Circular metadata: keep the line, drop the metadata
+    return JSON.stringify({ time: line.time, level, msg: message, requestId: context?.requestId, meta: '(unserializable)' });
+  }
 }
 
 /**
  * Logger object with different log levels.
- * For now, it just wraps console methods, but you can expand it later.
  */
 export const logger = {
-  debug: (msg: string, meta?: any) => {
-    // You could enable/disable debug logs via an environment variable
-    // eslint-disable-next-line no-console
-    console.debug(format('debug', msg, meta));
+  debug: (msg: string, meta?: unknown) => {
+    if (enabled('debug')) console.debug(format('debug', msg, meta));
   },
-  info: (msg: string, meta?: any) => {
-    // eslint-disable-next-line no-console
-    console.info(format('info', msg, meta));
+  info: (msg: string, meta?: unknown) => {
+    if (enabled('info')) console.info(format('info', msg, meta));
   },
-  warn: (msg: string, meta?: any) => {
-    // eslint-disable-next-line no-console
-    console.warn(format('warn', msg, meta));
+  warn: (msg: string, meta?: unknown) => {
+    if (enabled('warn')) console.warn(format('warn', msg, meta));
   },
-  error: (msg: string, meta?: any) => {
-    // eslint-disable-next-line no-console
-    console.error(format('error', msg, meta));
+  error: (msg: string, meta?: unknown) => {
+    if (enabled('error')) console.error(format('error', msg, meta));
   },
 };
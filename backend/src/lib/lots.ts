@@ -0,0 +1,172 @@
+// src/lib/lots.ts
+// Lot (batch) bookkeeping on a product document.
+// Lots are stored on the product itself (`lots`), so every stock write that already reads the
+// product keeps them in step without extra reads. The units in lots never exceed stock_quantity;
+// the rest of the stock is untracked (received without a lot number).
+// A lot is expired once its expiry date has passed: its units stay on hand until they are
+// written off, but they cannot be sold.
+
+import { ProductLot } from '../models/product';
+import { MovementLot, MovementReason } from '../models/stockMovement';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Lot number and (optional) expiry date of a receipt.
+ */
+export interface LotInput {
+  lotNumber: string;
+  expiresAt?: string | null;
+}
+
+/**
+ * Today's date (UTC) as YYYY-MM-DD, the format of expiry dates.
+ */
+export function today(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * A lot expires at the end of its expiry date.
+ */
+export function isExpired(lot: ProductLot, day: string): boolean {
+  return lot.expiresAt !== null && lot.expiresAt < day;
+}
+
+/**
+ * Units in expired lots on `day` (these are on hand but not sellable).
+ */
+export function expiredQuantity(lots: ProductLot[] | undefined, day: string = today()): number {
+  return (lots ?? []).reduce((sum, lot) => sum + (isExpired(lot, day) ? lot.quantity : 0), 0);
+}
+
+/**
+ * Lot fields to store with a product: the lots themselves and the earliest expiry date among
+ * them (null when no lot expires), which the expiring report queries on.
+ */
+export function lotFields(lots: ProductLot[]): { lots: ProductLot[]; next_expiry: string | null } {
+  const expiries = lots.map((lot) => lot.expiresAt).filter((d): d is string => d !== null).sort();
+  return { lots, next_expiry: expiries[0] ?? null };
+}
+
+/**
+ * Add `amount` units to a lot, creating it on first receipt.
+ * Throws 409 if the lot exists with a different expiry date.
+ */
+export function receiveIntoLot(lots: ProductLot[] | undefined, input: LotInput, amount: number, now: string): ProductLot[] {
+  const expiresAt = input.expiresAt ?? null;
+  const existing = (lots ?? []).find((lot) => lot.lotNumber === input.lotNumber);
+  if (!existing) return [...(lots ?? []), { lotNumber: input.lotNumber, expiresAt, quantity: amount, receivedAt: now }];
+  if (input.expiresAt !== undefined && expiresAt !== existing.expiresAt) {
+    throw new HttpError(409, 'LOT_EXPIRY_MISMATCH', `Lot ${input.lotNumber} already expires on ${existing.expiresAt ?? 'no date'}`);
+  }
+  return (lots ?? []).map((lot) => (lot === existing ? { ...lot, quantity: lot.quantity + amount } : lot));
+}
+
+/**
+ * Order in which lots are consumed: first expiry first out (lots without an expiry date last,
+ * oldest receipt first among equals).
+ */
+function fefo(a: ProductLot, b: ProductLot): number {
+  if (a.expiresAt !== b.expiresAt) {
+    if (a.expiresAt === null) return 1;
+    if (b.expiresAt === null) return -1;
+    return a.expiresAt < b.expiresAt ? -1 : 1;
+  }
+  return a.receivedAt.localeCompare(b.receivedAt);
+}
+
+/**
+ * Take `amount` units out of a product holding `stock` units in total.
+ * - with `lotNumber`, only that lot is used (404 if it does not exist, 400 if it is short);
+ *   an expired lot can only be written off (`includeExpired`), otherwise 409
+ * - otherwise sellable lots are consumed first-expiry-first-out, then untracked stock, and,
+ *   with `includeExpired`, expired lots last; 400 if that is not enough
+ * Empty lots are dropped. Returns the remaining lots and the (negative) change per lot.
+ */
+export function consumeLots(
+  lots: ProductLot[] | undefined,
+  stock: number,
+  amount: number,
+  day: string,
+  options: { lotNumber?: string; includeExpired?: boolean } = {}
+): { lots: ProductLot[]; consumed: MovementLot[] } {
+  const remaining = new Map((lots ?? []).map((lot) => [lot.lotNumber, lot.quantity]));
+  const consumed: MovementLot[] = [];
+  const take = (lot: ProductLot, quantity: number) => {
+    remaining.set(lot.lotNumber, (remaining.get(lot.lotNumber) as number) - quantity);
+    consumed.push({ lotNumber: lot.lotNumber, delta: -quantity });
+  };
+
+  if (options.lotNumber !== undefined) {
+    const lot = (lots ?? []).find((l) => l.lotNumber === options.lotNumber);
+    if (!lot) throw new HttpError(404, 'LOT_NOT_FOUND', `Lot ${options.lotNumber} not found`);
+    if (isExpired(lot, day) && !options.includeExpired) {
+      throw new HttpError(409, 'LOT_EXPIRED', `Lot ${lot.lotNumber} expired on ${lot.expiresAt}; it can only be written off`);
+    }
+    if (lot.quantity < amount) throw new HttpError(400, 'INSUFFICIENT_STOCK', `Insufficient stock in lot ${lot.lotNumber}`);
+    take(lot, amount);
+  } else {
+    const sorted = [...(lots ?? [])].sort(fefo);
+    const sellable = sorted.filter((lot) => !isExpired(lot, day));
+    const expired = sorted.filter((lot) => isExpired(lot, day));
+    let left = amount;
+    for (const lot of sellable) {
+      if (left === 0) break;
+      const quantity = Math.min(left, lot.quantity);
+      if (quantity > 0) take(lot, quantity);
+      left -= quantity;
+    }
+    const untracked = stock - (lots ?? []).reduce((sum, lot) => sum + lot.quantity, 0);
+    left -= Math.min(left, Math.max(0, untracked));
+    for (const lot of options.includeExpired ? expired : []) {
+      if (left === 0) break;
+      const quantity = Math.min(left, lot.quantity);
+      if (quantity > 0) take(lot, quantity);
+      left -= quantity;
+    }
+    if (left > 0) throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Insufficient stock');
+  }
+
+  return {
+    lots: (lots ?? [])
+      .map((lot) => ({ ...lot, quantity: remaining.get(lot.lotNumber) as number }))
+      .filter((lot) => lot.quantity > 0),
+    consumed,
+  };
+}
+
+/**
+ * Lot changes for a decrease that names no lot (bulk adjustments, updates, imports, commits):
+ * lots are consumed as by consumeLots with expired lots as a last resort, so the lots never hold
+ * more than the remaining stock. Nothing is written for a product without lots.
+ */
+export function lotsAfterDecrease(
+  lots: ProductLot[] | undefined,
+  stock: number,
+  amount: number,
+  day: string = today()
+): { fields: Partial<ReturnType<typeof lotFields>>; consumed: MovementLot[] } {
+  if (!lots || lots.length === 0 || amount <= 0) return { fields: {}, consumed: [] };
+  const result = consumeLots(lots, stock, amount, day, { includeExpired: true });
+  return { fields: lotFields(result.lots), consumed: result.consumed };
+}
+
+/**
+ * Lot changes for a decrease through the stock endpoints (decreaseStock and decreases at a
+ * location): consumeLots without expired lots, unless `lotNumber` names an expired lot and the
+ * reason is not `sale`, which writes it off. A write-off does not touch sellable stock, so the
+ * caller skips its reservation check for it.
+ */
+export function lotsForDecrease(
+  lots: ProductLot[] | undefined,
+  stock: number,
+  amount: number,
+  reason: MovementReason,
+  lotNumber?: string,
+  day: string = today()
+): { fields: Partial<ReturnType<typeof lotFields>>; consumed: MovementLot[]; writeOff: boolean } {
+  const lot = lots?.find((l) => l.lotNumber === lotNumber);
+  const writeOff = lot !== undefined && isExpired(lot, day) && reason !== 'sale';
+  const result = consumeLots(lots, stock, amount, day, { lotNumber, includeExpired: writeOff });
+  return { fields: lots?.length ? lotFields(result.lots) : {}, consumed: result.consumed, writeOff };
+}
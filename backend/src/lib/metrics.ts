@@ -0,0 +1,135 @@
+// src/lib/metrics.ts
+// In-process metrics, exposed in the Prometheus text format by GET /api/metrics.
+// Values live in memory, so each server instance reports its own numbers (Prometheus
+// aggregates across instances); they reset when the process restarts.
+
+import { HttpError } from '../utils/httpErrors';
+
+type Labels = Record<string, string>;
+
+/**
+ * Upper bounds (seconds) of the request duration histogram buckets.
+ */
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels) {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+class Counter {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels, by: number = 1) {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, value: 0 };
+    entry.value += by;
+    this.series.set(key, entry);
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+    for (const { labels, value } of this.series.values()) lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    return lines;
+  }
+}
+
+class Histogram {
+  private readonly series = new Map<string, { labels: Labels; buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly bounds: number[]) {}
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    const entry = this.series.get(key) ?? { labels, buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) entry.buckets[i] += 1;
+    });
+    entry.sum += value;
+    entry.count += 1;
+    this.series.set(key, entry);
+  }
+
+  reset() {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    for (const { labels, buckets, sum, count } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+const httpRequests = new Counter('http_requests_total', 'HTTP requests handled, by route, method and status code.');
+const httpErrors = new Counter(
+  'http_request_errors_total',
+  'HTTP requests that ended in an error, by route, method and kind (client = 4xx, server = 5xx).'
+);
+const httpDuration = new Histogram(
+  'http_request_duration_seconds',
+  'Time spent handling HTTP requests, by route and method.',
+  DURATION_BUCKETS
+);
+const stockOperations = new Counter(
+  'stock_operations_total',
+  'Stock operations, by operation and outcome (success, rejected = refused with a 4xx, error).'
+);
+
+const REGISTRY = [httpRequests, httpErrors, httpDuration, stockOperations];
+
+/**
+ * Record one handled HTTP request. `route` is the route pattern (e.g. /api/products/:id)
+ * so ids do not end up in label values.
+ */
+export function recordRequest(route: string, method: string, status: number, durationSeconds: number) {
+  httpRequests.inc({ route, method, status: String(status) });
+  if (status >= 400) httpErrors.inc({ route, method, kind: status >= 500 ? 'server' : 'client' });
+  httpDuration.observe({ route, method }, durationSeconds);
+}
+
+/**
+ * Run a stock operation and count it by outcome. The result (or error) is passed through.
+ */
+export async function trackStockOperation<T>(operation: string, work: () => Promise<T>): Promise<T> {
+  try {
+    const result = await work();
+    stockOperations.inc({ operation, outcome: 'success' });
+    return result;
+  } catch (err) {
+    const rejected = err instanceof HttpError && err.status < 500;
+    stockOperations.inc({ operation, outcome: rejected ? 'rejected' : 'error' });
+    throw err;
+  }
+}
+
+/**
+ * All metrics in the Prometheus text exposition format (version 0.0.4).
+ */
+export function renderMetrics(): string {
+  return REGISTRY.flatMap((metric) => metric.render()).join('\n') + '\n';
+}
+
+/**
+ * Clear every metric (tests only).
+ */
+export function resetMetrics() {
+  for (const metric of REGISTRY) metric.reset();
+}
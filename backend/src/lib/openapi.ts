@@ -0,0 +1,867 @@
+// src/lib/openapi.ts
+// OpenAPI 3.1 description of the HTTP API, served by GET /api/openapi.json.
+// Request bodies and query parameters are generated from the Zod schemas in ./validate, so the
+// spec cannot drift from what the handlers accept. Every route under src/app/api needs an entry
+// in API_OPERATIONS (src/tests/openapi.test.ts fails otherwise).
+
+import { z } from 'zod';
+import { Role } from '../models/principal';
+import { ERROR_CODES } from '../utils/httpErrors';
+import {
+  categoryCreateSchema,
+  categoryUpdateSchema,
+  deliveryListQuerySchema,
+  expiringLotsQuerySchema,
+  locationCreateSchema,
+  locationStockSettingsSchema,
+  locationUpdateSchema,
+  lowStockQuerySchema,
+  movementListQuerySchema,
+  productCreateSchema,
+  productExportQuerySchema,
+  productStreamQuerySchema,
+  productImportQuerySchema,
+  productListQuerySchema,
+  productSearchQuerySchema,
+  productUpdateSchema,
+  purchaseOrderDraftSchema,
+  purchaseOrderListQuerySchema,
+  purchaseOrderReceiveSchema,
+  purchaseOrderUpdateSchema,
+  reorderSuggestionQuerySchema,
+  reservationCommitSchema,
+  reservationCreateSchema,
+  reservationListQuerySchema,
+  stockAdjustmentSchema,
+  stockAmountSchema,
+  stockReceiptSchema,
+  stockTakeApproveSchema,
+  stockTakeCountsSchema,
+  stockTakeCreateSchema,
+  stockTakeListQuerySchema,
+  stockTransferSchema,
+  trashListQuerySchema,
+  valuationQuerySchema,
+  variantCreateSchema,
+  webhookCreateSchema,
+  webhookUpdateSchema,
+} from './validate';
+import { RATE_LIMIT_EXEMPT_ROUTES } from './rateLimit';
+
+type JsonSchema = Record<string, unknown>;
+
+/**
+ * One operation of the API.
+ * - path: route pattern as passed to instrumentRoute, e.g. /api/products/:id
+ * - role: minimum role (see src/middlewares/auth.ts); omitted for public endpoints
+ * - query / body: the schemas the handler validates with; `bodyOptional` when an empty body is accepted
+ * - idempotent: honors an Idempotency-Key header
+ * - conditional: honors If-None-Match (GET) or If-Match (PUT / DELETE)
+ * - response: success status, description and (optionally) a component schema name
+ */
+export interface ApiOperation {
+  method: 'get' | 'post' | 'put' | 'delete';
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  role?: Role;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  bodyOptional?: boolean;
+  idempotent?: boolean;
+  conditional?: boolean;
+  response: { status: number; description: string; schema?: string; contentType?: string };
+}
+
+/**
+ * Product as returned by the API (stored fields plus computed availability).
+ */
+const productSchema = productCreateSchema.extend({
+  id: z.string(),
+  barcodes: z.array(z.string()),
+  stock_quantity: z.number().int(),
+  reserved_quantity: z.number().int(),
+  allocated_quantity: z.number().int().optional(),
+  available_quantity: z.number().int(),
+  version: z.number().int(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  deletedAt: z.string().nullable().optional(),
+  deletedBy: z.string().nullable().optional(),
+  parentId: z.string().optional(),
+  attributes: z.record(z.string(), z.string()).optional(),
+  variant_count: z.number().int().optional(),
+  lots: z
+    .array(z.object({ lotNumber: z.string(), expiresAt: z.string().nullable(), quantity: z.number().int(), receivedAt: z.string() }))
+    .optional(),
+  next_expiry: z.string().nullable().optional(),
+  expired_quantity: z.number().int().optional(),
+  variants_version: z.number().int().optional(),
+  inventory_value: z.number().int().optional(),
+  cost_layers: z.array(z.object({ quantity: z.number().int(), unit_cost: z.number().int(), receivedAt: z.string() })).optional(),
+});
+
+const productPageSchema = z.object({ items: z.array(productSchema), nextCursor: z.string().nullable() });
+
+const problemSchema = z.object({
+  type: z.string(),
+  title: z.string(),
+  status: z.number().int(),
+  detail: z.string(),
+  code: z.enum(ERROR_CODES),
+  requestId: z.string().optional(),
+  errors: z.array(z.object({ path: z.string(), message: z.string(), code: z.string() })).optional(),
+});
+
+const COMPONENT_SCHEMAS: Record<string, z.ZodType> = {
+  Product: productSchema,
+  ProductPage: productPageSchema,
+  Problem: problemSchema,
+};
+
+export const API_OPERATIONS: ApiOperation[] = [
+  // Service
+  { method: 'get', path: '/api/health', tag: 'Service', summary: 'Health check', response: { status: 200, description: '`{ ok, timestamp }`' } },
+  {
+    method: 'get',
+    path: '/api/openapi.json',
+    tag: 'Service',
+    summary: 'This OpenAPI document',
+    response: { status: 200, description: 'OpenAPI 3.1 document' },
+  },
+  {
+    method: 'get',
+    path: '/api/metrics',
+    tag: 'Service',
+    summary: 'Prometheus metrics',
+    role: 'viewer',
+    response: { status: 200, description: 'Metrics in the Prometheus text format', contentType: 'text/plain' },
+  },
+
+  // Products
+  {
+    method: 'get',
+    path: '/api/products',
+    tag: 'Products',
+    summary: 'List products (paginated)',
+    role: 'viewer',
+    query: productListQuerySchema,
+    response: { status: 200, description: 'One page of products', schema: 'ProductPage' },
+  },
+  {
+    method: 'post',
+    path: '/api/products',
+    tag: 'Products',
+    summary: 'Create a product',
+    role: 'manager',
+    body: productCreateSchema,
+    idempotent: true,
+    response: { status: 201, description: 'The created product', schema: 'Product' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/:id',
+    tag: 'Products',
+    summary: 'Get a product',
+    description: 'Returns the version as an ETag; answers 304 when If-None-Match matches.',
+    role: 'viewer',
+    conditional: true,
+    response: { status: 200, description: 'The product', schema: 'Product' },
+  },
+  {
+    method: 'put',
+    path: '/api/products/:id',
+    tag: 'Products',
+    summary: 'Update a product',
+    description: 'A changed stock_quantity is recorded as a movement. With If-Match, a stale version returns 412.',
+    role: 'manager',
+    body: productUpdateSchema,
+    conditional: true,
+    response: { status: 200, description: 'The updated product', schema: 'Product' },
+  },
+  {
+    method: 'delete',
+    path: '/api/products/:id',
+    tag: 'Products',
+    summary: 'Move a product to the trash',
+    role: 'manager',
+    conditional: true,
+    response: { status: 200, description: '`{ id, deletedAt }`' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/by-sku/:sku',
+    tag: 'Products',
+    summary: 'Get a product by SKU (case-insensitive)',
+    role: 'viewer',
+    response: { status: 200, description: 'The product', schema: 'Product' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/by-barcode/:code',
+    tag: 'Products',
+    summary: 'Get a product by barcode',
+    role: 'viewer',
+    response: { status: 200, description: 'The product', schema: 'Product' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/search',
+    tag: 'Products',
+    summary: 'Search products',
+    description:
+      '`q` matches name, description, SKU and tags (every term must match, by prefix or with a small typo); results are ranked by relevance.',
+    role: 'viewer',
+    query: productSearchQuerySchema,
+    response: { status: 200, description: '`{ items, total, nextCursor }`' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/low-stock',
+    tag: 'Products',
+    summary: 'Products below their low-stock threshold',
+    role: 'viewer',
+    query: lowStockQuerySchema,
+    response: { status: 200, description: 'Products (or per-location stock records with locationId / scope=location)' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/expiring',
+    tag: 'Products',
+    summary: 'Lots expiring within a number of days',
+    description: 'Lots that have already expired are listed too (`expired: true`) until they are written off.',
+    role: 'viewer',
+    query: expiringLotsQuerySchema,
+    response: { status: 200, description: '`{ items }` with one entry per lot, soonest expiry first' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/import',
+    tag: 'Products',
+    summary: 'Import products from CSV or JSON',
+    description: 'Send text/csv (header row first, barcodes separated by "|") or a JSON array of products.',
+    role: 'manager',
+    query: productImportQuerySchema,
+    body: z.array(productCreateSchema),
+    response: { status: 200, description: '`{ dryRun, total, created, updated, failed, errors }`' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/export',
+    tag: 'Products',
+    summary: 'Download the catalog as CSV or JSON',
+    role: 'viewer',
+    query: productExportQuerySchema,
+    response: { status: 200, description: 'The whole catalog (streamed)' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/stream',
+    tag: 'Products',
+    summary: 'Stream product changes as Server-Sent Events',
+    description:
+      'Sends product.created, product.updated, product.deleted and stock.changed events as writes commit, ' +
+      'with a heartbeat event every 15 seconds. A Last-Event-ID header replays the events missed since that id; ' +
+      'when they are no longer buffered, a resync event is sent instead.',
+    role: 'viewer',
+    query: productStreamQuerySchema,
+    response: { status: 200, description: 'An open event stream', contentType: 'text/event-stream' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/trash',
+    tag: 'Products',
+    summary: 'List deleted products (paginated)',
+    role: 'manager',
+    query: trashListQuerySchema,
+    response: { status: 200, description: 'One page of deleted products', schema: 'ProductPage' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/trash/purge',
+    tag: 'Products',
+    summary: 'Permanently remove products past the trash retention window',
+    role: 'manager',
+    response: { status: 200, description: '`{ purged }` with the removed ids' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/restore',
+    tag: 'Products',
+    summary: 'Restore a product from the trash',
+    role: 'manager',
+    response: { status: 200, description: 'The restored product', schema: 'Product' },
+  },
+
+  // Variants
+  {
+    method: 'get',
+    path: '/api/products/:id/variants',
+    tag: 'Variants',
+    summary: "List a product's variants",
+    role: 'viewer',
+    response: { status: 200, description: '`{ items }` with the variants, oldest first' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/variants',
+    tag: 'Variants',
+    summary: 'Add a variant to a product',
+    description:
+      'The variant is a product of its own with `parentId` and `attributes`; the parent then reports the totals of its variants and its stock can only change through them.',
+    role: 'manager',
+    body: variantCreateSchema,
+    idempotent: true,
+    response: { status: 201, description: 'The created variant', schema: 'Product' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/:id/variants/:variantId',
+    tag: 'Variants',
+    summary: 'Get a variant',
+    role: 'viewer',
+    conditional: true,
+    response: { status: 200, description: 'The variant', schema: 'Product' },
+  },
+  {
+    method: 'put',
+    path: '/api/products/:id/variants/:variantId',
+    tag: 'Variants',
+    summary: 'Update a variant',
+    description: 'Same rules as updating a product; attributes cannot be changed.',
+    role: 'manager',
+    body: productUpdateSchema,
+    conditional: true,
+    response: { status: 200, description: 'The updated variant', schema: 'Product' },
+  },
+  {
+    method: 'delete',
+    path: '/api/products/:id/variants/:variantId',
+    tag: 'Variants',
+    summary: 'Move a variant to the trash',
+    role: 'manager',
+    conditional: true,
+    response: { status: 200, description: '`{ id, deletedAt }`' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/variants/:variantId/increase',
+    tag: 'Variants',
+    summary: 'Increase stock of a variant',
+    role: 'clerk',
+    body: stockReceiptSchema,
+    idempotent: true,
+    response: { status: 200, description: '`{ id, stock_quantity }` (plus the location quantity with locationId)' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/variants/:variantId/decrease',
+    tag: 'Variants',
+    summary: 'Decrease stock of a variant',
+    role: 'clerk',
+    body: stockAmountSchema,
+    idempotent: true,
+    response: { status: 200, description: '`{ id, stock_quantity }` (plus the location quantity with locationId)' },
+  },
+
+  // Stock
+  {
+    method: 'post',
+    path: '/api/products/:id/increase',
+    tag: 'Stock',
+    summary: 'Increase stock',
+    description:
+      ':id may also be the product SKU. With lotNumber (and expiresAt) the units are received into that lot. unitCost (minor currency units per base unit) values the units; it defaults to the current unit cost. amount may name a unit of the product (unit); it must convert to whole base units.',
+    role: 'clerk',
+    body: stockReceiptSchema,
+    idempotent: true,
+    response: { status: 200, description: '`{ id, stock_quantity }` (plus the location quantity with locationId)' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/decrease',
+    tag: 'Stock',
+    summary: 'Decrease stock',
+    description:
+      ':id may also be the product SKU. amount may name a unit of the product (unit); it must convert to whole base units. Lots are consumed first-expiry-first-out unless lotNumber names one; expired lots cannot be sold.',
+    role: 'clerk',
+    body: stockAmountSchema,
+    idempotent: true,
+    response: { status: 200, description: '`{ id, stock_quantity }` (plus the location quantity with locationId)' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/transfer',
+    tag: 'Stock',
+    summary: 'Move stock between two locations',
+    role: 'clerk',
+    body: stockTransferSchema,
+    idempotent: true,
+    response: { status: 200, description: 'Quantities at both locations after the move' },
+  },
+  {
+    method: 'post',
+    path: '/api/stock/adjustments',
+    tag: 'Stock',
+    summary: 'Apply many stock adjustments atomically',
+    role: 'clerk',
+    body: stockAdjustmentSchema,
+    idempotent: true,
+    response: { status: 200, description: '`{ results }` with before / after quantities per line' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/:id/movements',
+    tag: 'Stock',
+    summary: 'Stock movement history (paginated)',
+    role: 'viewer',
+    query: movementListQuerySchema,
+    response: { status: 200, description: '`{ items, nextCursor }`' },
+  },
+
+  // Reports
+  {
+    method: 'get',
+    path: '/api/reports/valuation',
+    tag: 'Reports',
+    summary: 'Inventory value per product and in total',
+    description:
+      'Amounts are integers in minor units of the configured currency. With asOf, quantities and values are taken from the movement history.',
+    role: 'viewer',
+    query: valuationQuerySchema,
+    response: { status: 200, description: '`{ asOf, currency, total_quantity, total_value, items }`, most valuable first' },
+  },
+
+  // Locations
+  { method: 'get', path: '/api/locations', tag: 'Locations', summary: 'List locations', role: 'viewer', response: { status: 200, description: 'Locations by code' } },
+  {
+    method: 'post',
+    path: '/api/locations',
+    tag: 'Locations',
+    summary: 'Create a location',
+    role: 'manager',
+    body: locationCreateSchema,
+    response: { status: 201, description: 'The created location' },
+  },
+  { method: 'get', path: '/api/locations/:id', tag: 'Locations', summary: 'Get a location', role: 'viewer', response: { status: 200, description: 'The location' } },
+  {
+    method: 'put',
+    path: '/api/locations/:id',
+    tag: 'Locations',
+    summary: 'Update a location',
+    role: 'manager',
+    body: locationUpdateSchema,
+    response: { status: 200, description: 'The updated location' },
+  },
+  {
+    method: 'delete',
+    path: '/api/locations/:id',
+    tag: 'Locations',
+    summary: 'Delete an empty location',
+    role: 'manager',
+    response: { status: 200, description: '`{ id }`' },
+  },
+  {
+    method: 'get',
+    path: '/api/products/:id/locations',
+    tag: 'Locations',
+    summary: 'Stock of a product per location',
+    role: 'viewer',
+    response: { status: 200, description: 'Per-location stock records' },
+  },
+  {
+    method: 'put',
+    path: '/api/products/:id/locations/:locationId',
+    tag: 'Locations',
+    summary: 'Set the low-stock threshold of a product at a location',
+    role: 'manager',
+    body: locationStockSettingsSchema,
+    response: { status: 200, description: 'The per-location stock record' },
+  },
+
+  // Categories
+  {
+    method: 'get',
+    path: '/api/categories',
+    tag: 'Categories',
+    summary: 'List categories',
+    role: 'viewer',
+    response: { status: 200, description: 'Categories in tree order, each with its `path`' },
+  },
+  {
+    method: 'post',
+    path: '/api/categories',
+    tag: 'Categories',
+    summary: 'Create a category',
+    role: 'manager',
+    body: categoryCreateSchema,
+    response: { status: 201, description: 'The created category' },
+  },
+  { method: 'get', path: '/api/categories/:id', tag: 'Categories', summary: 'Get a category', role: 'viewer', response: { status: 200, description: 'The category' } },
+  {
+    method: 'put',
+    path: '/api/categories/:id',
+    tag: 'Categories',
+    summary: 'Rename or move a category',
+    role: 'manager',
+    body: categoryUpdateSchema,
+    response: { status: 200, description: 'The updated category' },
+  },
+  {
+    method: 'delete',
+    path: '/api/categories/:id',
+    tag: 'Categories',
+    summary: 'Delete an empty category',
+    role: 'manager',
+    response: { status: 200, description: '`{ id }`' },
+  },
+
+  // Reservations
+  {
+    method: 'get',
+    path: '/api/products/:id/reservations',
+    tag: 'Reservations',
+    summary: 'Reservations of a product',
+    role: 'viewer',
+    query: reservationListQuerySchema,
+    response: { status: 200, description: 'Reservations, newest first' },
+  },
+  {
+    method: 'post',
+    path: '/api/products/:id/reservations',
+    tag: 'Reservations',
+    summary: 'Hold stock for a limited time',
+    role: 'clerk',
+    body: reservationCreateSchema,
+    idempotent: true,
+    response: { status: 201, description: 'The reservation' },
+  },
+  { method: 'get', path: '/api/reservations/:id', tag: 'Reservations', summary: 'Get a reservation', role: 'viewer', response: { status: 200, description: 'The reservation' } },
+  {
+    method: 'post',
+    path: '/api/reservations/:id/commit',
+    tag: 'Reservations',
+    summary: 'Turn a hold into a stock decrease',
+    role: 'clerk',
+    body: reservationCommitSchema,
+    bodyOptional: true,
+    response: { status: 200, description: 'The committed reservation' },
+  },
+  {
+    method: 'post',
+    path: '/api/reservations/:id/release',
+    tag: 'Reservations',
+    summary: 'Release a hold',
+    role: 'clerk',
+    response: { status: 200, description: 'The released reservation' },
+  },
+  {
+    method: 'post',
+    path: '/api/reservations/sweep',
+    tag: 'Reservations',
+    summary: 'Expire lapsed reservations now',
+    role: 'manager',
+    response: { status: 200, description: '`{ expired }`' },
+  },
+
+  // Reordering
+  {
+    method: 'get',
+    path: '/api/reorder/suggestions',
+    tag: 'Reordering',
+    summary: 'Products to reorder with suggested quantities',
+    role: 'viewer',
+    query: reorderSuggestionQuerySchema,
+    response: { status: 200, description: 'Reorder suggestions' },
+  },
+  {
+    method: 'post',
+    path: '/api/reorder/purchase-orders',
+    tag: 'Reordering',
+    summary: 'Draft purchase orders from the suggestions',
+    role: 'manager',
+    body: purchaseOrderDraftSchema,
+    bodyOptional: true,
+    response: { status: 201, description: 'The drafted purchase orders (one per supplier)' },
+  },
+  {
+    method: 'get',
+    path: '/api/purchase-orders',
+    tag: 'Reordering',
+    summary: 'List purchase orders',
+    role: 'viewer',
+    query: purchaseOrderListQuerySchema,
+    response: { status: 200, description: 'Purchase orders, newest first' },
+  },
+  { method: 'get', path: '/api/purchase-orders/:id', tag: 'Reordering', summary: 'Get a purchase order', role: 'viewer', response: { status: 200, description: 'The purchase order' } },
+  {
+    method: 'put',
+    path: '/api/purchase-orders/:id',
+    tag: 'Reordering',
+    summary: 'Edit a draft purchase order',
+    role: 'manager',
+    body: purchaseOrderUpdateSchema,
+    response: { status: 200, description: 'The updated purchase order' },
+  },
+  {
+    method: 'post',
+    path: '/api/purchase-orders/:id/order',
+    tag: 'Reordering',
+    summary: 'Mark a draft as ordered',
+    role: 'manager',
+    response: { status: 200, description: 'The purchase order' },
+  },
+  {
+    method: 'post',
+    path: '/api/purchase-orders/:id/cancel',
+    tag: 'Reordering',
+    summary: 'Cancel a purchase order',
+    role: 'manager',
+    response: { status: 200, description: 'The purchase order' },
+  },
+  {
+    method: 'post',
+    path: '/api/purchase-orders/:id/receive',
+    tag: 'Reordering',
+    summary: 'Receive a purchase order into stock',
+    role: 'clerk',
+    body: purchaseOrderReceiveSchema,
+    bodyOptional: true,
+    response: { status: 200, description: 'The received purchase order' },
+  },
+
+  // Stock takes
+  {
+    method: 'get',
+    path: '/api/stock-takes',
+    tag: 'Stock takes',
+    summary: 'List stock takes',
+    role: 'viewer',
+    query: stockTakeListQuerySchema,
+    response: { status: 200, description: 'Stock takes, newest first' },
+  },
+  {
+    method: 'post',
+    path: '/api/stock-takes',
+    tag: 'Stock takes',
+    summary: 'Open a stock take',
+    description: "Freezes each product's stock_quantity as its expected quantity.",
+    role: 'clerk',
+    body: stockTakeCreateSchema,
+    response: { status: 201, description: 'The open stock take' },
+  },
+  { method: 'get', path: '/api/stock-takes/:id', tag: 'Stock takes', summary: 'Get a stock take', role: 'viewer', response: { status: 200, description: 'The stock take' } },
+  {
+    method: 'post',
+    path: '/api/stock-takes/:id/counts',
+    tag: 'Stock takes',
+    summary: 'Record counted quantities',
+    description: 'A product counted again keeps the latest count.',
+    role: 'clerk',
+    body: stockTakeCountsSchema,
+    response: { status: 200, description: 'The stock take' },
+  },
+  {
+    method: 'get',
+    path: '/api/stock-takes/:id/variance',
+    tag: 'Stock takes',
+    summary: 'Variance report',
+    role: 'viewer',
+    response: { status: 200, description: '`{ id, status, lines, counted_lines, uncounted_lines, net_variance }`' },
+  },
+  {
+    method: 'post',
+    path: '/api/stock-takes/:id/approve',
+    tag: 'Stock takes',
+    summary: 'Apply the counted variances to stock',
+    description: 'All-or-nothing; stock moved since each count is kept. A line that cannot be applied rejects the whole approval (400).',
+    role: 'manager',
+    body: stockTakeApproveSchema,
+    bodyOptional: true,
+    response: { status: 200, description: 'The approved stock take' },
+  },
+  {
+    method: 'post',
+    path: '/api/stock-takes/:id/cancel',
+    tag: 'Stock takes',
+    summary: 'Cancel a stock take',
+    role: 'manager',
+    response: { status: 200, description: 'The cancelled stock take' },
+  },
+
+  // Webhooks
+  { method: 'get', path: '/api/webhooks', tag: 'Webhooks', summary: 'List webhook subscriptions', role: 'manager', response: { status: 200, description: 'Subscriptions (without secrets)' } },
+  {
+    method: 'post',
+    path: '/api/webhooks',
+    tag: 'Webhooks',
+    summary: 'Register a webhook subscription',
+    role: 'manager',
+    body: webhookCreateSchema,
+    response: { status: 201, description: 'The subscription, including its signing secret (shown only once)' },
+  },
+  { method: 'get', path: '/api/webhooks/:id', tag: 'Webhooks', summary: 'Get a webhook subscription', role: 'manager', response: { status: 200, description: 'The subscription' } },
+  {
+    method: 'put',
+    path: '/api/webhooks/:id',
+    tag: 'Webhooks',
+    summary: 'Update a webhook subscription',
+    role: 'manager',
+    body: webhookUpdateSchema,
+    response: { status: 200, description: 'The updated subscription' },
+  },
+  { method: 'delete', path: '/api/webhooks/:id', tag: 'Webhooks', summary: 'Delete a webhook subscription', role: 'manager', response: { status: 200, description: '`{ id }`' } },
+  {
+    method: 'get',
+    path: '/api/webhooks/:id/deliveries',
+    tag: 'Webhooks',
+    summary: 'Delivery log (paginated)',
+    role: 'manager',
+    query: deliveryListQuerySchema,
+    response: { status: 200, description: '`{ items, nextCursor }`' },
+  },
+  {
+    method: 'post',
+    path: '/api/webhooks/process',
+    tag: 'Webhooks',
+    summary: 'Dispatch alerts and retry deliveries now',
+    role: 'manager',
+    response: { status: 200, description: '`{ dispatched, attempted }`' },
+  },
+];
+
+/**
+ * JSON Schema (2020-12, the dialect of OpenAPI 3.1) of a Zod schema, without the `$schema` key.
+ */
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output' = 'input'): JsonSchema {
+  const result = z.toJSONSchema(schema, { io, unrepresentable: 'any' }) as JsonSchema;
+  delete result.$schema;
+  return result;
+}
+
+/**
+ * /api/products/:id -> /api/products/{id}
+ */
+export function openApiPath(path: string): string {
+  return path.replace(/:(\w+)/g, '{$1}');
+}
+
+/**
+ * Stable operation id, e.g. post /api/products/{id}/increase -> postApiProductsIdIncrease.
+ */
+function operationId(op: ApiOperation): string {
+  const words = op.path.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return op.method + words.map((w) => w[0].toUpperCase() + w.slice(1)).join('');
+}
+
+function parameters(op: ApiOperation) {
+  const params: JsonSchema[] = [...op.path.matchAll(/:(\w+)/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  if (op.query) {
+    const schema = jsonSchema(op.query);
+    const required = (schema.required as string[] | undefined) ?? [];
+    for (const [name, property] of Object.entries((schema.properties as Record<string, JsonSchema>) ?? {})) {
+      params.push({ name, in: 'query', required: required.includes(name), schema: property });
+    }
+  }
+  if (op.idempotent) {
+    params.push({
+      name: 'Idempotency-Key',
+      in: 'header',
+      required: false,
+      description: 'Retries with the same key and body replay the first result',
+      schema: { type: 'string', maxLength: 255 },
+    });
+  }
+  if (op.conditional) {
+    const name = op.method === 'get' ? 'If-None-Match' : 'If-Match';
+    params.push({ name, in: 'header', required: false, description: 'Product version ETag, e.g. "3"', schema: { type: 'string' } });
+  }
+  params.push({
+    name: 'X-Request-Id',
+    in: 'header',
+    required: false,
+    description: 'Correlation id echoed in the response and the logs (generated when missing)',
+    schema: { type: 'string', pattern: '^[A-Za-z0-9._:-]{1,128}$' },
+  });
+  return params;
+}
+
+function requestBody(op: ApiOperation) {
+  if (!op.body) return undefined;
+  const content: Record<string, { schema: JsonSchema }> = { 'application/json': { schema: jsonSchema(op.body) } };
+  if (op.path === '/api/products/import') content['text/csv'] = { schema: { type: 'string' } };
+  return { required: !op.bodyOptional, content };
+}
+
+function responses(op: ApiOperation) {
+  const problem = { 'application/problem+json': { schema: { $ref: '#/components/schemas/Problem' } } };
+  const { status, description, schema, contentType = 'application/json' } = op.response;
+  const result: Record<string, unknown> = {
+    [status]: {
+      description,
+      content: { [contentType]: { schema: schema ? { $ref: `#/components/schemas/${schema}` } : {} } },
+    },
+  };
+  if (op.role) {
+    result['401'] = { description: 'Missing or invalid credentials', content: problem };
+    result['403'] = { description: `Requires the ${op.role} role`, content: problem };
+  }
+  if (!RATE_LIMIT_EXEMPT_ROUTES.includes(op.path)) {
+    result['429'] = {
+      description: 'Rate limit exceeded (TOO_MANY_REQUESTS); retry after the number of seconds in Retry-After',
+      content: problem,
+    };
+  }
+  result.default = { description: 'Error (see `code`)', content: problem };
+  return result;
+}
+
+let cached: JsonSchema | null = null;
+
+/**
+ * Build (once) the OpenAPI 3.1 document for every operation in API_OPERATIONS.
+ */
+export function buildOpenApiDocument(): JsonSchema {
+  if (cached) return cached;
+
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const op of API_OPERATIONS) {
+    const path = openApiPath(op.path);
+    paths[path] ??= {};
+    paths[path][op.method] = {
+      tags: [op.tag],
+      summary: op.summary,
+      description: [op.role ? `Requires the ${op.role} role.` : 'Public.', op.description].filter(Boolean).join(' '),
+      operationId: operationId(op),
+      parameters: parameters(op),
+      ...(op.body ? { requestBody: requestBody(op) } : {}),
+      responses: responses(op),
+      ...(op.role ? { security: [{ apiKey: [] }, { bearerAuth: [] }] } : { security: [] }),
+    };
+  }
+
+  cached = {
+    openapi: '3.1.0',
+    info: {
+      title: 'Inventory Management System API',
+      version: '0.1.0',
+      description: 'Products, stock, locations, reservations, reordering and webhooks. Errors use application/problem+json.',
+    },
+    tags: [...new Set(API_OPERATIONS.map((op) => op.tag))].map((name) => ({ name })),
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(COMPONENT_SCHEMAS).map(([name, schema]) => [name, jsonSchema(schema, 'output')])),
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'Firebase ID token' },
+      },
+    },
+  };
+  return cached;
+}
@@ -0,0 +1,93 @@
+// src/lib/productCsv.ts
+// CSV layout of the product catalog (import and export use the same columns).
+// Barcodes (and tags) share one cell, separated by "|".
+
+import { Product } from '../models/product';
+import { formatCsvRow, parseCsv } from './csv';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Columns read by the import. Unknown columns are ignored, so an export can be re-imported.
+ */
+export const PRODUCT_CSV_COLUMNS = [
+  'name',
+  'sku',
+  'barcodes',
+  'description',
+  'stock_quantity',
+  'low_stock_threshold',
+  'reorder_point',
+  'reorder_quantity',
+  'max_stock_level',
+  'preferred_supplier',
+  'lead_time_days',
+  'categoryId',
+  'tags',
+] as const;
+
+/**
+ * Columns written by the export: the importable ones plus read-only fields.
+ */
+export const PRODUCT_EXPORT_COLUMNS = [
+  'id',
+  ...PRODUCT_CSV_COLUMNS,
+  'reserved_quantity',
+  'available_quantity',
+  'version',
+  'createdAt',
+  'updatedAt',
+] as const;
+
+const NUMERIC_COLUMNS = new Set<string>([
+  'stock_quantity',
+  'low_stock_threshold',
+  'reorder_point',
+  'reorder_quantity',
+  'max_stock_level',
+  'lead_time_days',
+]);
+
+const LIST_SEPARATOR = '|';
+const LIST_COLUMNS = new Set<string>(['barcodes', 'tags']);
+
+/**
+ * Turn CSV text (header row first) into one plain object per data row, ready for validation.
+ * Empty cells are left out; numeric columns become numbers when they parse as one (otherwise
+ * the raw text is kept so validation reports it).
+ * Throws 400 without a header row or when the header has no `name` column.
+ */
+export function productsFromCsv(text: string): Record<string, unknown>[] {
+  const [header, ...rows] = parseCsv(text);
+  const columns = (header ?? []).map((c) => c.trim());
+  if (!columns.includes('name')) throw new HttpError(400, 'INVALID_CSV', 'Invalid CSV: the header row must include a "name" column');
+
+  return rows.map((cells) => {
+    const row: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      const cell = (cells[i] ?? '').trim();
+      if (cell === '' || !(PRODUCT_CSV_COLUMNS as readonly string[]).includes(column)) return;
+      if (NUMERIC_COLUMNS.has(column)) row[column] = Number.isNaN(Number(cell)) ? cell : Number(cell);
+      else if (LIST_COLUMNS.has(column)) row[column] = cell.split(LIST_SEPARATOR).map((item) => item.trim()).filter(Boolean);
+      else row[column] = cell;
+    });
+    return row;
+  });
+}
+
+/**
+ * CSV header line of the export.
+ */
+export function productCsvHeader(): string {
+  return formatCsvRow([...PRODUCT_EXPORT_COLUMNS]);
+}
+
+/**
+ * One CSV line of the export.
+ */
+export function productToCsvRow(product: Product): string {
+  return formatCsvRow(
+    PRODUCT_EXPORT_COLUMNS.map((column) =>
+      column === 'barcodes' || column === 'tags' ? (product[column] ?? []).join(LIST_SEPARATOR) : product[column]
+    )
+  );
+}
@@ -0,0 +1,131 @@
+// src/lib/productEvents.ts
+// In-process bus of product change events, streamed by GET /api/products/stream.
+// Services collect events inside their transaction (like stock alerts) and publish them once it
+// has committed, so a retried callback or an idempotent replay never publishes twice.
+// The bus keeps the most recent events (PRODUCT_EVENTS_BUFFER, default 1000) so a reconnecting
+// client can resume from its Last-Event-ID; open streams send a heartbeat every
+// PRODUCT_STREAM_HEARTBEAT_MS (default 15000) so proxies do not close them.
+// Like the metrics, the bus lives in memory: each server instance only sees the writes it made
+// itself, and the history is lost on restart.
+
+import { Product } from '../models/product';
+import { PendingProductEvent, ProductEvent, ProductEventType } from '../models/productEvent';
+import { logger } from './logger';
+
+type Listener = (event: ProductEvent) => void;
+
+/**
+ * Prefix of every event id, unique per process start, so ids from before a restart are
+ * recognized as unknown rather than mistaken for recent ones.
+ */
+const INSTANCE = Date.now().toString(36);
+
+let sequence = 0;
+const history: { sequence: number; event: ProductEvent }[] = [];
+const listeners = new Set<Listener>();
+
+function bufferSize(): number {
+  const configured = Number(process.env.PRODUCT_EVENTS_BUFFER);
+  return Number.isInteger(configured) && configured > 0 ? configured : 1000;
+}
+
+/**
+ * Milliseconds between heartbeats on an open stream.
+ */
+export function heartbeatInterval(): number {
+  const configured = Number(process.env.PRODUCT_STREAM_HEARTBEAT_MS);
+  return Number.isInteger(configured) && configured > 0 ? configured : 15_000;
+}
+
+function isLow(quantity: number, threshold: number | null | undefined) {
+  return typeof threshold === 'number' && quantity < threshold;
+}
+
+/**
+ * Build the event for a write to a product.
+ * - `before` is the product as read before the write (null for a new one)
+ * - `after` is the product as written
+ * The product itself is only attached to product.created and product.updated events.
+ */
+export function productEvent(type: ProductEventType, productId: string, before: Product | null, after: Product, at: string): PendingProductEvent {
+  const quantityBefore = before?.stock_quantity ?? 0;
+  const threshold = after.low_stock_threshold ?? null;
+  return {
+    type,
+    productId,
+    ...(after.parentId ? { parentId: after.parentId } : {}),
+    ...(after.sku ? { sku: after.sku } : {}),
+    stock_quantity: after.stock_quantity ?? 0,
+    quantity_before: quantityBefore,
+    low_stock_threshold: threshold,
+    low_stock: isLow(after.stock_quantity ?? 0, threshold),
+    was_low_stock: before ? isLow(quantityBefore, before.low_stock_threshold) : false,
+    ...(type === 'product.created' || type === 'product.updated' ? { product: { ...after, id: productId } } : {}),
+    at,
+  };
+}
+
+/**
+ * stock.changed event for a stock operation that took `product` to `after` units.
+ */
+export function stockChangedEvent(productId: string, product: Product, after: number, at: string): PendingProductEvent {
+  return productEvent('stock.changed', productId, product, { ...product, stock_quantity: after }, at);
+}
+
+/**
+ * Number and deliver committed events to every subscriber, in order.
+ * A subscriber that throws is logged and does not stop the others.
+ */
+export function publishProductEvents(events: PendingProductEvent[]) {
+  for (const pending of events) {
+    sequence += 1;
+    const event: ProductEvent = { id: `${INSTANCE}-${sequence}`, ...pending };
+    history.push({ sequence, event });
+    if (history.length > bufferSize()) history.splice(0, history.length - bufferSize());
+    for (const listener of listeners) {
+      try {
+        listener(event);
+      } catch (err) {
+        logger.warn('Product event listener failed', { error: (err as Error).message });
+      }
+    }
+  }
+}
+
+/**
+ * Receive every event published from now on. Returns the function that unsubscribes.
+ */
+export function subscribeProductEvents(listener: Listener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Events published after the one with id `lastEventId`, oldest first, or null when they cannot
+ * all be replayed (an id from another instance or process start, or older than the buffer).
+ */
+export function productEventsSince(lastEventId: string): ProductEvent[] | null {
+  const match = /^([0-9a-z]+)-(\d+)$/.exec(lastEventId.trim());
+  if (!match || match[1] !== INSTANCE) return null;
+  const last = Number(match[2]);
+  if (last > sequence) return null;
+  const oldest = history.length > 0 ? history[0].sequence : sequence + 1;
+  if (last < oldest - 1) return null;
+  return history.filter((entry) => entry.sequence > last).map((entry) => entry.event);
+}
+
+/**
+ * Number of open subscriptions (streams).
+ */
+export function productEventSubscribers(): number {
+  return listeners.size;
+}
+
+/**
+ * Forget the buffered events (tests).
+ */
+export function resetProductEvents() {
+  history.length = 0;
+}
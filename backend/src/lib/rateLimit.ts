@@ -0,0 +1,133 @@
+// src/lib/rateLimit.ts
+// Token-bucket rate limits per client, applied to every route by instrumentRoute.
+// Each client has one bucket for reads (GET, HEAD) and one for writes (everything else). A bucket
+// holds up to `limit` tokens, every request takes one, and tokens come back at `limit` per window,
+// so a client can burst up to the limit and then keeps the average rate.
+//
+// Environment:
+//   - RATE_LIMIT_READ: reads per client per minute (default 600, 0 turns the limit off)
+//   - RATE_LIMIT_WRITE: writes per client per minute (default 120, 0 turns the limit off)
+//
+// Buckets live in a RateLimitStore. The default keeps them in process memory, so each server
+// instance limits on its own; setRateLimitStore() plugs in a shared store (e.g. Redis) instead.
+
+export type RateLimitClass = 'read' | 'write';
+
+/**
+ * Routes that are never limited (load balancer health checks).
+ */
+export const RATE_LIMIT_EXEMPT_ROUTES: readonly string[] = ['/api/health'];
+
+export interface RateLimitPolicy {
+  limit: number;              // Bucket size: the burst a client may send
+  windowSeconds: number;      // Time in which an empty bucket fills up again
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;           // Whether the request took a token
+  limit: number;              // Bucket size
+  remaining: number;          // Whole tokens left after the request
+  resetSeconds: number;       // Seconds until the bucket is full again
+  retryAfterSeconds: number;  // Seconds until the next token (0 when allowed)
+}
+
+/**
+ * Storage of the buckets. `take` must check and update a bucket atomically, so a shared store
+ * implements it with a transaction or a script; tokenBucket() holds the arithmetic.
+ */
+export interface RateLimitStore {
+  take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision>;
+}
+
+/**
+ * Stored state of one bucket.
+ */
+export interface TokenBucketState {
+  tokens: number;             // Tokens left (fractional while refilling)
+  updatedAt: number;          // Time (ms) the tokens were counted
+}
+
+/**
+ * Refill a bucket up to `now` and take one token if there is one.
+ * Returns the decision and the state to store.
+ */
+export function tokenBucket(
+  state: TokenBucketState | undefined,
+  policy: RateLimitPolicy,
+  now: number
+): { decision: RateLimitDecision; state: TokenBucketState } {
+  const perSecond = policy.limit / policy.windowSeconds;
+  const elapsed = state ? Math.max(0, now - state.updatedAt) / 1000 : 0;
+  const available = state ? Math.min(policy.limit, state.tokens + elapsed * perSecond) : policy.limit;
+  // Rates such as 2 per minute are not exact in binary; do not round a whole second up to the next
+  const seconds = (count: number) => Math.ceil(count / perSecond - 1e-9);
+  const allowed = available >= 1 - 1e-9;
+  const tokens = allowed ? Math.max(0, available - 1) : available;
+  return {
+    decision: {
+      allowed,
+      limit: policy.limit,
+      remaining: Math.floor(tokens),
+      resetSeconds: Math.max(0, seconds(policy.limit - tokens)),
+      retryAfterSeconds: allowed ? 0 : Math.max(1, seconds(1 - tokens)),
+    },
+    state: { tokens, updatedAt: now },
+  };
+}
+
+/**
+ * In-process store. Buckets that have filled up again are dropped, as they hold nothing a new
+ * bucket would not.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly buckets = new Map<string, TokenBucketState & { fullAt: number }>();
+  private lastSweep = 0;
+
+  async take(key: string, policy: RateLimitPolicy, now: number): Promise<RateLimitDecision> {
+    if (now - this.lastSweep >= 60_000) this.sweep(now);
+    const { decision, state } = tokenBucket(this.buckets.get(key), policy, now);
+    this.buckets.set(key, { ...state, fullAt: now + decision.resetSeconds * 1000 });
+    return decision;
+  }
+
+  private sweep(now: number) {
+    this.lastSweep = now;
+    for (const [key, bucket] of this.buckets) if (bucket.fullAt <= now) this.buckets.delete(key);
+  }
+}
+
+let store: RateLimitStore | null = null;
+
+/**
+ * The store buckets are kept in (an in-process store unless another one was set).
+ */
+export function getRateLimitStore(): RateLimitStore {
+  store ??= new MemoryRateLimitStore();
+  return store;
+}
+
+/**
+ * Replace the store (a shared store, or a fresh MemoryRateLimitStore per test). Pass null to go
+ * back to a new in-process store on next use.
+ */
+export function setRateLimitStore(next: RateLimitStore | null) {
+  store = next;
+}
+
+/**
+ * Reads or writes, by HTTP method.
+ */
+export function rateLimitClass(method: string): RateLimitClass {
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+/**
+ * Policy for one class of requests, or null when that class is not limited.
+ */
+export function rateLimitPolicy(kind: RateLimitClass): RateLimitPolicy | null {
+  const raw = kind === 'read' ? process.env.RATE_LIMIT_READ : process.env.RATE_LIMIT_WRITE;
+  const fallback = kind === 'read' ? 600 : 120;
+  const configured = raw === undefined || raw.trim() === '' ? fallback : Number(raw);
+  const limit = Number.isInteger(configured) && configured >= 0 ? configured : fallback;
+  return limit > 0 ? { limit, windowSeconds: 60 } : null;
+}
@@ -0,0 +1,28 @@
+// src/lib/requestContext.ts
+// Per-request context (request id, method, route) carried through async calls with AsyncLocalStorage,
+// so the logger can stamp every line written while a request is handled without threading it
+// through controllers and services.
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export interface RequestContext {
+  requestId: string;          // Accepted from X-Request-Id or generated
+  method: string;             // HTTP method
+  route: string;              // Route pattern, e.g. /api/products/:id
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run `fn` with `context` as the current request context.
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Context of the request being handled, or undefined outside a request (timers, scripts).
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
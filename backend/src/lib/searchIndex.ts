@@ -0,0 +1,160 @@
+// src/lib/searchIndex.ts
+// In-process full-text index of the product catalog (Firestore has no full-text search).
+// A product is split into terms from its name, SKU, tags and description; a query term matches
+// a stored term exactly, as a prefix, or within a small edit distance (typos).
+// The index holds no stock figures: callers read the matching products to filter and return them.
+
+import { Product } from '../models/product';
+
+export interface SearchMatch {
+  id: string;
+  score: number;
+}
+
+/**
+ * What a search filter can look at besides the text.
+ */
+export interface SearchEntry {
+  id: string;
+  name: string;
+  categoryId: string | null;
+  tags: string[];
+}
+
+/**
+ * Weight of a term by the field it comes from (a term found in several fields keeps the highest).
+ */
+const FIELD_WEIGHTS = { name: 3, sku: 3, tags: 2, description: 1 } as const;
+
+/**
+ * Score of a match by kind, multiplied by the field weight.
+ */
+const MATCH_SCORES = { exact: 3, prefix: 2, fuzzy: 1 } as const;
+
+/**
+ * Split text into lowercase terms of letters and digits; accents are dropped ("Café" -> "cafe").
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Typos tolerated in a query term: none below 4 characters, 1 up to 7, then 2.
+ */
+function maxEdits(term: string): number {
+  return term.length < 4 ? 0 : term.length < 8 ? 1 : 2;
+}
+
+/**
+ * Levenshtein distance between two terms, or `max + 1` as soon as it is known to exceed `max`.
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Inverted index: term -> ids of the products containing it, plus each product's terms and filter fields.
+ */
+export class ProductSearchIndex {
+  private entries = new Map<string, SearchEntry & { terms: Map<string, number> }>();
+  private postings = new Map<string, Set<string>>();
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Add or refresh a product. Products in the trash are removed instead.
+   */
+  upsert(product: Product): void {
+    const id = product.id as string;
+    this.remove(id);
+    if (product.deletedAt) return;
+
+    const terms = new Map<string, number>();
+    const add = (field: keyof typeof FIELD_WEIGHTS, text: string | undefined) => {
+      for (const term of tokenize(text ?? '')) terms.set(term, Math.max(terms.get(term) ?? 0, FIELD_WEIGHTS[field]));
+    };
+    add('name', product.name);
+    add('sku', product.sku);
+    for (const tag of product.tags ?? []) add('tags', tag);
+    add('description', product.description);
+
+    this.entries.set(id, { id, name: product.name, categoryId: product.categoryId ?? null, tags: product.tags ?? [], terms });
+    for (const term of terms.keys()) {
+      const ids = this.postings.get(term) ?? new Set<string>();
+      ids.add(id);
+      this.postings.set(term, ids);
+    }
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+    for (const term of entry.terms.keys()) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(term);
+    }
+    this.entries.delete(id);
+  }
+
+  /**
+   * Products matching every term of `query` (and `filter`), best first; ties are sorted by name.
+   * A product's score adds up, per query term, its best match (exact, prefix or fuzzy) weighted
+   * by the field it is in. A query without terms matches every product with score 0.
+   */
+  search(query: string, filter: (entry: SearchEntry) => boolean = () => true): SearchMatch[] {
+    let scores = null as Map<string, number> | null;
+    for (const queryTerm of new Set(tokenize(query))) {
+      const edits = maxEdits(queryTerm);
+      const best = new Map<string, number>();
+      for (const [term, ids] of this.postings) {
+        const kind =
+          term === queryTerm
+            ? 'exact'
+            : term.startsWith(queryTerm)
+              ? 'prefix'
+              : edits > 0 && editDistance(queryTerm, term, edits) <= edits
+                ? 'fuzzy'
+                : null;
+        if (!kind) continue;
+        for (const id of ids) {
+          const score = MATCH_SCORES[kind] * (this.entries.get(id)?.terms.get(term) ?? 0);
+          if (score > (best.get(id) ?? 0)) best.set(id, score);
+        }
+      }
+      // Keep only products that matched every term so far
+      const merged = new Map<string, number>();
+      for (const [id, score] of scores ?? best) {
+        const termScore = best.get(id);
+        if (termScore !== undefined) merged.set(id, scores ? score + termScore : score);
+      }
+      scores = merged;
+    }
+
+    const matches = scores ?? new Map([...this.entries.keys()].map((id) => [id, 0]));
+    return [...matches]
+      .map(([id, score]) => ({ entry: this.entries.get(id) as SearchEntry, score }))
+      .filter(({ entry }) => filter(entry))
+      .sort((a, b) => b.score - a.score || a.entry.name.localeCompare(b.entry.name) || (a.entry.id < b.entry.id ? -1 : 1))
+      .map(({ entry, score }) => ({ id: entry.id, score }));
+  }
+}
@@ -0,0 +1,117 @@
+// src/lib/units.ts
+// Units of measure on a product document.
+// Stock is always stored and moved in the product's base unit (`base_unit`, default "each");
+// `units` lists alternative units with the number of base units one of them holds, e.g.
+// { name: "case", factor: 24 }. Quantities given in another unit are converted to base units
+// before they reach a transaction, and a conversion must come out as a whole number of base
+// units: 0.5 case of 24 is 12, 0.1 case is rejected.
+
+import { DEFAULT_BASE_UNIT, MAX_UNIT_FACTOR, Product, ProductUnit, StockQuantity } from '../models/product';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Unit fields of a product, as stored.
+ */
+export type UnitState = Pick<Product, 'base_unit' | 'units'>;
+
+/**
+ * Name of the unit a product counts its stock in.
+ */
+export function baseUnitOf(product: UnitState): string {
+  return product.base_unit ?? DEFAULT_BASE_UNIT;
+}
+
+/**
+ * Throws 400 unless `units` is a list of distinct unit names other than the base unit, each with
+ * a positive factor of at most MAX_UNIT_FACTOR.
+ */
+export function assertValidUnits(product: UnitState) {
+  const base = baseUnitOf(product);
+  if (typeof base !== 'string' || base.trim() === '') throw new HttpError(400, 'VALIDATION_FAILED', 'base_unit must be a non-empty string');
+  if (product.units === undefined) return;
+  if (!Array.isArray(product.units)) throw new HttpError(400, 'VALIDATION_FAILED', 'units must be an array');
+  const names = new Set<string>([base.trim().toLowerCase()]);
+  for (const unit of product.units) {
+    const name = typeof unit?.name === 'string' ? unit.name.trim().toLowerCase() : '';
+    if (!name) throw new HttpError(400, 'VALIDATION_FAILED', 'Every unit needs a name');
+    if (names.has(name)) throw new HttpError(400, 'VALIDATION_FAILED', `Unit ${name} is defined more than once (or is the base unit)`);
+    if (typeof unit.factor !== 'number' || !Number.isFinite(unit.factor) || unit.factor <= 0 || unit.factor > MAX_UNIT_FACTOR) {
+      throw new HttpError(400, 'VALIDATION_FAILED', `The factor of unit ${name} must be a number above 0 and at most ${MAX_UNIT_FACTOR}`);
+    }
+    names.add(name);
+  }
+}
+
+/**
+ * Unit names stored lowercase and trimmed, like tags.
+ */
+export function normalizeUnits(units: ProductUnit[]): ProductUnit[] {
+  return units.map((unit) => ({ name: unit.name.trim().toLowerCase(), factor: unit.factor }));
+}
+
+/**
+ * Base units per one `unit` of the product. Throws 400 (UNKNOWN_UNIT) if the product does not
+ * define the unit.
+ */
+function factorOf(product: UnitState, unit: string): number {
+  const name = unit.trim().toLowerCase();
+  if (name === baseUnitOf(product).trim().toLowerCase()) return 1;
+  const found = (product.units ?? []).find((u) => u.name.trim().toLowerCase() === name);
+  if (!found) {
+    const known = [baseUnitOf(product), ...(product.units ?? []).map((u) => u.name)];
+    throw new HttpError(400, 'UNKNOWN_UNIT', `Unknown unit ${name}; this product is counted in ${known.join(', ')}`);
+  }
+  return found.factor;
+}
+
+/**
+ * Convert a quantity (base units, or `{ amount, unit }`) into base units of the product.
+ * Throws 400 for a negative amount, an unknown unit (UNKNOWN_UNIT) or a result that is not a whole
+ * number of base units (FRACTIONAL_QUANTITY).
+ */
+export function toBaseQuantity(product: UnitState, quantity: StockQuantity): number {
+  const { amount, unit } = typeof quantity === 'number' ? { amount: quantity, unit: undefined } : quantity;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be a number >= 0');
+  }
+  const factor = unit === undefined ? 1 : factorOf(product, unit);
+  const base = amount * factor;
+  // Decimal factors and amounts are not exact in binary; allow for the representation error only
+  const whole = Math.round(base);
+  if (Math.abs(base - whole) > 1e-9 * Math.max(1, whole)) {
+    const given = unit === undefined ? `${amount}` : `${amount} ${unit.trim().toLowerCase()}`;
+    throw new HttpError(400, 'FRACTIONAL_QUANTITY', `${given} is ${+base.toFixed(6)} ${baseUnitOf(product)}; stock moves in whole ${baseUnitOf(product)} only`);
+  }
+  return whole;
+}
+
+/**
+ * Whether a quantity names a unit, so converting it needs the product's units.
+ */
+export function namesUnit(quantity: StockQuantity): boolean {
+  return typeof quantity === 'object' && quantity !== null && quantity.unit !== undefined;
+}
+
+/**
+ * Throws 409 (PRODUCT_HOLDS_STOCK) if `baseUnit` would change the unit of a product that still
+ * holds stock, reservations, location stock or lots: those quantities are counted in the old unit
+ * and are not converted.
+ */
+export function assertBaseUnitChangeAllowed(
+  product: UnitState & Pick<Product, 'stock_quantity' | 'reserved_quantity' | 'allocated_quantity' | 'lots'>,
+  baseUnit: string
+) {
+  if (baseUnit.trim().toLowerCase() === baseUnitOf(product).trim().toLowerCase()) return;
+  const holds =
+    (product.stock_quantity ?? 0) > 0 ||
+    (product.reserved_quantity ?? 0) > 0 ||
+    (product.allocated_quantity ?? 0) > 0 ||
+    (product.lots ?? []).length > 0;
+  if (holds) {
+    throw new HttpError(
+      409,
+      'PRODUCT_HOLDS_STOCK',
+      `base_unit can only change while the product holds no stock, reservations, location stock or lots; it is counted in ${baseUnitOf(product)}`
+    );
+  }
+}
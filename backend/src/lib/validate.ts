@@ -1,45 +1,541 @@
 // src/lib/validate.ts
 import { z } from 'zod';
+import { MOVEMENT_REASONS } from '../models/stockMovement';
+import { RESERVATION_STATUSES } from '../models/reservation';
+import { COSTING_METHODS, MAX_UNIT_COST, MAX_UNIT_FACTOR, PRODUCT_IDENTIFIER_PATTERN, PRODUCT_STOCK_STATUSES } from '../models/product';
+import { ALERT_TYPES } from '../models/stockAlert';
+import { DELIVERY_STATUSES } from '../models/webhook';
+import { PURCHASE_ORDER_STATUSES } from '../models/purchaseOrder';
+import { STOCK_TAKE_STATUSES } from '../models/stockTake';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Optional ledger context accepted by every endpoint that changes stock.
+ * - reason: one of the movement reason codes (each endpoint has its own default)
+ * - reference: free-form external reference (order no., delivery note, ...)
+ * The movement's actor is always the authenticated caller, never taken from the body.
+ */
+const movementMetaFields = {
+  reason: z.enum(MOVEMENT_REASONS).optional(),
+  reference: z.string().max(200).optional(),
+};
+
+/**
+ * A SKU or barcode: letters, digits, ".", "-" and "_", at most 64 characters.
+ */
+const productIdentifier = z
+  .string()
+  .trim()
+  .regex(PRODUCT_IDENTIFIER_PATTERN, 'may only contain letters, digits, ".", "-" and "_" (max 64)');
+
+/**
+ * A unit cost: whole minor currency units (e.g. cents), at most MAX_UNIT_COST.
+ */
+const unitCost = z.number().int().nonnegative().max(MAX_UNIT_COST);
+
+/**
+ * A unit of measure name ("each", "case", "kg"), stored lowercase.
+ */
+const unitName = z.string().trim().toLowerCase().min(1).max(32);
+
+/**
+ * A stock quantity: whole base units, or `{ amount, unit }` in one of the product's units
+ * (converted to base units by the service; the result must be a whole number).
+ */
+const stockQuantity = z.union([
+  z.number().int().nonnegative(),
+  z.object({ amount: z.number().nonnegative(), unit: unitName.optional() }),
+]);
 
 /**
  * Schema for creating a product.
  * - name: required string
+ * - sku: optional, unique across products (case-insensitive)
+ * - barcodes: optional list, each unique across products
  * - description: optional string
- * - stock_quantity: must be an integer >= 0
+ * - categoryId: optional category (null for none)
+ * - tags: optional list of free-form tags (stored lowercase)
+ * - stock_quantity: an integer >= 0 in the base unit, or { amount, unit } in one of the units
+ * - base_unit: unit stock is counted in (default "each")
+ * - units: alternative units, [{ name, factor }] where factor is the base units in one unit
  * - low_stock_threshold: optional integer >= 0
+ * - reorder_point / lead_time_days: optional integers >= 0
+ * - reorder_quantity / max_stock_level: optional integers >= 1 (max_stock_level above reorder_point)
+ * - preferred_supplier: optional supplier name
+ * - costing_method: fifo or average (default average)
+ * - unit_cost: cost of one unit of the opening stock in minor currency units (default 0)
  */
 export const productCreateSchema = z.object({
   name: z.string().min(1, 'name is required'),
+  sku: productIdentifier.optional(),
+  barcodes: z
+    .array(productIdentifier)
+    .max(50)
+    .refine((codes) => new Set(codes).size === codes.length, 'barcodes must not contain duplicates')
+    .optional(),
   description: z.string().optional(),
-  stock_quantity: z.number().int().nonnegative(),
+  categoryId: z.string().min(1).nullable().optional(),
+  tags: z
+    .array(z.string().trim().toLowerCase().min(1).max(50))
+    .max(20)
+    .refine((tags) => new Set(tags).size === tags.length, 'tags must not contain duplicates')
+    .optional(),
+  stock_quantity: stockQuantity,
+  base_unit: unitName.optional(),
+  units: z
+    .array(z.object({ name: unitName, factor: z.number().positive().max(MAX_UNIT_FACTOR) }))
+    .max(20)
+    .refine((units) => new Set(units.map((u) => u.name)).size === units.length, 'units must not contain duplicates')
+    .optional(),
   low_stock_threshold: z.number().int().nonnegative().optional(),
+  reorder_point: z.number().int().nonnegative().optional(),
+  reorder_quantity: z.number().int().positive().optional(),
+  max_stock_level: z.number().int().positive().optional(),
+  preferred_supplier: z.string().trim().min(1).max(200).optional(),
+  lead_time_days: z.number().int().nonnegative().max(365).optional(),
+  costing_method: z.enum(COSTING_METHODS).optional(),
+  unit_cost: unitCost.optional(),
 });
 
 /**
  * Schema for updating a product.
  * All fields are optional (so you can update just one field if needed).
+ * Ledger fields (reason, reference) apply when stock_quantity changes, with the caller as the
+ * movement's actor, and unit_cost values the units a higher stock_quantity adds.
+ */
+export const productUpdateSchema = productCreateSchema.partial().extend(movementMetaFields);
+
+/**
+ * Schema for adding a variant to a product: the product fields plus
+ * - attributes: 1 to 10 name / value pairs, e.g. { "size": "M", "color": "red" }; unique per parent
+ * - name: optional, defaults to the parent's name followed by the attribute values
+ * Variants are updated with productUpdateSchema; their attributes cannot be changed.
  */
-export const productUpdateSchema = productCreateSchema.partial();
+export const variantCreateSchema = productCreateSchema.extend({
+  name: z.string().min(1).optional(),
+  attributes: z
+    .record(z.string().trim().min(1).max(50), z.string().trim().min(1).max(100))
+    .refine((attributes) => Object.keys(attributes).length >= 1, 'attributes must name at least one attribute')
+    .refine((attributes) => Object.keys(attributes).length <= 10, 'attributes may name at most 10 attributes'),
+});
+
+/**
+ * Schema for the product search query string.
+ * - q: search text matched against name, description, SKU and tags
+ * - categoryId: category (subcategories included); tag: one tag
+ * - stock: in_stock | low_stock | out_of_stock
+ * - limit: page size between 1 and 100; cursor: opaque cursor from a previous page
+ */
+export const productSearchQuerySchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  categoryId: z.string().min(1).optional(),
+  tag: z.string().trim().min(1).max(50).optional(),
+  stock: z.enum(PRODUCT_STOCK_STATUSES).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: z.string().optional(),
+});
+
+/**
+ * Schema for creating a category.
+ * - name: required, unique among the parent's subcategories
+ * - parentId: optional parent category (null or omitted for a top-level category)
+ */
+export const categoryCreateSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100),
+  parentId: z.string().min(1).nullable().optional(),
+  description: z.string().max(1000).optional(),
+});
+
+/**
+ * Schema for updating a category (all fields optional; a new parentId moves it).
+ */
+export const categoryUpdateSchema = categoryCreateSchema.partial();
+
+const stockAmountFields = {
+  amount: z.number().positive(),
+  unit: unitName.optional(),
+  locationId: z.string().min(1).optional(),
+  lotNumber: z.string().trim().min(1).max(64).optional(),
+  ...movementMetaFields,
+};
+
+/**
+ * Schema for stock decreases.
+ * Expects a positive amount, plus optional ledger fields.
+ * - unit: one of the product's units (default its base unit); the amount must convert to a whole
+ *   number of base units
+ * - locationId: apply the change at a location (otherwise the unallocated stock changes)
+ * - lotNumber: take the units from this lot (otherwise lots are consumed first-expiry-first-out)
+ */
+export const stockAmountSchema = z.object(stockAmountFields);
+
+/**
+ * Schema for stock increases: as stockAmountSchema, where lotNumber names the lot the units are
+ * received into, plus its expiry date (YYYY-MM-DD, null for units that do not expire) and
+ * unitCost, the cost per base unit in minor currency units (default: the product's current unit cost).
+ */
+export const stockReceiptSchema = z
+  .object({ ...stockAmountFields, expiresAt: z.iso.date().nullable().optional(), unitCost: unitCost.optional() })
+  .refine((b) => b.expiresAt === undefined || b.lotNumber !== undefined, { message: 'expiresAt requires a lotNumber', path: ['expiresAt'] });
+
+/**
+ * Schema for the expiring-stock report query string.
+ * - withinDays: look-ahead in days (default 30, at most 365); expired lots are always included
+ */
+export const expiringLotsQuerySchema = z.object({
+  withinDays: z.coerce.number().int().min(0).max(365).optional(),
+});
 
 /**
- * Schema for stock adjustments (increase or decrease).
- * Expects a positive integer amount.
+ * Schema for moving stock between two locations.
  */
-export const stockAmountSchema = z.object({
+export const stockTransferSchema = z.object({
+  fromLocationId: z.string().min(1, 'fromLocationId is required'),
+  toLocationId: z.string().min(1, 'toLocationId is required'),
   amount: z.number().int().positive(),
+  ...movementMetaFields,
 });
 
+/**
+ * Schema for creating a location.
+ * - code: short unique code
+ * - name: display name
+ * - address: optional
+ * - active: defaults to true
+ */
+export const locationCreateSchema = z.object({
+  code: z.string().min(1, 'code is required').max(50),
+  name: z.string().min(1, 'name is required'),
+  address: z.string().optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a location (all fields optional).
+ */
+export const locationUpdateSchema = locationCreateSchema.partial();
+
+/**
+ * Schema for a product's settings at one location.
+ * - low_stock_threshold: integer >= 0, or null to fall back to the product's threshold
+ */
+export const locationStockSettingsSchema = z.object({
+  low_stock_threshold: z.number().int().nonnegative().nullable(),
+});
+
+/**
+ * Schema for a bulk stock adjustment.
+ * - lines: 1 to 200 `{ productId | sku, delta }` entries; delta is a signed, non-zero integer
+ * - optional ledger fields apply to every line
+ */
+export const stockAdjustmentSchema = z.object({
+  lines: z
+    .array(
+      z
+        .object({
+          productId: z.string().min(1).optional(),
+          sku: z.string().min(1).optional(),
+          delta: z.number().int().refine((d) => d !== 0, 'delta must not be 0'),
+        })
+        .refine((l) => !l.productId !== !l.sku, { message: 'either productId or sku is required', path: ['productId'] })
+    )
+    .min(1)
+    .max(200),
+  ...movementMetaFields,
+});
+
+/**
+ * A timestamp as toISOString() writes it.
+ */
+function toStoredTimestamp(value: string): string {
+  return new Date(value).toISOString();
+}
+
+/**
+ * Schema for the movement history query string.
+ * - limit: page size between 1 and 200
+ * - cursor: opaque cursor from a previous page
+ * - from / to: inclusive ISO timestamps on createdAt, rewritten to the millisecond form createdAt
+ *   is stored in (they are compared as strings, where "00:00:00Z" sorts after "00:00:00.000Z")
+ */
+export const movementListQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+    cursor: z.string().optional(),
+    from: z.iso.datetime().transform(toStoredTimestamp).optional(),
+    to: z.iso.datetime().transform(toStoredTimestamp).optional(),
+  })
+  .refine((q) => !q.from || !q.to || q.from <= q.to, { message: 'from must be before to', path: ['from'] });
+
+/**
+ * Schema for placing a reservation (stock hold).
+ * - quantity: positive integer
+ * - ttlSeconds: hold duration, 1 second to 7 days (default 15 minutes)
+ * - reference: optional context stored on the reservation (cart / order id)
+ */
+export const reservationCreateSchema = z.object({
+  quantity: z.number().int().positive(),
+  ttlSeconds: z.number().int().min(1).max(7 * 24 * 60 * 60).optional(),
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for the reservation list query string (optional status filter).
+ */
+export const reservationListQuerySchema = z.object({
+  status: z.enum(RESERVATION_STATUSES).optional(),
+});
+
+/**
+ * Schema for the low-stock query string.
+ * - basis: compare on-hand (default) or available (on hand minus reserved) quantity
+ * - locationId: report per-location stock records of one location
+ * - scope: `location` reports per-location stock records of every location
+ */
+export const lowStockQuerySchema = z.object({
+  basis: z.enum(['on_hand', 'available']).optional(),
+  locationId: z.string().min(1).optional(),
+  scope: z.enum(['aggregate', 'location']).optional(),
+});
+
+/**
+ * Schema for committing a reservation (body is optional).
+ * - locationId: ship the goods from this location
+ */
+export const reservationCommitSchema = z.object({
+  locationId: z.string().min(1).optional(),
+});
+
+/**
+ * Schema for registering a webhook subscription.
+ * - url: http(s) endpoint that receives the events
+ * - events: alert types to receive (default: all)
+ * - description: optional note
+ * - active: defaults to true
+ */
+export const webhookCreateSchema = z.object({
+  url: z.url({ protocol: /^https?$/, message: 'url must be an http(s) URL' }),
+  events: z.array(z.enum(ALERT_TYPES)).min(1).optional(),
+  description: z.string().max(200).optional(),
+  active: z.boolean().optional(),
+});
+
+/**
+ * Schema for updating a webhook subscription (all fields optional).
+ */
+export const webhookUpdateSchema = webhookCreateSchema.partial();
+
+/**
+ * Schema for the webhook delivery log query string.
+ * - limit: page size between 1 and 200
+ * - cursor: opaque cursor from a previous page
+ * - status: only deliveries in this status
+ */
+export const deliveryListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().optional(),
+  status: z.enum(DELIVERY_STATUSES).optional(),
+});
+
+/**
+ * Schema for the reorder suggestions query string.
+ * - supplier: only products with this preferred supplier
+ * - days: consumption window, 1 to 365 days (default 30)
+ */
+export const reorderSuggestionQuerySchema = z.object({
+  supplier: z.string().min(1).max(200).optional(),
+  days: z.coerce.number().int().min(1).max(365).optional(),
+});
+
+/**
+ * Schema for drafting purchase orders from the reorder suggestions (body is optional).
+ * - productIds: only these products (default: every suggestion)
+ * - supplier: only products with this preferred supplier
+ * - reference: stored on every draft
+ */
+export const purchaseOrderDraftSchema = z.object({
+  productIds: z.array(z.string().min(1)).min(1).max(500).optional(),
+  supplier: z.string().min(1).max(200).optional(),
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for editing a draft purchase order (all fields optional).
+ * - lines: replaces every line; one `{ productId, quantity, unit_cost? }` per product, where
+ *   unit_cost (minor currency units) values the units when the order is received
+ */
+export const purchaseOrderUpdateSchema = z.object({
+  lines: z
+    .array(z.object({ productId: z.string().min(1), quantity: z.number().int().positive(), unit_cost: unitCost.optional() }))
+    .min(1)
+    .max(200)
+    .refine((lines) => new Set(lines.map((l) => l.productId)).size === lines.length, 'lines must not repeat a product')
+    .optional(),
+  supplier: z.string().trim().min(1).max(200).optional(),
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for the purchase order list query string (optional status filter).
+ */
+export const purchaseOrderListQuerySchema = z.object({
+  status: z.enum(PURCHASE_ORDER_STATUSES).optional(),
+});
+
+/**
+ * Schema for receiving a purchase order (body is optional).
+ * - reference: recorded on the receipt movements instead of the order's reference
+ */
+export const purchaseOrderReceiveSchema = z.object({
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for opening a stock take.
+ * - productIds: the products to count (at most 200, no repeats)
+ * - reference: stored on the session and on the adjustment movements
+ */
+export const stockTakeCreateSchema = z.object({
+  productIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(200)
+    .refine((ids) => new Set(ids).size === ids.length, 'productIds must not repeat a product'),
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for recording counts on a stock take; a product counted again keeps the latest count.
+ */
+export const stockTakeCountsSchema = z.object({
+  counts: z
+    .array(z.object({ productId: z.string().min(1), counted_quantity: z.number().int().nonnegative() }))
+    .min(1)
+    .max(200),
+});
+
+/**
+ * Schema for the stock take list query string (optional status filter).
+ */
+export const stockTakeListQuerySchema = z.object({
+  status: z.enum(STOCK_TAKE_STATUSES).optional(),
+});
+
+/**
+ * Schema for approving a stock take (body is optional).
+ * - reference: recorded on the adjustment movements instead of the session's reference
+ */
+export const stockTakeApproveSchema = z.object({
+  reference: z.string().max(200).optional(),
+});
+
+/**
+ * Schema for the inventory valuation query string.
+ * - asOf: value the stock as it was at this time (ISO timestamp, or a YYYY-MM-DD date for the
+ *   end of that day UTC); default now
+ */
+export const valuationQuerySchema = z.object({
+  asOf: z.union([z.iso.date(), z.iso.datetime()]).optional(),
+});
+
+/**
+ * Schema for the product import query string.
+ * - dryRun: validate and report without writing (true / false)
+ * - upsert: rows whose SKU exists update that product instead of failing (true / false)
+ */
+export const productImportQuerySchema = z.object({
+  dryRun: z.stringbool().optional(),
+  upsert: z.stringbool().optional(),
+});
+
+/**
+ * Schema for the product export query string (format defaults to json).
+ */
+export const productExportQuerySchema = z.object({
+  format: z.enum(['csv', 'json']).optional(),
+});
+
+/**
+ * Schema for the product event stream query string.
+ * - productIds: comma-separated ids (at most 100); only events of these products, or of their
+ *   variants, are sent
+ * - lowStock: only events of products that are, or just stopped being, below their threshold
+ */
+export const productStreamQuerySchema = z.object({
+  productIds: z
+    .string()
+    .transform((value) => [...new Set(value.split(',').map((id) => id.trim()).filter((id) => id !== ''))])
+    .pipe(z.array(z.string()).min(1, 'productIds must list at least one id').max(100, 'productIds lists more than 100 ids'))
+    .optional(),
+  lowStock: z.stringbool().optional(),
+});
+
+/**
+ * Fields the product list can be sorted by.
+ */
+export const PRODUCT_SORT_FIELDS = ['name', 'stock_quantity', 'updatedAt', 'createdAt'] as const;
+
+/**
+ * Schema for the product list query string.
+ * - limit: page size between 1 and 200
+ * - cursor: opaque cursor from a previous page (only valid with the same sort)
+ * - sort / direction: defaults to createdAt desc
+ * - namePrefix: products whose name starts with the value (case-sensitive)
+ * - minStock / maxStock: inclusive stock_quantity range
+ */
+export const productListQuerySchema = z
+  .object({
+    limit: z.coerce.number().int().min(1).max(200).optional(),
+    cursor: z.string().optional(),
+    sort: z.enum(PRODUCT_SORT_FIELDS).optional(),
+    direction: z.enum(['asc', 'desc']).optional(),
+    namePrefix: z.string().min(1).max(200).optional(),
+    minStock: z.coerce.number().int().nonnegative().optional(),
+    maxStock: z.coerce.number().int().nonnegative().optional(),
+  })
+  .refine((q) => q.minStock === undefined || q.maxStock === undefined || q.minStock <= q.maxStock, {
+    message: 'minStock must be <= maxStock',
+    path: ['minStock'],
+  });
+
+/**
+ * Schema for the product trash query string.
+ * - limit: page size between 1 and 200
+ * - cursor: opaque cursor from a previous page
+ */
+export const trashListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+  cursor: z.string().optional(),
+});
+
+/**
+ * One failed check, as listed in the `errors` member of a VALIDATION_FAILED response.
+ * - path: dotted path of the offending field ('' for the whole payload)
+ * - code: Zod issue code, e.g. too_small or invalid_type
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Turn a failed Zod parse into a 400 VALIDATION_FAILED error. The message summarizes every
+ * issue (`path: message; ...`, after `prefix` when given) and `details.errors` lists them per field.
+ */
+export function validationError(prefix: string | undefined, error: z.ZodError): HttpError {
+  const errors: ValidationIssue[] = error.issues.map((i) => ({ path: i.path.join('.'), message: i.message, code: i.code }));
+  const summary = errors.map((e) => `${e.path}: ${e.message}`).join('; ');
+  return new HttpError(400, 'VALIDATION_FAILED', prefix ? `${prefix}: ${summary}` : summary, { errors });
+}
+
 /**
  * Validate data against a schema.
  * - Returns parsed data if valid
- * - Throws an Error with a readable message if invalid
+ * - Throws a 400 VALIDATION_FAILED HttpError (see validationError) if invalid
  */
 export function validateOrThrow<T>(schema: z.ZodType<T>, payload: unknown): T {
   const result = schema.safeParse(payload);
-  if (!result.success) {
-    // Collect all validation issues into a single error message
-    const message = result.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ');
-    throw new Error(message);
-  }
+  if (!result.success) throw validationError(undefined, result.error);
   return result.data;
 }
@@ -0,0 +1,106 @@
+// src/middlewares/auth.ts
+// Request authentication and role-based authorization for App Router endpoints.
+//
+// Two kinds of credentials are accepted:
+//   - Authorization: Bearer <Firebase ID token>   (users; role from the `role` custom claim)
+//   - X-API-Key: <key>                             (machine clients; configured via API_KEYS)
+//
+// Environment:
+//   - API_KEYS: comma-separated `name:role:key` entries, e.g. "scanner-1:clerk:s3cr3t,erp:manager:k3y"
+//
+// Example usage inside an App Router endpoint:
+//
+//   const principal = await authorize(req, 'clerk');
+
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { Principal, Role, ROLES } from '../models/principal';
+import { HttpError } from '../utils/httpErrors';
+
+interface ApiKeyEntry {
+  name: string;
+  role: Role;
+  digest: Buffer; // SHA-256 of the key, so comparisons run in constant time
+}
+
+function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+function digest(value: string) {
+  return createHash('sha256').update(value).digest();
+}
+
+/**
+ * Parse API_KEYS. Malformed entries are skipped rather than failing every request.
+ */
+function loadApiKeys(): ApiKeyEntry[] {
+  const raw = process.env.API_KEYS ?? '';
+  const entries: ApiKeyEntry[] = [];
+  for (const item of raw.split(',')) {
+    const [name, role, ...rest] = item.trim().split(':');
+    const key = rest.join(':');
+    if (name && isRole(role) && key) entries.push({ name, role, digest: digest(key) });
+  }
+  return entries;
+}
+
+function findApiKey(key: string): ApiKeyEntry | undefined {
+  const candidate = digest(key);
+  return loadApiKeys().find((entry) => timingSafeEqual(entry.digest, candidate));
+}
+
+async function authenticateApiKey(key: string): Promise<Principal> {
+  const match = findApiKey(key);
+  if (!match) throw new HttpError(401, 'UNAUTHENTICATED', 'Invalid API key');
+  return { id: match.name, type: 'api_key', role: match.role };
+}
+
+/**
+ * Name of the configured API key `key`, or null when it is not one (no error is thrown, so
+ * callers such as the rate limiter can fall back to another identity).
+ */
+export function apiKeyName(key: string): string | null {
+  return findApiKey(key)?.name ?? null;
+}
+
+async function authenticateIdToken(token: string): Promise<Principal> {
+  let decoded: { uid: string; email?: string; role?: unknown };
+  try {
+    // Loaded lazily: firebase/admin needs credentials, which API-key-only setups may not have
+    const { admin } = await import('../../firebase/admin');
+    decoded = await admin.auth().verifyIdToken(token);
+  } catch {
+    throw new HttpError(401, 'UNAUTHENTICATED', 'Invalid or expired ID token');
+  }
+  // Users without a role claim get read-only access
+  const role = isRole(decoded.role) ? decoded.role : 'viewer';
+  return { id: decoded.uid, type: 'user', role, ...(decoded.email ? { email: decoded.email } : {}) };
+}
+
+/**
+ * Identify the caller from the request headers.
+ * Throws 401 when no credentials are present or they are invalid.
+ */
+export async function authenticate(req: NextRequest): Promise<Principal> {
+  const apiKey = req.headers.get('x-api-key');
+  if (apiKey) return authenticateApiKey(apiKey);
+
+  const authorization = req.headers.get('authorization') ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(authorization);
+  if (match) return authenticateIdToken(match[1].trim());
+
+  throw new HttpError(401, 'UNAUTHENTICATED', 'Authentication required');
+}
+
+/**
+ * Authenticate the caller and require at least `minRole`.
+ * Throws 401 (not authenticated) or 403 (role too low). Returns the principal.
+ */
+export async function authorize(req: NextRequest, minRole: Role): Promise<Principal> {
+  const principal = await authenticate(req);
+  if (ROLES.indexOf(principal.role) < ROLES.indexOf(minRole)) {
+    throw new HttpError(403, 'FORBIDDEN', `This operation requires the ${minRole} role`);
+  }
+  return principal;
+}
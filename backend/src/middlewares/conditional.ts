@@ -0,0 +1,52 @@
+// src/middlewares/conditional.ts
+// Conditional request helpers (ETag / If-Match / If-None-Match) for versioned resources.
+// A resource's ETag is its version counter in quotes, e.g. "3". A parent product's ETag also
+// carries the sum of its variants' versions, e.g. "3.12", as its stock totals come from them.
+import { NextRequest } from 'next/server';
+
+/**
+ * ETag header value for a version (and, for a parent product, its variants_version).
+ */
+export function versionETag(version: number | undefined, variantsVersion?: number): string {
+  return variantsVersion === undefined ? `"${version ?? 0}"` : `"${version ?? 0}.${variantsVersion}"`;
+}
+
+/**
+ * Split an If-Match / If-None-Match header into entity tags (weak prefix and quotes removed).
+ */
+function parseETags(header: string): string[] {
+  return header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, '').replace(/^"(.*)"$/, '$1'))
+    .filter(Boolean);
+}
+
+/**
+ * Read `If-Match` as a list of acceptable versions.
+ * Returns undefined when the header is absent or `*` (no version check).
+ * Tags that are not versions of ours are dropped, so they never match. A parent's "3.12" is
+ * version 3: writes to the parent itself only depend on its own version.
+ *
+ * Example usage inside an App Router endpoint:
+ *
+ *   const updated = await updateProduct(id, updates, meta, readIfMatch(req));
+ */
+export function readIfMatch(req: NextRequest): number[] | undefined {
+  const header = req.headers.get('if-match');
+  if (!header || header.trim() === '*') return undefined;
+  return parseETags(header)
+    .filter((tag) => /^\d+(\.\d+)?$/.test(tag))
+    .map((tag) => Number(tag.split('.')[0]));
+}
+
+/**
+ * True when the request's `If-None-Match` matches `etag`, i.e. the client's copy is current
+ * and the handler should answer 304 Not Modified.
+ */
+export function isNotModified(req: NextRequest, etag: string): boolean {
+  const header = req.headers.get('if-none-match');
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  const current = parseETags(etag)[0];
+  return parseETags(header).includes(current);
+}
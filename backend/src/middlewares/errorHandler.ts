@@ -8,47 +8,59 @@
 //   return handleError(err);
 // }
 //
-// The function returns a NextResponse with the correct status code and
-// a JSON body describing the error.
+// The function returns a NextResponse with the correct status code and an RFC 7807
+// `application/problem+json` body:
+//
+//   { "type": "about:blank", "title": "Not Found", "status": 404, "detail": "Product not found",
+//     "code": "PRODUCT_NOT_FOUND", "requestId": "..." }
+//
+// `code` is the stable, machine-readable error code (see ERROR_CODES); the HttpError's details
+// are added as extension members, e.g. `errors` (per-field validation issues) or `failures`.
 
+import { STATUS_CODES } from 'http';
 import { NextResponse } from 'next/server';
-import { HttpError } from '../utils/httpErrors';
+import { ErrorCode, HttpError } from '../utils/httpErrors';
 import { logger } from '../lib/logger';
+import { getRequestContext } from '../lib/requestContext';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
 
 export function handleError(err: unknown) {
-  // Default response values
+  // Default response values: anything unexpected is a 500 whose message is only logged
   let status = 500;
+  let code: ErrorCode = 'INTERNAL_ERROR';
   let message = 'Internal Server Error';
-  let details: any = undefined;
+  let details: unknown = undefined;
 
-  // Custom HttpError: use its status, message, and details
+  // Custom HttpError: use its status, code, message, and details
   if (err instanceof HttpError) {
     status = err.status;
+    code = err.code;
     message = err.message;
     details = err.details;
-
-  // Generic JavaScript Error: fall back to its message
-  } else if (err instanceof Error) {
-    message = err.message || message;
-
-  // String thrown directly: treat as message
-  } else if (typeof err === 'string') {
-    message = err;
   }
 
   // Logging
   // - For server errors (>= 500), log as error with stack trace if possible
   // - For handled/expected errors (< 500), log as info
   if (status >= 500) {
-    logger.error(`Unhandled error: ${message}`, { err });
+    logger.error(`Unhandled error: ${err instanceof Error ? err.message : String(err)}`, { err, code });
   } else {
-    logger.info(`Handled error: ${message}`, { status, details });
+    logger.info(`Handled error: ${message}`, { status, code, details });
   }
 
-  // Response body structure
-  const body: Record<string, any> = { error: message };
-  if (details) body.details = details;
+  // Problem details: extension members first so they cannot replace the standard ones
+  const requestId = getRequestContext()?.requestId;
+  const extensions = details && typeof details === 'object' && !Array.isArray(details) ? details : details ? { details } : {};
+  const body = {
+    ...extensions,
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    detail: message,
+    code,
+    ...(requestId ? { requestId } : {}),
+  };
 
-  // Always return a NextResponse with JSON
-  return NextResponse.json(body, { status });
+  return NextResponse.json(body, { status, headers: { 'Content-Type': PROBLEM_CONTENT_TYPE } });
 }
@@ -0,0 +1,54 @@
+// src/middlewares/idempotency.ts
+import { createHash } from 'crypto';
+import { NextRequest } from 'next/server';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { Principal } from '../models/principal';
+import { HttpError } from '../utils/httpErrors';
+
+const MAX_KEY_LENGTH = 255;
+
+/**
+ * Serialize a value with object keys sorted, so that semantically equal bodies
+ * produce the same fingerprint regardless of key order.
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+      .map((k) => `${JSON.stringify(k)}:${stableStringify((value as Record<string, unknown>)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Read the `Idempotency-Key` header and build the context the services need.
+ * - principal: the caller; keys are per caller, so another caller's key never replays a result
+ * - scope: identifies the operation (and target) the key applies to
+ * - body: the validated request body, used to detect a key reused with another payload
+ *
+ * Returns undefined when the header is absent. Throws 400 for an empty or oversized key.
+ *
+ * Example usage inside an App Router endpoint:
+ *
+ *   const idem = readIdempotencyKey(req, principal, `products:increase:${id}`, validated);
+ */
+export function readIdempotencyKey(
+  req: NextRequest,
+  principal: Principal,
+  scope: string,
+  body: unknown
+): IdempotencyContext | undefined {
+  const header = req.headers.get('idempotency-key');
+  if (header === null) return undefined;
+
+  const key = header.trim();
+  if (!key || key.length > MAX_KEY_LENGTH) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `Idempotency-Key must be between 1 and ${MAX_KEY_LENGTH} characters`);
+  }
+
+  const fingerprint = createHash('sha256').update(stableStringify(body)).digest('hex');
+  return { key, scope: `${principal.type}:${principal.id}:${scope}`, fingerprint };
+}
@@ -0,0 +1,61 @@
+// src/middlewares/instrumentRoute.ts
+// Wraps an App Router handler with request-scoped logging and metrics:
+//   - the request id is taken from X-Request-Id (when well-formed) or generated, and echoed back
+//   - the handler runs inside a request context, so every log line it causes carries the id
+//   - the client's rate limit is checked first (see rateLimit.ts); over the limit, the handler
+//     does not run and the response is a 429
+//   - one `Request completed` line and the per-route metrics are recorded when it finishes
+//
+// Example usage inside an App Router endpoint:
+//
+//   export const GET = instrumentRoute('/api/products/:id', async (req: NextRequest, context: Params) => {
+//     ...
+//   });
+
+import { randomUUID } from 'crypto';
+import { NextRequest } from 'next/server';
+import { runWithRequestContext } from '../lib/requestContext';
+import { recordRequest } from '../lib/metrics';
+import { logger } from '../lib/logger';
+import { handleError } from './errorHandler';
+import { checkRateLimit } from './rateLimit';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+/**
+ * Incoming ids are accepted only if they are short and free of characters that could
+ * break log lines or headers.
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+function requestIdFrom(req: NextRequest): string {
+  const incoming = req.headers.get(REQUEST_ID_HEADER)?.trim();
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+export function instrumentRoute<A extends unknown[]>(
+  route: string,
+  handler: (req: NextRequest, ...args: A) => Promise<Response>
+): (req: NextRequest, ...args: A) => Promise<Response> {
+  return (req, ...args) => {
+    const requestId = requestIdFrom(req);
+    const method = req.method;
+    return runWithRequestContext({ requestId, method, route }, async () => {
+      const started = process.hrtime.bigint();
+      const limit = await checkRateLimit(req, route);
+      let res: Response;
+      try {
+        res = limit.exceeded ? handleError(limit.exceeded) : await handler(req, ...args);
+      } catch (err) {
+        // Handlers catch their own errors; this is a last resort so the request is still logged
+        res = handleError(err);
+      }
+      for (const [name, value] of Object.entries(limit.headers)) res.headers.set(name, value);
+      const seconds = Number(process.hrtime.bigint() - started) / 1e9;
+      recordRequest(route, method, res.status, seconds);
+      res.headers.set(REQUEST_ID_HEADER, requestId);
+      logger.info('Request completed', { status: res.status, durationMs: Math.round(seconds * 1e6) / 1e3 });
+      return res;
+    });
+  };
+}
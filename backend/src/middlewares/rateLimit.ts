@@ -0,0 +1,86 @@
+// src/middlewares/rateLimit.ts
+// Applies the rate limits (src/lib/rateLimit.ts) to a request; called by instrumentRoute for
+// every route, before the handler runs.
+//
+// Clients are told where they stand with the RateLimit-Limit, RateLimit-Remaining,
+// RateLimit-Reset and RateLimit-Policy headers; a request over the limit is answered 429
+// TOO_MANY_REQUESTS with Retry-After and never reaches the handler.
+
+import { NextRequest } from 'next/server';
+import { HttpError } from '../utils/httpErrors';
+import { logger } from '../lib/logger';
+import { getRateLimitStore, RATE_LIMIT_EXEMPT_ROUTES, rateLimitClass, rateLimitPolicy } from '../lib/rateLimit';
+import { apiKeyName } from './auth';
+
+export interface RateLimitCheck {
+  headers: Record<string, string>; // Headers to add to the response
+  exceeded: HttpError | null;      // The 429 to answer with instead of running the handler
+}
+
+/**
+ * Number of proxies in front of the app that append the client address to X-Forwarded-For
+ * (RATE_LIMIT_TRUSTED_PROXIES, default 1).
+ */
+function trustedProxyHops(): number {
+  const raw = process.env.RATE_LIMIT_TRUSTED_PROXIES;
+  const configured = raw === undefined || raw.trim() === '' ? 1 : Number(raw);
+  return Number.isInteger(configured) && configured >= 0 ? configured : 1;
+}
+
+/**
+ * Identity a bucket belongs to: the name of a configured API key, otherwise the client address.
+ * The address is the X-Forwarded-For entry appended by the outermost trusted proxy (the last entry
+ * with one proxy); entries to the left of it come from the client and are ignored, so a client
+ * cannot get a fresh bucket by sending another value. Without a trusted entry every such request
+ * shares one bucket. Requests with a bearer token are limited per address, as the token is only
+ * verified later.
+ */
+function clientOf(req: NextRequest): string {
+  const key = req.headers.get('x-api-key');
+  const name = key ? apiKeyName(key) : null;
+  if (name) return `key:${name}`;
+  const hops = trustedProxyHops();
+  const forwarded = (req.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+  const address = hops > 0 && forwarded.length > 0 ? forwarded[Math.max(0, forwarded.length - hops)] : undefined;
+  return `ip:${address ?? 'unknown'}`;
+}
+
+/**
+ * Take a token for the request from its client's read or write bucket.
+ * A failing store is logged and lets the request through rather than taking the API down.
+ */
+export async function checkRateLimit(req: NextRequest, route: string): Promise<RateLimitCheck> {
+  const none: RateLimitCheck = { headers: {}, exceeded: null };
+  if (RATE_LIMIT_EXEMPT_ROUTES.includes(route)) return none;
+  const kind = rateLimitClass(req.method);
+  const policy = rateLimitPolicy(kind);
+  if (!policy) return none;
+
+  let decision;
+  try {
+    decision = await getRateLimitStore().take(`${kind}:${clientOf(req)}`, policy, Date.now());
+  } catch (err) {
+    logger.warn('Rate limit store failed; request not limited', { error: (err as Error).message });
+    return none;
+  }
+
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(decision.limit),
+    'RateLimit-Remaining': String(decision.remaining),
+    'RateLimit-Reset': String(decision.resetSeconds),
+    'RateLimit-Policy': `${policy.limit};w=${policy.windowSeconds}`,
+  };
+  if (decision.allowed) return { headers, exceeded: null };
+
+  headers['Retry-After'] = String(decision.retryAfterSeconds);
+  const exceeded = new HttpError(
+    429,
+    'TOO_MANY_REQUESTS',
+    `Rate limit of ${policy.limit} ${kind}s per ${policy.windowSeconds} seconds exceeded; retry in ${decision.retryAfterSeconds} seconds`,
+    { retryAfter: decision.retryAfterSeconds }
+  );
+  return { headers, exceeded };
+}
@@ -1,28 +1,40 @@
 // src/middlewares/validateBody.ts
 import { z } from 'zod';
 import { HttpError } from '../utils/httpErrors';
+import { validationError } from '../lib/validate';
+
+/**
+ * Read a request body as JSON.
+ * A body that is not valid JSON throws a 400 MALFORMED_JSON HttpError (instead of the
+ * SyntaxError `req.json()` would throw). With `fallback`, an empty body yields the fallback,
+ * for endpoints whose body is optional.
+ *
+ * Example usage inside an App Router endpoint:
+ *
+ *   const body = await readJson(req);
+ */
+export async function readJson(req: Request, fallback?: unknown): Promise<unknown> {
+  const text = await req.text();
+  if (!text.trim() && fallback !== undefined) return fallback;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'MALFORMED_JSON', 'Request body is not valid JSON');
+  }
+}
 
 /**
  * Validate JSON body with the provided Zod schema.
- * If validation fails, it throws an HttpError with status 400 (Bad Request).
+ * If validation fails, it throws a 400 VALIDATION_FAILED HttpError listing every issue per field.
  *
  * Example usage inside an App Router endpoint:
  *
- *   const body = await req.json();
+ *   const body = await readJson(req);
  *   const data = validateBody(productCreateSchema, body);
  */
 export function validateBody<T>(schema: z.ZodType<T>, body: unknown): T {
   const parsed = schema.safeParse(body);
-
-  if (!parsed.success) {
-    // Collect detailed validation error messages
-    const msg = parsed.error.issues
-      .map((i) => `${i.path.join('.')}: ${i.message}`)
-      .join('; ');
-
-    // Throw a structured 400 error with details
-    throw new HttpError(400, `Invalid request body: ${msg}`);
-  }
+  if (!parsed.success) throw validationError('Invalid request body', parsed.error);
 
   // Return the validated and typed data
   return parsed.data;
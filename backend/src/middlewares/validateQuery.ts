@@ -0,0 +1,28 @@
+// src/middlewares/validateQuery.ts
+import { z } from 'zod';
+import { validationError } from '../lib/validate';
+
+/**
+ * Validate URL query parameters with the provided Zod schema.
+ * If validation fails, it throws a 400 VALIDATION_FAILED HttpError listing every issue per field.
+ *
+ * Query values always arrive as strings, so schemas should use `z.coerce`
+ * for numbers and dates.
+ *
+ * Example usage inside an App Router endpoint:
+ *
+ *   const query = validateQuery(movementListQuerySchema, req.nextUrl.searchParams);
+ */
+export function validateQuery<T>(schema: z.ZodType<T>, params: URLSearchParams): T {
+  // Drop empty values so `?limit=` behaves like an omitted parameter
+  const raw: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (value !== '') raw[key] = value;
+  });
+
+  const parsed = schema.safeParse(raw);
+
+  if (!parsed.success) throw validationError('Invalid query parameters', parsed.error);
+
+  return parsed.data;
+}
@@ -0,0 +1,15 @@
+// src/models/category.ts
+// Product category TypeScript interface used across the backend
+
+/**
+ * Node of the category tree. Products point at one category with `categoryId`.
+ */
+export interface Category {
+  id: string;                 // Firestore document ID
+  name: string;               // Display name, unique among its siblings (case-insensitive)
+  parentId: string | null;    // Parent category; null for a top-level category
+  description?: string;       // Optional description
+  path?: string[];            // Computed on read: names from the top-level category down to this one
+  createdAt: string;          // Timestamp (ISO string) when created
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
@@ -0,0 +1,20 @@
+// src/models/idempotencyRecord.ts
+// Stored result of a request made with an Idempotency-Key header
+
+export interface IdempotencyRecord {
+  key: string;          // Client-supplied Idempotency-Key
+  scope: string;        // Caller and operation the key was used for (e.g. "api_key:erp:products:increase:<id>")
+  fingerprint: string;  // SHA-256 of the validated request body
+  response: unknown;    // Result returned by the first request, replayed on retries
+  createdAt: string;    // Timestamp (ISO string) when the first request completed
+  expiresAt: string;    // Timestamp (ISO string) after which the key can be reused
+}
+
+/**
+ * Idempotency data extracted from an incoming request and handed to the services.
+ */
+export interface IdempotencyContext {
+  key: string;
+  scope: string;
+  fingerprint: string;
+}
@@ -0,0 +1,25 @@
+// src/models/location.ts
+// Location (warehouse / site) and per-location stock TypeScript interfaces used across the backend
+
+export interface Location {
+  id: string;                 // Firestore document ID
+  code: string;               // Short unique code (e.g. "WH-EAST")
+  name: string;               // Display name
+  address?: string;           // Optional address
+  active: boolean;            // Inactive locations cannot receive stock
+  createdAt: string;          // Timestamp (ISO string) when created
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
+
+/**
+ * Stock of one product at one location.
+ * Document id is `${productId}_${locationId}` so it can be read inside transactions without a query.
+ */
+export interface LocationStock {
+  id: string;                 // `${productId}_${locationId}`
+  productId: string;          // Product
+  locationId: string;         // Location
+  stock_quantity: number;     // Units of the product at the location
+  low_stock_threshold?: number; // Optional per-location threshold (falls back to the product's)
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
@@ -0,0 +1,19 @@
+// src/models/principal.ts
+// Authenticated caller (user or machine client) and the roles used for authorization
+
+/**
+ * Roles in increasing order of privilege.
+ * - viewer: read-only access
+ * - clerk: viewer + stock operations (increase, decrease, reservations, transfers)
+ * - manager: clerk + catalog and location management (create, update, delete)
+ */
+export const ROLES = ['viewer', 'clerk', 'manager'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export interface Principal {
+  id: string;                 // Firebase uid, or the API key's name
+  type: 'user' | 'api_key';   // How the caller authenticated
+  role: Role;                 // Granted role
+  email?: string;             // Firebase users only
+}
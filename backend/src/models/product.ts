@@ -1,14 +1,167 @@
 // src/models/product.ts
 // Product TypeScript interface used across the backend
 
+/**
+ * Allowed SKU / barcode format: letters, digits, dot, dash and underscore, starting with a letter or digit.
+ * Identifiers double as index document ids, so anything path-like is excluded.
+ */
+export const PRODUCT_IDENTIFIER_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]{0,63}$/;
+
+/**
+ * Stock status a product search can filter on.
+ */
+export const PRODUCT_STOCK_STATUSES = ['in_stock', 'low_stock', 'out_of_stock'] as const;
+export type ProductStockStatus = (typeof PRODUCT_STOCK_STATUSES)[number];
+
+/**
+ * How stock is valued (see src/lib/costing.ts).
+ * - fifo: units leave in the order they were received, at the cost they were received at
+ * - average: units leave at the weighted-average cost of the stock on hand
+ */
+export const COSTING_METHODS = ['fifo', 'average'] as const;
+export type CostingMethod = (typeof COSTING_METHODS)[number];
+
+/**
+ * Highest unit cost accepted, in minor currency units (keeps every value a safe integer).
+ */
+export const MAX_UNIT_COST = 1_000_000_000;
+
+/**
+ * Unit stock is counted in when a product does not name its base_unit.
+ */
+export const DEFAULT_BASE_UNIT = 'each';
+
+/**
+ * Largest conversion factor of an alternative unit (base units per unit).
+ */
+export const MAX_UNIT_FACTOR = 1_000_000;
+
 export interface Product {
   id?: string;                // Firestore document ID (optional, auto-generated)
   name: string;               // Product name (required)
+  sku?: string;               // Stock keeping unit, unique (case-insensitive) across products
+  barcodes?: string[];        // Barcodes (EAN / UPC / internal), each unique across products
   description?: string;       // Optional product description
-  stock_quantity: number;     // Current inventory count
+  categoryId?: string | null; // Category the product belongs to (see Category)
+  tags?: string[];            // Free-form tags, lowercase
+  stock_quantity: number;     // Current inventory count, in base units
+  base_unit?: string;         // Unit stock is counted in (default DEFAULT_BASE_UNIT), lowercase
+  units?: ProductUnit[];      // Alternative units stock can be moved in (e.g. a case of 24)
   low_stock_threshold?: number; // Optional threshold to flag low stock
+  reorder_point?: number;     // Reorder when available + on-order stock falls to this level
+  reorder_quantity?: number;  // Fixed order size; suggestions order whole multiples of it
+  max_stock_level?: number;   // Order-up-to level (takes precedence over reorder_quantity)
+  preferred_supplier?: string; // Supplier purchase orders are drafted for
+  lead_time_days?: number;    // Days between ordering and receiving
+  reserved_quantity?: number; // Units held by active reservations
+  allocated_quantity?: number; // Units assigned to locations (sum of per-location stock)
+  available_quantity?: number; // Computed on read: stock_quantity - reserved_quantity - expired_quantity (never stored)
+  lots?: ProductLot[];        // Stock received under a lot number; the rest of stock_quantity is untracked
+  next_expiry?: string | null; // Earliest expiry date among the lots (YYYY-MM-DD), null if none expires
+  expired_quantity?: number;  // Computed on read for products with lots: units in expired lots (never stored)
+  costing_method?: CostingMethod; // Valuation method (default average)
+  inventory_value?: number;   // Value of the stock on hand, in minor currency units
+  unit_cost?: number;         // Current unit cost (minor units): the weighted average, or the latest FIFO receipt cost
+  cost_layers?: CostLayer[];  // FIFO only: the receipts still on hand, oldest first
+  version?: number;           // Incremented on every write; exposed as the ETag
   createdAt: string;          // Timestamp (ISO string) when created
   updatedAt: string;          // Timestamp (ISO string) when last updated
-  // Flexible extension: allow additional fields if needed
-  [key: string]: any;
+  deletedAt?: string | null;  // Set while the product is in the trash (ISO string)
+  deletedBy?: string | null;  // Principal that moved the product to the trash
+  parentId?: string;          // Set on a variant: the product it is a variant of
+  attributes?: Record<string, string>; // Variant attributes (e.g. { size: 'M', color: 'red' })
+  variant_count?: number;     // Set on a parent: live variants; its stock is the sum of theirs
+  variants_version?: number;  // Computed on read for a parent: sum of its live variants' versions, part of its ETag (never stored)
+}
+
+/**
+ * Lot (batch) of a product: units received under one lot number, sharing an expiry date.
+ */
+export interface ProductLot {
+  lotNumber: string;          // Lot / batch number, unique per product
+  expiresAt: string | null;   // Last day the units can be sold (YYYY-MM-DD), null if they do not expire
+  quantity: number;           // Units of the lot on hand
+  receivedAt: string;         // Timestamp (ISO string) of the first receipt into the lot
+}
+
+/**
+ * Alternative unit of measure of a product: one `name` is `factor` base units.
+ */
+export interface ProductUnit {
+  name: string;               // Unit name, lowercase, unique per product and not the base unit
+  factor: number;             // Base units per unit (e.g. 24 for a case of 24); may be a fraction
+}
+
+/**
+ * Quantity in a named unit: the base unit when `unit` is omitted.
+ */
+export interface UnitQuantity {
+  amount: number;
+  unit?: string;
+}
+
+/**
+ * Quantity accepted wherever stock is set or moved: base units, or an amount in a named unit.
+ */
+export type StockQuantity = number | UnitQuantity;
+
+/**
+ * Product fields as accepted on create and update, where stock_quantity may name a unit.
+ */
+export type ProductInput = Omit<Partial<Product>, 'stock_quantity'> & { stock_quantity?: StockQuantity };
+
+/**
+ * FIFO cost layer: units received at one unit cost that are still on hand.
+ */
+export interface CostLayer {
+  quantity: number;
+  unit_cost: number;          // Minor currency units per unit
+  receivedAt: string;         // Timestamp (ISO string) of the receipt
+}
+
+/**
+ * Line of the inventory valuation report: one product with stock (or value) on hand.
+ */
+export interface ValuationLine {
+  productId: string;
+  name: string;
+  sku?: string;
+  costing_method: CostingMethod;
+  quantity: number;
+  value: number;              // Minor currency units
+  unit_cost: number | null;   // value / quantity, rounded to the minor unit (null without stock)
+}
+
+/**
+ * Inventory valuation report (see getInventoryValuation).
+ */
+export interface InventoryValuation {
+  asOf: string;               // Timestamp (ISO string) the report describes
+  currency: string;           // ISO 4217 code of every amount
+  total_quantity: number;
+  total_value: number;        // Minor currency units
+  items: ValuationLine[];
+}
+
+/**
+ * Line of the expiring-stock report: one lot that expires within the window (or already has).
+ */
+export interface ExpiringLot {
+  productId: string;
+  name: string;
+  sku?: string;
+  lotNumber: string;
+  expiresAt: string;
+  quantity: number;
+  days_left: number;          // Days until the expiry date (negative once expired)
+  expired: boolean;
+}
+
+/**
+ * Entry of a uniqueness index (one document per SKU or barcode), pointing at its product.
+ */
+export interface ProductIdentifierEntry {
+  productId: string;          // Product that owns the identifier
+  value: string;              // SKU / barcode as entered
+  createdAt: string;          // Timestamp (ISO string) when claimed
 }
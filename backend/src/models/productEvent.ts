@@ -0,0 +1,36 @@
+// src/models/productEvent.ts
+// Change event pushed to GET /api/products/stream after a product write commits
+
+import { Product } from './product';
+
+/**
+ * Event types:
+ * - product.created: a product or variant was created (or imported)
+ * - product.updated: product fields were changed through an update, an import or a restore
+ * - product.deleted: a product was moved to the trash
+ * - stock.changed: a stock operation changed stock_quantity (increase, decrease, adjustment,
+ *   location change, reservation commit, stock-take approval)
+ */
+export const PRODUCT_EVENT_TYPES = ['product.created', 'product.updated', 'product.deleted', 'stock.changed'] as const;
+
+export type ProductEventType = (typeof PRODUCT_EVENT_TYPES)[number];
+
+export interface ProductEvent {
+  id: string;                 // `<instance>-<sequence>`, assigned on publish; the SSE event id
+  type: ProductEventType;     // What happened
+  productId: string;          // Product concerned
+  parentId?: string;          // Set when the product is a variant
+  sku?: string;               // Product SKU, when it has one
+  stock_quantity: number;     // stock_quantity after the change
+  quantity_before: number;    // stock_quantity before the change (0 for a new product)
+  low_stock_threshold: number | null; // Threshold in force after the change
+  low_stock: boolean;         // Below the threshold after the change
+  was_low_stock: boolean;     // Below the threshold before the change
+  product?: Product;          // product.created / product.updated: the product after the write
+  at: string;                 // Timestamp (ISO string) of the write
+}
+
+/**
+ * Event as collected inside a transaction, before the bus numbers it.
+ */
+export type PendingProductEvent = Omit<ProductEvent, 'id'>;
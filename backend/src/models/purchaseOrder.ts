@@ -0,0 +1,53 @@
+// src/models/purchaseOrder.ts
+// Reorder suggestion and purchase order TypeScript interfaces used across the backend
+
+/**
+ * Lifecycle of a purchase order.
+ * - draft: created from reorder suggestions, lines can still be edited
+ * - ordered: sent to the supplier
+ * - received: goods booked into stock (one `receipt` movement per line)
+ * - cancelled: abandoned before receipt
+ * Draft and ordered purchase orders count as stock on order.
+ */
+export const PURCHASE_ORDER_STATUSES = ['draft', 'ordered', 'received', 'cancelled'] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export interface PurchaseOrderLine {
+  productId: string;          // Product ordered
+  name: string;               // Product name when the line was added
+  sku?: string;               // Product SKU when the line was added
+  quantity: number;           // Units ordered
+  unit_cost?: number;         // Agreed cost per unit (minor currency units), used to value the receipt
+}
+
+export interface PurchaseOrder {
+  id: string;                 // Firestore document ID
+  supplier: string | null;    // Supplier (null for products without a preferred supplier)
+  status: PurchaseOrderStatus; // Current state
+  lines: PurchaseOrderLine[]; // One line per product
+  reference?: string;         // Optional external reference (supplier order no., ...)
+  actor?: string;             // User / system that drafted the order
+  createdAt: string;          // Timestamp (ISO string) when drafted
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+  orderedAt?: string;         // Timestamp (ISO string) when marked ordered
+  receivedAt?: string;        // Timestamp (ISO string) when received
+}
+
+/**
+ * Suggested order for one product, computed on request (never stored).
+ */
+export interface ReorderSuggestion {
+  productId: string;          // Product to order
+  name: string;               // Product name
+  sku?: string;               // Product SKU
+  preferred_supplier: string | null; // Supplier the order would go to
+  stock_quantity: number;     // On-hand stock
+  available_quantity: number; // On-hand stock not held by reservations
+  on_order: number;           // Units on draft / ordered purchase orders
+  reorder_point: number;      // Effective reorder point (see reorderService)
+  lead_time_days: number;     // Lead time used for the demand estimate
+  daily_consumption: number;  // Average units consumed per day over the window
+  lead_time_demand: number;   // Expected consumption while an order is underway
+  suggested_quantity: number; // Units to order
+}
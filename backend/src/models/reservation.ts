@@ -0,0 +1,25 @@
+// src/models/reservation.ts
+// Stock reservation (hold) TypeScript interface used across the backend
+
+/**
+ * Lifecycle of a reservation.
+ * - active: quantity is held (counted in the product's reserved_quantity)
+ * - committed: turned into a real stock decrease
+ * - released: given back before expiry
+ * - expired: given back automatically after expiresAt
+ */
+export const RESERVATION_STATUSES = ['active', 'committed', 'released', 'expired'] as const;
+
+export type ReservationStatus = (typeof RESERVATION_STATUSES)[number];
+
+export interface Reservation {
+  id: string;                 // Firestore document ID
+  productId: string;          // Product the quantity is held on
+  quantity: number;           // Units held
+  status: ReservationStatus;  // Current state
+  expiresAt: string;          // Timestamp (ISO string) after which the hold lapses
+  reference?: string;         // Optional external reference (cart / order id)
+  actor?: string;             // Optional user / system that placed the hold
+  createdAt: string;          // Timestamp (ISO string) when created
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
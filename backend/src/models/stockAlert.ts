@@ -0,0 +1,24 @@
+// src/models/stockAlert.ts
+// Alert raised when a product crosses its low_stock_threshold (in either direction)
+
+/**
+ * Alert types:
+ * - low_stock: stock dropped below the threshold
+ * - low_stock_recovered: stock is back at or above the threshold
+ */
+export const ALERT_TYPES = ['low_stock', 'low_stock_recovered'] as const;
+
+export type AlertType = (typeof ALERT_TYPES)[number];
+
+export interface StockAlert {
+  id: string;                 // Firestore document ID
+  type: AlertType;            // What happened
+  productId: string;          // Product concerned
+  productName: string;        // Product name at the time of the alert
+  sku?: string;               // Product SKU, when it has one
+  quantity_before: number;    // stock_quantity before the change
+  quantity_after: number;     // stock_quantity after the change
+  low_stock_threshold: number | null; // Threshold in force after the change (null when removed)
+  dispatched: boolean;        // True once webhook deliveries have been created for it
+  createdAt: string;          // Timestamp (ISO string) when raised
+}
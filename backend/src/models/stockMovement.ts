@@ -0,0 +1,72 @@
+// src/models/stockMovement.ts
+// Stock movement (ledger entry) TypeScript interface used across the backend
+
+/**
+ * Why a quantity changed.
+ * - receipt: goods received (default for increases)
+ * - sale: goods shipped/sold (default for decreases)
+ * - adjustment: manual correction (default for updates that set stock_quantity)
+ * - damage: goods written off as damaged/lost
+ * - return: goods returned by a customer
+ * - initial: opening stock recorded when the product is created
+ * - transfer: stock moved between locations (aggregate unchanged)
+ */
+export const MOVEMENT_REASONS = ['receipt', 'sale', 'adjustment', 'damage', 'return', 'initial', 'transfer'] as const;
+
+export type MovementReason = (typeof MOVEMENT_REASONS)[number];
+
+export interface StockMovement {
+  id: string;                 // Firestore document ID
+  productId: string;          // Product whose quantity changed
+  delta: number;              // Signed change (positive = in, negative = out)
+  quantity_before: number;    // stock_quantity before the change
+  quantity_after: number;     // stock_quantity after the change
+  locationId?: string;        // Location the change applied to (location-aware operations only)
+  location_delta?: number;    // Signed change at the location
+  location_quantity_before?: number; // Location stock before the change
+  location_quantity_after?: number;  // Location stock after the change
+  lots?: MovementLot[];       // Lots the change applied to (see Product.lots)
+  unit_cost?: number;         // Increases: cost per unit received, in minor currency units
+  value_delta?: number;       // Signed change of the inventory value (a decrease's cost of goods, negated)
+  value_after?: number;       // Inventory value after the change
+  reason: MovementReason;     // Reason code
+  reference?: string;         // Optional external reference (order no., delivery note, ...)
+  actor?: string;             // Optional user / system that made the change
+  createdAt: string;          // Timestamp (ISO string) when recorded
+}
+
+/**
+ * Caller-supplied context for a stock change.
+ * Every field is optional; services fall back to a sensible default reason.
+ */
+export interface StockMovementMeta {
+  reason?: MovementReason;
+  reference?: string;
+  actor?: string;
+}
+
+/**
+ * Location part of a movement: the location's stock before and after the change.
+ */
+export interface MovementLocation {
+  locationId: string;
+  before: number;
+  after: number;
+}
+
+/**
+ * Change of one lot within a movement.
+ */
+export interface MovementLot {
+  lotNumber: string;
+  delta: number;              // Signed change of the lot's quantity
+}
+
+/**
+ * Valuation part of a movement (see src/lib/costing.ts).
+ */
+export interface MovementCost {
+  unit_cost?: number;
+  value_delta: number;
+  value_after: number;
+}
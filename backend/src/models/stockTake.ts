@@ -0,0 +1,63 @@
+// src/models/stockTake.ts
+// Stock-take (cycle count) session TypeScript interfaces used across the backend
+
+/**
+ * Lifecycle of a stock take.
+ * - open: counts can be recorded
+ * - approved: the variances were applied to stock (one `adjustment` movement per changed product)
+ * - cancelled: abandoned, stock untouched
+ */
+export const STOCK_TAKE_STATUSES = ['open', 'approved', 'cancelled'] as const;
+
+export type StockTakeStatus = (typeof STOCK_TAKE_STATUSES)[number];
+
+export interface StockTakeLine {
+  productId: string;          // Product counted
+  name: string;               // Product name when the session was opened
+  sku?: string;               // Product SKU when the session was opened
+  expected_quantity: number;  // stock_quantity frozen when the session was opened
+  counted_quantity: number | null; // Physical count (null until counted)
+  quantity_at_count?: number; // stock_quantity when the count was recorded
+  countedAt?: string;         // Timestamp (ISO string) of the latest count
+  countedBy?: string;         // Principal that recorded the latest count
+  variance?: number;          // Set on approval: the change applied to stock_quantity
+}
+
+export interface StockTake {
+  id: string;                 // Firestore document ID
+  status: StockTakeStatus;    // Current state
+  lines: StockTakeLine[];     // One line per product
+  reference?: string;         // Optional external reference (count sheet no., ...)
+  actor?: string;             // User that opened the session
+  createdAt: string;          // Timestamp (ISO string) when opened
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+  approvedAt?: string;        // Timestamp (ISO string) when approved
+  approvedBy?: string;        // Principal that approved the variances
+  cancelledAt?: string;       // Timestamp (ISO string) when cancelled
+}
+
+/**
+ * Variance of one line, computed on request (see stockTakeService.getVarianceReport).
+ * Stock moved between the session start and the count is part of what the count should find,
+ * so the variance is `counted_quantity - quantity_at_count`; stock moved after the count is
+ * kept when the variance is applied.
+ */
+export interface StockTakeVarianceLine {
+  productId: string;
+  name: string;
+  sku?: string;
+  expected_quantity: number;  // Frozen at session start
+  counted_quantity: number | null;
+  moved_before_count: number | null; // Net stock movement between the session start and the count
+  variance: number | null;    // counted - (expected + moved_before_count); null until counted
+  current_quantity: number;   // stock_quantity now (at approval for an approved session)
+}
+
+export interface StockTakeVarianceReport {
+  id: string;
+  status: StockTakeStatus;
+  lines: StockTakeVarianceLine[];
+  counted_lines: number;
+  uncounted_lines: number;
+  net_variance: number;       // Sum of the variances of counted lines
+}
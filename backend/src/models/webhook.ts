@@ -0,0 +1,45 @@
+// src/models/webhook.ts
+// Webhook subscriptions and their delivery log
+import { AlertType } from './stockAlert';
+
+export interface WebhookSubscription {
+  id: string;                 // Firestore document ID
+  url: string;                // Endpoint that receives POSTed events
+  events: AlertType[];        // Alert types the subscriber wants
+  secret: string;             // HMAC-SHA256 signing secret (only returned when created)
+  active: boolean;            // Inactive subscriptions receive nothing
+  description?: string;       // Optional note
+  createdAt: string;          // Timestamp (ISO string) when created
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
+
+export const DELIVERY_STATUSES = ['pending', 'succeeded', 'failed'] as const;
+
+export type DeliveryStatus = (typeof DELIVERY_STATUSES)[number];
+
+/**
+ * One attempt to POST an event to a subscriber.
+ */
+export interface WebhookAttempt {
+  at: string;                 // Timestamp (ISO string) of the attempt
+  statusCode: number | null;  // HTTP status received (null when the request failed)
+  error: string | null;       // Network error or non-2xx summary (null on success)
+  durationMs: number;         // Time taken
+}
+
+/**
+ * Delivery of one alert to one subscription, with its attempt log.
+ */
+export interface WebhookDelivery {
+  id: string;                 // Firestore document ID (sent as X-Webhook-Id)
+  subscriptionId: string;     // Subscription delivered to
+  alertId: string;            // Alert being delivered
+  event: AlertType;           // Alert type
+  payload: string;            // Exact JSON body sent (signed as-is)
+  status: DeliveryStatus;     // pending until it succeeds or runs out of attempts
+  attempts: WebhookAttempt[]; // Attempts so far, oldest first
+  nextAttemptAt: string | null; // When the next attempt is due (null once finished)
+  leaseUntil: string | null;  // Set while an attempt is in flight, so it is not sent twice
+  createdAt: string;          // Timestamp (ISO string) when created
+  updatedAt: string;          // Timestamp (ISO string) when last updated
+}
@@ -0,0 +1,200 @@
+// src/repositories/firestoreRepository.ts
+// Firestore-backed repository (the production storage backend).
+// Each class is a thin wrapper that unwraps our references before handing them to Firestore.
+
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  CollectionReference,
+  DocumentReference,
+  DocumentSnapshot,
+  OrderDirection,
+  ProductRepository,
+  Query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Transaction,
+  WhereOp,
+  WriteBatch,
+} from './productRepository';
+
+type FsDocRef = FirebaseFirestore.DocumentReference;
+type FsQuery = FirebaseFirestore.Query;
+
+class FirestoreDocumentReference implements DocumentReference {
+  constructor(readonly raw: FsDocRef) {}
+
+  get id() {
+    return this.raw.id;
+  }
+
+  async get() {
+    return wrapSnapshot(await this.raw.get());
+  }
+
+  create(data: object) {
+    return this.raw.create(data);
+  }
+
+  set(data: object) {
+    return this.raw.set(data);
+  }
+
+  update(data: object) {
+    return this.raw.update(data);
+  }
+
+  delete() {
+    return this.raw.delete();
+  }
+}
+
+class FirestoreQuery implements Query {
+  constructor(readonly raw: FsQuery) {}
+
+  where(field: string, op: WhereOp, value: unknown): Query {
+    return new FirestoreQuery(this.raw.where(field, op, value));
+  }
+
+  orderBy(field: string, direction: OrderDirection = 'asc'): Query {
+    return new FirestoreQuery(this.raw.orderBy(field, direction));
+  }
+
+  limit(n: number): Query {
+    return new FirestoreQuery(this.raw.limit(n));
+  }
+
+  startAfter(...values: unknown[]): Query {
+    return new FirestoreQuery(this.raw.startAfter(...values));
+  }
+
+  async get() {
+    return wrapQuerySnapshot(await this.raw.get());
+  }
+}
+
+class FirestoreCollection extends FirestoreQuery implements CollectionReference {
+  constructor(private readonly collectionRaw: FirebaseFirestore.CollectionReference) {
+    super(collectionRaw);
+  }
+
+  doc(id?: string): DocumentReference {
+    return new FirestoreDocumentReference(id === undefined ? this.collectionRaw.doc() : this.collectionRaw.doc(id));
+  }
+}
+
+function unwrap(ref: DocumentReference): FsDocRef {
+  if (!(ref instanceof FirestoreDocumentReference)) throw new Error('Reference does not belong to the Firestore repository');
+  return ref.raw;
+}
+
+function wrapSnapshot(snap: FirebaseFirestore.DocumentSnapshot): DocumentSnapshot {
+  return {
+    id: snap.id,
+    exists: snap.exists,
+    ref: new FirestoreDocumentReference(snap.ref),
+    data: <T>() => snap.data() as T | undefined,
+  };
+}
+
+function wrapQuerySnapshot(snaps: FirebaseFirestore.QuerySnapshot): QuerySnapshot {
+  const docs = snaps.docs.map((s) => wrapSnapshot(s) as QueryDocumentSnapshot);
+  return { docs, empty: docs.length === 0, size: docs.length, forEach: (cb) => docs.forEach(cb) };
+}
+
+class FirestoreTransaction implements Transaction {
+  constructor(private readonly tx: FirebaseFirestore.Transaction) {}
+
+  get(ref: DocumentReference): Promise<DocumentSnapshot>;
+  get(query: Query): Promise<QuerySnapshot>;
+  async get(target: DocumentReference | Query): Promise<DocumentSnapshot | QuerySnapshot> {
+    if (target instanceof FirestoreQuery) return wrapQuerySnapshot(await this.tx.get(target.raw));
+    return wrapSnapshot(await this.tx.get(unwrap(target as DocumentReference)));
+  }
+
+  async getAll(...refs: DocumentReference[]) {
+    if (refs.length === 0) return [];
+    const snaps = await this.tx.getAll(...refs.map(unwrap));
+    return snaps.map(wrapSnapshot);
+  }
+
+  create(ref: DocumentReference, data: object) {
+    this.tx.create(unwrap(ref), data);
+    return this;
+  }
+
+  set(ref: DocumentReference, data: object) {
+    this.tx.set(unwrap(ref), data);
+    return this;
+  }
+
+  update(ref: DocumentReference, data: object) {
+    this.tx.update(unwrap(ref), data);
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.tx.delete(unwrap(ref));
+    return this;
+  }
+}
+
+class FirestoreWriteBatch implements WriteBatch {
+  constructor(private readonly batch: FirebaseFirestore.WriteBatch) {}
+
+  create(ref: DocumentReference, data: object) {
+    this.batch.create(unwrap(ref), data);
+    return this;
+  }
+
+  set(ref: DocumentReference, data: object) {
+    this.batch.set(unwrap(ref), data);
+    return this;
+  }
+
+  update(ref: DocumentReference, data: object) {
+    this.batch.update(unwrap(ref), data);
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.batch.delete(unwrap(ref));
+    return this;
+  }
+
+  commit() {
+    return this.batch.commit();
+  }
+}
+
+class FirestoreRepository implements ProductRepository {
+  constructor(private readonly db: Firestore) {}
+
+  collection(name: string): CollectionReference {
+    return new FirestoreCollection(this.db.collection(name));
+  }
+
+  async getAll(...refs: DocumentReference[]) {
+    if (refs.length === 0) return [];
+    const snaps = await this.db.getAll(...refs.map(unwrap));
+    return snaps.map(wrapSnapshot);
+  }
+
+  runTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    return this.db.runTransaction((tx) => work(new FirestoreTransaction(tx)));
+  }
+
+  batch(): WriteBatch {
+    return new FirestoreWriteBatch(this.db.batch());
+  }
+}
+
+/**
+ * Create the Firestore repository.
+ * firebase/admin is loaded here rather than at import time, because it throws when the
+ * Firebase environment variables are missing; other backends must work without them.
+ */
+export function createFirestoreRepository(): ProductRepository {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const { db } = require('../../firebase/admin') as typeof import('../../firebase/admin');
+  return new FirestoreRepository(db);
+}
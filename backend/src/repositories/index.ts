@@ -0,0 +1,45 @@
+// src/repositories/index.ts
+// Selects the storage backend used by the services.
+//
+// STORAGE_BACKEND=firestore (default) uses Firebase; STORAGE_BACKEND=memory keeps everything in
+// process memory (data is lost on restart), which needs no credentials.
+
+import { ProductRepository } from './productRepository';
+import { MemoryRepository } from './memoryRepository';
+import { createFirestoreRepository } from './firestoreRepository';
+
+export * from './productRepository';
+export { MemoryRepository } from './memoryRepository';
+
+export const STORAGE_BACKENDS = ['firestore', 'memory'] as const;
+export type StorageBackend = (typeof STORAGE_BACKENDS)[number];
+
+// Kept on globalThis so the in-memory data survives module reloads in `next dev`
+const globalForRepo = globalThis as typeof globalThis & { __productRepository?: ProductRepository };
+
+function configuredBackend(): StorageBackend {
+  const value = (process.env.STORAGE_BACKEND ?? 'firestore').trim().toLowerCase();
+  if (!(STORAGE_BACKENDS as readonly string[]).includes(value)) {
+    throw new Error(`Unknown STORAGE_BACKEND "${value}"; expected one of ${STORAGE_BACKENDS.join(', ')}`);
+  }
+  return value as StorageBackend;
+}
+
+/**
+ * The repository every service reads and writes through (created on first use).
+ */
+export function getRepository(): ProductRepository {
+  if (!globalForRepo.__productRepository) {
+    globalForRepo.__productRepository =
+      configuredBackend() === 'memory' ? new MemoryRepository() : createFirestoreRepository();
+  }
+  return globalForRepo.__productRepository;
+}
+
+/**
+ * Replace the repository (e.g. a fresh MemoryRepository per test). Pass null to go back to
+ * the configured backend on next use.
+ */
+export function setRepository(repo: ProductRepository | null) {
+  globalForRepo.__productRepository = repo ?? undefined;
+}
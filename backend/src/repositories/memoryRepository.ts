@@ -0,0 +1,422 @@
+// src/repositories/memoryRepository.ts
+// In-memory repository for tests and local development (no Firebase credentials needed).
+//
+// It mirrors the Firestore behaviour the services depend on:
+//  - documents are copied on every read and write, so callers never share state with the store
+//  - queries support the same filters, ordering, cursors and limits, and (like Firestore)
+//    skip documents that lack a filtered or ordered field
+//  - transactions are serialized, reject reads after writes, and apply their writes
+//    all-or-nothing when the callback resolves; nothing is applied if it throws
+//  - `create` fails on an existing document, `update` on a missing one, and undefined values
+//    are rejected, exactly as Firestore would
+
+import { randomBytes } from 'crypto';
+import {
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  DocumentSnapshot,
+  OrderDirection,
+  ProductRepository,
+  Query,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Transaction,
+  WhereOp,
+  WriteBatch,
+} from './productRepository';
+
+type Filter = { field: string; op: WhereOp; value: unknown };
+type Order = { field: string; direction: OrderDirection };
+type Write =
+  | { kind: 'create' | 'set' | 'update'; ref: MemoryDocumentReference; data: object }
+  | { kind: 'delete'; ref: MemoryDocumentReference };
+
+const AUTO_ID_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+const RANGE_OPS: WhereOp[] = ['<', '<=', '>', '>=', '!=', 'not-in'];
+
+function autoId() {
+  const bytes = randomBytes(20);
+  let id = '';
+  for (const b of bytes) id += AUTO_ID_CHARS[b % AUTO_ID_CHARS.length];
+  return id;
+}
+
+/**
+ * Reject values Firestore cannot store, so bugs surface in tests rather than in production.
+ */
+function assertStorable(value: unknown, path: string) {
+  if (value === undefined) throw new Error(`Cannot use undefined as a stored value (found at "${path}")`);
+  if (Array.isArray(value)) value.forEach((v, i) => assertStorable(v, `${path}.${i}`));
+  else if (value && typeof value === 'object') {
+    for (const [k, v] of Object.entries(value)) assertStorable(v, path ? `${path}.${k}` : k);
+  }
+}
+
+function getField(data: DocumentData, path: string): unknown {
+  let current: unknown = data;
+  for (const part of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+function setField(data: DocumentData, path: string, value: unknown) {
+  const parts = path.split('.');
+  let current: Record<string, unknown> = data;
+  for (const part of parts.slice(0, -1)) {
+    if (current[part] === null || typeof current[part] !== 'object') current[part] = {};
+    current = current[part] as Record<string, unknown>;
+  }
+  current[parts[parts.length - 1]] = value;
+}
+
+/**
+ * Firestore orders values of different types by type first.
+ */
+function typeRank(value: unknown) {
+  if (value === null) return 0;
+  if (typeof value === 'boolean') return 1;
+  if (typeof value === 'number') return 2;
+  if (typeof value === 'string') return 3;
+  if (Array.isArray(value)) return 4;
+  return 5;
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const ra = typeRank(a);
+  const rb = typeRank(b);
+  if (ra !== rb) return ra - rb;
+  if (ra === 1 || ra === 2 || ra === 3) return a === b ? 0 : (a as number) < (b as number) ? -1 : 1;
+  if (ra === 4) {
+    const aa = a as unknown[];
+    const bb = b as unknown[];
+    for (let i = 0; i < Math.min(aa.length, bb.length); i++) {
+      const c = compareValues(aa[i], bb[i]);
+      if (c !== 0) return c;
+    }
+    return aa.length - bb.length;
+  }
+  return JSON.stringify(a) === JSON.stringify(b) ? 0 : JSON.stringify(a) < JSON.stringify(b) ? -1 : 1;
+}
+
+function equals(a: unknown, b: unknown) {
+  return typeRank(a) === typeRank(b) && compareValues(a, b) === 0;
+}
+
+function matches(data: DocumentData, filter: Filter): boolean {
+  const actual = getField(data, filter.field);
+  if (actual === undefined) return false;
+  const { op, value } = filter;
+  switch (op) {
+    case '==':
+      return equals(actual, value);
+    case '!=':
+      return actual !== null && !equals(actual, value);
+    case '<':
+    case '<=':
+    case '>':
+    case '>=': {
+      if (typeRank(actual) !== typeRank(value)) return false;
+      const c = compareValues(actual, value);
+      return op === '<' ? c < 0 : op === '<=' ? c <= 0 : op === '>' ? c > 0 : c >= 0;
+    }
+    case 'in':
+      return (value as unknown[]).some((v) => equals(actual, v));
+    case 'not-in':
+      return actual !== null && !(value as unknown[]).some((v) => equals(actual, v));
+    case 'array-contains':
+      return Array.isArray(actual) && actual.some((v) => equals(v, value));
+    case 'array-contains-any':
+      return Array.isArray(actual) && actual.some((v) => (value as unknown[]).some((w) => equals(v, w)));
+    default:
+      throw new Error(`Unsupported query operator: ${op}`);
+  }
+}
+
+class MemoryDocumentReference implements DocumentReference {
+  constructor(
+    private readonly repo: MemoryRepository,
+    readonly collectionName: string,
+    readonly id: string
+  ) {}
+
+  async get() {
+    return this.repo.snapshot(this);
+  }
+
+  async create(data: object) {
+    this.repo.apply([{ kind: 'create', ref: this, data }]);
+  }
+
+  async set(data: object) {
+    this.repo.apply([{ kind: 'set', ref: this, data }]);
+  }
+
+  async update(data: object) {
+    this.repo.apply([{ kind: 'update', ref: this, data }]);
+  }
+
+  async delete() {
+    this.repo.apply([{ kind: 'delete', ref: this }]);
+  }
+}
+
+class MemoryQuery implements Query {
+  constructor(
+    protected readonly repo: MemoryRepository,
+    readonly collectionName: string,
+    readonly filters: Filter[] = [],
+    readonly orders: Order[] = [],
+    readonly limitCount?: number,
+    readonly cursor?: unknown[]
+  ) {}
+
+  where(field: string, op: WhereOp, value: unknown): Query {
+    return new MemoryQuery(this.repo, this.collectionName, [...this.filters, { field, op, value }], this.orders, this.limitCount, this.cursor);
+  }
+
+  orderBy(field: string, direction: OrderDirection = 'asc'): Query {
+    return new MemoryQuery(this.repo, this.collectionName, this.filters, [...this.orders, { field, direction }], this.limitCount, this.cursor);
+  }
+
+  limit(n: number): Query {
+    return new MemoryQuery(this.repo, this.collectionName, this.filters, this.orders, n, this.cursor);
+  }
+
+  startAfter(...values: unknown[]): Query {
+    return new MemoryQuery(this.repo, this.collectionName, this.filters, this.orders, this.limitCount, values);
+  }
+
+  async get() {
+    return this.repo.runQuery(this);
+  }
+}
+
+class MemoryCollection extends MemoryQuery implements CollectionReference {
+  doc(id?: string): DocumentReference {
+    return new MemoryDocumentReference(this.repo, this.collectionName, id ?? autoId());
+  }
+}
+
+function asMemoryRef(ref: DocumentReference): MemoryDocumentReference {
+  if (!(ref instanceof MemoryDocumentReference)) throw new Error('Reference does not belong to the memory repository');
+  return ref;
+}
+
+class MemoryTransaction implements Transaction {
+  readonly writes: Write[] = [];
+
+  constructor(private readonly repo: MemoryRepository) {}
+
+  private assertNoWrites() {
+    if (this.writes.length > 0) throw new Error('Transactions require all reads to be executed before all writes');
+  }
+
+  get(ref: DocumentReference): Promise<DocumentSnapshot>;
+  get(query: Query): Promise<QuerySnapshot>;
+  async get(target: DocumentReference | Query): Promise<DocumentSnapshot | QuerySnapshot> {
+    this.assertNoWrites();
+    if (target instanceof MemoryQuery) return this.repo.runQuery(target);
+    return this.repo.snapshot(asMemoryRef(target as DocumentReference));
+  }
+
+  async getAll(...refs: DocumentReference[]) {
+    this.assertNoWrites();
+    return refs.map((ref) => this.repo.snapshot(asMemoryRef(ref)));
+  }
+
+  create(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'create', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  set(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'set', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  update(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'update', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.writes.push({ kind: 'delete', ref: asMemoryRef(ref) });
+    return this;
+  }
+}
+
+class MemoryWriteBatch implements WriteBatch {
+  private readonly writes: Write[] = [];
+  private committed = false;
+
+  constructor(private readonly repo: MemoryRepository) {}
+
+  create(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'create', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  set(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'set', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  update(ref: DocumentReference, data: object) {
+    this.writes.push({ kind: 'update', ref: asMemoryRef(ref), data });
+    return this;
+  }
+
+  delete(ref: DocumentReference) {
+    this.writes.push({ kind: 'delete', ref: asMemoryRef(ref) });
+    return this;
+  }
+
+  async commit() {
+    if (this.committed) throw new Error('A write batch can only be committed once');
+    this.committed = true;
+    return this.repo.exclusive(async () => this.repo.apply(this.writes));
+  }
+}
+
+export class MemoryRepository implements ProductRepository {
+  private readonly collections = new Map<string, Map<string, DocumentData>>();
+  private queue: Promise<unknown> = Promise.resolve();
+
+  collection(name: string): CollectionReference {
+    return new MemoryCollection(this, name);
+  }
+
+  async getAll(...refs: DocumentReference[]) {
+    return refs.map((ref) => this.snapshot(asMemoryRef(ref)));
+  }
+
+  /**
+   * Transactions run one at a time, which gives them serializable isolation.
+   * Do not start a transaction from inside another one: it would wait forever.
+   */
+  runTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T> {
+    return this.exclusive(async () => {
+      const tx = new MemoryTransaction(this);
+      const result = await work(tx);
+      this.apply(tx.writes);
+      return result;
+    });
+  }
+
+  batch(): WriteBatch {
+    return new MemoryWriteBatch(this);
+  }
+
+  /**
+   * Remove every document (handy between tests).
+   */
+  clear() {
+    this.collections.clear();
+  }
+
+  /** @internal run `work` once all previously queued transactions / batches have finished */
+  exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(work, work);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  private docs(collectionName: string) {
+    let docs = this.collections.get(collectionName);
+    if (!docs) {
+      docs = new Map();
+      this.collections.set(collectionName, docs);
+    }
+    return docs;
+  }
+
+  /** @internal */
+  snapshot(ref: MemoryDocumentReference): DocumentSnapshot {
+    const stored = this.docs(ref.collectionName).get(ref.id);
+    return {
+      id: ref.id,
+      exists: stored !== undefined,
+      ref,
+      data: <T>() => (stored === undefined ? undefined : (structuredClone(stored) as T)),
+    };
+  }
+
+  /** @internal validate every write first, then apply them all (all-or-nothing) */
+  apply(writes: Write[]) {
+    const pending = new Map<string, DocumentData | null>();
+    const key = (ref: MemoryDocumentReference) => `${ref.collectionName}/${ref.id}`;
+    const current = (ref: MemoryDocumentReference) =>
+      pending.has(key(ref)) ? pending.get(key(ref)) ?? null : this.docs(ref.collectionName).get(ref.id) ?? null;
+
+    for (const write of writes) {
+      const path = key(write.ref);
+      if (write.kind === 'delete') {
+        pending.set(path, null);
+        continue;
+      }
+      assertStorable(write.data, '');
+      const existing = current(write.ref);
+      if (write.kind === 'create' && existing) throw new Error(`Document already exists: ${path}`);
+      if (write.kind === 'update' && !existing) throw new Error(`No document to update: ${path}`);
+
+      if (write.kind === 'update') {
+        const next = structuredClone(existing as DocumentData);
+        for (const [field, value] of Object.entries(write.data)) setField(next, field, structuredClone(value));
+        pending.set(path, next);
+      } else {
+        pending.set(path, structuredClone(write.data) as DocumentData);
+      }
+    }
+
+    for (const write of writes) {
+      const next = pending.get(key(write.ref));
+      if (next === undefined) continue;
+      if (next === null) this.docs(write.ref.collectionName).delete(write.ref.id);
+      else this.docs(write.ref.collectionName).set(write.ref.id, next);
+    }
+  }
+
+  /** @internal */
+  runQuery(query: MemoryQuery): QuerySnapshot {
+    // Like Firestore, a range filter without an explicit order sorts by the filtered field
+    const orders = [...query.orders];
+    const rangeFilter = query.filters.find((f) => RANGE_OPS.includes(f.op));
+    if (orders.length === 0 && rangeFilter) orders.push({ field: rangeFilter.field, direction: 'asc' });
+
+    let rows = [...this.docs(query.collectionName).entries()]
+      .filter(([, data]) => query.filters.every((f) => matches(data, f)))
+      .filter(([, data]) => orders.every((o) => getField(data, o.field) !== undefined));
+
+    const compareRows = (a: [string, DocumentData], b: [string, DocumentData]) => {
+      for (const o of orders) {
+        const c = compareValues(getField(a[1], o.field), getField(b[1], o.field));
+        if (c !== 0) return o.direction === 'desc' ? -c : c;
+      }
+      return a[0] < b[0] ? -1 : a[0] > b[0] ? 1 : 0;
+    };
+    rows.sort(compareRows);
+
+    if (query.cursor) {
+      const cursor = query.cursor;
+      rows = rows.filter(([, data]) => {
+        for (let i = 0; i < cursor.length && i < orders.length; i++) {
+          const c = compareValues(getField(data, orders[i].field), cursor[i]);
+          if (c !== 0) return orders[i].direction === 'desc' ? c < 0 : c > 0;
+        }
+        return false;
+      });
+    }
+    if (query.limitCount !== undefined) rows = rows.slice(0, query.limitCount);
+
+    const docs: QueryDocumentSnapshot[] = rows.map(([id, data]) => ({
+      id,
+      exists: true,
+      ref: new MemoryDocumentReference(this, query.collectionName, id),
+      data: <T>() => structuredClone(data) as T,
+    }));
+    return { docs, empty: docs.length === 0, size: docs.length, forEach: (cb) => docs.forEach(cb) };
+  }
+}
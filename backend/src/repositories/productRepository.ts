@@ -0,0 +1,85 @@
+// src/repositories/productRepository.ts
+// Storage abstraction used by every service.
+//
+// The interface is the subset of the Firestore API the services rely on (collections,
+// document references, simple queries, transactions and batched writes), so the Firestore
+// implementation is a thin pass-through and the in-memory implementation can offer the same
+// semantics for tests and offline development.
+
+// Stored document fields. `data()` is typed by the model a read casts it to
+// (`snap.data() as Location`), and writes take any model object.
+export type DocumentData = { [field: string]: unknown };
+
+export type WhereOp = '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not-in' | 'array-contains' | 'array-contains-any';
+
+export type OrderDirection = 'asc' | 'desc';
+
+export interface DocumentSnapshot {
+  id: string;
+  exists: boolean;
+  ref: DocumentReference;
+  data<T = DocumentData>(): T | undefined;
+}
+
+export interface QueryDocumentSnapshot extends DocumentSnapshot {
+  data<T = DocumentData>(): T;
+}
+
+export interface QuerySnapshot {
+  docs: QueryDocumentSnapshot[];
+  empty: boolean;
+  size: number;
+  forEach(callback: (snap: QueryDocumentSnapshot) => void): void;
+}
+
+export interface DocumentReference {
+  id: string;
+  get(): Promise<DocumentSnapshot>;
+  create(data: object): Promise<unknown>;
+  set(data: object): Promise<unknown>;
+  update(data: object): Promise<unknown>;
+  delete(): Promise<unknown>;
+}
+
+export interface Query {
+  where(field: string, op: WhereOp, value: unknown): Query;
+  orderBy(field: string, direction?: OrderDirection): Query;
+  limit(n: number): Query;
+  startAfter(...values: unknown[]): Query;
+  get(): Promise<QuerySnapshot>;
+}
+
+export interface CollectionReference extends Query {
+  doc(id?: string): DocumentReference;
+}
+
+/**
+ * Reads must happen before writes; writes are applied atomically when the callback resolves.
+ */
+export interface Transaction {
+  get(ref: DocumentReference): Promise<DocumentSnapshot>;
+  get(query: Query): Promise<QuerySnapshot>;
+  getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]>;
+  create(ref: DocumentReference, data: object): Transaction;
+  set(ref: DocumentReference, data: object): Transaction;
+  update(ref: DocumentReference, data: object): Transaction;
+  delete(ref: DocumentReference): Transaction;
+}
+
+/**
+ * Blind writes applied atomically by `commit` (no reads, no conflict checks).
+ */
+export interface WriteBatch {
+  create(ref: DocumentReference, data: object): WriteBatch;
+  set(ref: DocumentReference, data: object): WriteBatch;
+  update(ref: DocumentReference, data: object): WriteBatch;
+  delete(ref: DocumentReference): WriteBatch;
+  commit(): Promise<unknown>;
+}
+
+export interface ProductRepository {
+  collection(name: string): CollectionReference;
+  getAll(...refs: DocumentReference[]): Promise<DocumentSnapshot[]>;
+  runTransaction<T>(work: (tx: Transaction) => Promise<T>): Promise<T>;
+  batch(): WriteBatch;
+}
@@ -0,0 +1,54 @@
+// src/services/alertService.ts
+// Low-stock alerts on top of the storage repository (src/repositories).
+// Stock operations call `recordStockAlert` inside their transaction, so an alert exists exactly
+// when the change that caused it was committed; webhook delivery happens afterwards.
+
+import { getRepository, Transaction } from '../repositories';
+import { Product } from '../models/product';
+import { StockAlert } from '../models/stockAlert';
+
+/**
+ * Collection that holds alert documents (the webhook outbox).
+ */
+export const ALERTS_COLLECTION = 'stock_alerts';
+
+function isLow(quantity: number, threshold: number | null | undefined) {
+  return typeof threshold === 'number' && quantity < threshold;
+}
+
+/**
+ * Record an alert (inside a transaction) when a change moves a product across its threshold.
+ * - `product` is the product as read before the change
+ * - `after` is the new stock_quantity
+ * - `thresholdAfter` is the threshold after the change (defaults to the product's current one)
+ * Returns the alert written, or null when the product's low-stock state did not change.
+ * Must be called after the transaction's reads.
+ */
+export function recordStockAlert(
+  tx: Transaction,
+  productId: string,
+  product: Product,
+  after: number,
+  thresholdAfter: number | null = product.low_stock_threshold ?? null
+): StockAlert | null {
+  const before = product.stock_quantity ?? 0;
+  const wasLow = isLow(before, product.low_stock_threshold);
+  const nowLow = isLow(after, thresholdAfter);
+  if (wasLow === nowLow) return null;
+
+  const ref = getRepository().collection(ALERTS_COLLECTION).doc();
+  const alert: StockAlert = {
+    id: ref.id,
+    type: nowLow ? 'low_stock' : 'low_stock_recovered',
+    productId,
+    productName: product.name,
+    ...(product.sku ? { sku: product.sku } : {}),
+    quantity_before: before,
+    quantity_after: after,
+    low_stock_threshold: thresholdAfter,
+    dispatched: false,
+    createdAt: new Date().toISOString(),
+  };
+  tx.create(ref, alert);
+  return alert;
+}
@@ -0,0 +1,175 @@
+// src/services/categoryService.ts
+// Product categories on top of the storage repository (src/repositories).
+//
+// Categories form a tree: every category has a `parentId` (null at the top) and products point at
+// one category with `categoryId`. The tree is small, so reads load the whole collection and work
+// out paths and subtrees in memory.
+
+import { getRepository, Transaction } from '../repositories';
+import { Category } from '../models/category';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Collection used by this service.
+ */
+export const CATEGORIES_COLLECTION = 'categories';
+
+const PRODUCTS_COLLECTION = 'products';
+
+function categoryRef(id: string) {
+  return getRepository().collection(CATEGORIES_COLLECTION).doc(id);
+}
+
+async function loadCategories(): Promise<Map<string, Category>> {
+  const snaps = await getRepository().collection(CATEGORIES_COLLECTION).get();
+  return new Map(snaps.docs.map((s) => [s.id, s.data() as Category]));
+}
+
+/**
+ * Add the computed `path` (names from the top-level category down) to a category.
+ */
+function withPath(category: Category, categories: Map<string, Category>): Category {
+  const path: string[] = [];
+  const seen = new Set<string>();
+  for (let node: Category | undefined = category; node && !seen.has(node.id); node = categories.get(node.parentId ?? '')) {
+    seen.add(node.id);
+    path.unshift(node.name);
+  }
+  return { ...category, path };
+}
+
+/**
+ * Throws 409 if another category under `parentId` already has this name (case-insensitive).
+ */
+async function assertNameFree(tx: Transaction, parentId: string | null, name: string, exceptId?: string) {
+  const siblings = await tx.get(getRepository().collection(CATEGORIES_COLLECTION).where('parentId', '==', parentId));
+  const key = name.trim().toLowerCase();
+  if (siblings.docs.some((s) => s.id !== exceptId && (s.data() as Category).name.trim().toLowerCase() === key)) {
+    throw new HttpError(409, 'CATEGORY_NAME_IN_USE', `A category named "${name}" already exists there`);
+  }
+}
+
+/**
+ * Create a category, at the top level or below `parentId`.
+ * Throws 404 if the parent does not exist and 409 if a sibling has the same name.
+ */
+export async function createCategory(payload: { name: string; parentId?: string | null; description?: string }): Promise<Category> {
+  if (!payload.name) throw new HttpError(400, 'VALIDATION_FAILED', 'Category name is required');
+
+  const ref = getRepository().collection(CATEGORIES_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const category: Category = {
+    id: ref.id,
+    name: payload.name,
+    parentId: payload.parentId ?? null,
+    ...(payload.description !== undefined ? { description: payload.description } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  await getRepository().runTransaction(async (tx) => {
+    if (category.parentId && !(await tx.get(categoryRef(category.parentId))).exists) {
+      throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Parent category not found');
+    }
+    await assertNameFree(tx, category.parentId, category.name);
+    tx.create(ref, category);
+  });
+  return withPath(category, await loadCategories());
+}
+
+/**
+ * Get a category by ID (with its path). Throws 404 if not found.
+ */
+export async function getCategory(id: string): Promise<Category> {
+  const categories = await loadCategories();
+  const category = categories.get(id);
+  if (!category) throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+  return withPath(category, categories);
+}
+
+/**
+ * List all categories with their paths, in tree order (sorted by path).
+ */
+export async function listCategories(): Promise<Category[]> {
+  const categories = await loadCategories();
+  return [...categories.values()]
+    .map((category) => withPath(category, categories))
+    .sort((a, b) => (a.path as string[]).join('\u0000').localeCompare((b.path as string[]).join('\u0000')));
+}
+
+/**
+ * Ids of a category and every category below it. Throws 404 if the category does not exist.
+ */
+export async function categorySubtree(id: string): Promise<string[]> {
+  const categories = await loadCategories();
+  if (!categories.has(id)) throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+  const children = new Map<string, string[]>();
+  for (const category of categories.values()) {
+    if (category.parentId) children.set(category.parentId, [...(children.get(category.parentId) ?? []), category.id]);
+  }
+  const subtree: string[] = [];
+  for (const queue = [id]; queue.length > 0; ) {
+    const next = queue.shift() as string;
+    subtree.push(next);
+    queue.push(...(children.get(next) ?? []));
+  }
+  return subtree;
+}
+
+/**
+ * Update category fields (name, description) or move it with `parentId` (null for the top level).
+ * Throws 404 if the category or the new parent does not exist, 409 if the move would put the
+ * category below itself or a sibling at the destination has the same name.
+ */
+export async function updateCategory(
+  id: string,
+  updates: { name?: string; parentId?: string | null; description?: string }
+): Promise<Category> {
+  const allowed = ['name', 'parentId', 'description'] as const;
+  const payload: Partial<Category> = {};
+  for (const k of allowed) if (updates[k] !== undefined) Object.assign(payload, { [k]: updates[k] });
+  payload.updatedAt = new Date().toISOString();
+
+  const ref = categoryRef(id);
+  await getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+    const current = snap.data() as Category;
+    const parentId = payload.parentId !== undefined ? payload.parentId : current.parentId;
+
+    if (payload.parentId !== undefined && payload.parentId !== current.parentId) {
+      // Walk up from the new parent: reaching the category itself means a cycle
+      for (let ancestorId = payload.parentId; ancestorId; ) {
+        if (ancestorId === id) throw new HttpError(409, 'CATEGORY_CYCLE', 'A category cannot be moved below itself');
+        const ancestor = await tx.get(categoryRef(ancestorId));
+        if (!ancestor.exists) {
+          throw new HttpError(404, 'CATEGORY_NOT_FOUND', ancestorId === payload.parentId ? 'Parent category not found' : 'Category not found');
+        }
+        ancestorId = (ancestor.data() as Category).parentId;
+      }
+    }
+    if (payload.name !== undefined || parentId !== current.parentId) {
+      await assertNameFree(tx, parentId, payload.name ?? current.name, id);
+    }
+    tx.update(ref, payload);
+  });
+  return getCategory(id);
+}
+
+/**
+ * Delete a category. Refused with 409 while it has subcategories or products (including
+ * products in the trash, which could be restored into it).
+ */
+export async function deleteCategory(id: string) {
+  const ref = categoryRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+    const children = await tx.get(getRepository().collection(CATEGORIES_COLLECTION).where('parentId', '==', id).limit(1));
+    if (!children.empty) throw new HttpError(409, 'CATEGORY_NOT_EMPTY', 'Category has subcategories; move or delete them first');
+    const products = await tx.get(getRepository().collection(PRODUCTS_COLLECTION).where('categoryId', '==', id).limit(1));
+    if (!products.empty) throw new HttpError(409, 'CATEGORY_NOT_EMPTY', 'Category still has products; move them first');
+    tx.delete(ref);
+    return { id };
+  });
+}
@@ -0,0 +1,72 @@
+// src/services/idempotencyService.ts
+// Idempotency-Key support for write operations on top of the storage repository (src/repositories).
+// The stored result is written in the same transaction as the operation itself,
+// so a retried request either sees the committed result or runs from scratch.
+
+import { createHash } from 'crypto';
+import { getRepository, Transaction } from '../repositories';
+import { IdempotencyContext, IdempotencyRecord } from '../models/idempotencyRecord';
+import { HttpError } from '../utils/httpErrors';
+
+/**
+ * Collection that holds one document per (scope, key) pair.
+ */
+export const IDEMPOTENCY_COLLECTION = 'idempotency_keys';
+
+/**
+ * How long a key is remembered before it may be reused.
+ */
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Document id for a key: a hash keeps arbitrary client strings out of Firestore paths.
+ */
+function recordId(ctx: IdempotencyContext) {
+  return createHash('sha256').update(`${ctx.scope}\n${ctx.key}`).digest('hex');
+}
+
+/**
+ * Run `work` inside a repository transaction, honoring an optional idempotency context.
+ * - no context: `work` simply runs in a transaction
+ * - first use of a key: `work` runs and its result is stored with the key
+ * - replay with the same body: the stored result is returned, `work` does not run
+ * - replay with a different body: throws 409
+ *
+ * `work` must only return plain, Firestore-serializable data.
+ */
+export async function runIdempotent<T>(
+  ctx: IdempotencyContext | undefined,
+  work: (tx: Transaction) => Promise<T>
+): Promise<T> {
+  return getRepository().runTransaction(async (tx) => {
+    if (!ctx) return work(tx);
+
+    // Firestore requires all reads before writes, so check the key first
+    const ref = getRepository().collection(IDEMPOTENCY_COLLECTION).doc(recordId(ctx));
+    const snap = await tx.get(ref);
+    const now = new Date();
+
+    if (snap.exists) {
+      const record = snap.data() as IdempotencyRecord;
+      if (record.expiresAt > now.toISOString()) {
+        if (record.fingerprint !== ctx.fingerprint) {
+          throw new HttpError(409, 'IDEMPOTENCY_KEY_REUSED', 'Idempotency-Key has already been used with a different request');
+        }
+        return record.response as T;
+      }
+    }
+
+    const result = await work(tx);
+
+    const record: IdempotencyRecord = {
+      key: ctx.key,
+      scope: ctx.scope,
+      fingerprint: ctx.fingerprint,
+      response: result,
+      createdAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + KEY_TTL_MS).toISOString(),
+    };
+    tx.set(ref, record);
+    return result;
+  });
+}
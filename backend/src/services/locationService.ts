@@ -0,0 +1,377 @@
+// src/services/locationService.ts
+// Locations (warehouses) and per-location stock on top of the storage repository (src/repositories).
+//
+// Each product keeps its aggregate `stock_quantity`. Stock assigned to locations lives in
+// `product_locations` documents, and the product's `allocated_quantity` is their sum, so:
+//   stock_quantity = allocated_quantity + unallocated stock
+// Location-aware operations change a location record and the aggregate in one transaction;
+// operations without a location only touch the unallocated part.
+
+import { getRepository, Query } from '../repositories';
+import { Location, LocationStock } from '../models/location';
+import { Product } from '../models/product';
+import { StockMovementMeta } from '../models/stockMovement';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { StockAlert } from '../models/stockAlert';
+import { PendingProductEvent } from '../models/productEvent';
+import { HttpError } from '../utils/httpErrors';
+import { trackStockOperation } from '../lib/metrics';
+import { expiredQuantity, LotInput, lotFields, lotsForDecrease, receiveIntoLot } from '../lib/lots';
+import { costAfterChange } from '../lib/costing';
+import { publishProductEvents, stockChangedEvent } from '../lib/productEvents';
+import { recordMovement } from './stockMovementService';
+import { runIdempotent } from './idempotencyService';
+import { expireHolds, findExpiredHolds } from './reservationService';
+import { recordStockAlert } from './alertService';
+import { dispatchAlerts } from './webhookService';
+
+/**
+ * Collections used by this service.
+ */
+export const LOCATIONS_COLLECTION = 'locations';
+export const LOCATION_STOCK_COLLECTION = 'product_locations';
+
+const PRODUCTS_COLLECTION = 'products';
+
+function locationRef(id: string) {
+  return getRepository().collection(LOCATIONS_COLLECTION).doc(id);
+}
+
+function productRef(id: string) {
+  return getRepository().collection(PRODUCTS_COLLECTION).doc(id);
+}
+
+function stockRef(productId: string, locationId: string) {
+  return getRepository().collection(LOCATION_STOCK_COLLECTION).doc(`${productId}_${locationId}`);
+}
+
+/**
+ * Create a location. `code` must be unique (409 otherwise).
+ */
+export async function createLocation(payload: { code: string; name: string; address?: string; active?: boolean }) {
+  if (!payload.code || !payload.name) throw new HttpError(400, 'VALIDATION_FAILED', 'Location code and name are required');
+
+  const ref = getRepository().collection(LOCATIONS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const location: Location = {
+    id: ref.id,
+    code: payload.code,
+    name: payload.name,
+    ...(payload.address !== undefined ? { address: payload.address } : {}),
+    active: payload.active ?? true,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  return getRepository().runTransaction(async (tx) => {
+    const clash = await tx.get(getRepository().collection(LOCATIONS_COLLECTION).where('code', '==', payload.code).limit(1));
+    if (!clash.empty) throw new HttpError(409, 'LOCATION_CODE_IN_USE', `Location code "${payload.code}" is already in use`);
+    tx.create(ref, location);
+    return location;
+  });
+}
+
+/**
+ * Get a location by ID. Throws 404 if not found.
+ */
+export async function getLocation(id: string): Promise<Location> {
+  const snap = await locationRef(id).get();
+  if (!snap.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+  return snap.data() as Location;
+}
+
+/**
+ * List all locations ordered by code.
+ */
+export async function listLocations(): Promise<Location[]> {
+  const snaps = await getRepository().collection(LOCATIONS_COLLECTION).orderBy('code').get();
+  return snaps.docs.map((s) => s.data() as Location);
+}
+
+/**
+ * Update location fields (code, name, address, active).
+ * Throws 404 if not found, 409 if the new code is taken.
+ */
+export async function updateLocation(
+  id: string,
+  updates: { code?: string; name?: string; address?: string; active?: boolean }
+): Promise<Location> {
+  const allowed = ['code', 'name', 'address', 'active'] as const;
+  const payload: Partial<Location> = {};
+  for (const k of allowed) if (updates[k] !== undefined) Object.assign(payload, { [k]: updates[k] });
+  payload.updatedAt = new Date().toISOString();
+
+  const ref = locationRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+    const current = snap.data() as Location;
+
+    if (payload.code && payload.code !== current.code) {
+      const clash = await tx.get(getRepository().collection(LOCATIONS_COLLECTION).where('code', '==', payload.code).limit(1));
+      if (!clash.empty) throw new HttpError(409, 'LOCATION_CODE_IN_USE', `Location code "${payload.code}" is already in use`);
+    }
+
+    tx.update(ref, payload);
+    return { ...current, ...payload };
+  });
+}
+
+/**
+ * Delete a location. Refused with 409 while any product still has stock there;
+ * empty stock records are removed with it.
+ */
+export async function deleteLocation(id: string) {
+  const ref = locationRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+    const records = await tx.get(getRepository().collection(LOCATION_STOCK_COLLECTION).where('locationId', '==', id));
+    if (records.docs.some((r) => ((r.data() as LocationStock).stock_quantity ?? 0) > 0)) {
+      throw new HttpError(409, 'LOCATION_NOT_EMPTY', 'Location still holds stock; transfer it out first');
+    }
+    records.docs.forEach((r) => tx.delete(r.ref));
+    tx.delete(ref);
+    return { id };
+  });
+}
+
+/**
+ * List per-location stock records of a product.
+ */
+export async function listProductLocations(productId: string): Promise<LocationStock[]> {
+  const snaps = await getRepository().collection(LOCATION_STOCK_COLLECTION).where('productId', '==', productId).get();
+  return snaps.docs.map((s) => s.data() as LocationStock);
+}
+
+/**
+ * Set (or clear with null) the low-stock threshold of a product at a location.
+ * Creates an empty stock record when the product has none at the location yet.
+ */
+export async function setLocationThreshold(productId: string, locationId: string, threshold: number | null) {
+  if (threshold !== null && (!Number.isInteger(threshold) || threshold < 0)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'low_stock_threshold must be an integer >= 0');
+  }
+
+  const sRef = stockRef(productId, locationId);
+  return getRepository().runTransaction(async (tx) => {
+    const [pSnap, lSnap, sSnap] = await tx.getAll(productRef(productId), locationRef(locationId), sRef);
+    if (!pSnap.exists || (pSnap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    if (!lSnap.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+
+    const now = new Date().toISOString();
+    const record: LocationStock = sSnap.exists
+      ? { ...(sSnap.data() as LocationStock), updatedAt: now }
+      : { id: sRef.id, productId, locationId, stock_quantity: 0, updatedAt: now };
+    if (threshold === null) delete record.low_stock_threshold;
+    else record.low_stock_threshold = threshold;
+
+    tx.set(sRef, record);
+    return record;
+  });
+}
+
+/**
+ * Change stock of a product at a location by a signed `delta`, atomically.
+ * - the location record and the product aggregate (stock_quantity, allocated_quantity) move together
+ * - increases require an active location
+ * - decreases require enough stock at the location and enough available (unreserved) stock;
+ *   lapsed reservation holds are expired first
+ * - a movement (default reason `receipt` / `sale`) is recorded with the location's before / after
+ * - crossing the product's low-stock threshold (aggregate stock) raises an alert
+ * - a parent product's stock is tracked per variant (409)
+ * - lots are kept as by increaseStock / decreaseStock: `lot` names the lot received into or taken
+ *   from, and decreases cannot sell expired lots
+ * - the stock value changes as by increaseStock / decreaseStock (`unitCost` values an increase)
+ * Returns { id, locationId, stock_quantity, location_stock_quantity }.
+ */
+export async function adjustStockAtLocation(
+  productId: string,
+  locationId: string,
+  delta: number,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  lot?: LotInput,
+  unitCost?: number
+) {
+  if (!Number.isInteger(delta) || delta === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be a non-zero integer');
+
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('location_adjustment', () => runIdempotent(idempotency, async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
+    const pRef = productRef(productId);
+    const sRef = stockRef(productId, locationId);
+    const [pSnap, lSnap, sSnap] = await tx.getAll(pRef, locationRef(locationId), sRef);
+    if (!pSnap.exists || (pSnap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    if (!lSnap.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+    const now = new Date().toISOString();
+    const expired = delta < 0 ? await findExpiredHolds(tx, productId, now) : [];
+
+    const product = pSnap.data() as Product;
+    const location = lSnap.data() as Location;
+    if ((product.variant_count ?? 0) > 0) {
+      throw new HttpError(409, 'STOCK_TRACKED_PER_VARIANT', 'Stock of this product is tracked per variant');
+    }
+    if (delta > 0 && !location.active) throw new HttpError(409, 'LOCATION_INACTIVE', 'Location is inactive');
+
+    const current = product.stock_quantity ?? 0;
+    const allocated = product.allocated_quantity ?? 0;
+    const atLocation = sSnap.exists ? (sSnap.data() as LocationStock).stock_quantity ?? 0 : 0;
+    const reserved = Math.max(0, (product.reserved_quantity ?? 0) - expireHolds(tx, expired, now));
+
+    const lots =
+      delta > 0
+        ? {
+            fields: lot ? lotFields(receiveIntoLot(product.lots, lot, delta, now)) : {},
+            consumed: lot ? [{ lotNumber: lot.lotNumber, delta }] : [],
+            writeOff: false,
+          }
+        : lotsForDecrease(product.lots, current, -delta, meta.reason ?? 'sale', lot?.lotNumber);
+    if (delta < 0) {
+      if (atLocation < -delta) throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Insufficient stock at location');
+      const unsellable = lots.writeOff ? 0 : reserved + expiredQuantity(product.lots);
+      if (current - unsellable < -delta) throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Insufficient stock');
+    }
+
+    const updated = current + delta;
+    const updatedAtLocation = atLocation + delta;
+    const cost = costAfterChange(product, current, delta, now, delta > 0 ? unitCost : undefined);
+    if (sSnap.exists) {
+      tx.update(sRef, { stock_quantity: updatedAtLocation, updatedAt: now });
+    } else {
+      const record: LocationStock = { id: sRef.id, productId, locationId, stock_quantity: updatedAtLocation, updatedAt: now };
+      tx.create(sRef, record);
+    }
+    tx.update(pRef, {
+      stock_quantity: updated,
+      allocated_quantity: allocated + delta,
+      reserved_quantity: reserved,
+      ...lots.fields,
+      ...cost.fields,
+      version: (product.version ?? 0) + 1,
+      updatedAt: now,
+    });
+    recordMovement(tx, productId, current, updated, delta > 0 ? 'receipt' : 'sale', meta, {
+      locationId,
+      before: atLocation,
+      after: updatedAtLocation,
+    }, lots.consumed, cost.movement);
+    const alert = recordStockAlert(tx, productId, product, updated);
+    if (alert) alerts.push(alert);
+    events.push(stockChangedEvent(productId, product, updated, now));
+
+    return { id: productId, locationId, stock_quantity: updated, location_stock_quantity: updatedAtLocation };
+  }));
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  return result;
+}
+
+/**
+ * Move stock of a product from one location to another, atomically.
+ * The aggregate stock_quantity does not change; two `transfer` movements are recorded
+ * (one per location). The destination must be active.
+ * Returns the quantities at both locations after the move.
+ */
+export async function transferStock(
+  productId: string,
+  fromLocationId: string,
+  toLocationId: string,
+  amount: number,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext
+) {
+  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be an integer > 0');
+  if (fromLocationId === toLocationId) throw new HttpError(400, 'VALIDATION_FAILED', 'Source and destination locations must differ');
+
+  return trackStockOperation('transfer', () => runIdempotent(idempotency, async (tx) => {
+    const pRef = productRef(productId);
+    const fromRef = stockRef(productId, fromLocationId);
+    const toRef = stockRef(productId, toLocationId);
+    const [pSnap, fromLoc, toLoc, fromSnap, toSnap] = await tx.getAll(
+      pRef,
+      locationRef(fromLocationId),
+      locationRef(toLocationId),
+      fromRef,
+      toRef
+    );
+    if (!pSnap.exists || (pSnap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    if (!fromLoc.exists || !toLoc.exists) throw new HttpError(404, 'LOCATION_NOT_FOUND', 'Location not found');
+    if (!(toLoc.data() as Location).active) throw new HttpError(409, 'LOCATION_INACTIVE', 'Destination location is inactive');
+
+    const fromQty = fromSnap.exists ? (fromSnap.data() as LocationStock).stock_quantity ?? 0 : 0;
+    const toQty = toSnap.exists ? (toSnap.data() as LocationStock).stock_quantity ?? 0 : 0;
+    if (fromQty < amount) throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Insufficient stock at source location');
+
+    const now = new Date().toISOString();
+    const product = pSnap.data() as Product;
+    const total = product.stock_quantity ?? 0;
+    tx.update(fromRef, { stock_quantity: fromQty - amount, updatedAt: now });
+    if (toSnap.exists) {
+      tx.update(toRef, { stock_quantity: toQty + amount, updatedAt: now });
+    } else {
+      const record: LocationStock = {
+        id: toRef.id,
+        productId,
+        locationId: toLocationId,
+        stock_quantity: amount,
+        updatedAt: now,
+      };
+      tx.create(toRef, record);
+    }
+    tx.update(pRef, { version: (product.version ?? 0) + 1, updatedAt: now });
+
+    const transferMeta = { ...meta, reason: meta.reason ?? 'transfer' };
+    const cost = costAfterChange(product, total, 0, now).movement;
+    recordMovement(tx, productId, total, total, 'transfer', transferMeta, {
+      locationId: fromLocationId,
+      before: fromQty,
+      after: fromQty - amount,
+    }, [], cost);
+    recordMovement(tx, productId, total, total, 'transfer', transferMeta, {
+      locationId: toLocationId,
+      before: toQty,
+      after: toQty + amount,
+    }, [], cost);
+
+    return {
+      id: productId,
+      amount,
+      from: { locationId: fromLocationId, stock_quantity: fromQty - amount },
+      to: { locationId: toLocationId, stock_quantity: toQty + amount },
+    };
+  }));
+}
+
+/**
+ * List per-location stock records below their threshold.
+ * - the record's own low_stock_threshold is used, falling back to the product's
+ * - pass `locationId` to report a single location; omit it to report every location
+ * Each item carries the product name for display.
+ */
+export async function listLowStockByLocation(locationId?: string) {
+  let q: Query = getRepository().collection(LOCATION_STOCK_COLLECTION);
+  if (locationId) q = q.where('locationId', '==', locationId);
+  const records = (await q.get()).docs.map((s) => s.data() as LocationStock);
+  if (records.length === 0) return [];
+
+  const productIds = [...new Set(records.map((r) => r.productId))];
+  const productSnaps = await getRepository().getAll(...productIds.map(productRef));
+  const products = new Map<string, Product>();
+  productSnaps.forEach((s) => {
+    if (s.exists && !(s.data() as Product).deletedAt) products.set(s.id, s.data() as Product);
+  });
+
+  const items: Array<LocationStock & { name: string; low_stock_threshold: number }> = [];
+  for (const record of records) {
+    const product = products.get(record.productId);
+    if (!product) continue;
+    const threshold = record.low_stock_threshold ?? product.low_stock_threshold;
+    if (typeof threshold === 'number' && record.stock_quantity < threshold) {
+      items.push({ ...record, name: product.name, low_stock_threshold: threshold });
+    }
+  }
+  return items;
+}
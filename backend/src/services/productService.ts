@@ -1,10 +1,50 @@
 // src/services/productService.ts
-// Product business logic (CRUD + atomic stock ops) using Firestore.
+// Product business logic (CRUD + atomic stock ops) on top of the storage repository (src/repositories).
 // All methods accept an optional collectionName parameter (default 'products') so collection access is dynamic.
 
-import { db } from '../../firebase/admin';
-import { Product } from '../models/product';
-import { HttpError } from '../utils/httpErrors';
+import { z } from 'zod';
+import { getRepository, ProductRepository, Query, QuerySnapshot, Transaction } from '../repositories';
+import {
+  COSTING_METHODS,
+  ExpiringLot,
+  InventoryValuation,
+  MAX_UNIT_COST,
+  Product,
+  ProductIdentifierEntry,
+  ProductStockStatus,
+  PRODUCT_IDENTIFIER_PATTERN,
+  ProductInput,
+  StockQuantity,
+  ValuationLine,
+} from '../models/product';
+import { MovementCost, MovementLot, StockMovementMeta } from '../models/stockMovement';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { StockAlert } from '../models/stockAlert';
+import { PendingProductEvent } from '../models/productEvent';
+import { ErrorCode, HttpError } from '../utils/httpErrors';
+import { trackStockOperation } from '../lib/metrics';
+import { decodeCursor, encodeCursor } from '../lib/cursor';
+import { productCreateSchema } from '../lib/validate';
+import { ProductSearchIndex } from '../lib/searchIndex';
+import { expiredQuantity, isExpired, LotInput, lotFields, lotsAfterDecrease, lotsForDecrease, receiveIntoLot, today } from '../lib/lots';
+import {
+  averageUnitCost,
+  costAfterChange,
+  CostState,
+  inventoryCurrency,
+  openingCost,
+  openingMovementCost,
+  switchCostingMethod,
+} from '../lib/costing';
+import { assertBaseUnitChangeAllowed, assertValidUnits, namesUnit, normalizeUnits, toBaseQuantity, UnitState } from '../lib/units';
+import { productEvent, publishProductEvents, stockChangedEvent } from '../lib/productEvents';
+import { listMovements, recordMovement } from './stockMovementService';
+import { runIdempotent } from './idempotencyService';
+import { expireHolds, findExpiredHolds } from './reservationService';
+import { LOCATION_STOCK_COLLECTION } from './locationService';
+import { CATEGORIES_COLLECTION, categorySubtree } from './categoryService';
+import { recordStockAlert } from './alertService';
+import { dispatchAlerts } from './webhookService';
 
 /**
  * Default collection name used when none provided.
@@ -15,7 +55,284 @@ const DEFAULT_COLLECTION = 'products';
  * Helper to get a document reference for a given collection & id.
  */
 function docRef(collectionName: string, id: string) {
-  return db.collection(collectionName).doc(id);
+  return getRepository().collection(collectionName).doc(id);
+}
+
+/**
+ * Add the computed `available_quantity` (stock neither held by reservations nor in expired lots)
+ * to a product read, and `expired_quantity` for products with lots.
+ */
+function withAvailability(product: Product, expired: number = expiredQuantity(product.lots)): Product {
+  const reserved = product.reserved_quantity ?? 0;
+  return {
+    ...product,
+    reserved_quantity: reserved,
+    ...(product.lots?.length || expired > 0 ? { expired_quantity: expired } : {}),
+    available_quantity: Math.max(0, (product.stock_quantity ?? 0) - reserved - expired),
+  };
+}
+
+/**
+ * Uniqueness indexes: one document per SKU / barcode, keyed by the identifier.
+ * Claiming an identifier creates its entry in the same transaction as the product write,
+ * so two products can never hold the same one.
+ */
+export const SKU_INDEX_COLLECTION = 'product_skus';
+export const BARCODE_INDEX_COLLECTION = 'product_barcodes';
+
+/**
+ * SKUs are matched case-insensitively.
+ */
+function skuKey(sku: string) {
+  return sku.trim().toUpperCase();
+}
+
+function skuRef(sku: string) {
+  return getRepository().collection(SKU_INDEX_COLLECTION).doc(skuKey(sku));
+}
+
+function barcodeRef(code: string) {
+  return getRepository().collection(BARCODE_INDEX_COLLECTION).doc(code.trim());
+}
+
+/**
+ * Read (inside a transaction) the index entries of identifiers a product is about to claim.
+ * Throws 409 if one is held by another product. Must be called before any write.
+ */
+async function assertIdentifiersFree(tx: Transaction, productId: string, sku: string | undefined, barcodes: string[]) {
+  const refs = [...(sku ? [skuRef(sku)] : []), ...barcodes.map(barcodeRef)];
+  if (refs.length === 0) return;
+  const snaps = await tx.getAll(...refs);
+  snaps.forEach((snap, i) => {
+    if (!snap.exists || (snap.data() as ProductIdentifierEntry).productId === productId) return;
+    if (sku && i === 0) throw new HttpError(409, 'SKU_IN_USE', `SKU ${sku} is already in use`);
+    throw new HttpError(409, 'BARCODE_IN_USE', `Barcode ${barcodes[sku ? i - 1 : i]} is already in use`);
+  });
+}
+
+function claimIdentifiers(tx: Transaction, productId: string, sku: string | undefined, barcodes: string[], now: string) {
+  if (sku) tx.set(skuRef(sku), { productId, value: sku, createdAt: now });
+  for (const code of barcodes) tx.set(barcodeRef(code), { productId, value: code, createdAt: now });
+}
+
+function releaseIdentifiers(tx: Transaction, sku: string | undefined, barcodes: string[]) {
+  if (sku) tx.delete(skuRef(sku));
+  for (const code of barcodes) tx.delete(barcodeRef(code));
+}
+
+/**
+ * Throws 412 when an If-Match precondition (list of acceptable versions) does not hold.
+ */
+function assertVersion(product: Product, ifMatch: number[] | undefined) {
+  if (ifMatch === undefined) return;
+  const version = product.version ?? 0;
+  if (!ifMatch.includes(version)) {
+    throw new HttpError(412, 'VERSION_MISMATCH', 'Product has been modified by another request', { version });
+  }
+}
+
+function normalizeBarcodes(barcodes: string[] | undefined) {
+  return [...new Set((barcodes ?? []).map((code) => code.trim()).filter(Boolean))];
+}
+
+/**
+ * Throws 400 unless the SKU (when given) and every barcode match PRODUCT_IDENTIFIER_PATTERN.
+ */
+function assertValidIdentifiers(sku: unknown, barcodes: unknown) {
+  if (sku !== undefined && (typeof sku !== 'string' || !PRODUCT_IDENTIFIER_PATTERN.test(sku.trim()))) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'sku may only contain letters, digits, ".", "-" and "_" (max 64)');
+  }
+  if (barcodes === undefined) return;
+  if (!Array.isArray(barcodes) || !barcodes.every((b) => typeof b === 'string' && PRODUCT_IDENTIFIER_PATTERN.test(b.trim()))) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'barcodes must be strings of letters, digits, ".", "-" and "_" (max 64)');
+  }
+}
+
+/**
+ * Tags are stored trimmed, lowercase and without duplicates.
+ */
+function normalizeTags(tags: string[] | undefined) {
+  return [...new Set((tags ?? []).map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+/**
+ * Throws 400 unless `tags` (when given) is a list of non-empty strings of at most 50 characters.
+ */
+function assertValidTags(tags: unknown) {
+  if (tags === undefined) return;
+  if (!Array.isArray(tags) || !tags.every((tag) => typeof tag === 'string' && tag.trim().length > 0 && tag.trim().length <= 50)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'tags must be non-empty strings of at most 50 characters');
+  }
+}
+
+/**
+ * Throws 404 unless the category exists (no category needs no check).
+ */
+async function assertCategoryExists(tx: Transaction, categoryId: string | null | undefined) {
+  if (!categoryId) return;
+  const snap = await tx.get(getRepository().collection(CATEGORIES_COLLECTION).doc(categoryId));
+  if (!snap.exists) throw new HttpError(404, 'CATEGORY_NOT_FOUND', 'Category not found');
+}
+
+/**
+ * Reorder settings (see reorderService) that are validated on create and update.
+ * reorder_quantity and max_stock_level must be positive; the others may be 0.
+ */
+const REORDER_NUMBER_FIELDS = ['reorder_point', 'reorder_quantity', 'max_stock_level', 'lead_time_days'] as const;
+
+/**
+ * Throws 400 unless the reorder settings present in `payload` are well-formed integers and
+ * max_stock_level (when set) is above reorder_point.
+ */
+function assertValidReorderSettings(payload: ProductInput) {
+  for (const field of REORDER_NUMBER_FIELDS) {
+    const value = payload[field];
+    if (value === undefined) continue;
+    const min = field === 'reorder_quantity' || field === 'max_stock_level' ? 1 : 0;
+    if (!Number.isInteger(value) || value < min) throw new HttpError(400, 'VALIDATION_FAILED', `${field} must be an integer >= ${min}`);
+  }
+  if (payload.preferred_supplier !== undefined && (typeof payload.preferred_supplier !== 'string' || !payload.preferred_supplier.trim())) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'preferred_supplier must be a non-empty string');
+  }
+  if (
+    typeof payload.max_stock_level === 'number' &&
+    typeof payload.reorder_point === 'number' &&
+    payload.max_stock_level <= payload.reorder_point
+  ) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'max_stock_level must be greater than reorder_point');
+  }
+}
+
+/**
+ * Document stored for a new product (version 1, nothing reserved or allocated).
+ * Fields other than the known ones are kept as custom fields.
+ */
+function newProductDocument(
+  id: string,
+  payload: Partial<Product> & { name: string; stock_quantity: number },
+  sku: string | undefined,
+  barcodes: string[],
+  now: string
+): Product {
+  return {
+    id,
+    name: payload.name,
+    ...(sku ? { sku } : {}),
+    barcodes,
+    description: payload.description ?? '',
+    ...(payload.categoryId ? { categoryId: payload.categoryId } : {}),
+    tags: normalizeTags(payload.tags),
+    stock_quantity: payload.stock_quantity,
+    ...(payload.base_unit ? { base_unit: payload.base_unit.trim().toLowerCase() } : {}),
+    ...(payload.units ? { units: normalizeUnits(payload.units) } : {}),
+    reserved_quantity: 0,
+    allocated_quantity: 0,
+    version: 1,
+    ...(payload.low_stock_threshold !== undefined ? { low_stock_threshold: payload.low_stock_threshold } : {}),
+    ...openingCost(payload.costing_method, payload.stock_quantity, payload.unit_cost, now),
+    createdAt: now,
+    updatedAt: now,
+    // allow any other custom fields
+    ...Object.keys(payload)
+      .filter(
+        (k) =>
+          ![
+            'id',
+            'name',
+            'sku',
+            'barcodes',
+            'description',
+            'categoryId',
+            'tags',
+            'stock_quantity',
+            'base_unit',
+            'units',
+            'low_stock_threshold',
+            'version',
+            'deletedAt',
+            'deletedBy',
+            'parentId',
+            'attributes',
+            'variant_count',
+            'lots',
+            'next_expiry',
+            'expired_quantity',
+            'costing_method',
+            'inventory_value',
+            'unit_cost',
+            'cost_layers',
+          ].includes(k)
+      )
+      .reduce<Record<string, unknown>>((acc, k) => {
+        acc[k] = (payload as Record<string, unknown>)[k];
+        return acc;
+      }, {}),
+  };
+}
+
+/**
+ * Throws 400 unless the costing_method and unit_cost present in `payload` are valid
+ * (unit_cost is an integer number of minor currency units, at most MAX_UNIT_COST).
+ */
+function assertValidCostFields(payload: Partial<Product>) {
+  if (payload.costing_method !== undefined && !COSTING_METHODS.includes(payload.costing_method)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `costing_method must be one of ${COSTING_METHODS.join(', ')}`);
+  }
+  if (payload.unit_cost !== undefined && (!Number.isInteger(payload.unit_cost) || payload.unit_cost < 0 || payload.unit_cost > MAX_UNIT_COST)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `unit_cost must be an integer between 0 and ${MAX_UNIT_COST}`);
+  }
+}
+
+/**
+ * Basic validation of a new product or variant: stock_quantity, low_stock_threshold,
+ * identifiers, tags, reorder settings, costing and units. Throws 400.
+ */
+function assertValidStockFields(payload: Partial<Product>) {
+  if (!Number.isInteger(payload.stock_quantity) || (payload.stock_quantity as number) < 0) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'stock_quantity must be an integer >= 0');
+  }
+  if (payload.low_stock_threshold !== undefined && (!Number.isInteger(payload.low_stock_threshold) || payload.low_stock_threshold < 0)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'low_stock_threshold must be an integer >= 0 when provided');
+  }
+  assertValidIdentifiers(payload.sku, payload.barcodes);
+  assertValidTags(payload.tags);
+  assertValidReorderSettings(payload);
+  assertValidCostFields(payload);
+  assertValidUnits(payload);
+}
+
+/**
+ * A new product's or variant's payload with stock_quantity in base units: `{ amount, unit }` is
+ * converted with the units the payload itself declares. Throws 400 (see toBaseQuantity).
+ */
+function withBaseStock<T extends ProductInput>(payload: T): T & { stock_quantity: number } {
+  const { stock_quantity: quantity, base_unit, units } = payload;
+  if (typeof quantity !== 'object' || quantity === null) return payload as T & { stock_quantity: number };
+  const declared = { base_unit, units };
+  assertValidUnits(declared);
+  return { ...payload, stock_quantity: toBaseQuantity(declared, quantity) };
+}
+
+/**
+ * Convert a stock quantity into base units of product `id` (see src/lib/units.ts), before the
+ * transaction that moves it. A plain number is taken as base units without reading the product;
+ * `units` overrides the stored unit fields (an update that also redefines the units).
+ * Throws 404 if the product is not found or in the trash, 400 for an unknown unit or a quantity
+ * that is not a whole number of base units.
+ */
+export async function resolveQuantity(
+  id: string,
+  quantity: StockQuantity,
+  units: UnitState = {},
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<number> {
+  if (!namesUnit(quantity)) return toBaseQuantity({}, quantity);
+  const snap = await docRef(collectionName, id).get();
+  if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const product = snap.data() as Product;
+  const merged = { base_unit: units.base_unit ?? product.base_unit, units: units.units ?? product.units };
+  assertValidUnits(merged);
+  return toBaseQuantity(merged, quantity);
 }
 
 /**
@@ -23,186 +340,1595 @@ function docRef(collectionName: string, id: string) {
  *
  * Ensures:
  *  - name is present (string)
- *  - stock_quantity is integer >= 0
+ *  - stock_quantity is integer >= 0, or `{ amount, unit }` in one of the units the payload declares
+ *    (converted to base units; base_unit defaults to "each")
+ *  - sku and barcodes are not used by another product (409 otherwise)
+ *  - categoryId (when given) names an existing category (404 otherwise)
  *
+ * Opening stock (stock_quantity > 0) is recorded as an `initial` movement, valued at `unit_cost`
+ * (minor currency units, default 0) with the product's `costing_method` (default average).
+ * With an idempotency context, a retried request returns the product created first.
  * Returns created product object with id, createdAt and updatedAt.
  */
 export async function createProduct(
   payload: {
     name: string;
     description?: string;
-    stock_quantity: number;
+    stock_quantity: StockQuantity;
     low_stock_threshold?: number;
-    [k: string]: any;
+    [k: string]: unknown;
   },
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
   collectionName: string = DEFAULT_COLLECTION
 ): Promise<Product> {
-  // Basic validation
   if (!payload || typeof payload !== 'object') {
-    throw new HttpError(400, 'Invalid payload');
+    throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
   }
   if (!payload.name || typeof payload.name !== 'string') {
-    throw new HttpError(400, 'Product name is required');
-  }
-  if (!Number.isInteger(payload.stock_quantity) || payload.stock_quantity < 0) {
-    throw new HttpError(400, 'stock_quantity must be an integer >= 0');
-  }
-  if (payload.low_stock_threshold !== undefined && (!Number.isInteger(payload.low_stock_threshold) || payload.low_stock_threshold < 0)) {
-    throw new HttpError(400, 'low_stock_threshold must be an integer >= 0 when provided');
+    throw new HttpError(400, 'VALIDATION_FAILED', 'Product name is required');
   }
+  const input = withBaseStock(payload);
+  assertValidStockFields(input);
 
   // Prepare document data with readable timestamps so result is immediately usable
   const now = new Date().toISOString();
-  const docRef = db.collection(collectionName).doc();
+  const docRef = getRepository().collection(collectionName).doc();
+  const sku = input.sku !== undefined ? (input.sku as string).trim() : undefined;
+  const barcodes = normalizeBarcodes(input.barcodes as string[] | undefined);
+  const docData = newProductDocument(docRef.id, input, sku, barcodes, now);
 
-  const docData: any = {
-    id: docRef.id,
-    name: payload.name,
-    description: payload.description ?? '',
-    stock_quantity: payload.stock_quantity,
-    ...(payload.low_stock_threshold !== undefined ? { low_stock_threshold: payload.low_stock_threshold } : {}),
-    createdAt: now,
-    updatedAt: now,
-    // allow any other custom fields
-    ...Object.keys(payload)
-      .filter((k) => !['name', 'description', 'stock_quantity', 'low_stock_threshold'].includes(k))
-      .reduce((acc: any, k) => {
-        acc[k] = (payload as any)[k];
-        return acc;
-      }, {}),
-  };
-
-  await docRef.set(docData);
-  return docData as Product;
+  const events: PendingProductEvent[] = [];
+  const created = await runIdempotent(idempotency, async (tx) => {
+    events.length = 0; // the callback may be retried
+    await assertIdentifiersFree(tx, docRef.id, sku, barcodes);
+    await assertCategoryExists(tx, docData.categoryId);
+    tx.create(docRef, docData);
+    claimIdentifiers(tx, docRef.id, sku, barcodes, now);
+    recordMovement(tx, docRef.id, 0, docData.stock_quantity, 'initial', meta, undefined, [], openingMovementCost(docData));
+    const product = withAvailability(docData as Product);
+    events.push(productEvent('product.created', docRef.id, null, product, now));
+    return product;
+  });
+  indexProducts(collectionName, [created]);
+  publishProductEvents(events);
+  return created;
 }
 
 /**
- * Get a product by ID. Throws 404 if not found.
+ * Get a product by ID (a parent reports the totals of its variants). Throws 404 if not found or in the trash.
  */
 export async function getProductById(id: string, collectionName: string = DEFAULT_COLLECTION): Promise<Product> {
   const snap = await docRef(collectionName, id).get();
-  if (!snap.exists) throw new HttpError(404, 'Product not found');
-  return { id: snap.id, ...(snap.data() as Product) } as Product;
+  if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const [product] = await withVariantTotals([withAvailability({ id: snap.id, ...(snap.data() as Product) } as Product)], collectionName);
+  return product;
 }
 
 /**
- * List products. Optionally pass `limit`.
- * Returns array of Product objects sorted by createdAt desc.
+ * Get a product by SKU (case-insensitive). Throws 404 if no product has it.
  */
-export async function listProducts(limit?: number, collectionName: string = DEFAULT_COLLECTION): Promise<Product[]> {
-  let q: FirebaseFirestore.Query = db.collection(collectionName).orderBy('createdAt', 'desc');
-  if (limit && Number.isInteger(limit) && limit > 0) q = q.limit(limit);
-  const snaps = await q.get();
+export async function getProductBySku(sku: string, collectionName: string = DEFAULT_COLLECTION): Promise<Product> {
+  if (!PRODUCT_IDENTIFIER_PATTERN.test(sku.trim())) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const snap = await skuRef(sku).get();
+  if (!snap.exists) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  return getProductById((snap.data() as ProductIdentifierEntry).productId, collectionName);
+}
+
+/**
+ * Get a product by one of its barcodes. Throws 404 if no product has it.
+ */
+export async function getProductByBarcode(code: string, collectionName: string = DEFAULT_COLLECTION): Promise<Product> {
+  if (!PRODUCT_IDENTIFIER_PATTERN.test(code.trim())) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const snap = await barcodeRef(code).get();
+  if (!snap.exists) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  return getProductById((snap.data() as ProductIdentifierEntry).productId, collectionName);
+}
+
+/**
+ * Resolve a product id from either a product id or a SKU.
+ * The id is tried first; Firestore auto-IDs never collide with real SKUs in practice.
+ * Throws 404 if neither matches.
+ */
+export async function resolveProductId(idOrSku: string, collectionName: string = DEFAULT_COLLECTION): Promise<string> {
+  const snap = await docRef(collectionName, idOrSku).get();
+  if (snap.exists) return snap.id;
+  if (!PRODUCT_IDENTIFIER_PATTERN.test(idOrSku.trim())) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const entry = await skuRef(idOrSku).get();
+  if (!entry.exists) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  return (entry.data() as ProductIdentifierEntry).productId;
+}
+
+/**
+ * Options for listing products.
+ * - limit: page size (default 50)
+ * - cursor: opaque cursor returned as `nextCursor` by the previous page
+ * - sort / direction: sort field and direction (default createdAt desc)
+ * - namePrefix: only products whose name starts with this value
+ * - minStock / maxStock: inclusive stock_quantity range
+ */
+export interface ListProductsOptions {
+  limit?: number;
+  cursor?: string;
+  sort?: 'name' | 'stock_quantity' | 'updatedAt' | 'createdAt';
+  direction?: 'asc' | 'desc';
+  namePrefix?: string;
+  minStock?: number;
+  maxStock?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * List products one page at a time.
+ * Returns { items, nextCursor } where nextCursor is null on the last page.
+ *
+ * Firestore only allows range filters on the field the query is first ordered by, so:
+ *  - namePrefix implies sorting by name
+ *  - minStock / maxStock imply sorting by stock_quantity
+ * Combining them, or asking for a different sort, is rejected with 400.
+ * Ties are broken by document id so cursors are stable. Products in the trash are not listed.
+ * Variants are listed like any product; parents report the totals of their variants, but filter
+ * and sort on the stock they store themselves (none).
+ */
+export async function listProducts(
+  options: ListProductsOptions = {},
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ items: Product[]; nextCursor: string | null }> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  const hasStockRange = options.minStock !== undefined || options.maxStock !== undefined;
+
+  if (options.namePrefix !== undefined && hasStockRange) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'namePrefix cannot be combined with minStock / maxStock');
+  }
+  const required = options.namePrefix !== undefined ? 'name' : hasStockRange ? 'stock_quantity' : undefined;
+  if (required && options.sort && options.sort !== required) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `Filtering on ${required} requires sort=${required}`);
+  }
+
+  const sort = options.sort ?? required ?? 'createdAt';
+  const direction = options.direction ?? (options.sort || required ? 'asc' : 'desc');
+
+  let q: Query = getRepository().collection(collectionName);
+  if (options.namePrefix !== undefined) {
+    q = q.where('name', '>=', options.namePrefix).where('name', '<', `${options.namePrefix}\uf8ff`);
+  }
+  if (options.minStock !== undefined) q = q.where('stock_quantity', '>=', options.minStock);
+  if (options.maxStock !== undefined) q = q.where('stock_quantity', '<=', options.maxStock);
+  q = q.orderBy(sort, direction).orderBy('id', direction);
+
+  if (options.cursor) {
+    const { v, id, s: cursorSort } = decodeCursor(options.cursor);
+    if (cursorSort !== `${sort}:${direction}`) throw new HttpError(400, 'INVALID_CURSOR', 'Cursor does not match the requested sort');
+    q = q.startAfter(v, id);
+  }
+
+  // Fetch one extra item to know whether another page exists. Products in the trash are
+  // skipped, so keep reading until the page is full or the collection runs out.
   const items: Product[] = [];
-  snaps.forEach((s) => items.push({ id: s.id, ...(s.data() as Product) }));
-  return items;
+  let page = q;
+  for (;;) {
+    const snaps = await page.limit(limit + 1).get();
+    for (const s of snaps.docs) {
+      const product = s.data() as Product;
+      if (!product.deletedAt) items.push(withAvailability({ id: s.id, ...product }));
+    }
+    if (items.length > limit || snaps.docs.length <= limit) break;
+    const last = snaps.docs[snaps.docs.length - 1];
+    page = q.startAfter((last.data() as Product)[sort] ?? null, last.id);
+  }
+
+  let nextCursor: string | null = null;
+  if (items.length > limit) {
+    items.length = limit;
+    const last = items[items.length - 1];
+    nextCursor = encodeCursor({ v: last[sort] ?? null, id: last.id as string, s: `${sort}:${direction}` });
+  }
+
+  return { items: await withVariantTotals(items, collectionName), nextCursor };
 }
 
 /**
- * Update product fields (name, description, stock_quantity, low_stock_threshold).
+ * Update product fields (name, sku, barcodes, description, categoryId, tags, stock_quantity,
+ * low_stock_threshold, the reorder settings and costing_method). A null categoryId takes the product out of its category.
  * Validates stock_quantity if provided and ensures it doesn't go < 0.
- * Throws 404 if product not found.
+ * A new sku / barcode must not belong to another product (409); `barcodes` replaces the whole list,
+ * and identifiers no longer used are released.
+ * A changed stock_quantity is recorded as a movement (default reason `adjustment`)
+ * in the same transaction as the update; it cannot go below the stock assigned to locations, and
+ * lowering it cannot leave less than open reservations hold in sellable units (400; lapsed holds
+ * are expired first).
+ * Lowering it takes units out of the product's lots as a decrease would (see lotsAfterDecrease).
+ * The stock value follows the change (see costAfterChange): units added are valued at `unit_cost`
+ * when given, otherwise at the current unit cost. A new costing_method keeps the stock's value.
+ * With `ifMatch` (versions from an If-Match header), the update only applies if the stored
+ * version is one of them; otherwise 412 is thrown. Every update increments the version.
+ * A change of stock_quantity or low_stock_threshold that crosses the threshold raises an alert.
+ * The stock_quantity of a parent product cannot be set (409; it is tracked per variant).
+ * Throws 404 if product not found or the new category does not exist.
  */
 export async function updateProduct(
   id: string,
-  updates: Partial<Product>,
+  updates: ProductInput,
+  meta: StockMovementMeta = {},
+  ifMatch?: number[],
   collectionName: string = DEFAULT_COLLECTION
 ): Promise<Product> {
-  const allowed = ['name', 'description', 'stock_quantity', 'low_stock_threshold'] as const;
-  const payload: any = {};
-  for (const k of allowed) if ((updates as any)[k] !== undefined) payload[k] = (updates as any)[k];
+  const allowed = [
+    'name',
+    'sku',
+    'barcodes',
+    'description',
+    'categoryId',
+    'tags',
+    'stock_quantity',
+    'base_unit',
+    'units',
+    'low_stock_threshold',
+    'reorder_point',
+    'reorder_quantity',
+    'max_stock_level',
+    'preferred_supplier',
+    'lead_time_days',
+    'costing_method',
+  ] as const;
+  const payload: ProductInput = {};
+  for (const k of allowed) if (updates[k] !== undefined) Object.assign(payload, { [k]: updates[k] });
+  const unitCost: number | undefined = updates.unit_cost;
+
+  // A quantity in a named unit is converted before the transaction; from here on it is in base units
+  const stock: number | undefined =
+    typeof payload.stock_quantity === 'object' && payload.stock_quantity !== null
+      ? await resolveQuantity(id, payload.stock_quantity, { base_unit: payload.base_unit, units: payload.units }, collectionName)
+      : payload.stock_quantity;
+  if (stock !== undefined) payload.stock_quantity = stock;
 
-  if (payload.stock_quantity !== undefined) {
-    if (!Number.isInteger(payload.stock_quantity) || payload.stock_quantity < 0) {
-      throw new HttpError(400, 'stock_quantity must be an integer >= 0');
+  if (stock !== undefined) {
+    if (!Number.isInteger(stock) || stock < 0) {
+      throw new HttpError(400, 'VALIDATION_FAILED', 'stock_quantity must be an integer >= 0');
     }
   }
   if (payload.low_stock_threshold !== undefined) {
     if (!Number.isInteger(payload.low_stock_threshold) || payload.low_stock_threshold < 0) {
-      throw new HttpError(400, 'low_stock_threshold must be an integer >= 0');
+      throw new HttpError(400, 'VALIDATION_FAILED', 'low_stock_threshold must be an integer >= 0');
     }
   }
+  assertValidIdentifiers(payload.sku, payload.barcodes);
+  assertValidTags(payload.tags);
+  assertValidReorderSettings(payload);
+  assertValidCostFields({ costing_method: payload.costing_method, unit_cost: unitCost });
+  if (payload.sku !== undefined) payload.sku = payload.sku.trim();
+  if (payload.barcodes !== undefined) payload.barcodes = normalizeBarcodes(payload.barcodes);
+  if (payload.tags !== undefined) payload.tags = normalizeTags(payload.tags);
+
+  const now = new Date().toISOString();
+  payload.updatedAt = now;
 
-  payload.updatedAt = new Date().toISOString();
+  const ref = docRef(collectionName, id);
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const updated = await getRepository().runTransaction(async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
+    const snap = await tx.get(ref);
+    if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const current = snap.data() as Product;
+    assertVersion(current, ifMatch);
+    if (stock !== undefined) assertTracksOwnStock(current);
+    if (payload.reorder_point !== undefined || payload.max_stock_level !== undefined) {
+      assertValidReorderSettings({
+        reorder_point: payload.reorder_point ?? current.reorder_point,
+        max_stock_level: payload.max_stock_level ?? current.max_stock_level,
+      });
+    }
+    if (payload.categoryId && payload.categoryId !== current.categoryId) await assertCategoryExists(tx, payload.categoryId);
+    if (payload.base_unit !== undefined || payload.units !== undefined) {
+      assertValidUnits({ base_unit: payload.base_unit ?? current.base_unit, units: payload.units ?? current.units });
+      if (payload.base_unit !== undefined) {
+        assertBaseUnitChangeAllowed(current, payload.base_unit);
+        payload.base_unit = payload.base_unit.trim().toLowerCase();
+      }
+      if (payload.units !== undefined) payload.units = normalizeUnits(payload.units);
+    }
+    if (stock !== undefined && stock < (current.allocated_quantity ?? 0)) {
+      throw new HttpError(400, 'INSUFFICIENT_UNALLOCATED_STOCK', 'stock_quantity cannot be below the stock assigned to locations');
+    }
+    // A lower stock must leave the holds covered; lapsed holds give their units back first
+    const before = current.stock_quantity ?? 0;
+    const lapsed = stock !== undefined && stock < before ? await findExpiredHolds(tx, id, now) : [];
+
+    // Work out which identifiers are claimed / released by this update
+    const oldSku: string | undefined = current.sku;
+    const skuChanged = payload.sku !== undefined && (!oldSku || skuKey(oldSku) !== skuKey(payload.sku));
+    const oldBarcodes = current.barcodes ?? [];
+    const newBarcodes: string[] = payload.barcodes ?? oldBarcodes;
+    const addedBarcodes = newBarcodes.filter((code) => !oldBarcodes.includes(code));
+    const removedBarcodes = oldBarcodes.filter((code) => !newBarcodes.includes(code));
+    await assertIdentifiersFree(tx, id, skuChanged ? payload.sku : undefined, addedBarcodes);
+
+    const reserved = Math.max(0, (current.reserved_quantity ?? 0) - expireHolds(tx, lapsed, now));
+    if (stock !== undefined && stock < before && stock - expiredQuantity(current.lots) < reserved) {
+      throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Stock would fall below the stock held by reservations');
+    }
+    if (lapsed.length > 0) payload.reserved_quantity = reserved;
+    const after = stock ?? before;
+    const lots = lotsAfterDecrease(current.lots, before, before - after);
+    const switched = payload.costing_method ? switchCostingMethod(current, before, payload.costing_method, now) : null;
+    const cost = costAfterChange(switched ?? current, before, after - before, now, unitCost);
+    Object.assign(payload, lots.fields, switched ?? {}, switched || after !== before ? cost.fields : {});
+    payload.version = (current.version ?? 0) + 1;
+    tx.update(ref, payload);
+    releaseIdentifiers(tx, skuChanged ? oldSku : undefined, removedBarcodes);
+    claimIdentifiers(tx, id, skuChanged ? payload.sku : undefined, addedBarcodes, now);
+    if (stock !== undefined) {
+      recordMovement(tx, id, before, stock, 'adjustment', meta, undefined, lots.consumed, cost.movement);
+    }
+    // A parent's threshold is not checked against anything: its variants raise their own alerts
+    const alert = hasVariants(current)
+      ? null
+      : recordStockAlert(
+          tx,
+          id,
+          current,
+          stock ?? current.stock_quantity ?? 0,
+          payload.low_stock_threshold ?? current.low_stock_threshold ?? null
+        );
+    if (alert) alerts.push(alert);
+    const product = withAvailability({ ...current, ...payload, id: snap.id } as Product);
+    events.push(productEvent('product.updated', id, current, product, now));
+    return product;
+  });
+  dispatchAlerts(alerts);
+  indexProducts(collectionName, [updated]);
+  publishProductEvents(events);
+  // A parent reports its variants' totals (and versions, for the ETag) as a read would
+  const [product] = await withVariantTotals([updated], collectionName);
+  return product;
+}
 
+/**
+ * Move a product to the trash: it is stamped with `deletedAt` / `deletedBy` and from then on
+ * behaves as not found, except for listTrash, restoreProduct and purgeTrash.
+ * Its sku and barcodes stay claimed until the product is purged, so a restore cannot clash.
+ * A variant no longer counts towards its parent; a parent cannot be deleted while it has variants (409).
+ * With `ifMatch`, throws 412 unless the stored version is one of the given versions.
+ * Throws 404 if product not found or already in the trash.
+ */
+export async function deleteProduct(
+  id: string,
+  ifMatch?: number[],
+  actor?: string,
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ id: string; deletedAt: string }> {
   const ref = docRef(collectionName, id);
-  const snap = await ref.get();
-  if (!snap.exists) throw new HttpError(404, 'Product not found');
+  const events: PendingProductEvent[] = [];
+  const deleted = await getRepository().runTransaction(async (tx) => {
+    events.length = 0; // the callback may be retried
+    const snap = await tx.get(ref);
+    if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const product = snap.data() as Product;
+    assertVersion(product, ifMatch);
+    if (hasVariants(product)) throw new HttpError(409, 'PRODUCT_HAS_VARIANTS', 'Product has variants; delete them first');
+    const parentRef = product.parentId ? docRef(collectionName, product.parentId) : null;
+    const parentSnap = parentRef ? await tx.get(parentRef) : null;
 
-  await ref.update(payload);
-  const updated = await ref.get();
-  return { id: updated.id, ...(updated.data() as Product) } as Product;
+    const now = new Date().toISOString();
+    tx.update(ref, { deletedAt: now, deletedBy: actor ?? null, version: (product.version ?? 0) + 1, updatedAt: now });
+    if (parentRef && parentSnap?.exists) {
+      const parent = parentSnap.data() as Product;
+      tx.update(parentRef, {
+        variant_count: Math.max(0, (parent.variant_count ?? 0) - 1),
+        version: (parent.version ?? 0) + 1,
+        updatedAt: now,
+      });
+    }
+    events.push(productEvent('product.deleted', id, product, product, now));
+    return { id, deletedAt: now };
+  });
+  unindexProducts(collectionName, [id]);
+  publishProductEvents(events);
+  return deleted;
 }
 
 /**
- * Delete product by id. Throws 404 if product not found.
+ * List products in the trash, most recently deleted first, one page at a time.
+ * Returns { items, nextCursor } where nextCursor is null on the last page.
  */
-export async function deleteProduct(id: string, collectionName: string = DEFAULT_COLLECTION) {
+export async function listTrash(
+  options: { limit?: number; cursor?: string } = {},
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ items: Product[]; nextCursor: string | null }> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+  let q: Query = getRepository()
+    .collection(collectionName)
+    .where('deletedAt', '!=', null)
+    .orderBy('deletedAt', 'desc')
+    .orderBy('id', 'desc');
+  if (options.cursor) {
+    const { v, id, s: cursorSort } = decodeCursor(options.cursor);
+    if (cursorSort !== 'deletedAt:desc') throw new HttpError(400, 'INVALID_CURSOR', 'Cursor does not match the requested sort');
+    q = q.startAfter(v, id);
+  }
+
+  const snaps = await q.limit(limit + 1).get();
+  const items: Product[] = snaps.docs.map((s) => withAvailability({ id: s.id, ...(s.data() as Product) }));
+  let nextCursor: string | null = null;
+  if (items.length > limit) {
+    items.length = limit;
+    const last = items[items.length - 1];
+    nextCursor = encodeCursor({ v: last.deletedAt ?? null, id: last.id as string, s: 'deletedAt:desc' });
+  }
+  return { items, nextCursor };
+}
+
+/**
+ * Take a product out of the trash. Throws 404 if not found (or already purged) and
+ * 409 if it is not in the trash. A variant is counted towards its parent again; it cannot be
+ * restored while its parent is gone (409) or once another variant has taken its attributes (409).
+ * Returns the restored product (a parent with the totals of its variants).
+ */
+export async function restoreProduct(id: string, collectionName: string = DEFAULT_COLLECTION): Promise<Product> {
   const ref = docRef(collectionName, id);
-  const snap = await ref.get();
-  if (!snap.exists) throw new HttpError(404, 'Product not found');
-  await ref.delete();
-  return { id };
+  const events: PendingProductEvent[] = [];
+  const restored = await getRepository().runTransaction(async (tx) => {
+    events.length = 0; // the callback may be retried
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const product = snap.data() as Product;
+    if (!product.deletedAt) throw new HttpError(409, 'PRODUCT_NOT_IN_TRASH', 'Product is not in the trash');
+    const parentRef = product.parentId ? docRef(collectionName, product.parentId) : null;
+    let parent: Product | null = null;
+    if (parentRef) {
+      const parentSnap = await tx.get(parentRef);
+      if (!parentSnap.exists || (parentSnap.data() as Product).deletedAt) {
+        throw new HttpError(409, 'VARIANT_PARENT_IN_TRASH', 'The parent product is in the trash or was purged; restore it first');
+      }
+      parent = parentSnap.data() as Product;
+      await assertCanAddVariant(tx, parentRef.id, parent, product.attributes ?? {}, collectionName);
+    }
+
+    const changes = { deletedAt: null, deletedBy: null, version: (product.version ?? 0) + 1, updatedAt: new Date().toISOString() };
+    tx.update(ref, changes);
+    if (parentRef && parent) {
+      tx.update(parentRef, {
+        variant_count: (parent.variant_count ?? 0) + 1,
+        version: (parent.version ?? 0) + 1,
+        updatedAt: changes.updatedAt,
+      });
+    }
+    const after = withAvailability({ ...product, ...changes, id: snap.id });
+    events.push(productEvent('product.updated', id, product, after, changes.updatedAt));
+    return after;
+  });
+  indexProducts(collectionName, [restored]);
+  publishProductEvents(events);
+  const [product] = await withVariantTotals([restored], collectionName);
+  return product;
+}
+
+/**
+ * Days a product stays in the trash before purgeTrash removes it (PRODUCT_TRASH_RETENTION_DAYS).
+ */
+function trashRetentionDays(): number {
+  const days = Number(process.env.PRODUCT_TRASH_RETENTION_DAYS);
+  return Number.isFinite(days) && days >= 0 ? days : 30;
+}
+
+/**
+ * Permanently remove products that have been in the trash for longer than the retention window:
+ * the product document and its per-location stock records are deleted and its sku and barcodes
+ * are released. Stock movements are kept as history.
+ * Products that still hold active reservations are skipped until the holds are released or expire.
+ * Returns { purged } with the ids removed.
+ */
+export async function purgeTrash(
+  now: Date = new Date(),
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ purged: string[] }> {
+  const cutoff = new Date(now.getTime() - trashRetentionDays() * 24 * 60 * 60 * 1000).toISOString();
+  const snaps = await getRepository().collection(collectionName).where('deletedAt', '<=', cutoff).get();
+
+  const purged: string[] = [];
+  for (const candidate of snaps.docs) {
+    const ref = docRef(collectionName, candidate.id);
+    const removed = await getRepository().runTransaction(async (tx) => {
+      // Re-check inside the transaction: the product may have been restored meanwhile
+      const snap = await tx.get(ref);
+      const product = snap.exists ? (snap.data() as Product) : null;
+      if (!product?.deletedAt || product.deletedAt > cutoff || (product.reserved_quantity ?? 0) > 0) return false;
+      const records = await tx.get(getRepository().collection(LOCATION_STOCK_COLLECTION).where('productId', '==', candidate.id));
+      tx.delete(ref);
+      releaseIdentifiers(tx, product.sku, product.barcodes ?? []);
+      records.forEach((record) => tx.delete(record.ref));
+      return true;
+    });
+    if (removed) purged.push(candidate.id);
+  }
+  return { purged };
+}
+
+/**
+ * Variants: a parent product (e.g. a T-shirt) can have variants (e.g. size M in red), each stored
+ * as a product of its own with `parentId` and `attributes`. A variant has its own sku, stock and
+ * threshold and takes part in every stock operation like any product. The parent holds no stock
+ * itself: reads report the totals of its variants (see withVariantTotals).
+ */
+
+/**
+ * True for a parent product, whose stock is tracked on its variants.
+ */
+function hasVariants(product: Product): boolean {
+  return (product.variant_count ?? 0) > 0;
+}
+
+/**
+ * Throws 409 when stock would be changed on a parent product rather than on one of its variants.
+ */
+function assertTracksOwnStock(product: Product) {
+  if (hasVariants(product)) {
+    throw new HttpError(409, 'STOCK_TRACKED_PER_VARIANT', 'Stock of this product is tracked per variant');
+  }
+}
+
+/**
+ * Identity of an attribute combination: names and values compared case-insensitively, in any order.
+ */
+function attributesKey(attributes: Record<string, string>): string {
+  const entries = Object.entries(attributes).map(([name, value]) => `${name.trim().toLowerCase()}=${value.trim().toLowerCase()}`);
+  return JSON.stringify(entries.sort());
+}
+
+function variantsQuery(parentId: string, collectionName: string): Query {
+  return getRepository().collection(collectionName).where('parentId', '==', parentId);
+}
+
+/**
+ * Variants not in the trash, oldest first.
+ */
+function liveVariants(snaps: QuerySnapshot): Product[] {
+  return snaps.docs
+    .map((s) => ({ id: s.id, ...(s.data() as Product) }))
+    .filter((variant) => !variant.deletedAt)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt) || (a.id < b.id ? -1 : 1));
+}
+
+/**
+ * Throws 409 unless `parent` can take (another) variant with these attributes:
+ *  - a variant cannot have variants of its own
+ *  - a product that still holds stock cannot get its first variant (its stock would be lost)
+ *  - no other live variant of the parent may have the same attributes
+ * Only reads, so it can run before the writes of the calling transaction.
+ */
+async function assertCanAddVariant(
+  tx: Transaction,
+  parentId: string,
+  parent: Product,
+  attributes: Record<string, string>,
+  collectionName: string
+) {
+  if (parent.parentId) throw new HttpError(409, 'PRODUCT_IS_VARIANT', 'Variants cannot have variants of their own');
+  if (!hasVariants(parent) && (parent.stock_quantity ?? 0) > 0) {
+    throw new HttpError(409, 'PRODUCT_HOLDS_STOCK', 'Product holds stock of its own; bring its stock_quantity to 0 before adding variants');
+  }
+  const key = attributesKey(attributes);
+  const siblings = liveVariants(await tx.get(variantsQuery(parentId, collectionName)));
+  if (siblings.some((variant) => attributesKey(variant.attributes ?? {}) === key)) {
+    throw new HttpError(409, 'VARIANT_ATTRIBUTES_IN_USE', 'Another variant of this product has the same attributes');
+  }
+}
+
+/**
+ * Report the totals of their live variants (stock, reserved, allocated, expired and available quantities,
+ * inventory value) on the parent products among `products`; other products are returned unchanged.
+ */
+async function withVariantTotals(products: Product[], collectionName: string): Promise<Product[]> {
+  const parentIds = products.filter(hasVariants).map((p) => p.id as string);
+  if (parentIds.length === 0) return products;
+
+  const totals = new Map<
+    string,
+    { stock_quantity: number; reserved_quantity: number; allocated_quantity: number; inventory_value: number; variants_version: number }
+  >();
+  const expired = new Map<string, number>();
+  const day = today();
+  // Firestore `in` filters take at most 30 values
+  for (let i = 0; i < parentIds.length; i += 30) {
+    const snaps = await getRepository().collection(collectionName).where('parentId', 'in', parentIds.slice(i, i + 30)).get();
+    for (const variant of liveVariants(snaps)) {
+      const sum = totals.get(variant.parentId as string) ?? {
+        stock_quantity: 0,
+        reserved_quantity: 0,
+        allocated_quantity: 0,
+        inventory_value: 0,
+        variants_version: 0,
+      };
+      sum.stock_quantity += variant.stock_quantity ?? 0;
+      sum.reserved_quantity += variant.reserved_quantity ?? 0;
+      sum.allocated_quantity += variant.allocated_quantity ?? 0;
+      sum.inventory_value += variant.inventory_value ?? 0;
+      // Variant writes do not touch the parent, so its ETag has to follow theirs too
+      sum.variants_version += variant.version ?? 0;
+      totals.set(variant.parentId as string, sum);
+      expired.set(variant.parentId as string, (expired.get(variant.parentId as string) ?? 0) + expiredQuantity(variant.lots, day));
+    }
+  }
+  return products.map((product) => {
+    const sum = totals.get(product.id as string);
+    return hasVariants(product) && sum ? withAvailability({ ...product, ...sum }, expired.get(product.id as string)) : product;
+  });
+}
+
+/**
+ * Add a variant to a product. The variant is validated like createProduct; `attributes` names
+ * at least one attribute and its name defaults to the parent's name followed by the attribute values.
+ * Opening stock is recorded as an `initial` movement on the variant, and the parent's
+ * variant_count (and version) go up in the same transaction.
+ * Throws 404 if the parent is not found and 409 if it cannot take the variant (see assertCanAddVariant)
+ * or the sku / a barcode is taken.
+ * With an idempotency context, a retried request returns the variant created first.
+ */
+export async function createVariant(
+  parentId: string,
+  payload: ProductInput & { attributes: Record<string, string>; stock_quantity: StockQuantity },
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<Product> {
+  if (!payload || typeof payload !== 'object') {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'Invalid payload');
+  }
+  if (!payload.attributes || typeof payload.attributes !== 'object' || Object.keys(payload.attributes).length === 0) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'attributes must name at least one attribute');
+  }
+  const input = withBaseStock(payload);
+  assertValidStockFields(input);
+
+  const now = new Date().toISOString();
+  const parentRef = docRef(collectionName, parentId);
+  const ref = getRepository().collection(collectionName).doc();
+  const sku = payload.sku !== undefined ? payload.sku.trim() : undefined;
+  const barcodes = normalizeBarcodes(payload.barcodes);
+
+  const events: PendingProductEvent[] = [];
+  const created = await runIdempotent(idempotency, async (tx) => {
+    events.length = 0; // the callback may be retried
+    const parentSnap = await tx.get(parentRef);
+    if (!parentSnap.exists || (parentSnap.data() as Product).deletedAt) {
+      throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    }
+    const parent = parentSnap.data() as Product;
+    await assertCanAddVariant(tx, parentId, parent, payload.attributes, collectionName);
+    await assertIdentifiersFree(tx, ref.id, sku, barcodes);
+    await assertCategoryExists(tx, payload.categoryId);
+
+    const name = payload.name ?? `${parent.name} (${Object.values(payload.attributes).join(' / ')})`;
+    const variant: Product = {
+      ...newProductDocument(ref.id, { ...input, name }, sku, barcodes, now),
+      parentId,
+      attributes: payload.attributes,
+    };
+    tx.create(ref, variant);
+    tx.update(parentRef, { variant_count: (parent.variant_count ?? 0) + 1, version: (parent.version ?? 0) + 1, updatedAt: now });
+    claimIdentifiers(tx, ref.id, sku, barcodes, now);
+    recordMovement(tx, ref.id, 0, variant.stock_quantity, 'initial', meta, undefined, [], openingMovementCost(variant));
+    const product = withAvailability(variant);
+    events.push(productEvent('product.created', ref.id, null, product, now));
+    return product;
+  });
+  indexProducts(collectionName, [created]);
+  publishProductEvents(events);
+  return created;
+}
+
+/**
+ * List the variants of a product (not in the trash), oldest first.
+ * Throws 404 if the product is not found or in the trash.
+ */
+export async function listVariants(parentId: string, collectionName: string = DEFAULT_COLLECTION): Promise<Product[]> {
+  const snap = await docRef(collectionName, parentId).get();
+  if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const snaps = await variantsQuery(parentId, collectionName).get();
+  return liveVariants(snaps).map(withAvailability);
+}
+
+/**
+ * Get one variant of a product. Throws 404 unless `variantId` is a variant of `parentId`
+ * that is not in the trash.
+ */
+export async function getVariant(
+  parentId: string,
+  variantId: string,
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<Product> {
+  const snap = await docRef(collectionName, variantId).get();
+  const variant = snap.exists ? (snap.data() as Product) : null;
+  if (!variant || variant.deletedAt || variant.parentId !== parentId) {
+    throw new HttpError(404, 'VARIANT_NOT_FOUND', 'Variant not found');
+  }
+  return withAvailability({ id: snap.id, ...variant });
 }
 
 /**
  * Increase stock atomically using Firestore transaction.
  * - amount must be integer > 0
+ * - a movement (default reason `receipt`) is recorded in the same transaction
+ * - climbing back to the low-stock threshold raises a `low_stock_recovered` alert
+ * - with an idempotency context, a retried request replays the first result
+ * - with `lot`, the units are received into that lot (created on first receipt with its expiry date)
+ * - the units are valued at `unitCost` (minor currency units), or at the product's current unit
+ *   cost when none is given (see costAfterChange)
+ * Throws 409 for a parent product (its stock is tracked per variant) or a lot number already
+ * received with another expiry date.
  * Returns { id, stock_quantity } after update.
  */
-export async function increaseStock(id: string, amount: number, collectionName: string = DEFAULT_COLLECTION) {
-  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'amount must be an integer > 0');
+export async function increaseStock(
+  id: string,
+  amount: number,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  lot?: LotInput,
+  unitCost?: number,
+  collectionName: string = DEFAULT_COLLECTION
+) {
+  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be an integer > 0');
+  assertValidCostFields({ unit_cost: unitCost });
 
   const ref = docRef(collectionName, id);
-  const newQty = await db.runTransaction(async (tx) => {
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('increase', () => runIdempotent(idempotency, async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
     const snap = await tx.get(ref);
-    if (!snap.exists) throw new HttpError(404, 'Product not found');
-    const current = (snap.data() as Product).stock_quantity ?? 0;
+    if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const product = snap.data() as Product;
+    assertTracksOwnStock(product);
+    const current = product.stock_quantity ?? 0;
     const updated = current + amount;
-    tx.update(ref, { stock_quantity: updated, updatedAt: new Date().toISOString() });
-    return updated;
-  });
+    const now = new Date().toISOString();
+    const cost = costAfterChange(product, current, amount, now, unitCost);
+    tx.update(ref, {
+      stock_quantity: updated,
+      ...(lot ? lotFields(receiveIntoLot(product.lots, lot, amount, now)) : {}),
+      ...cost.fields,
+      version: (product.version ?? 0) + 1,
+      updatedAt: now,
+    });
+    recordMovement(tx, id, current, updated, 'receipt', meta, undefined, lot ? [{ lotNumber: lot.lotNumber, delta: amount }] : [], cost.movement);
+    const alert = recordStockAlert(tx, id, product, updated);
+    if (alert) alerts.push(alert);
+    events.push(stockChangedEvent(id, product, updated, now));
+    return { id, stock_quantity: updated };
+  }));
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  return result;
+}
 
-  return { id, stock_quantity: newQty };
+/**
+ * Throws 400 if `amount` cannot be taken out of a product's stock without naming a location:
+ * - the available stock (on hand minus reserved) must cover it
+ * - the unallocated stock (on hand minus stock assigned to locations) must cover it
+ * Shared by decreaseStock and applyStockAdjustments so both report the same error.
+ */
+function assertSufficientStock(current: number, reserved: number, allocated: number, amount: number) {
+  if (current - reserved < amount) throw new HttpError(400, 'INSUFFICIENT_STOCK', 'Insufficient stock');
+  if (current - allocated < amount) {
+    throw new HttpError(400, 'INSUFFICIENT_UNALLOCATED_STOCK', 'Insufficient unallocated stock; specify a locationId');
+  }
 }
 
 /**
  * Decrease stock atomically using Firestore transaction.
- * Throws 400 if insufficient stock.
+ * - a movement (default reason `sale`) is recorded in the same transaction
+ * - with an idempotency context, a retried request replays the first result
+ * - stock held by active reservations cannot be taken; lapsed holds are expired first
+ * - lots are consumed first-expiry-first-out, then untracked stock; expired lots cannot be sold
+ * - with `lotNumber`, only that lot is used; an expired lot can be written off with any reason
+ *   other than `sale`
+ * - dropping below the low-stock threshold raises a `low_stock` alert
+ * - the cost of goods leaves the inventory value (FIFO or average cost, see costAfterChange)
+ * Throws 400 if insufficient stock, 404 for an unknown lot, 409 for a parent product (its stock is
+ * tracked per variant) or for selling an expired lot.
  * Returns { id, stock_quantity } after update.
  */
-export async function decreaseStock(id: string, amount: number, collectionName: string = DEFAULT_COLLECTION) {
-  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'amount must be an integer > 0');
+export async function decreaseStock(
+  id: string,
+  amount: number,
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  lotNumber?: string,
+  collectionName: string = DEFAULT_COLLECTION
+) {
+  if (!Number.isInteger(amount) || amount <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'amount must be an integer > 0');
 
   const ref = docRef(collectionName, id);
-  const newQty = await db.runTransaction(async (tx) => {
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('decrease', () => runIdempotent(idempotency, async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
     const snap = await tx.get(ref);
-    if (!snap.exists) throw new HttpError(404, 'Product not found');
-    const current = (snap.data() as Product).stock_quantity ?? 0;
-    if (current < amount) throw new HttpError(400, 'Insufficient stock');
+    if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const now = new Date().toISOString();
+    const expired = await findExpiredHolds(tx, id, now);
+
+    const product = snap.data() as Product;
+    assertTracksOwnStock(product);
+    const current = product.stock_quantity ?? 0;
+    const reserved = Math.max(0, (product.reserved_quantity ?? 0) - expireHolds(tx, expired, now));
+    const lots = lotsForDecrease(product.lots, current, amount, meta.reason ?? 'sale', lotNumber);
+    assertSufficientStock(current, lots.writeOff ? 0 : reserved + expiredQuantity(product.lots), product.allocated_quantity ?? 0, amount);
     const updated = current - amount;
-    tx.update(ref, { stock_quantity: updated, updatedAt: new Date().toISOString() });
-    return updated;
-  });
+    const cost = costAfterChange(product, current, -amount, now);
+    tx.update(ref, {
+      stock_quantity: updated,
+      reserved_quantity: reserved,
+      ...lots.fields,
+      ...cost.fields,
+      version: (product.version ?? 0) + 1,
+      updatedAt: now,
+    });
+    recordMovement(tx, id, current, updated, 'sale', meta, undefined, lots.consumed, cost.movement);
+    const alert = recordStockAlert(tx, id, product, updated);
+    if (alert) alerts.push(alert);
+    events.push(stockChangedEvent(id, product, updated, now));
+    return { id, stock_quantity: updated };
+  }));
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  return result;
+}
+
+/**
+ * Maximum number of lines in one bulk adjustment.
+ * Each line writes a movement and each product one update; Firestore caps a transaction at 500 writes.
+ */
+export const MAX_ADJUSTMENT_LINES = 200;
+
+export interface StockAdjustmentLine {
+  productId?: string; // product id, or
+  sku?: string; // the product's SKU (exactly one of the two)
+  delta: number; // signed, non-zero integer
+}
+
+export interface StockAdjustmentResult {
+  index: number;
+  productId: string;
+  sku?: string;
+  delta: number;
+  quantity_before: number;
+  quantity_after: number;
+}
 
-  return { id, stock_quantity: newQty };
+export interface StockAdjustmentFailure {
+  index: number;
+  productId?: string;
+  sku?: string;
+  code: ErrorCode;
+  error: string;
 }
 
 /**
- * List all products that have low_stock_threshold set and stock_quantity < low_stock_threshold.
+ * Apply many stock adjustments atomically in a single Firestore transaction.
+ * - lines are applied in order; several lines may target the same product
+ * - a line names its product by id or by SKU
+ * - each line records its own movement (default reason `adjustment`)
+ * - decreases cannot take stock held by reservations (lapsed holds are expired first) or units
+ *   in expired lots; they take units out of lots as updateProduct does
+ * - the stock value follows every line; increases are valued at the current unit cost
+ * - products whose net change crosses their low-stock threshold raise an alert
+ * - if any line fails (unknown product, parent product, insufficient stock) nothing is applied and
+ *   a 400 is thrown whose details list every failing line: { failures: [...] }, each with the
+ *   error code (see ERROR_CODES) the line failed with
+ * Returns { results } with before/after quantities for every line.
+ */
+export async function applyStockAdjustments(
+  lines: StockAdjustmentLine[],
+  meta: StockMovementMeta = {},
+  idempotency?: IdempotencyContext,
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ results: StockAdjustmentResult[] }> {
+  if (!Array.isArray(lines) || lines.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'At least one adjustment line is required');
+  if (lines.length > MAX_ADJUSTMENT_LINES) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `At most ${MAX_ADJUSTMENT_LINES} adjustment lines are allowed`);
+  }
+  for (const line of lines) {
+    if (!Number.isInteger(line.delta) || line.delta === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'delta must be a non-zero integer');
+    if (!line.productId === !line.sku) throw new HttpError(400, 'VALIDATION_FAILED', 'Each line needs either productId or sku');
+  }
+
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('bulk_adjustment', () => runIdempotent(idempotency, async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
+    // Resolve SKUs first (unknown or malformed SKUs resolve to null)
+    const skus = [
+      ...new Set(
+        lines.filter((l) => !l.productId && PRODUCT_IDENTIFIER_PATTERN.test((l.sku as string).trim())).map((l) => skuKey(l.sku as string))
+      ),
+    ];
+    const skuSnaps = skus.length > 0 ? await tx.getAll(...skus.map(skuRef)) : [];
+    const bySku = new Map<string, string>();
+    skuSnaps.forEach((snap, i) => {
+      if (snap.exists) bySku.set(skus[i], (snap.data() as ProductIdentifierEntry).productId);
+    });
+    const lineIds = lines.map((l) => l.productId ?? bySku.get(skuKey(l.sku as string)) ?? null);
+
+    const ids = [...new Set(lineIds.filter((id): id is string => id !== null))];
+    const refs = ids.map((id) => docRef(collectionName, id));
+    const snaps = refs.length > 0 ? await tx.getAll(...refs) : [];
+
+    // Running quantity per product (null = product does not exist or is in the trash)
+    const running = new Map<string, number | null>();
+    const reserved = new Map<string, number>();
+    const allocated = new Map<string, number>();
+    const lots = new Map<string, Product['lots']>();
+    const costs = new Map<string, CostState>();
+    const products = new Map<string, Product>();
+    snaps.forEach((snap, i) => {
+      const product = snap.exists && !(snap.data() as Product).deletedAt ? (snap.data() as Product) : null;
+      if (product) products.set(ids[i], product);
+      running.set(ids[i], product ? product.stock_quantity ?? 0 : null);
+      reserved.set(ids[i], product?.reserved_quantity ?? 0);
+      allocated.set(ids[i], product?.allocated_quantity ?? 0);
+      lots.set(ids[i], product?.lots);
+      if (product) costs.set(ids[i], product);
+    });
+
+    // Lapsed holds on products being decreased give their units back, as in decreaseStock
+    const now = new Date().toISOString();
+    const decreased = ids.filter((id, i) => snaps[i].exists && lines.some((l, j) => lineIds[j] === id && l.delta < 0));
+    const lapsed = await Promise.all(decreased.map((id) => findExpiredHolds(tx, id, now)));
+    decreased.forEach((id, i) => {
+      if (lapsed[i].length > 0) reserved.set(id, Math.max(0, (reserved.get(id) ?? 0) - expireHolds(tx, lapsed[i], now)));
+    });
+
+    const results: StockAdjustmentResult[] = [];
+    const resultLots: MovementLot[][] = [];
+    const resultCosts: MovementCost[] = [];
+    const failures: StockAdjustmentFailure[] = [];
+    lines.forEach((line, index) => {
+      const productId = lineIds[index];
+      const target = { ...(productId ? { productId } : {}), ...(line.sku ? { sku: line.sku } : {}) };
+      const current = productId ? running.get(productId) ?? null : null;
+      if (!productId || current === null) {
+        failures.push({ index, ...target, code: 'PRODUCT_NOT_FOUND', error: productId ? 'Product not found' : 'Unknown SKU' });
+        return;
+      }
+      try {
+        assertTracksOwnStock(products.get(productId) as Product);
+        if (line.delta < 0) {
+          const unsellable = (reserved.get(productId) ?? 0) + expiredQuantity(lots.get(productId));
+          assertSufficientStock(current, unsellable, allocated.get(productId) ?? 0, -line.delta);
+        }
+      } catch (err) {
+        failures.push({ index, ...target, code: (err as HttpError).code, error: (err as HttpError).message });
+        return;
+      }
+      const after = current + line.delta;
+      const lotChange = lotsAfterDecrease(lots.get(productId), current, -line.delta);
+      if (lotChange.fields.lots) lots.set(productId, lotChange.fields.lots);
+      const cost = costAfterChange(costs.get(productId) as CostState, current, line.delta, now);
+      costs.set(productId, cost.fields);
+      running.set(productId, after);
+      results.push({ index, ...target, productId, delta: line.delta, quantity_before: current, quantity_after: after });
+      resultLots.push(lotChange.consumed);
+      resultCosts.push(cost.movement);
+    });
+
+    if (failures.length > 0) {
+      throw new HttpError(400, 'STOCK_ADJUSTMENT_REJECTED', 'Stock adjustment rejected; no lines were applied', { failures });
+    }
+
+    refs.forEach((ref, i) => {
+      const product = products.get(ids[i]) as Product;
+      const after = running.get(ids[i]) as number;
+      tx.update(ref, {
+        stock_quantity: after,
+        reserved_quantity: reserved.get(ids[i]) ?? 0,
+        ...(product.lots?.length ? lotFields(lots.get(ids[i]) ?? []) : {}),
+        ...costs.get(ids[i]),
+        version: (product.version ?? 0) + 1,
+        updatedAt: now,
+      });
+    });
+    results.forEach((r, i) => {
+      recordMovement(tx, r.productId, r.quantity_before, r.quantity_after, 'adjustment', meta, undefined, resultLots[i], resultCosts[i]);
+    });
+    ids.forEach((id) => {
+      const alert = recordStockAlert(tx, id, products.get(id) as Product, running.get(id) as number);
+      if (alert) alerts.push(alert);
+      events.push(stockChangedEvent(id, products.get(id) as Product, running.get(id) as number, now));
+    });
+    return { results };
+  }));
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  return result;
+}
+
+/**
+ * List all products that have low_stock_threshold set and a quantity below it (products in the trash excluded).
+ * Stock is reported where it is tracked: variants are listed, their parents are not.
+ * - basis `on_hand` (default) compares stock_quantity
+ * - basis `available` compares stock_quantity - reserved_quantity
  * Note: Firestore queries cannot directly compare two fields; we query for docs that have a low_stock_threshold value,
  * then filter in memory by comparing the two numbers.
  */
-export async function listLowStock(collectionName: string = DEFAULT_COLLECTION): Promise<Product[]> {
-  const snaps = await db.collection(collectionName).where('low_stock_threshold', '!=', null).get();
+export async function listLowStock(
+  basis: 'on_hand' | 'available' = 'on_hand',
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<Product[]> {
+  const snaps = await getRepository().collection(collectionName).where('low_stock_threshold', '!=', null).get();
   const items: Product[] = [];
   snaps.forEach((s) => {
-    const data = s.data() as Product;
+    const data = withAvailability({ id: s.id, ...(s.data() as Product) });
+    if (data.deletedAt || hasVariants(data)) return;
     if (typeof data.low_stock_threshold === 'number' && typeof data.stock_quantity === 'number') {
-      if (data.stock_quantity < data.low_stock_threshold) {
-        items.push({ id: s.id, ...(data as Product) });
+      const quantity = basis === 'available' ? (data.available_quantity as number) : data.stock_quantity;
+      if (quantity < data.low_stock_threshold) {
+        items.push(data);
       }
     }
   });
   return items;
 }
+
+/**
+ * Longest look-ahead of the expiring-stock report, in days.
+ */
+export const MAX_EXPIRY_WINDOW_DAYS = 365;
+
+/**
+ * List the lots on hand that expire within `withinDays` days from today, including lots that
+ * have already expired, soonest first (products in the trash excluded).
+ * Products are found by their stored next_expiry, so only the lots of matching products are read.
+ */
+export async function listExpiringLots(withinDays: number = 30, collectionName: string = DEFAULT_COLLECTION): Promise<ExpiringLot[]> {
+  if (!Number.isInteger(withinDays) || withinDays < 0 || withinDays > MAX_EXPIRY_WINDOW_DAYS) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `withinDays must be an integer between 0 and ${MAX_EXPIRY_WINDOW_DAYS}`);
+  }
+  const day = today();
+  const dayMs = 24 * 60 * 60 * 1000;
+  const cutoff = today(new Date(Date.parse(day) + withinDays * dayMs));
+  const snaps = await getRepository().collection(collectionName).where('next_expiry', '<=', cutoff).get();
+
+  const items: ExpiringLot[] = [];
+  snaps.forEach((s) => {
+    const product = s.data() as Product;
+    if (product.deletedAt) return;
+    for (const lot of product.lots ?? []) {
+      if (lot.expiresAt === null || lot.expiresAt > cutoff) continue;
+      items.push({
+        productId: s.id,
+        name: product.name,
+        ...(product.sku ? { sku: product.sku } : {}),
+        lotNumber: lot.lotNumber,
+        expiresAt: lot.expiresAt,
+        quantity: lot.quantity,
+        days_left: Math.round((Date.parse(lot.expiresAt) - Date.parse(day)) / dayMs),
+        expired: isExpired(lot, day),
+      });
+    }
+  });
+  return items.sort((a, b) => a.expiresAt.localeCompare(b.expiresAt) || a.name.localeCompare(b.name) || a.lotNumber.localeCompare(b.lotNumber));
+}
+
+/**
+ * Value of the stock on hand per product and in total, in minor units of INVENTORY_CURRENCY
+ * (see src/lib/costing.ts for the costing methods and rounding).
+ * - without `asOf`: the stored stock and inventory_value of every product
+ * - with `asOf` (ISO timestamp, or a YYYY-MM-DD date meaning the end of that day UTC): the
+ *   quantity and value after each product's last movement up to then, for the products that
+ *   existed and were not in the trash at that time. Movements recorded before stock was costed
+ *   carry no value, so that stock counts at 0. Purged products are gone from the history.
+ * Only products holding stock are listed, most valuable first; parents are represented by their variants.
+ * Throws 400 for an `asOf` in the future.
+ */
+export async function getInventoryValuation(asOf?: string, collectionName: string = DEFAULT_COLLECTION): Promise<InventoryValuation> {
+  const now = new Date().toISOString();
+  const isDate = asOf !== undefined && /^\d{4}-\d{2}-\d{2}$/.test(asOf);
+  const at = asOf === undefined ? now : isDate ? `${asOf}T23:59:59.999Z` : new Date(asOf).toISOString();
+  if (asOf !== undefined && (isDate ? asOf > today() : at > now)) {
+    throw new HttpError(400, 'VALIDATION_FAILED', 'asOf must not be in the future');
+  }
+
+  const items: ValuationLine[] = [];
+  const add = (productId: string, product: Product, quantity: number, value: number) => {
+    if (quantity === 0 && value === 0) return;
+    items.push({
+      productId,
+      name: product.name,
+      ...(product.sku ? { sku: product.sku } : {}),
+      costing_method: product.costing_method ?? 'average',
+      quantity,
+      value,
+      unit_cost: averageUnitCost(value, quantity),
+    });
+  };
+
+  if (asOf === undefined) {
+    const snaps = await getRepository().collection(collectionName).where('stock_quantity', '>', 0).get();
+    snaps.forEach((s) => {
+      const product = s.data() as Product;
+      if (!product.deletedAt) add(s.id, product, product.stock_quantity, product.inventory_value ?? 0);
+    });
+  } else {
+    const snaps = await getRepository().collection(collectionName).where('createdAt', '<=', at).get();
+    const products = snaps.docs
+      .map((s) => ({ id: s.id, ...(s.data() as Product) }))
+      .filter((product) => !product.deletedAt || product.deletedAt > at);
+    // Firestore cannot return the latest movement of every product in one query: one query per product
+    for (let i = 0; i < products.length; i += 30) {
+      const batch = products.slice(i, i + 30);
+      const latest = await Promise.all(batch.map((product) => listMovements(product.id, { to: at, limit: 1 })));
+      batch.forEach((product, j) => {
+        const movement = latest[j].items[0];
+        if (movement) add(product.id, product, movement.quantity_after, movement.value_after ?? 0);
+      });
+    }
+  }
+
+  items.sort((a, b) => b.value - a.value || a.name.localeCompare(b.name));
+  return {
+    asOf: at,
+    currency: inventoryCurrency(),
+    total_quantity: items.reduce((sum, item) => sum + item.quantity, 0),
+    total_value: items.reduce((sum, item) => sum + item.value, 0),
+    items,
+  };
+}
+
+/**
+ * Walk the whole collection one page at a time (same order as listProducts), e.g. for exports.
+ * Each iteration yields a page of at most `pageSize` products.
+ */
+export async function* iterateProducts(
+  pageSize: number = 200,
+  collectionName: string = DEFAULT_COLLECTION
+): AsyncGenerator<Product[]> {
+  let cursor: string | undefined;
+  do {
+    const page = await listProducts({ limit: pageSize, cursor }, collectionName);
+    if (page.items.length > 0) yield page.items;
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+/**
+ * Local search index per collection (see src/lib/searchIndex.ts). It is built from the collection
+ * on first use and rebuilt once older than SEARCH_INDEX_MAX_AGE_SECONDS (default 300), so writes
+ * made by other server instances show up; writes made through this module are applied to it as
+ * soon as they commit.
+ */
+const searchIndexes = new Map<string, { index: ProductSearchIndex; repository: ProductRepository; builtAt: number }>();
+
+function searchIndexMaxAgeMs(): number {
+  const seconds = Number(process.env.SEARCH_INDEX_MAX_AGE_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 300) * 1000;
+}
+
+/**
+ * The collection's search index, (re)built when missing, stale or built for another repository.
+ */
+async function loadSearchIndex(collectionName: string): Promise<ProductSearchIndex> {
+  const repository = getRepository();
+  const loaded = searchIndexes.get(collectionName);
+  if (loaded && loaded.repository === repository && Date.now() - loaded.builtAt < searchIndexMaxAgeMs()) return loaded.index;
+
+  const builtAt = Date.now();
+  const index = new ProductSearchIndex();
+  const snaps = await repository.collection(collectionName).get();
+  snaps.forEach((s) => index.upsert({ id: s.id, ...(s.data() as Product) }));
+  searchIndexes.set(collectionName, { index, repository, builtAt });
+  return index;
+}
+
+/**
+ * Apply committed writes to the collection's search index, if it is loaded.
+ */
+function indexProducts(collectionName: string, products: Product[]) {
+  const loaded = searchIndexes.get(collectionName);
+  if (loaded?.repository !== getRepository()) return;
+  for (const product of products) loaded.index.upsert(product);
+}
+
+function unindexProducts(collectionName: string, ids: string[]) {
+  const loaded = searchIndexes.get(collectionName);
+  if (loaded?.repository !== getRepository()) return;
+  for (const id of ids) loaded.index.remove(id);
+}
+
+/**
+ * Options for searching products.
+ * - q: search text (every term must match); without it every product matches
+ * - categoryId: only products in this category or a category below it
+ * - tag: only products with this tag
+ * - stock: only products with this stock status (see hasStockStatus)
+ * - limit / cursor: page size (default 20) and the cursor returned as `nextCursor`
+ */
+export interface SearchProductsOptions {
+  q?: string;
+  categoryId?: string;
+  tag?: string;
+  stock?: ProductStockStatus;
+  limit?: number;
+  cursor?: string;
+}
+
+/**
+ * Stock status of a product (parents use the totals of their variants):
+ *  - in_stock: some stock on hand
+ *  - low_stock: some stock on hand, but below the product's low_stock_threshold (never a parent)
+ *  - out_of_stock: nothing on hand
+ */
+function hasStockStatus(product: Product, status: ProductStockStatus): boolean {
+  const stock = product.stock_quantity ?? 0;
+  if (status === 'out_of_stock') return stock === 0;
+  if (status === 'in_stock') return stock > 0;
+  return stock > 0 && !hasVariants(product) && typeof product.low_stock_threshold === 'number' && stock < product.low_stock_threshold;
+}
+
+/**
+ * Full-text search over name, SKU, tags and description, ranked by relevance: each query term
+ * must match a term of the product exactly, as a prefix or with a typo (see src/lib/searchIndex.ts).
+ * Throws 404 if `categoryId` does not exist.
+ * Returns { items, total, nextCursor }; nextCursor is null on the last page.
+ */
+export async function searchProducts(
+  options: SearchProductsOptions = {},
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<{ items: Product[]; total: number; nextCursor: string | null }> {
+  const limit = options.limit ?? 20;
+  let offset = 0;
+  if (options.cursor) {
+    // Search cursors carry the offset into the ranked results
+    const { v, s: cursorSort } = decodeCursor(options.cursor);
+    if (cursorSort !== 'search' || typeof v !== 'number' || !Number.isInteger(v) || v < 0) {
+      throw new HttpError(400, 'INVALID_CURSOR', 'Cursor does not match the requested sort');
+    }
+    offset = v;
+  }
+
+  const categories = options.categoryId ? new Set(await categorySubtree(options.categoryId)) : null;
+  const tag = options.tag?.trim().toLowerCase();
+  const index = await loadSearchIndex(collectionName);
+  const matches = index.search(
+    options.q ?? '',
+    (entry) => (!categories || (entry.categoryId !== null && categories.has(entry.categoryId))) && (!tag || entry.tags.includes(tag))
+  );
+
+  // The index has no stock figures: read the matches (products deleted by another server
+  // instance since the index was built are dropped)
+  const read = async (ids: string[]) => {
+    const snaps = ids.length > 0 ? await getRepository().getAll(...ids.map((id) => docRef(collectionName, id))) : [];
+    const products = snaps
+      .filter((snap) => snap.exists && !(snap.data() as Product).deletedAt)
+      .map((snap) => withAvailability({ id: snap.id, ...(snap.data() as Product) }));
+    return withVariantTotals(products, collectionName);
+  };
+
+  let items: Product[];
+  let total: number;
+  const stock = options.stock;
+  if (stock) {
+    // Filtering on stock needs every match, read in batches
+    const filtered: Product[] = [];
+    for (let i = 0; i < matches.length; i += 100) {
+      const batch = await read(matches.slice(i, i + 100).map((m) => m.id));
+      filtered.push(...batch.filter((product) => hasStockStatus(product, stock)));
+    }
+    total = filtered.length;
+    items = filtered.slice(offset, offset + limit);
+  } else {
+    total = matches.length;
+    items = await read(matches.slice(offset, offset + limit).map((m) => m.id));
+  }
+
+  const next = offset + limit;
+  const last = items[items.length - 1];
+  return { items, total, nextCursor: next < total && last ? encodeCursor({ v: next, id: last.id as string, s: 'search' }) : null };
+}
+
+/**
+ * Most rows a single import may contain.
+ */
+export const MAX_IMPORT_ROWS = 10_000;
+
+/**
+ * Imports are written in chunks, each in its own transaction. A chunk is closed before its
+ * estimated writes exceed this budget (Firestore allows 500 writes per transaction).
+ */
+const IMPORT_WRITE_BUDGET = 450;
+
+/**
+ * Options for a catalog import.
+ * - dryRun: validate and report without writing anything
+ * - upsert: a row whose SKU already exists updates that product instead of failing
+ */
+export interface ImportOptions {
+  dryRun?: boolean;
+  upsert?: boolean;
+}
+
+export interface ImportRowError {
+  row: number;                // 1-based position of the row in the import (header excluded)
+  sku?: string;
+  error: string;
+}
+
+export interface ImportReport {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  updated: number;
+  failed: number;
+  errors: ImportRowError[];
+}
+
+type ImportInput = z.infer<typeof productCreateSchema>;
+
+interface PendingImportRow {
+  row: number;
+  input: ImportInput & { barcodes: string[] };
+}
+
+interface ImportChunkOutcome {
+  created: number;
+  updated: number;
+  errors: ImportRowError[];
+  alerts: StockAlert[];
+  written: Product[]; // created / updated products, for the search index
+  events: PendingProductEvent[];
+}
+
+/**
+ * Upper bound of the writes one row can cause: product, movement, alert, SKU release + claim,
+ * and a release + claim per barcode.
+ */
+function importRowWrites(row: PendingImportRow) {
+  return 5 + 2 * row.input.barcodes.length;
+}
+
+/**
+ * Write one chunk of validated import rows inside a transaction.
+ * Rows that conflict with stored data are reported and skipped; the others are written
+ * (unless dryRun) the same way createProduct / updateProduct would write them.
+ */
+async function importChunk(
+  tx: Transaction,
+  chunk: PendingImportRow[],
+  options: ImportOptions,
+  meta: StockMovementMeta,
+  collectionName: string
+): Promise<ImportChunkOutcome> {
+  const outcome: ImportChunkOutcome = { created: 0, updated: 0, errors: [], alerts: [], written: [], events: [] };
+
+  // Reads first: identifier owners, the products an upsert would update and the categories
+  const skuRows = chunk.filter((r) => r.input.sku);
+  const skuSnaps = skuRows.length > 0 ? await tx.getAll(...skuRows.map((r) => skuRef(r.input.sku as string))) : [];
+  const skuOwner = new Map<number, string>();
+  skuSnaps.forEach((snap, i) => {
+    if (snap.exists) skuOwner.set(skuRows[i].row, (snap.data() as ProductIdentifierEntry).productId);
+  });
+  const codes = chunk.flatMap((r) => r.input.barcodes);
+  const barcodeSnaps = codes.length > 0 ? await tx.getAll(...codes.map(barcodeRef)) : [];
+  const barcodeOwner = new Map<string, string>();
+  barcodeSnaps.forEach((snap, i) => {
+    if (snap.exists) barcodeOwner.set(codes[i], (snap.data() as ProductIdentifierEntry).productId);
+  });
+  const targetIds = options.upsert ? [...new Set(skuOwner.values())] : [];
+  const targetSnaps = targetIds.length > 0 ? await tx.getAll(...targetIds.map((id) => docRef(collectionName, id))) : [];
+  const targets = new Map<string, Product>();
+  targetSnaps.forEach((snap, i) => {
+    if (snap.exists) targets.set(targetIds[i], snap.data() as Product);
+  });
+  const categoryIds = [...new Set(chunk.map((r) => r.input.categoryId).filter((id): id is string => !!id))];
+  const categorySnaps =
+    categoryIds.length > 0 ? await tx.getAll(...categoryIds.map((id) => getRepository().collection(CATEGORIES_COLLECTION).doc(id))) : [];
+  const missingCategories = new Set(categoryIds.filter((_, i) => !categorySnaps[i].exists));
+
+  const now = new Date().toISOString();
+  for (const { row, input } of chunk) {
+    const fail = (error: string) => outcome.errors.push({ row, ...(input.sku ? { sku: input.sku } : {}), error });
+    const existingId = skuOwner.get(row);
+    if (existingId && !options.upsert) {
+      fail(`SKU ${input.sku} is already in use`);
+      continue;
+    }
+    const taken = input.barcodes.find((code) => barcodeOwner.has(code) && barcodeOwner.get(code) !== existingId);
+    if (taken) {
+      fail(`Barcode ${taken} is already in use`);
+      continue;
+    }
+    if (input.categoryId && missingCategories.has(input.categoryId)) {
+      fail(`Category ${input.categoryId} not found`);
+      continue;
+    }
+    // A stock_quantity in a named unit converts with the row's units, or the stored ones on an upsert
+    const target = existingId ? targets.get(existingId) : undefined;
+    let stock: number;
+    try {
+      const units = { base_unit: input.base_unit ?? target?.base_unit, units: input.units ?? target?.units };
+      assertValidUnits(units);
+      stock = toBaseQuantity(units, input.stock_quantity);
+    } catch (err) {
+      fail((err as Error).message);
+      continue;
+    }
+
+    if (!existingId) {
+      if (!options.dryRun) {
+        const ref = getRepository().collection(collectionName).doc();
+        const product = newProductDocument(ref.id, { ...input, stock_quantity: stock }, input.sku, input.barcodes, now);
+        tx.create(ref, product);
+        claimIdentifiers(tx, ref.id, input.sku, input.barcodes, now);
+        recordMovement(tx, ref.id, 0, product.stock_quantity, 'initial', meta, undefined, [], openingMovementCost(product));
+        outcome.written.push(product);
+        outcome.events.push(productEvent('product.created', ref.id, null, product, now));
+      }
+      outcome.created += 1;
+      continue;
+    }
+
+    const current = targets.get(existingId);
+    if (!current) {
+      fail('Product not found');
+      continue;
+    }
+    if (current.deletedAt) {
+      fail(`SKU ${input.sku} belongs to a product in the trash; restore it first`);
+      continue;
+    }
+    if (stock < (current.allocated_quantity ?? 0)) {
+      fail('stock_quantity cannot be below the stock assigned to locations');
+      continue;
+    }
+    // Holds are not swept here (that would add writes outside the chunk's budget), so a lapsed
+    // hold still counts until a stock operation expires it
+    const held = current.reserved_quantity ?? 0;
+    if (stock < (current.stock_quantity ?? 0) && stock - expiredQuantity(current.lots) < held) {
+      fail('Stock would fall below the stock held by reservations');
+      continue;
+    }
+    try {
+      assertTracksOwnStock(current);
+      if (input.base_unit !== undefined) assertBaseUnitChangeAllowed(current, input.base_unit);
+      assertValidReorderSettings({
+        reorder_point: input.reorder_point ?? current.reorder_point,
+        max_stock_level: input.max_stock_level ?? current.max_stock_level,
+      });
+    } catch (err) {
+      fail((err as Error).message);
+      continue;
+    }
+
+    if (!options.dryRun) {
+      // Only the columns present in the row are changed; barcodes replace the stored list when given
+      const columns = Object.entries(input).filter(([k, v]) => v !== undefined && k !== 'barcodes' && k !== 'unit_cost');
+      const updates: Partial<Product> = Object.fromEntries(columns);
+      const oldBarcodes = current.barcodes ?? [];
+      const newBarcodes = input.barcodes.length > 0 ? input.barcodes : oldBarcodes;
+      if (input.barcodes.length > 0) updates.barcodes = newBarcodes;
+      updates.stock_quantity = stock;
+      const before = current.stock_quantity ?? 0;
+      const lots = lotsAfterDecrease(current.lots, before, before - stock);
+      const switched = input.costing_method ? switchCostingMethod(current, before, input.costing_method, now) : null;
+      const cost = costAfterChange(switched ?? current, before, stock - before, now, input.unit_cost);
+      Object.assign(updates, lots.fields, switched ?? {}, switched || stock !== before ? cost.fields : {});
+      updates.version = (current.version ?? 0) + 1;
+      updates.updatedAt = now;
+
+      const ref = docRef(collectionName, existingId);
+      tx.update(ref, updates);
+      releaseIdentifiers(tx, undefined, oldBarcodes.filter((code) => !newBarcodes.includes(code)));
+      claimIdentifiers(tx, existingId, undefined, newBarcodes.filter((code) => !oldBarcodes.includes(code)), now);
+      recordMovement(tx, existingId, before, stock, 'adjustment', meta, undefined, lots.consumed, cost.movement);
+      const alert = recordStockAlert(
+        tx,
+        existingId,
+        current,
+        stock,
+        input.low_stock_threshold ?? current.low_stock_threshold ?? null
+      );
+      if (alert) outcome.alerts.push(alert);
+      outcome.written.push({ ...current, ...updates, id: existingId });
+      outcome.events.push(productEvent('product.updated', existingId, current, { ...current, ...updates, id: existingId }, now));
+    }
+    outcome.updated += 1;
+  }
+  return outcome;
+}
+
+/**
+ * Import many products at once (catalog onboarding).
+ * - every row is validated against productCreateSchema; invalid rows are reported, not imported
+ * - SKUs and barcodes must be unique within the import and against stored products
+ * - with `upsert`, a row whose SKU exists updates that product: the columns present in the row
+ *   are overwritten and a changed stock_quantity is recorded as an `adjustment` movement
+ *   (`unit_cost` values the units it adds, as in updateProduct)
+ * - rows are written in chunks of one transaction each (see IMPORT_WRITE_BUDGET), so a large
+ *   import is not written one document at a time; a failing row never blocks the others
+ * - with `dryRun`, nothing is written and the report shows what would happen
+ * Returns a report with counts and one error per rejected row.
+ */
+export async function importProducts(
+  rows: unknown[],
+  options: ImportOptions = {},
+  meta: StockMovementMeta = {},
+  collectionName: string = DEFAULT_COLLECTION
+): Promise<ImportReport> {
+  if (!Array.isArray(rows) || rows.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'The import contains no rows');
+  if (rows.length > MAX_IMPORT_ROWS) throw new HttpError(400, 'VALIDATION_FAILED', `At most ${MAX_IMPORT_ROWS} rows can be imported at once`);
+
+  const errors: ImportRowError[] = [];
+  const pending: PendingImportRow[] = [];
+  const skuRows = new Map<string, number>();
+  const barcodeRows = new Map<string, number>();
+  rows.forEach((raw, index) => {
+    const row = index + 1;
+    const rawSku = raw && typeof raw === 'object' ? (raw as { sku?: unknown }).sku : undefined;
+    const fail = (error: string) => errors.push({ row, ...(typeof rawSku === 'string' ? { sku: rawSku } : {}), error });
+
+    const parsed = productCreateSchema.safeParse(raw);
+    if (!parsed.success) {
+      fail(parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; '));
+      return;
+    }
+    const input = {
+      ...parsed.data,
+      barcodes: normalizeBarcodes(parsed.data.barcodes),
+      ...(parsed.data.tags !== undefined ? { tags: normalizeTags(parsed.data.tags) } : {}),
+    };
+    try {
+      assertValidReorderSettings(input);
+    } catch (err) {
+      fail((err as Error).message);
+      return;
+    }
+    const skuClash = input.sku ? skuRows.get(skuKey(input.sku)) : undefined;
+    if (skuClash) {
+      fail(`SKU ${input.sku} appears more than once in the import (first in row ${skuClash})`);
+      return;
+    }
+    const barcodeClash = input.barcodes.find((code) => barcodeRows.has(code));
+    if (barcodeClash) {
+      fail(`Barcode ${barcodeClash} appears more than once in the import (first in row ${barcodeRows.get(barcodeClash)})`);
+      return;
+    }
+    if (input.sku) skuRows.set(skuKey(input.sku), row);
+    for (const code of input.barcodes) barcodeRows.set(code, row);
+    pending.push({ row, input });
+  });
+
+  // Group rows into chunks that stay within the write budget
+  const chunks: PendingImportRow[][] = [];
+  let writes = IMPORT_WRITE_BUDGET;
+  for (const row of pending) {
+    if (writes + importRowWrites(row) > IMPORT_WRITE_BUDGET) {
+      chunks.push([]);
+      writes = 0;
+    }
+    chunks[chunks.length - 1].push(row);
+    writes += importRowWrites(row);
+  }
+
+  let created = 0;
+  let updated = 0;
+  const alerts: StockAlert[] = [];
+  for (const chunk of chunks) {
+    const outcome = await getRepository().runTransaction((tx) => importChunk(tx, chunk, options, meta, collectionName));
+    created += outcome.created;
+    updated += outcome.updated;
+    errors.push(...outcome.errors);
+    alerts.push(...outcome.alerts);
+    indexProducts(collectionName, outcome.written);
+    publishProductEvents(outcome.events);
+  }
+  dispatchAlerts(alerts);
+
+  errors.sort((a, b) => a.row - b.row);
+  return { dryRun: !!options.dryRun, total: rows.length, created, updated, failed: errors.length, errors };
+}
@@ -0,0 +1,363 @@
+// src/services/reorderService.ts
+// Reorder suggestions and purchase orders on top of the storage repository (src/repositories).
+//
+// A product needs reordering when its inventory position (available stock + stock on order)
+// is at or below its reorder point. Suggestions are computed on request from the product's
+// reorder settings and its recent consumption; they can be turned into draft purchase orders
+// (one per supplier), and receiving a purchase order books every line through increaseStock.
+
+import { getRepository, Query } from '../repositories';
+import { Product } from '../models/product';
+import { StockMovement, MovementReason } from '../models/stockMovement';
+import { PurchaseOrder, PurchaseOrderLine, PurchaseOrderStatus, ReorderSuggestion } from '../models/purchaseOrder';
+import { HttpError } from '../utils/httpErrors';
+import { MOVEMENTS_COLLECTION } from './stockMovementService';
+import { increaseStock } from './productService';
+
+/**
+ * Collection that holds purchase orders.
+ */
+export const PURCHASE_ORDERS_COLLECTION = 'purchase_orders';
+
+const PRODUCTS_COLLECTION = 'products';
+
+/**
+ * Consumption is averaged over this many days unless the caller asks for another window.
+ */
+export const DEFAULT_CONSUMPTION_DAYS = 30;
+
+/**
+ * Outgoing movements that count as consumption (corrections and transfers do not).
+ */
+const CONSUMPTION_REASONS: MovementReason[] = ['sale', 'damage'];
+
+/**
+ * Purchase orders in these states count as stock on order.
+ */
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'ordered'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function purchaseOrderRef(id: string) {
+  return getRepository().collection(PURCHASE_ORDERS_COLLECTION).doc(id);
+}
+
+/**
+ * Units consumed per product since `since` (sum of outgoing sale / damage movements).
+ */
+async function consumptionSince(since: Date): Promise<Map<string, number>> {
+  const snaps = await getRepository()
+    .collection(MOVEMENTS_COLLECTION)
+    .where('createdAt', '>=', since.toISOString())
+    .get();
+  const consumed = new Map<string, number>();
+  for (const s of snaps.docs) {
+    const movement = s.data() as StockMovement;
+    if (movement.delta >= 0 || !CONSUMPTION_REASONS.includes(movement.reason)) continue;
+    consumed.set(movement.productId, (consumed.get(movement.productId) ?? 0) - movement.delta);
+  }
+  return consumed;
+}
+
+/**
+ * Units on open (draft or ordered) purchase orders, per product.
+ */
+async function quantitiesOnOrder(): Promise<Map<string, number>> {
+  const snaps = await getRepository().collection(PURCHASE_ORDERS_COLLECTION).where('status', 'in', OPEN_STATUSES).get();
+  const onOrder = new Map<string, number>();
+  for (const s of snaps.docs) {
+    for (const line of (s.data() as PurchaseOrder).lines) {
+      onOrder.set(line.productId, (onOrder.get(line.productId) ?? 0) + line.quantity);
+    }
+  }
+  return onOrder;
+}
+
+/**
+ * Products with a reorder point or, failing that, a low-stock threshold (products in the trash
+ * and parents, whose stock is tracked per variant, excluded).
+ */
+async function reorderCandidates(): Promise<Product[]> {
+  const products = getRepository().collection(PRODUCTS_COLLECTION);
+  const [withReorderPoint, withThreshold] = await Promise.all([
+    products.where('reorder_point', '!=', null).get(),
+    products.where('low_stock_threshold', '!=', null).get(),
+  ]);
+  const byId = new Map<string, Product>();
+  for (const s of [...withReorderPoint.docs, ...withThreshold.docs]) {
+    const product = s.data() as Product;
+    if (!product.deletedAt && !((product.variant_count ?? 0) > 0)) byId.set(s.id, { ...product, id: s.id });
+  }
+  return [...byId.values()];
+}
+
+/**
+ * Work out the order for one product, or null when it does not need one.
+ *
+ * - the reorder point is `reorder_point` (falling back to `low_stock_threshold`), raised to the
+ *   demand expected during the lead time when that is higher
+ * - with `max_stock_level` the order tops the inventory position up to that level
+ * - with `reorder_quantity` the order is the smallest multiple that lifts the position above
+ *   the reorder point
+ * - otherwise the order lifts the position above the reorder point and covers one more lead time
+ */
+function suggestionFor(product: Product, consumed: number, onOrder: number, days: number): ReorderSuggestion | null {
+  const basePoint = product.reorder_point ?? product.low_stock_threshold;
+  if (typeof basePoint !== 'number') return null;
+
+  const stock = product.stock_quantity ?? 0;
+  const available = Math.max(0, stock - (product.reserved_quantity ?? 0));
+  const position = available + onOrder;
+  const leadTime = product.lead_time_days ?? 0;
+  const daily = consumed / days;
+  const leadTimeDemand = Math.ceil(daily * leadTime);
+  const reorderPoint = Math.max(basePoint, leadTimeDemand);
+  if (position > reorderPoint) return null;
+
+  let quantity: number;
+  if (product.max_stock_level !== undefined && product.max_stock_level > reorderPoint) {
+    quantity = product.max_stock_level - position;
+  } else if (product.reorder_quantity !== undefined) {
+    quantity = product.reorder_quantity * Math.ceil((reorderPoint + 1 - position) / product.reorder_quantity);
+  } else {
+    quantity = reorderPoint - position + Math.max(leadTimeDemand, 1);
+  }
+
+  return {
+    productId: product.id as string,
+    name: product.name,
+    ...(product.sku ? { sku: product.sku } : {}),
+    preferred_supplier: product.preferred_supplier ?? null,
+    stock_quantity: stock,
+    available_quantity: available,
+    on_order: onOrder,
+    reorder_point: reorderPoint,
+    lead_time_days: leadTime,
+    daily_consumption: Math.round(daily * 100) / 100,
+    lead_time_demand: leadTimeDemand,
+    suggested_quantity: quantity,
+  };
+}
+
+/**
+ * Options for computing reorder suggestions.
+ * - supplier: only products with this preferred supplier
+ * - days: consumption window in days (default 30)
+ */
+export interface ReorderSuggestionOptions {
+  supplier?: string;
+  days?: number;
+}
+
+/**
+ * List what to order now, grouped by supplier (products without one last) and then by name.
+ * `now` is the end of the consumption window (defaults to the current time).
+ */
+export async function listReorderSuggestions(
+  options: ReorderSuggestionOptions = {},
+  now: Date = new Date()
+): Promise<ReorderSuggestion[]> {
+  const days = options.days ?? DEFAULT_CONSUMPTION_DAYS;
+  const [products, consumed, onOrder] = await Promise.all([
+    reorderCandidates(),
+    consumptionSince(new Date(now.getTime() - days * DAY_MS)),
+    quantitiesOnOrder(),
+  ]);
+
+  const items: ReorderSuggestion[] = [];
+  for (const product of products) {
+    if (options.supplier !== undefined && product.preferred_supplier !== options.supplier) continue;
+    const id = product.id as string;
+    const suggestion = suggestionFor(product, consumed.get(id) ?? 0, onOrder.get(id) ?? 0, days);
+    if (suggestion) items.push(suggestion);
+  }
+  return items.sort(
+    (a, b) =>
+      Number(a.preferred_supplier === null) - Number(b.preferred_supplier === null) ||
+      (a.preferred_supplier ?? '').localeCompare(b.preferred_supplier ?? '') ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Turn the current suggestions into draft purchase orders, one per supplier.
+ * - productIds: only draft these products (default: every suggestion)
+ * - supplier: only products with this preferred supplier
+ * - reference: stored on every draft
+ * Drafts count as stock on order, so the same products are not suggested again.
+ * Returns the drafts created (empty when there is nothing to order).
+ */
+export async function draftPurchaseOrders(
+  payload: { productIds?: string[]; supplier?: string; reference?: string } = {},
+  meta: { actor?: string } = {}
+): Promise<PurchaseOrder[]> {
+  let suggestions = await listReorderSuggestions({ supplier: payload.supplier });
+  if (payload.productIds) {
+    const wanted = new Set(payload.productIds);
+    suggestions = suggestions.filter((s) => wanted.has(s.productId));
+  }
+
+  const bySupplier = new Map<string | null, PurchaseOrderLine[]>();
+  for (const s of suggestions) {
+    const lines = bySupplier.get(s.preferred_supplier) ?? [];
+    lines.push({ productId: s.productId, name: s.name, ...(s.sku ? { sku: s.sku } : {}), quantity: s.suggested_quantity });
+    bySupplier.set(s.preferred_supplier, lines);
+  }
+
+  const now = new Date().toISOString();
+  const batch = getRepository().batch();
+  const drafts: PurchaseOrder[] = [];
+  for (const [supplier, lines] of bySupplier) {
+    const ref = getRepository().collection(PURCHASE_ORDERS_COLLECTION).doc();
+    const order: PurchaseOrder = {
+      id: ref.id,
+      supplier,
+      status: 'draft',
+      lines,
+      ...(payload.reference ? { reference: payload.reference } : {}),
+      ...(meta.actor ? { actor: meta.actor } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+    batch.create(ref, order);
+    drafts.push(order);
+  }
+  if (drafts.length > 0) await batch.commit();
+  return drafts;
+}
+
+/**
+ * Get a purchase order by ID. Throws 404 if not found.
+ */
+export async function getPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  const snap = await purchaseOrderRef(id).get();
+  if (!snap.exists) throw new HttpError(404, 'PURCHASE_ORDER_NOT_FOUND', 'Purchase order not found');
+  return snap.data() as PurchaseOrder;
+}
+
+/**
+ * List purchase orders, newest first (optionally filtered by status).
+ *
+ * Note: the status filter needs a composite index on (status ASC, createdAt DESC).
+ */
+export async function listPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+  let q: Query = getRepository().collection(PURCHASE_ORDERS_COLLECTION);
+  if (status) q = q.where('status', '==', status);
+  const snaps = await q.orderBy('createdAt', 'desc').get();
+  return snaps.docs.map((s) => s.data() as PurchaseOrder);
+}
+
+/**
+ * Edit a draft purchase order.
+ * - lines: replaces every line (`{ productId, quantity, unit_cost? }`, one line per product)
+ * - supplier / reference: replace the stored values
+ * Throws 404 if the order or a product does not exist, 409 unless the order is a draft.
+ */
+export async function updatePurchaseOrder(
+  id: string,
+  updates: { lines?: { productId: string; quantity: number; unit_cost?: number }[]; supplier?: string; reference?: string }
+): Promise<PurchaseOrder> {
+  if (updates.lines) {
+    if (updates.lines.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'lines must not be empty');
+    if (new Set(updates.lines.map((l) => l.productId)).size !== updates.lines.length) {
+      throw new HttpError(400, 'VALIDATION_FAILED', 'lines must not contain the same product twice');
+    }
+  }
+
+  const ref = purchaseOrderRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'PURCHASE_ORDER_NOT_FOUND', 'Purchase order not found');
+    const order = snap.data() as PurchaseOrder;
+    if (order.status !== 'draft') throw new HttpError(409, 'PURCHASE_ORDER_STATE_CONFLICT', `Purchase order is already ${order.status}`);
+
+    const payload: Partial<PurchaseOrder> = { updatedAt: new Date().toISOString() };
+    if (updates.lines) {
+      const products = await tx.getAll(
+        ...updates.lines.map((l) => getRepository().collection(PRODUCTS_COLLECTION).doc(l.productId))
+      );
+      payload.lines = updates.lines.map((line, i) => {
+        const product = products[i].exists ? (products[i].data() as Product) : null;
+        if (!product || product.deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', `Product ${line.productId} not found`);
+        return {
+          productId: line.productId,
+          name: product.name,
+          ...(product.sku ? { sku: product.sku } : {}),
+          quantity: line.quantity,
+          ...(line.unit_cost !== undefined ? { unit_cost: line.unit_cost } : {}),
+        };
+      });
+    }
+    if (updates.supplier !== undefined) payload.supplier = updates.supplier;
+    if (updates.reference !== undefined) payload.reference = updates.reference;
+
+    tx.update(ref, payload);
+    return { ...order, ...payload };
+  });
+}
+
+/**
+ * Move a purchase order from one of `from` to `to` in a transaction.
+ * Throws 404 if not found, 409 if it is in another state.
+ */
+async function transition(
+  id: string,
+  from: PurchaseOrderStatus[],
+  to: PurchaseOrderStatus,
+  extra: Partial<PurchaseOrder> = {}
+): Promise<PurchaseOrder> {
+  const ref = purchaseOrderRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'PURCHASE_ORDER_NOT_FOUND', 'Purchase order not found');
+    const order = snap.data() as PurchaseOrder;
+    if (!from.includes(order.status)) throw new HttpError(409, 'PURCHASE_ORDER_STATE_CONFLICT', `Purchase order is already ${order.status}`);
+    const payload: Partial<PurchaseOrder> = { status: to, updatedAt: new Date().toISOString(), ...extra };
+    tx.update(ref, payload);
+    return { ...order, ...payload };
+  });
+}
+
+/**
+ * Mark a draft as sent to the supplier.
+ */
+export async function markPurchaseOrderOrdered(id: string): Promise<PurchaseOrder> {
+  return transition(id, ['draft'], 'ordered', { orderedAt: new Date().toISOString() });
+}
+
+/**
+ * Cancel a draft or ordered purchase order (its quantities are no longer on order).
+ */
+export async function cancelPurchaseOrder(id: string): Promise<PurchaseOrder> {
+  return transition(id, OPEN_STATUSES, 'cancelled');
+}
+
+/**
+ * Receive a draft or ordered purchase order: every line is booked with increaseStock
+ * (reason `receipt`, reference defaulting to the order's reference or "PO <id>", valued at the
+ * line's unit_cost when it has one), then the order is marked received.
+ *
+ * Lines are booked one by one, each under its own idempotency key, so if receiving stops
+ * half-way (e.g. a product was deleted) a retry books only the lines that are still missing.
+ * Throws 404 if not found, 409 if the order is already received or cancelled.
+ */
+export async function receivePurchaseOrder(
+  id: string,
+  meta: { reference?: string; actor?: string } = {}
+): Promise<PurchaseOrder> {
+  const order = await getPurchaseOrder(id);
+  if (!OPEN_STATUSES.includes(order.status)) throw new HttpError(409, 'PURCHASE_ORDER_STATE_CONFLICT', `Purchase order is already ${order.status}`);
+
+  const reference = meta.reference ?? order.reference ?? `PO ${id}`;
+  for (const [index, line] of order.lines.entries()) {
+    await increaseStock(
+      line.productId,
+      line.quantity,
+      { reason: 'receipt', reference, ...(meta.actor ? { actor: meta.actor } : {}) },
+      { scope: `purchase-orders:receive:${id}`, key: String(index), fingerprint: `${line.productId}:${line.quantity}` },
+      undefined,
+      line.unit_cost
+    );
+  }
+  return transition(id, OPEN_STATUSES, 'received', { receivedAt: new Date().toISOString() });
+}
@@ -0,0 +1,318 @@
+// src/services/reservationService.ts
+// Stock reservations (holds with expiry) on top of the storage repository (src/repositories).
+// An active reservation is counted in its product's `reserved_quantity`, which lowers the
+// available quantity without touching `stock_quantity`. Committing turns the hold into a real
+// decrease (with a movement); releasing or expiring gives the quantity back.
+
+import { getRepository, Query, Transaction } from '../repositories';
+import { Product } from '../models/product';
+import { Reservation, ReservationStatus } from '../models/reservation';
+import { LocationStock } from '../models/location';
+import { IdempotencyContext } from '../models/idempotencyRecord';
+import { StockAlert } from '../models/stockAlert';
+import { PendingProductEvent } from '../models/productEvent';
+import { HttpError } from '../utils/httpErrors';
+import { trackStockOperation } from '../lib/metrics';
+import { expiredQuantity, lotsForDecrease } from '../lib/lots';
+import { costAfterChange } from '../lib/costing';
+import { publishProductEvents, stockChangedEvent } from '../lib/productEvents';
+import { recordMovement } from './stockMovementService';
+import { runIdempotent } from './idempotencyService';
+import { recordStockAlert } from './alertService';
+import { dispatchAlerts } from './webhookService';
+
+/**
+ * Collection that holds reservation documents.
+ */
+export const RESERVATIONS_COLLECTION = 'reservations';
+
+const PRODUCTS_COLLECTION = 'products';
+const LOCATION_STOCK_COLLECTION = 'product_locations';
+
+/**
+ * Hold duration when the caller does not specify one, and the longest allowed.
+ */
+export const DEFAULT_TTL_SECONDS = 15 * 60;
+export const MAX_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Maximum number of expired holds handled per sweep call.
+ */
+const SWEEP_BATCH_SIZE = 200;
+
+function reservationRef(id: string) {
+  return getRepository().collection(RESERVATIONS_COLLECTION).doc(id);
+}
+
+function productRef(id: string) {
+  return getRepository().collection(PRODUCTS_COLLECTION).doc(id);
+}
+
+/**
+ * Read (inside a transaction) the active holds on a product whose expiry has passed.
+ * Must be called before any write in the transaction; pass the result to `expireHolds`.
+ */
+export async function findExpiredHolds(
+  tx: Transaction,
+  productId: string,
+  now: string = new Date().toISOString()
+): Promise<Reservation[]> {
+  const q = getRepository()
+    .collection(RESERVATIONS_COLLECTION)
+    .where('productId', '==', productId)
+    .where('status', '==', 'active')
+    .where('expiresAt', '<=', now);
+  const snaps = await tx.get(q);
+  return snaps.docs.map((s) => s.data() as Reservation);
+}
+
+/**
+ * Mark holds returned by `findExpiredHolds` as expired (inside the same transaction).
+ * Returns the total quantity released; the caller subtracts it from reserved_quantity.
+ */
+export function expireHolds(tx: Transaction, holds: Reservation[], now: string = new Date().toISOString()) {
+  let released = 0;
+  for (const hold of holds) {
+    tx.update(reservationRef(hold.id), { status: 'expired', updatedAt: now });
+    released += hold.quantity;
+  }
+  return released;
+}
+
+/**
+ * Hold `quantity` units of a product for `ttlSeconds`.
+ * Expired holds on the product are swept first, then the hold must fit in the available quantity
+ * (stock_quantity - reserved_quantity, less units in expired lots), otherwise 409 is thrown.
+ * Returns the created reservation.
+ */
+export async function createReservation(
+  productId: string,
+  quantity: number,
+  ttlSeconds: number = DEFAULT_TTL_SECONDS,
+  meta: { reference?: string; actor?: string } = {},
+  idempotency?: IdempotencyContext
+): Promise<Reservation> {
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new HttpError(400, 'VALIDATION_FAILED', 'quantity must be an integer > 0');
+  if (!Number.isInteger(ttlSeconds) || ttlSeconds <= 0 || ttlSeconds > MAX_TTL_SECONDS) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `ttlSeconds must be an integer between 1 and ${MAX_TTL_SECONDS}`);
+  }
+
+  return trackStockOperation('reserve', () => runIdempotent(idempotency, async (tx) => {
+    const pRef = productRef(productId);
+    const snap = await tx.get(pRef);
+    if (!snap.exists || (snap.data() as Product).deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+    const nowDate = new Date();
+    const now = nowDate.toISOString();
+    const expired = await findExpiredHolds(tx, productId, now);
+
+    const product = snap.data() as Product;
+    if ((product.variant_count ?? 0) > 0) {
+      throw new HttpError(409, 'STOCK_TRACKED_PER_VARIANT', 'Stock of this product is tracked per variant; reserve a variant');
+    }
+    const reserved = Math.max(0, (product.reserved_quantity ?? 0) - expireHolds(tx, expired, now));
+    const available = (product.stock_quantity ?? 0) - reserved - expiredQuantity(product.lots);
+    if (available < quantity) throw new HttpError(409, 'INSUFFICIENT_STOCK', 'Insufficient available stock');
+
+    const ref = getRepository().collection(RESERVATIONS_COLLECTION).doc();
+    const reservation: Reservation = {
+      id: ref.id,
+      productId,
+      quantity,
+      status: 'active',
+      expiresAt: new Date(nowDate.getTime() + ttlSeconds * 1000).toISOString(),
+      ...(meta.reference ? { reference: meta.reference } : {}),
+      ...(meta.actor ? { actor: meta.actor } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.create(ref, reservation);
+    tx.update(pRef, { reserved_quantity: reserved + quantity, version: (product.version ?? 0) + 1, updatedAt: now });
+    return reservation;
+  }));
+}
+
+/**
+ * Get a reservation by ID. Throws 404 if not found.
+ */
+export async function getReservation(id: string): Promise<Reservation> {
+  const snap = await reservationRef(id).get();
+  if (!snap.exists) throw new HttpError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+  return snap.data() as Reservation;
+}
+
+/**
+ * List reservations of a product, newest first. Optionally filter by status.
+ */
+export async function listReservations(productId: string, status?: ReservationStatus): Promise<Reservation[]> {
+  let q: Query = getRepository().collection(RESERVATIONS_COLLECTION).where('productId', '==', productId);
+  if (status) q = q.where('status', '==', status);
+  const snaps = await q.orderBy('createdAt', 'desc').get();
+  return snaps.docs.map((s) => s.data() as Reservation);
+}
+
+/**
+ * Shared transaction body for commit / release.
+ * Loads the reservation and its product, and expires the hold if it has lapsed.
+ * Throws 409 when the reservation is no longer active.
+ */
+async function loadActive(tx: Transaction, id: string, now: string) {
+  const rRef = reservationRef(id);
+  const rSnap = await tx.get(rRef);
+  if (!rSnap.exists) throw new HttpError(404, 'RESERVATION_NOT_FOUND', 'Reservation not found');
+  const reservation = rSnap.data() as Reservation;
+  if (reservation.status !== 'active') throw new HttpError(409, 'RESERVATION_NOT_ACTIVE', `Reservation is already ${reservation.status}`);
+
+  const pRef = productRef(reservation.productId);
+  const pSnap = await tx.get(pRef);
+  if (!pSnap.exists) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+  const product = pSnap.data() as Product;
+  const reserved = product.reserved_quantity ?? 0;
+
+  return { rRef, pRef, reservation, product, reserved, lapsed: reservation.expiresAt <= now };
+}
+
+/**
+ * Commit a reservation: the held quantity is taken out of stock_quantity and
+ * reserved_quantity, and a movement (default reason `sale`, reference = reservation id)
+ * is recorded in the same transaction.
+ * - `locationId` ships the goods from that location; without it the unallocated stock is used
+ * - the units come out of the product's sellable lots first-expiry-first-out; expired lots are
+ *   never shipped
+ * - dropping below the low-stock threshold raises an alert
+ * Throws 409 if the reservation is not active, has expired, or the sellable stock cannot cover it.
+ */
+export async function commitReservation(
+  id: string,
+  meta: { reference?: string; actor?: string } = {},
+  locationId?: string
+) {
+  const now = new Date().toISOString();
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('commit_reservation', () => getRepository().runTransaction(async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
+    const { rRef, pRef, reservation, product, reserved, lapsed } = await loadActive(tx, id, now);
+    const remainingReserved = Math.max(0, reserved - reservation.quantity);
+    const sRef = locationId
+      ? getRepository().collection(LOCATION_STOCK_COLLECTION).doc(`${reservation.productId}_${locationId}`)
+      : null;
+    const sSnap = sRef ? await tx.get(sRef) : null;
+
+    if (lapsed) {
+      // Persist the expiry even though the commit is refused
+      tx.update(rRef, { status: 'expired', updatedAt: now });
+      tx.update(pRef, { reserved_quantity: remainingReserved, version: (product.version ?? 0) + 1, updatedAt: now });
+      return null;
+    }
+    // Products in the trash keep their holds (they can be released) but cannot ship
+    if (product.deletedAt) throw new HttpError(404, 'PRODUCT_NOT_FOUND', 'Product not found');
+
+    const current = product.stock_quantity ?? 0;
+    const allocated = product.allocated_quantity ?? 0;
+    const atLocation = sSnap?.exists ? (sSnap.data() as LocationStock).stock_quantity ?? 0 : 0;
+    // Units in expired lots cannot be sold, so they cannot back the hold either
+    if (current - expiredQuantity(product.lots) < reservation.quantity) {
+      throw new HttpError(409, 'INSUFFICIENT_STOCK', 'Insufficient sellable stock to commit reservation');
+    }
+    if (sRef && atLocation < reservation.quantity) {
+      throw new HttpError(409, 'INSUFFICIENT_STOCK', 'Insufficient stock at location to commit reservation');
+    }
+    if (!sRef && current - allocated < reservation.quantity) {
+      throw new HttpError(409, 'INSUFFICIENT_UNALLOCATED_STOCK', 'Insufficient unallocated stock to commit reservation; specify a locationId');
+    }
+    const updated = current - reservation.quantity;
+    const lots = lotsForDecrease(product.lots, current, reservation.quantity, 'sale');
+    const cost = costAfterChange(product, current, -reservation.quantity, now);
+
+    tx.update(rRef, { status: 'committed', updatedAt: now });
+    tx.update(pRef, {
+      stock_quantity: updated,
+      reserved_quantity: remainingReserved,
+      ...lots.fields,
+      ...cost.fields,
+      ...(sRef ? { allocated_quantity: allocated - reservation.quantity } : {}),
+      version: (product.version ?? 0) + 1,
+      updatedAt: now,
+    });
+    if (sRef) tx.update(sRef, { stock_quantity: atLocation - reservation.quantity, updatedAt: now });
+    recordMovement(
+      tx,
+      reservation.productId,
+      current,
+      updated,
+      'sale',
+      {
+        reference: meta.reference ?? reservation.reference ?? `reservation:${reservation.id}`,
+        actor: meta.actor ?? reservation.actor,
+      },
+      sRef && locationId
+        ? { locationId, before: atLocation, after: atLocation - reservation.quantity }
+        : undefined,
+      lots.consumed,
+      cost.movement
+    );
+    const alert = recordStockAlert(tx, reservation.productId, product, updated);
+    if (alert) alerts.push(alert);
+    events.push(stockChangedEvent(reservation.productId, product, updated, now));
+    return { ...reservation, status: 'committed' as ReservationStatus, updatedAt: now };
+  }));
+
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  if (!result) throw new HttpError(409, 'RESERVATION_EXPIRED', 'Reservation has expired');
+  return result;
+}
+
+/**
+ * Release a reservation before it expires, giving the quantity back.
+ * Throws 409 if the reservation is not active.
+ */
+export async function releaseReservation(id: string): Promise<Reservation> {
+  const now = new Date().toISOString();
+  return trackStockOperation('release_reservation', () => getRepository().runTransaction(async (tx) => {
+    const { rRef, pRef, reservation, product, reserved, lapsed } = await loadActive(tx, id, now);
+    const status: ReservationStatus = lapsed ? 'expired' : 'released';
+    tx.update(rRef, { status, updatedAt: now });
+    tx.update(pRef, {
+      reserved_quantity: Math.max(0, reserved - reservation.quantity),
+      version: (product.version ?? 0) + 1,
+      updatedAt: now,
+    });
+    return { ...reservation, status, updatedAt: now };
+  }));
+}
+
+/**
+ * Expire every active hold whose expiry has passed, across all products.
+ * Each product is handled in its own transaction (so one failure does not block the rest).
+ * Processes at most SWEEP_BATCH_SIZE holds per call.
+ * Returns { expired } with the number of holds expired.
+ */
+export async function sweepExpiredReservations(): Promise<{ expired: number }> {
+  const now = new Date().toISOString();
+  const snaps = await getRepository()
+    .collection(RESERVATIONS_COLLECTION)
+    .where('status', '==', 'active')
+    .where('expiresAt', '<=', now)
+    .limit(SWEEP_BATCH_SIZE)
+    .get();
+
+  const productIds = [...new Set(snaps.docs.map((s) => (s.data() as Reservation).productId))];
+  let expired = 0;
+  for (const productId of productIds) {
+    expired += await getRepository().runTransaction(async (tx) => {
+      const pRef = productRef(productId);
+      const pSnap = await tx.get(pRef);
+      const holds = await findExpiredHolds(tx, productId, now);
+      const released = expireHolds(tx, holds, now);
+      if (pSnap.exists && released > 0) {
+        const product = pSnap.data() as Product;
+        const reserved = product.reserved_quantity ?? 0;
+        tx.update(pRef, { reserved_quantity: Math.max(0, reserved - released), version: (product.version ?? 0) + 1, updatedAt: now });
+      }
+      return holds.length;
+    });
+  }
+  return { expired };
+}
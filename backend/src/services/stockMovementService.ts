@@ -0,0 +1,116 @@
+// src/services/stockMovementService.ts
+// Stock movement ledger on top of the storage repository (src/repositories).
+// Movements are append-only: they are written inside the same transaction as the
+// stock change they describe, and there is no update or delete operation.
+
+import { getRepository, Query, Transaction } from '../repositories';
+import { StockMovement, StockMovementMeta, MovementReason, MovementLocation, MovementLot, MovementCost } from '../models/stockMovement';
+import { decodeCursor, encodeCursor } from '../lib/cursor';
+
+/**
+ * Collection that holds all movement records (one document per change).
+ */
+export const MOVEMENTS_COLLECTION = 'stock_movements';
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Append a movement record inside an open transaction.
+ * - `before` / `after` are the product's stock_quantity around the change
+ * - `defaultReason` is used when the caller did not supply a reason
+ * - `location` (location-aware operations) records the location's before / after stock;
+ *   a transfer changes only location stock, so its aggregate delta is 0
+ * - `lots` records the change of each lot involved (lot-tracked receipts and decreases)
+ * - `cost` records the change of the product's inventory value (see src/lib/costing.ts)
+ *
+ * Does nothing when neither the product nor the location quantity changed.
+ * Returns the movement written (or null).
+ */
+export function recordMovement(
+  tx: Transaction,
+  productId: string,
+  before: number,
+  after: number,
+  defaultReason: MovementReason,
+  meta: StockMovementMeta = {},
+  location?: MovementLocation,
+  lots: MovementLot[] = [],
+  cost?: MovementCost
+): StockMovement | null {
+  if (before === after && (!location || location.before === location.after)) return null;
+
+  const ref = getRepository().collection(MOVEMENTS_COLLECTION).doc();
+  const movement: StockMovement = {
+    id: ref.id,
+    productId,
+    delta: after - before,
+    quantity_before: before,
+    quantity_after: after,
+    ...(location
+      ? {
+          locationId: location.locationId,
+          location_delta: location.after - location.before,
+          location_quantity_before: location.before,
+          location_quantity_after: location.after,
+        }
+      : {}),
+    ...(lots.length > 0 ? { lots } : {}),
+    ...(cost ?? {}),
+    reason: meta.reason ?? defaultReason,
+    ...(meta.reference ? { reference: meta.reference } : {}),
+    ...(meta.actor ? { actor: meta.actor } : {}),
+    createdAt: new Date().toISOString(),
+  };
+
+  tx.create(ref, movement);
+  return movement;
+}
+
+/**
+ * Options for listing movements of a product.
+ * - limit: page size (default 50)
+ * - cursor: opaque cursor returned as `nextCursor` by the previous page
+ * - from / to: inclusive ISO timestamp bounds on createdAt
+ */
+export interface ListMovementsOptions {
+  limit?: number;
+  cursor?: string;
+  from?: string;
+  to?: string;
+}
+
+/**
+ * List movements for a product, newest first.
+ * Returns { items, nextCursor } where nextCursor is null on the last page.
+ *
+ * Note: this query needs a composite index on (productId ASC, createdAt DESC, id DESC).
+ */
+export async function listMovements(
+  productId: string,
+  options: ListMovementsOptions = {}
+): Promise<{ items: StockMovement[]; nextCursor: string | null }> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  let q: Query = getRepository().collection(MOVEMENTS_COLLECTION).where('productId', '==', productId);
+  if (options.from) q = q.where('createdAt', '>=', options.from);
+  if (options.to) q = q.where('createdAt', '<=', options.to);
+  q = q.orderBy('createdAt', 'desc').orderBy('id', 'desc');
+
+  if (options.cursor) {
+    const { v, id } = decodeCursor(options.cursor);
+    q = q.startAfter(v, id);
+  }
+
+  // Fetch one extra item to know whether another page exists
+  const snaps = await q.limit(limit + 1).get();
+  const items: StockMovement[] = snaps.docs.map((s) => s.data() as StockMovement);
+
+  let nextCursor: string | null = null;
+  if (items.length > limit) {
+    items.length = limit;
+    const last = items[items.length - 1];
+    nextCursor = encodeCursor({ v: last.createdAt, id: last.id });
+  }
+
+  return { items, nextCursor };
+}
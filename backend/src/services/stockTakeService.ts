@@ -0,0 +1,342 @@
+// src/services/stockTakeService.ts
+// Stock takes (cycle counts) on top of the storage repository (src/repositories).
+//
+// A session is opened for a set of products and freezes their stock_quantity as the expected
+// quantity. Counts can be recorded in several submissions while stock keeps moving; each count
+// also stores the stock_quantity at that moment, so the variance only reflects what the count
+// found missing or extra. Approving the session applies every variance in one transaction,
+// on top of whatever stock moved since the count.
+
+import { DocumentSnapshot, getRepository, Query } from '../repositories';
+import { Product } from '../models/product';
+import { StockTake, StockTakeLine, StockTakeStatus, StockTakeVarianceReport } from '../models/stockTake';
+import { StockAlert } from '../models/stockAlert';
+import { PendingProductEvent } from '../models/productEvent';
+import { HttpError } from '../utils/httpErrors';
+import { trackStockOperation } from '../lib/metrics';
+import { expiredQuantity, lotsAfterDecrease } from '../lib/lots';
+import { costAfterChange } from '../lib/costing';
+import { publishProductEvents, stockChangedEvent } from '../lib/productEvents';
+import { recordMovement } from './stockMovementService';
+import { expireHolds, findExpiredHolds } from './reservationService';
+import { recordStockAlert } from './alertService';
+import { dispatchAlerts } from './webhookService';
+
+/**
+ * Collection that holds stock-take sessions.
+ */
+export const STOCK_TAKES_COLLECTION = 'stock_takes';
+
+const PRODUCTS_COLLECTION = 'products';
+
+/**
+ * Maximum number of products in one session.
+ * Approval writes one update and one movement per product; Firestore caps a transaction at 500 writes.
+ */
+export const MAX_STOCK_TAKE_LINES = 200;
+
+export interface StockTakeFailure {
+  productId: string;
+  error: string;
+}
+
+function stockTakeRef(id: string) {
+  return getRepository().collection(STOCK_TAKES_COLLECTION).doc(id);
+}
+
+function productRef(id: string) {
+  return getRepository().collection(PRODUCTS_COLLECTION).doc(id);
+}
+
+/**
+ * The product in `snap`, or null if it does not exist or is in the trash.
+ */
+function liveProduct(snap: DocumentSnapshot): Product | null {
+  return snap.exists && !(snap.data() as Product).deletedAt ? (snap.data() as Product) : null;
+}
+
+/**
+ * Open a stock take for `productIds`, freezing their current stock_quantity.
+ * Throws 404 if a product does not exist, 409 for a parent product (count its variants) or a
+ * product already in another open stock take.
+ */
+export async function openStockTake(
+  productIds: string[],
+  meta: { reference?: string; actor?: string } = {}
+): Promise<StockTake> {
+  if (!Array.isArray(productIds) || productIds.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'productIds must not be empty');
+  if (productIds.length > MAX_STOCK_TAKE_LINES) {
+    throw new HttpError(400, 'VALIDATION_FAILED', `A stock take covers at most ${MAX_STOCK_TAKE_LINES} products`);
+  }
+  if (new Set(productIds).size !== productIds.length) throw new HttpError(400, 'VALIDATION_FAILED', 'productIds must not repeat a product');
+
+  const ref = getRepository().collection(STOCK_TAKES_COLLECTION).doc();
+  return getRepository().runTransaction(async (tx) => {
+    const snaps = await tx.getAll(...productIds.map(productRef));
+    const open = await tx.get(getRepository().collection(STOCK_TAKES_COLLECTION).where('status', '==', 'open'));
+    const busy = new Set(open.docs.flatMap((s) => (s.data() as StockTake).lines.map((l) => l.productId)));
+
+    const lines: StockTakeLine[] = productIds.map((productId, i) => {
+      const product = liveProduct(snaps[i]);
+      if (!product) throw new HttpError(404, 'PRODUCT_NOT_FOUND', `Product ${productId} not found`);
+      if ((product.variant_count ?? 0) > 0) {
+        throw new HttpError(409, 'STOCK_TRACKED_PER_VARIANT', `Stock of product ${productId} is tracked per variant; count its variants`);
+      }
+      if (busy.has(productId)) throw new HttpError(409, 'PRODUCT_IN_STOCK_TAKE', `Product ${productId} is already in an open stock take`);
+      return {
+        productId,
+        name: product.name,
+        ...(product.sku ? { sku: product.sku } : {}),
+        expected_quantity: product.stock_quantity ?? 0,
+        counted_quantity: null,
+      };
+    });
+
+    const now = new Date().toISOString();
+    const take: StockTake = {
+      id: ref.id,
+      status: 'open',
+      lines,
+      ...(meta.reference ? { reference: meta.reference } : {}),
+      ...(meta.actor ? { actor: meta.actor } : {}),
+      createdAt: now,
+      updatedAt: now,
+    };
+    tx.create(ref, take);
+    return take;
+  });
+}
+
+/**
+ * Get a stock take by ID. Throws 404 if not found.
+ */
+export async function getStockTake(id: string): Promise<StockTake> {
+  const snap = await stockTakeRef(id).get();
+  if (!snap.exists) throw new HttpError(404, 'STOCK_TAKE_NOT_FOUND', 'Stock take not found');
+  return snap.data() as StockTake;
+}
+
+/**
+ * List stock takes, newest first (optionally filtered by status).
+ *
+ * Note: the status filter needs a composite index on (status ASC, createdAt DESC).
+ */
+export async function listStockTakes(status?: StockTakeStatus): Promise<StockTake[]> {
+  let q: Query = getRepository().collection(STOCK_TAKES_COLLECTION);
+  if (status) q = q.where('status', '==', status);
+  const snaps = await q.orderBy('createdAt', 'desc').get();
+  return snaps.docs.map((s) => s.data() as StockTake);
+}
+
+/**
+ * Record counted quantities on an open stock take. A product counted again keeps the latest
+ * count. Each count stores the product's stock_quantity at that moment (see the file comment).
+ * Throws 400 for a product that is not part of the session, 404 if the session or a product
+ * does not exist, 409 unless the session is open.
+ */
+export async function recordCounts(
+  id: string,
+  counts: { productId: string; counted_quantity: number }[],
+  actor?: string
+): Promise<StockTake> {
+  if (!Array.isArray(counts) || counts.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'counts must not be empty');
+  for (const count of counts) {
+    if (!Number.isInteger(count.counted_quantity) || count.counted_quantity < 0) {
+      throw new HttpError(400, 'VALIDATION_FAILED', 'counted_quantity must be an integer >= 0');
+    }
+  }
+
+  const ref = stockTakeRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'STOCK_TAKE_NOT_FOUND', 'Stock take not found');
+    const take = snap.data() as StockTake;
+    if (take.status !== 'open') throw new HttpError(409, 'STOCK_TAKE_STATE_CONFLICT', `Stock take is already ${take.status}`);
+    const inSession = new Set(take.lines.map((l) => l.productId));
+    for (const count of counts) {
+      if (!inSession.has(count.productId)) {
+        throw new HttpError(400, 'VALIDATION_FAILED', `Product ${count.productId} is not part of this stock take`);
+      }
+    }
+
+    const ids = [...new Set(counts.map((c) => c.productId))];
+    const snaps = await tx.getAll(...ids.map(productRef));
+    const stock = new Map<string, number>();
+    snaps.forEach((s, i) => {
+      const product = liveProduct(s);
+      if (!product) throw new HttpError(404, 'PRODUCT_NOT_FOUND', `Product ${ids[i]} not found`);
+      stock.set(ids[i], product.stock_quantity ?? 0);
+    });
+
+    const now = new Date().toISOString();
+    const latest = new Map(counts.map((c) => [c.productId, c.counted_quantity]));
+    const lines = take.lines.map((line) =>
+      latest.has(line.productId)
+        ? {
+            ...line,
+            counted_quantity: latest.get(line.productId) as number,
+            quantity_at_count: stock.get(line.productId) as number,
+            countedAt: now,
+            ...(actor ? { countedBy: actor } : {}),
+          }
+        : line
+    );
+    tx.update(ref, { lines, updatedAt: now });
+    return { ...take, lines, updatedAt: now };
+  });
+}
+
+/**
+ * Variance of every line of a stock take against current stock (see StockTakeVarianceLine).
+ * For an approved session the variances are the ones that were applied.
+ * Throws 404 if not found.
+ */
+export async function getVarianceReport(id: string): Promise<StockTakeVarianceReport> {
+  const take = await getStockTake(id);
+  const snaps = await getRepository().getAll(...take.lines.map((l) => productRef(l.productId)));
+
+  const lines = take.lines.map((line, i) => {
+    const counted = line.counted_quantity !== null;
+    const atCount = line.quantity_at_count ?? line.expected_quantity;
+    return {
+      productId: line.productId,
+      name: line.name,
+      ...(line.sku ? { sku: line.sku } : {}),
+      expected_quantity: line.expected_quantity,
+      counted_quantity: line.counted_quantity,
+      moved_before_count: counted ? atCount - line.expected_quantity : null,
+      variance: counted ? line.variance ?? (line.counted_quantity as number) - atCount : null,
+      current_quantity: liveProduct(snaps[i])?.stock_quantity ?? 0,
+    };
+  });
+  const counted = lines.filter((l) => l.variance !== null);
+  return {
+    id: take.id,
+    status: take.status,
+    lines,
+    counted_lines: counted.length,
+    uncounted_lines: lines.length - counted.length,
+    net_variance: counted.reduce((sum, l) => sum + (l.variance as number), 0),
+  };
+}
+
+/**
+ * Approve an open stock take: the variance of every counted line is added to the product's
+ * current stock_quantity in one transaction (so stock moved since the count is kept), with an
+ * `adjustment` movement per changed product (reference defaults to the session's reference or
+ * "stock-take:<id>"). Uncounted lines are left alone. Lowered stock comes out of the product's
+ * lots as in bulk adjustments; crossing a low-stock threshold raises an alert.
+ * If any line cannot be applied (product gone, stock would go negative, below the stock
+ * assigned to locations, or below what open reservations hold in sellable units; lapsed holds
+ * are expired first) nothing is applied and a 400 is thrown whose details list every failing
+ * line: { failures: [...] }.
+ * Throws 404 if not found, 409 unless the session is open.
+ */
+export async function approveStockTake(id: string, meta: { reference?: string; actor?: string } = {}): Promise<StockTake> {
+  const ref = stockTakeRef(id);
+  const alerts: StockAlert[] = [];
+  const events: PendingProductEvent[] = [];
+  const result = await trackStockOperation('stock_take', () => getRepository().runTransaction(async (tx) => {
+    alerts.length = 0; // the callback may be retried
+    events.length = 0;
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'STOCK_TAKE_NOT_FOUND', 'Stock take not found');
+    const take = snap.data() as StockTake;
+    if (take.status !== 'open') throw new HttpError(409, 'STOCK_TAKE_STATE_CONFLICT', `Stock take is already ${take.status}`);
+
+    const counted = take.lines.filter((l) => l.counted_quantity !== null);
+    const snaps = counted.length > 0 ? await tx.getAll(...counted.map((l) => productRef(l.productId))) : [];
+
+    const variances = new Map(
+      counted.map((line) => [line.productId, (line.counted_quantity as number) - (line.quantity_at_count ?? line.expected_quantity)])
+    );
+    // A shortfall must leave the holds covered; lapsed holds give their units back first
+    const now = new Date().toISOString();
+    const short = counted.filter((line, i) => liveProduct(snaps[i]) && (variances.get(line.productId) as number) < 0);
+    const lapsed = await Promise.all(short.map((line) => findExpiredHolds(tx, line.productId, now)));
+    const reserved = new Map<string, number>();
+    counted.forEach((line, i) => reserved.set(line.productId, liveProduct(snaps[i])?.reserved_quantity ?? 0));
+    short.forEach((line, i) => {
+      if (lapsed[i].length > 0) {
+        reserved.set(line.productId, Math.max(0, (reserved.get(line.productId) as number) - expireHolds(tx, lapsed[i], now)));
+      }
+    });
+
+    const failures: StockTakeFailure[] = [];
+    counted.forEach((line, i) => {
+      const product = liveProduct(snaps[i]);
+      const variance = variances.get(line.productId) as number;
+      const after = (product?.stock_quantity ?? 0) + variance;
+      const error = !product
+        ? 'Product not found'
+        : (product.variant_count ?? 0) > 0
+          ? 'Stock of this product is tracked per variant'
+          : after < 0
+            ? 'More stock was taken out since the count than was counted'
+            : after < (product.allocated_quantity ?? 0)
+              ? 'Stock would fall below the stock assigned to locations'
+              : variance < 0 && after - expiredQuantity(product.lots) < (reserved.get(line.productId) as number)
+                ? 'Stock would fall below the stock held by reservations'
+                : null;
+      if (error) failures.push({ productId: line.productId, error });
+    });
+    if (failures.length > 0) {
+      throw new HttpError(400, 'STOCK_TAKE_REJECTED', 'Stock take rejected; no variances were applied', { failures });
+    }
+
+    const movementMeta = { reference: meta.reference ?? take.reference ?? `stock-take:${id}`, actor: meta.actor };
+    counted.forEach((line, i) => {
+      const variance = variances.get(line.productId) as number;
+      if (variance === 0) return;
+      const product = snaps[i].data() as Product;
+      const current = product.stock_quantity ?? 0;
+      const after = current + variance;
+      const lots = lotsAfterDecrease(product.lots, current, -variance);
+      const cost = costAfterChange(product, current, variance, now);
+      tx.update(productRef(line.productId), {
+        stock_quantity: after,
+        reserved_quantity: reserved.get(line.productId) as number,
+        ...lots.fields,
+        ...cost.fields,
+        version: (product.version ?? 0) + 1,
+        updatedAt: now,
+      });
+      recordMovement(tx, line.productId, current, after, 'adjustment', movementMeta, undefined, lots.consumed, cost.movement);
+      const alert = recordStockAlert(tx, line.productId, product, after);
+      if (alert) alerts.push(alert);
+      events.push(stockChangedEvent(line.productId, product, after, now));
+    });
+
+    const lines = take.lines.map((line) => (variances.has(line.productId) ? { ...line, variance: variances.get(line.productId) } : line));
+    const payload: Partial<StockTake> = {
+      status: 'approved',
+      lines,
+      approvedAt: now,
+      ...(meta.actor ? { approvedBy: meta.actor } : {}),
+      updatedAt: now,
+    };
+    tx.update(ref, payload);
+    return { ...take, ...payload } as StockTake;
+  }));
+  dispatchAlerts(alerts);
+  publishProductEvents(events);
+  return result;
+}
+
+/**
+ * Cancel an open stock take; stock is not touched.
+ * Throws 404 if not found, 409 unless the session is open.
+ */
+export async function cancelStockTake(id: string): Promise<StockTake> {
+  const ref = stockTakeRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'STOCK_TAKE_NOT_FOUND', 'Stock take not found');
+    const take = snap.data() as StockTake;
+    if (take.status !== 'open') throw new HttpError(409, 'STOCK_TAKE_STATE_CONFLICT', `Stock take is already ${take.status}`);
+    const now = new Date().toISOString();
+    const payload: Partial<StockTake> = { status: 'cancelled', cancelledAt: now, updatedAt: now };
+    tx.update(ref, payload);
+    return { ...take, ...payload };
+  });
+}
@@ -0,0 +1,394 @@
+// src/services/webhookService.ts
+// Webhook subscriptions and delivery of stock alerts on top of the storage repository (src/repositories).
+//
+// Flow:
+//   1. a stock operation records an alert in its transaction (see alertService)
+//   2. after the commit, `dispatchAlerts` fans the alert out into one delivery per matching subscription
+//   3. each delivery is POSTed with an HMAC signature; failures are retried with exponential backoff
+// Steps 2 and 3 also run from `processWebhookQueue` (timer in src/instrumentation.ts), which picks up
+// anything the immediate dispatch missed (crash, restart, failed attempts).
+//
+// Delivery is at-least-once: receivers should de-duplicate on the X-Webhook-Id header.
+
+import { createHmac, randomBytes } from 'crypto';
+import { getRepository, Query } from '../repositories';
+import { StockAlert, AlertType, ALERT_TYPES } from '../models/stockAlert';
+import { DeliveryStatus, WebhookAttempt, WebhookDelivery, WebhookSubscription } from '../models/webhook';
+import { HttpError } from '../utils/httpErrors';
+import { decodeCursor, encodeCursor } from '../lib/cursor';
+import { logger } from '../lib/logger';
+import { ALERTS_COLLECTION } from './alertService';
+
+/**
+ * Collections used by this service.
+ */
+export const SUBSCRIPTIONS_COLLECTION = 'webhook_subscriptions';
+export const DELIVERIES_COLLECTION = 'webhook_deliveries';
+
+/**
+ * A delivery is abandoned (status `failed`) after this many attempts.
+ * Retry n waits RETRY_BASE_MS * 2^(n-1): 30s, 1m, 2m, 4m, 8m.
+ */
+export const MAX_ATTEMPTS = 6;
+const RETRY_BASE_MS = 30_000;
+
+/**
+ * How long an in-flight attempt keeps other processors away, and the request timeout.
+ */
+const LEASE_MS = 60_000;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/**
+ * Maximum number of alerts / deliveries handled per queue run.
+ */
+const QUEUE_BATCH_SIZE = 50;
+
+const DEFAULT_PAGE_SIZE = 50;
+
+function subscriptionRef(id: string) {
+  return getRepository().collection(SUBSCRIPTIONS_COLLECTION).doc(id);
+}
+
+function deliveryRef(id: string) {
+  return getRepository().collection(DELIVERIES_COLLECTION).doc(id);
+}
+
+/**
+ * Subscriptions are returned without their secret (it is only shown once, on creation).
+ * The public fields are listed, so a field added later is not returned until it is named here.
+ */
+function withoutSecret(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> {
+  const { id, url, events, active, description, createdAt, updatedAt } = subscription;
+  return { id, url, events, active, ...(description !== undefined ? { description } : {}), createdAt, updatedAt };
+}
+
+/**
+ * Signature sent in X-Webhook-Signature: `sha256=` + hex HMAC-SHA256 of `${timestamp}.${body}`,
+ * keyed with the subscription secret. Receivers recompute it to verify the sender and the body.
+ */
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Register a webhook subscription.
+ * - `events` defaults to every alert type
+ * Returns the subscription including its generated signing secret.
+ */
+export async function createSubscription(payload: {
+  url: string;
+  events?: AlertType[];
+  description?: string;
+  active?: boolean;
+}): Promise<WebhookSubscription> {
+  if (!payload.url) throw new HttpError(400, 'VALIDATION_FAILED', 'url is required');
+
+  const ref = getRepository().collection(SUBSCRIPTIONS_COLLECTION).doc();
+  const now = new Date().toISOString();
+  const subscription: WebhookSubscription = {
+    id: ref.id,
+    url: payload.url,
+    events: payload.events && payload.events.length > 0 ? [...new Set(payload.events)] : [...ALERT_TYPES],
+    secret: randomBytes(32).toString('hex'),
+    active: payload.active ?? true,
+    ...(payload.description !== undefined ? { description: payload.description } : {}),
+    createdAt: now,
+    updatedAt: now,
+  };
+  await ref.create(subscription);
+  return subscription;
+}
+
+/**
+ * Get a subscription by ID (without its secret). Throws 404 if not found.
+ */
+export async function getSubscription(id: string) {
+  const snap = await subscriptionRef(id).get();
+  if (!snap.exists) throw new HttpError(404, 'WEBHOOK_NOT_FOUND', 'Webhook subscription not found');
+  return withoutSecret(snap.data() as WebhookSubscription);
+}
+
+/**
+ * List all subscriptions (without secrets), oldest first.
+ */
+export async function listSubscriptions() {
+  const snaps = await getRepository().collection(SUBSCRIPTIONS_COLLECTION).orderBy('createdAt').get();
+  return snaps.docs.map((s) => withoutSecret(s.data() as WebhookSubscription));
+}
+
+/**
+ * Update a subscription's url, events, description or active flag. Throws 404 if not found.
+ */
+export async function updateSubscription(
+  id: string,
+  updates: { url?: string; events?: AlertType[]; description?: string; active?: boolean }
+) {
+  const payload: Partial<WebhookSubscription> = {};
+  if (updates.url !== undefined) payload.url = updates.url;
+  if (updates.events !== undefined) {
+    if (updates.events.length === 0) throw new HttpError(400, 'VALIDATION_FAILED', 'events must not be empty');
+    payload.events = [...new Set(updates.events)];
+  }
+  if (updates.description !== undefined) payload.description = updates.description;
+  if (updates.active !== undefined) payload.active = updates.active;
+  payload.updatedAt = new Date().toISOString();
+
+  const ref = subscriptionRef(id);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) throw new HttpError(404, 'WEBHOOK_NOT_FOUND', 'Webhook subscription not found');
+    tx.update(ref, payload);
+    return withoutSecret({ ...(snap.data() as WebhookSubscription), ...payload });
+  });
+}
+
+/**
+ * Delete a subscription. Pending deliveries to it are abandoned on their next attempt.
+ * Throws 404 if not found.
+ */
+export async function deleteSubscription(id: string) {
+  const ref = subscriptionRef(id);
+  const snap = await ref.get();
+  if (!snap.exists) throw new HttpError(404, 'WEBHOOK_NOT_FOUND', 'Webhook subscription not found');
+  await ref.delete();
+  return { id };
+}
+
+/**
+ * Options for listing the delivery log of a subscription.
+ * - limit: page size (default 50)
+ * - cursor: opaque cursor returned as `nextCursor` by the previous page
+ * - status: only deliveries in this status
+ */
+export interface ListDeliveriesOptions {
+  limit?: number;
+  cursor?: string;
+  status?: DeliveryStatus;
+}
+
+/**
+ * List deliveries of a subscription, newest first.
+ * Returns { items, nextCursor } where nextCursor is null on the last page.
+ *
+ * Note: needs a composite index on (subscriptionId ASC, [status ASC,] createdAt DESC, id DESC).
+ */
+export async function listDeliveries(
+  subscriptionId: string,
+  options: ListDeliveriesOptions = {}
+): Promise<{ items: WebhookDelivery[]; nextCursor: string | null }> {
+  const limit = options.limit ?? DEFAULT_PAGE_SIZE;
+
+  let q: Query = getRepository().collection(DELIVERIES_COLLECTION).where('subscriptionId', '==', subscriptionId);
+  if (options.status) q = q.where('status', '==', options.status);
+  q = q.orderBy('createdAt', 'desc').orderBy('id', 'desc');
+  if (options.cursor) {
+    const { v, id } = decodeCursor(options.cursor);
+    q = q.startAfter(v, id);
+  }
+
+  // Fetch one extra item to know whether another page exists
+  const snaps = await q.limit(limit + 1).get();
+  const items = snaps.docs.map((s) => s.data() as WebhookDelivery);
+
+  let nextCursor: string | null = null;
+  if (items.length > limit) {
+    items.length = limit;
+    const last = items[items.length - 1];
+    nextCursor = encodeCursor({ v: last.createdAt, id: last.id });
+  }
+  return { items, nextCursor };
+}
+
+/**
+ * Create one delivery per active subscription interested in the alert, and mark the alert
+ * dispatched, in one transaction (so an alert is never fanned out twice).
+ * Returns the ids of the deliveries created.
+ */
+async function fanOutAlert(alertId: string): Promise<string[]> {
+  const alertRef = getRepository().collection(ALERTS_COLLECTION).doc(alertId);
+  return getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(alertRef);
+    if (!snap.exists) return [];
+    const alert = snap.data() as StockAlert;
+    if (alert.dispatched) return [];
+    const subscriptions = await tx.get(
+      getRepository().collection(SUBSCRIPTIONS_COLLECTION).where('active', '==', true)
+    );
+
+    const now = new Date().toISOString();
+    const body = JSON.stringify({
+      id: alert.id,
+      type: alert.type,
+      createdAt: alert.createdAt,
+      data: {
+        productId: alert.productId,
+        productName: alert.productName,
+        ...(alert.sku ? { sku: alert.sku } : {}),
+        quantity_before: alert.quantity_before,
+        quantity_after: alert.quantity_after,
+        low_stock_threshold: alert.low_stock_threshold,
+      },
+    });
+
+    const ids: string[] = [];
+    for (const s of subscriptions.docs) {
+      const subscription = s.data() as WebhookSubscription;
+      if (!subscription.events.includes(alert.type)) continue;
+      const ref = getRepository().collection(DELIVERIES_COLLECTION).doc();
+      const delivery: WebhookDelivery = {
+        id: ref.id,
+        subscriptionId: subscription.id,
+        alertId: alert.id,
+        event: alert.type,
+        payload: body,
+        status: 'pending',
+        attempts: [],
+        nextAttemptAt: now,
+        leaseUntil: null,
+        createdAt: now,
+        updatedAt: now,
+      };
+      tx.create(ref, delivery);
+      ids.push(ref.id);
+    }
+    tx.update(alertRef, { dispatched: true });
+    return ids;
+  });
+}
+
+/**
+ * POST the delivery's payload to the subscriber. Never throws; the outcome is the attempt record.
+ */
+async function send(delivery: WebhookDelivery, subscription: WebhookSubscription): Promise<WebhookAttempt> {
+  const started = Date.now();
+  const timestamp = Math.floor(started / 1000);
+  try {
+    const res = await fetch(subscription.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'inventory-webhooks/1.0',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signPayload(subscription.secret, timestamp, delivery.payload),
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      redirect: 'manual',
+    });
+    // The response body is not used; drain it so the connection can be reused
+    await res.arrayBuffer().catch(() => undefined);
+    return {
+      at: new Date(started).toISOString(),
+      statusCode: res.status,
+      error: res.ok ? null : `Receiver responded with HTTP ${res.status}`,
+      durationMs: Date.now() - started,
+    };
+  } catch (err) {
+    return {
+      at: new Date(started).toISOString(),
+      statusCode: null,
+      error: (err as Error).message || 'Request failed',
+      durationMs: Date.now() - started,
+    };
+  }
+}
+
+/**
+ * Make one attempt at a pending delivery that is due.
+ * The delivery is leased in a transaction first, so concurrent processors never send it twice.
+ * On failure the next attempt is scheduled with exponential backoff, or the delivery is marked
+ * `failed` after MAX_ATTEMPTS. Returns the updated delivery, or null if it was not due / leased.
+ */
+export async function attemptDelivery(id: string, now: Date = new Date()): Promise<WebhookDelivery | null> {
+  const ref = deliveryRef(id);
+  const nowIso = now.toISOString();
+
+  const claimed = await getRepository().runTransaction(async (tx) => {
+    const snap = await tx.get(ref);
+    if (!snap.exists) return null;
+    const delivery = snap.data() as WebhookDelivery;
+    if (delivery.status !== 'pending') return null;
+    if (delivery.nextAttemptAt && delivery.nextAttemptAt > nowIso) return null;
+    if (delivery.leaseUntil && delivery.leaseUntil > nowIso) return null;
+    const subSnap = await tx.get(subscriptionRef(delivery.subscriptionId));
+    const subscription = subSnap.exists ? (subSnap.data() as WebhookSubscription) : null;
+
+    if (!subscription || !subscription.active) {
+      const abandoned: Partial<WebhookDelivery> = {
+        status: 'failed',
+        nextAttemptAt: null,
+        leaseUntil: null,
+        updatedAt: nowIso,
+      };
+      tx.update(ref, abandoned);
+      return { delivery: { ...delivery, ...abandoned }, subscription: null };
+    }
+    tx.update(ref, { leaseUntil: new Date(now.getTime() + LEASE_MS).toISOString() });
+    return { delivery, subscription };
+  });
+  if (!claimed) return null;
+  if (!claimed.subscription) return claimed.delivery;
+
+  const attempt = await send(claimed.delivery, claimed.subscription);
+  const attempts = [...claimed.delivery.attempts, attempt];
+  const succeeded = attempt.error === null;
+  const exhausted = !succeeded && attempts.length >= MAX_ATTEMPTS;
+  const updates: Partial<WebhookDelivery> = {
+    status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+    attempts,
+    nextAttemptAt:
+      succeeded || exhausted ? null : new Date(now.getTime() + RETRY_BASE_MS * 2 ** (attempts.length - 1)).toISOString(),
+    leaseUntil: null,
+    updatedAt: new Date().toISOString(),
+  };
+  await ref.update(updates);
+  if (!succeeded) {
+    logger.warn('Webhook delivery attempt failed', { deliveryId: id, attempt: attempts.length, error: attempt.error });
+  }
+  return { ...claimed.delivery, ...updates };
+}
+
+/**
+ * Deliver alerts right after the transaction that raised them has committed.
+ * Runs in the background; anything that fails here is picked up by processWebhookQueue.
+ */
+export function dispatchAlerts(alerts: StockAlert[]) {
+  for (const alert of alerts) {
+    fanOutAlert(alert.id)
+      .then((ids) => Promise.all(ids.map((id) => attemptDelivery(id))))
+      .catch((err) => logger.error('Webhook dispatch failed', { alertId: alert.id, err: String(err) }));
+  }
+}
+
+/**
+ * Fan out alerts that were never dispatched and attempt every delivery that is due.
+ * `now` decides which retries are due (defaults to the current time).
+ * Returns { dispatched, attempted } counts.
+ *
+ * Note: needs composite indexes on stock_alerts (dispatched, createdAt) and
+ * webhook_deliveries (status, nextAttemptAt).
+ */
+export async function processWebhookQueue(now: Date = new Date()): Promise<{ dispatched: number; attempted: number }> {
+  const alerts = await getRepository()
+    .collection(ALERTS_COLLECTION)
+    .where('dispatched', '==', false)
+    .orderBy('createdAt')
+    .limit(QUEUE_BATCH_SIZE)
+    .get();
+  for (const snap of alerts.docs) await fanOutAlert(snap.id);
+
+  const due = await getRepository()
+    .collection(DELIVERIES_COLLECTION)
+    .where('status', '==', 'pending')
+    .where('nextAttemptAt', '<=', now.toISOString())
+    .orderBy('nextAttemptAt')
+    .limit(QUEUE_BATCH_SIZE)
+    .get();
+  let attempted = 0;
+  for (const snap of due.docs) {
+    if (await attemptDelivery(snap.id, now)) attempted += 1;
+  }
+  return { dispatched: alerts.size, attempted };
+}
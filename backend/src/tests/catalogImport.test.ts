@@ -0,0 +1,133 @@
+// src/tests/catalogImport.test.ts
+// Catalog import / export through the App Router handlers, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import { POST as importProducts } from '../app/api/products/import/route';
+import { GET as exportProducts } from '../app/api/products/export/route';
+import { createProduct, getProductBySku, listProducts } from '../services/productService';
+import { listMovements } from '../services/stockMovementService';
+import { parseCsv } from '../lib/csv';
+import { makeRequest } from './helpers';
+
+const MANAGER_KEY = 'manager-key';
+
+function importRequest(query: string, body: string, contentType: string) {
+  return makeRequest(`/api/products/import${query}`, { method: 'POST', key: MANAGER_KEY, body, headers: { 'content-type': contentType } });
+}
+
+function exportRequest(query: string) {
+  return makeRequest(`/api/products/export${query}`, { key: MANAGER_KEY });
+}
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes, CRLF and blank lines', () => {
+    const text = '\uFEFFname,description\r\n"Bolt, M6","Says ""hi""\nover two lines"\r\n\r\nNut,\n';
+    expect(parseCsv(text)).toEqual([
+      ['name', 'description'],
+      ['Bolt, M6', 'Says "hi"\nover two lines'],
+      ['Nut', ''],
+    ]);
+    expect(() => parseCsv('name\n"open')).toThrow('unterminated');
+  });
+});
+
+describe('catalog import / export', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = `importer:manager:${MANAGER_KEY}`;
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  const csv = [
+    'name,sku,barcodes,stock_quantity,low_stock_threshold,description',
+    'Bolt,B-1,4006381333931|4006381333948,10,2,"Zinc, M6"',
+    'Nut,N-1,,5,,',
+    'Broken,X-1,,-3,,',
+    'Copy,b-1,,1,,',
+  ].join('\n');
+
+  it('reports every rejected row and writes nothing on a dry run', async () => {
+    const res = await importProducts(importRequest('?dryRun=true', csv, 'text/csv'));
+    expect(res.status).toBe(200);
+    const report = await res.json();
+    expect(report).toMatchObject({ dryRun: true, total: 4, created: 2, updated: 0, failed: 2 });
+    expect(report.errors).toEqual([
+      { row: 3, sku: 'X-1', error: expect.stringContaining('stock_quantity') },
+      { row: 4, sku: 'b-1', error: 'SKU b-1 appears more than once in the import (first in row 1)' },
+    ]);
+    expect((await listProducts()).items).toHaveLength(0);
+  });
+
+  it('imports CSV rows and upserts by SKU', async () => {
+    await createProduct({ name: 'Old nut', sku: 'N-1', stock_quantity: 1 });
+
+    const conflict = await (await importProducts(importRequest('', csv, 'text/csv'))).json();
+    expect(conflict).toMatchObject({ created: 1, updated: 0, failed: 3 });
+    expect(conflict.errors[0]).toEqual({ row: 2, sku: 'N-1', error: 'SKU N-1 is already in use' });
+    expect(await getProductBySku('B-1')).toMatchObject({
+      name: 'Bolt',
+      description: 'Zinc, M6',
+      barcodes: ['4006381333931', '4006381333948'],
+      stock_quantity: 10,
+      low_stock_threshold: 2,
+    });
+
+    const upsert = await (
+      await importProducts(importRequest('?upsert=true', 'name,sku,stock_quantity\nNut,N-1,5\nBolt,B-1,10', 'text/csv'))
+    ).json();
+    expect(upsert).toMatchObject({ created: 0, updated: 2, failed: 0 });
+    const nut = await getProductBySku('N-1');
+    expect(nut).toMatchObject({ name: 'Nut', stock_quantity: 5, version: 2 });
+    const { items: movements } = await listMovements(nut.id as string);
+    expect(movements.find((m) => m.reason === 'adjustment')).toMatchObject({ delta: 4, actor: 'importer' });
+    // Columns missing from the row keep their stored values
+    expect(await getProductBySku('B-1')).toMatchObject({ description: 'Zinc, M6', low_stock_threshold: 2 });
+  });
+
+  it('imports JSON in chunks and rejects unsupported bodies', async () => {
+    const rows = Array.from({ length: 250 }, (_, i) => ({ name: `Item ${i}`, sku: `SKU-${i}`, stock_quantity: i }));
+    const report = await (await importProducts(importRequest('', JSON.stringify(rows), 'application/json'))).json();
+    expect(report).toMatchObject({ total: 250, created: 250, failed: 0 });
+    expect(await getProductBySku('SKU-249')).toMatchObject({ stock_quantity: 249 });
+
+    expect((await importProducts(importRequest('', '{"name":"x"}', 'application/json'))).status).toBe(400);
+    expect((await importProducts(importRequest('', '{oops', 'application/json'))).status).toBe(400);
+    expect((await importProducts(importRequest('', 'name\nx', 'text/plain'))).status).toBe(415);
+  });
+
+  it('streams the catalog as CSV and JSON that can be imported again', async () => {
+    await createProduct({ name: 'Bolt, M6', sku: 'B-1', barcodes: ['123', '456'], stock_quantity: 3 });
+    await createProduct({ name: 'Nut', stock_quantity: 7 });
+
+    const csvRes = await exportProducts(exportRequest('?format=csv'));
+    expect(csvRes.headers.get('content-type')).toContain('text/csv');
+    const csvText = await csvRes.text();
+    const [header, ...lines] = parseCsv(csvText);
+    expect(header.slice(0, 4)).toEqual(['id', 'name', 'sku', 'barcodes']);
+    expect(lines.map((l) => l.slice(1, 4))).toEqual(
+      expect.arrayContaining([
+        ['Bolt, M6', 'B-1', '123|456'],
+        ['Nut', '', ''],
+      ])
+    );
+
+    const jsonRes = await exportProducts(exportRequest(''));
+    const exported = await jsonRes.json();
+    expect(exported.map((p: { name: string }) => p.name).sort()).toEqual(['Bolt, M6', 'Nut']);
+
+    setRepository(new MemoryRepository());
+    const reimported = await (await importProducts(importRequest('', csvText, 'text/csv'))).json();
+    expect(reimported).toMatchObject({ created: 2, failed: 0 });
+    expect(await getProductBySku('B-1')).toMatchObject({ name: 'Bolt, M6', barcodes: ['123', '456'], stock_quantity: 3 });
+  });
+});
@@ -0,0 +1,93 @@
+// src/tests/errorResponses.test.ts
+// Error responses: RFC 7807 problem+json bodies with stable error codes.
+import { z } from 'zod';
+import { MemoryRepository, setRepository } from '../repositories';
+import { POST as createProduct } from '../app/api/products/route';
+import { GET as getProduct } from '../app/api/products/[id]/route';
+import { POST as decreaseStock } from '../app/api/products/[id]/decrease/route';
+import { POST as adjustStock } from '../app/api/stock/adjustments/route';
+import { handleError } from '../middlewares/errorHandler';
+import { validateOrThrow } from '../lib/validate';
+import { HttpError } from '../utils/httpErrors';
+import { makeRequest, routeParams } from './helpers';
+
+const KEY = 'manager-key';
+
+describe('error responses', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = `erp:manager:${KEY}`;
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('describes errors as problem+json with a code and the request id', async () => {
+    const res = await getProduct(
+      makeRequest('/api/products/nope', { key: KEY, headers: { 'x-request-id': 'req-42' } }),
+      routeParams('nope')
+    );
+    expect(res.status).toBe(404);
+    expect(res.headers.get('content-type')).toBe('application/problem+json');
+    expect(await res.json()).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Product not found',
+      code: 'PRODUCT_NOT_FOUND',
+      requestId: 'req-42',
+    });
+
+    const created = await (
+      await createProduct(makeRequest('/api/products', { method: 'POST', key: KEY, body: { name: 'Widget', stock_quantity: 1 } }))
+    ).json();
+    const short = await decreaseStock(
+      makeRequest(`/api/products/${created.id}/decrease`, { method: 'POST', key: KEY, body: { amount: 2 } }),
+      routeParams(created.id)
+    );
+    expect(await short.json()).toMatchObject({ status: 400, code: 'INSUFFICIENT_STOCK', detail: 'Insufficient stock' });
+
+    const rejected = await adjustStock(
+      makeRequest('/api/stock/adjustments', { method: 'POST', key: KEY, body: { lines: [{ sku: 'missing', delta: 1 }] } })
+    );
+    expect(await rejected.json()).toMatchObject({
+      code: 'STOCK_ADJUSTMENT_REJECTED',
+      failures: [{ index: 0, sku: 'missing', code: 'PRODUCT_NOT_FOUND', error: 'Unknown SKU' }],
+    });
+  });
+
+  it('lists validation issues per field and rejects malformed JSON with 400', async () => {
+    const invalid = await createProduct(
+      makeRequest('/api/products', { method: 'POST', key: KEY, body: { name: '', stock_quantity: -1 } })
+    );
+    expect(invalid.status).toBe(400);
+    const body = await invalid.json();
+    expect(body.code).toBe('VALIDATION_FAILED');
+    expect(body.errors).toEqual([
+      { path: 'name', message: 'name is required', code: 'too_small' },
+      { path: 'stock_quantity', message: expect.any(String), code: 'too_small' },
+    ]);
+
+    const malformed = await createProduct(makeRequest('/api/products', { method: 'POST', key: KEY, body: '{"name": "Widget",' }));
+    expect(malformed.status).toBe(400);
+    expect(await malformed.json()).toMatchObject({ code: 'MALFORMED_JSON' });
+  });
+
+  it('hides the message of unexpected errors and validates with HttpError', async () => {
+    const res = handleError(new Error('connection string leaked'));
+    expect(res.status).toBe(500);
+    expect(await res.json()).toMatchObject({ code: 'INTERNAL_ERROR', detail: 'Internal Server Error' });
+
+    expect(() => validateOrThrow(z.object({ amount: z.number() }), {})).toThrow(HttpError);
+  });
+});
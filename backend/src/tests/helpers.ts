@@ -0,0 +1,36 @@
+// src/tests/helpers.ts
+// Requests and route parameters for calling route handlers directly from tests.
+import { NextRequest } from 'next/server';
+
+export interface TestRequestInit {
+  method?: string;                    // Default GET
+  key?: string;                       // Sent as X-Api-Key
+  body?: unknown;                     // A string is sent as is (CSV, malformed JSON); anything else as JSON
+  headers?: Record<string, string>;   // Added last, so they can replace the content type
+  signal?: AbortSignal;
+}
+
+/**
+ * A request to `path` on localhost. A body gets `Content-Type: application/json` unless the
+ * headers say otherwise.
+ */
+export function makeRequest(path: string, init: TestRequestInit = {}): NextRequest {
+  const headers: Record<string, string> = {};
+  if (init.key) headers['x-api-key'] = init.key;
+  if (init.body !== undefined) headers['content-type'] = 'application/json';
+  Object.assign(headers, init.headers);
+  return new NextRequest(`http://localhost${path}`, {
+    method: init.method ?? 'GET',
+    headers,
+    body: init.body === undefined ? undefined : typeof init.body === 'string' ? init.body : JSON.stringify(init.body),
+    signal: init.signal,
+  });
+}
+
+/**
+ * The second argument of a dynamic route handler: `{ id }`, plus any further segments
+ * (e.g. `{ variantId }`).
+ */
+export function routeParams<T extends Record<string, string> = Record<never, string>>(id: string, more?: T) {
+  return { params: Promise.resolve({ id, ...more } as { id: string } & T) };
+}
@@ -0,0 +1,132 @@
+// src/tests/inventoryValuation.test.ts
+// Unit costs, FIFO / weighted-average costing and the valuation report, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import {
+  applyStockAdjustments,
+  createProduct,
+  decreaseStock,
+  deleteProduct,
+  getInventoryValuation,
+  getProductById,
+  increaseStock,
+  updateProduct,
+} from '../services/productService';
+import { listMovements } from '../services/stockMovementService';
+import { GET as valuationRoute } from '../app/api/reports/valuation/route';
+import { makeRequest } from './helpers';
+
+function tick() {
+  return new Promise((resolve) => setTimeout(resolve, 5));
+}
+
+describe('inventory valuation', () => {
+  const originalKeys = process.env.API_KEYS;
+  const originalCurrency = process.env.INVENTORY_CURRENCY;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'viewer-1:viewer:viewer-key';
+    process.env.INVENTORY_CURRENCY = 'eur';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    process.env.INVENTORY_CURRENCY = originalCurrency;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('takes the cost of goods from the oldest receipts under FIFO', async () => {
+    const { id } = await createProduct({ name: 'Copper wire', stock_quantity: 10, unit_cost: 100, costing_method: 'fifo' });
+    const productId = id as string;
+    await increaseStock(productId, 5, {}, undefined, undefined, 130);
+
+    await decreaseStock(productId, 12);
+    expect((await listMovements(productId)).items.find((m) => m.delta === -12)).toMatchObject({ value_delta: -1260, value_after: 390 });
+    expect(await getProductById(productId)).toMatchObject({
+      inventory_value: 390,
+      unit_cost: 130,
+      cost_layers: [expect.objectContaining({ quantity: 3, unit_cost: 130 })],
+    });
+
+    // A receipt without a cost is valued at the latest receipt cost
+    await increaseStock(productId, 2);
+    expect((await listMovements(productId)).items.find((m) => m.delta === 2)).toMatchObject({ unit_cost: 130, value_delta: 260, value_after: 650 });
+    await expect(increaseStock(productId, 1, {}, undefined, undefined, 1.5)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('values decreases at the weighted-average cost, rounding halves up', async () => {
+    const { id } = await createProduct({ name: 'Resistor', stock_quantity: 1, unit_cost: 2 });
+    const productId = id as string;
+    await increaseStock(productId, 1, {}, undefined, undefined, 3);
+    expect(await getProductById(productId)).toMatchObject({ costing_method: 'average', inventory_value: 5, unit_cost: 3 });
+
+    await decreaseStock(productId, 1);
+    expect((await listMovements(productId)).items.find((m) => m.delta === -1)).toMatchObject({ value_delta: -3, value_after: 2 });
+
+    await increaseStock(productId, 3, {}, undefined, undefined, 4);
+    await applyStockAdjustments([
+      { productId, delta: -2 },
+      { productId, delta: -2 },
+    ]);
+    // The last units out take whatever value is left
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 0, inventory_value: 0 });
+    const deltas = (await listMovements(productId)).items.map((m) => m.value_delta as number);
+    expect(deltas.sort((x, y) => x - y)).toEqual([-7, -7, -3, 2, 3, 12]);
+  });
+
+  it('keeps the value when the costing method changes', async () => {
+    const { id } = await createProduct({ name: 'Solder', stock_quantity: 0 });
+    const productId = id as string;
+    await increaseStock(productId, 2, {}, undefined, undefined, 3);
+    await increaseStock(productId, 1, {}, undefined, undefined, 4);
+
+    const fifo = await updateProduct(productId, { costing_method: 'fifo' });
+    expect(fifo).toMatchObject({ inventory_value: 10, cost_layers: [expect.objectContaining({ quantity: 2, unit_cost: 3 }), expect.objectContaining({ quantity: 1, unit_cost: 4 })] });
+
+    await updateProduct(productId, { stock_quantity: 5, unit_cost: 10 });
+    await decreaseStock(productId, 3);
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 2, inventory_value: 20 });
+
+    const average = await updateProduct(productId, { costing_method: 'average' });
+    expect(average).toMatchObject({ inventory_value: 20, unit_cost: 10, cost_layers: [] });
+  });
+
+  it('reports the value now and as of an earlier time', async () => {
+    const a = await createProduct({ name: 'Bolts', sku: 'B-1', stock_quantity: 10, unit_cost: 50 });
+    const b = await createProduct({ name: 'Nuts', stock_quantity: 4, unit_cost: 25, costing_method: 'fifo' });
+    await createProduct({ name: 'Washers', stock_quantity: 0, unit_cost: 5 });
+    await tick();
+    const before = new Date().toISOString();
+    await tick();
+    await decreaseStock(a.id as string, 4);
+    await increaseStock(b.id as string, 4, {}, undefined, undefined, 30);
+    const c = await createProduct({ name: 'Screws', stock_quantity: 1, unit_cost: 10 });
+    await deleteProduct(c.id as string);
+
+    expect(await getInventoryValuation()).toMatchObject({
+      currency: 'EUR',
+      total_quantity: 14,
+      total_value: 520,
+      items: [
+        { productId: a.id, name: 'Bolts', sku: 'B-1', costing_method: 'average', quantity: 6, value: 300, unit_cost: 50 },
+        { productId: b.id, name: 'Nuts', costing_method: 'fifo', quantity: 8, value: 220, unit_cost: 28 },
+      ],
+    });
+    expect(await getInventoryValuation(before)).toMatchObject({
+      asOf: before,
+      total_value: 600,
+      items: [{ name: 'Bolts', quantity: 10, value: 500 }, { name: 'Nuts', quantity: 4, value: 100 }],
+    });
+
+    const request = (query: string) => makeRequest(`/api/reports/valuation${query}`, { key: 'viewer-key' });
+    const res = await valuationRoute(request(`?asOf=${new Date().toISOString().slice(0, 10)}`));
+    expect(await res.json()).toMatchObject({ total_value: 520 });
+    expect((await valuationRoute(request('?asOf=2999-01-01'))).status).toBe(400);
+    expect((await valuationRoute(request('?asOf=yesterday'))).status).toBe(400);
+  });
+});
@@ -0,0 +1,113 @@
+// src/tests/memoryRepository.test.ts
+import { MemoryRepository } from '../repositories';
+
+describe('MemoryRepository', () => {
+  let repo: MemoryRepository;
+
+  beforeEach(() => {
+    repo = new MemoryRepository();
+  });
+
+  it('stores copies of documents', async () => {
+    const ref = repo.collection('things').doc('a');
+    const data = { id: 'a', tags: ['x'] };
+    await ref.set(data);
+    data.tags.push('y');
+
+    const snap = await ref.get();
+    expect(snap.exists).toBe(true);
+    expect(snap.data()).toEqual({ id: 'a', tags: ['x'] });
+    snap.data<{ tags: string[] }>()!.tags.push('z');
+    expect((await ref.get()).data()).toEqual({ id: 'a', tags: ['x'] });
+  });
+
+  it('enforces create / update preconditions and rejects undefined values', async () => {
+    const ref = repo.collection('things').doc('a');
+    await expect(ref.update({ n: 1 })).rejects.toThrow('No document to update');
+    await ref.create({ n: 1, nested: { a: 1, b: 2 } });
+    await expect(ref.create({ n: 2 })).rejects.toThrow('Document already exists');
+    await ref.update({ n: 2, 'nested.b': 3 });
+    expect((await ref.get()).data()).toEqual({ n: 2, nested: { a: 1, b: 3 } });
+    await expect(ref.set({ n: undefined })).rejects.toThrow('Cannot use undefined');
+    await ref.delete();
+    expect((await ref.get()).exists).toBe(false);
+  });
+
+  it('filters, orders, paginates and skips documents missing the ordered field', async () => {
+    const col = repo.collection('items');
+    await col.doc('a').set({ id: 'a', name: 'apple', qty: 5 });
+    await col.doc('b').set({ id: 'b', name: 'banana', qty: 1 });
+    await col.doc('c').set({ id: 'c', name: 'cherry', qty: 5 });
+    await col.doc('d').set({ id: 'd', name: 'date' });
+
+    const byQty = await col.orderBy('qty', 'desc').orderBy('id', 'desc').get();
+    expect(byQty.docs.map((d) => d.id)).toEqual(['c', 'a', 'b']);
+
+    const page = await col.orderBy('qty', 'desc').orderBy('id', 'desc').startAfter(5, 'c').limit(1).get();
+    expect(page.docs.map((d) => d.id)).toEqual(['a']);
+
+    const prefix = await col.where('name', '>=', 'b').where('name', '<', 'c').get();
+    expect(prefix.docs.map((d) => d.id)).toEqual(['b']);
+
+    const withQty = await col.where('qty', '!=', null).get();
+    expect(withQty.size).toBe(3);
+    expect((await col.where('qty', 'in', [1, 2]).get()).docs.map((d) => d.id)).toEqual(['b']);
+  });
+
+  it('applies transaction writes atomically and only on success', async () => {
+    const ref = repo.collection('counters').doc('c');
+    await ref.set({ n: 1 });
+
+    await expect(
+      repo.runTransaction(async (tx) => {
+        tx.update(ref, { n: 2 });
+        tx.create(ref, { n: 3 }); // fails at commit: the document exists
+      })
+    ).rejects.toThrow('Document already exists');
+    expect((await ref.get()).data()).toEqual({ n: 1 });
+
+    await expect(
+      repo.runTransaction(async (tx) => {
+        tx.update(ref, { n: 2 });
+        throw new Error('boom');
+      })
+    ).rejects.toThrow('boom');
+    expect((await ref.get()).data()).toEqual({ n: 1 });
+  });
+
+  it('rejects reads after writes inside a transaction', async () => {
+    const ref = repo.collection('counters').doc('c');
+    await ref.set({ n: 1 });
+    await expect(
+      repo.runTransaction(async (tx) => {
+        tx.update(ref, { n: 2 });
+        await tx.get(ref);
+      })
+    ).rejects.toThrow('all reads to be executed before all writes');
+  });
+
+  it('serializes concurrent transactions so read-modify-write does not lose updates', async () => {
+    const ref = repo.collection('counters').doc('c');
+    await ref.set({ n: 0 });
+    await Promise.all(
+      Array.from({ length: 20 }, () =>
+        repo.runTransaction(async (tx) => {
+          const snap = await tx.get(ref);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+          tx.update(ref, { n: snap.data<{ n: number }>()!.n + 1 });
+        })
+      )
+    );
+    expect((await ref.get()).data()).toEqual({ n: 20 });
+  });
+
+  it('commits batches all-or-nothing', async () => {
+    const col = repo.collection('things');
+    await col.doc('a').set({ n: 1 });
+    const batch = repo.batch();
+    batch.set(col.doc('b'), { n: 2 });
+    batch.create(col.doc('a'), { n: 3 });
+    await expect(batch.commit()).rejects.toThrow('Document already exists');
+    expect((await col.doc('b').get()).exists).toBe(false);
+  });
+});
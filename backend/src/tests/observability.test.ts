@@ -0,0 +1,108 @@
+// src/tests/observability.test.ts
+// Request ids, structured log lines and the Prometheus metrics endpoint.
+import { MemoryRepository, setRepository } from '../repositories';
+import { GET as getProduct } from '../app/api/products/[id]/route';
+import { POST as decreaseStock } from '../app/api/products/[id]/decrease/route';
+import { GET as getMetrics } from '../app/api/metrics/route';
+import { createProduct } from '../services/productService';
+import { logger } from '../lib/logger';
+import { resetMetrics } from '../lib/metrics';
+import { runWithRequestContext } from '../lib/requestContext';
+import { makeRequest, routeParams } from './helpers';
+
+const CLERK_KEY = 'clerk-key';
+
+function loggedLines(spy: jest.SpyInstance) {
+  return spy.mock.calls.map(([line]) => JSON.parse(line as string));
+}
+
+describe('logging and metrics', () => {
+  const originalKeys = process.env.API_KEYS;
+  const originalLevel = process.env.LOG_LEVEL;
+  let info: jest.SpyInstance;
+
+  beforeAll(() => {
+    process.env.API_KEYS = `scanner:clerk:${CLERK_KEY}`;
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+    resetMetrics();
+    info = jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    process.env.LOG_LEVEL = originalLevel;
+    jest.restoreAllMocks();
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+  });
+
+  it('writes JSON lines stamped with the current request id', () => {
+    runWithRequestContext({ requestId: 'req-1', method: 'GET', route: '/api/health' }, () => {
+      logger.info('Inside', { productId: 'p1', err: new Error('boom') });
+    });
+    logger.info('Outside');
+    process.env.LOG_LEVEL = 'warn';
+    logger.info('Hidden');
+
+    const [inside, outside] = loggedLines(info);
+    expect(inside).toMatchObject({ level: 'info', msg: 'Inside', requestId: 'req-1', route: '/api/health', productId: 'p1' });
+    expect(inside.err).toMatchObject({ name: 'Error', message: 'boom' });
+    expect(outside.requestId).toBeUndefined();
+    expect(info).toHaveBeenCalledTimes(2);
+  });
+
+  it('accepts or generates X-Request-Id and logs every line of the request with it', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 1 });
+
+    const res = await decreaseStock(
+      makeRequest(`/api/products/${id}/decrease`, {
+        method: 'POST',
+        key: CLERK_KEY,
+        body: { amount: 5 },
+        headers: { 'x-request-id': 'abc-123' },
+      }),
+      routeParams(id as string)
+    );
+    expect(res.status).toBe(400);
+    expect(res.headers.get('x-request-id')).toBe('abc-123');
+    const lines = loggedLines(info);
+    expect(lines.map((l) => l.msg)).toEqual(['Handled error: Insufficient stock', 'Request completed']);
+    expect(lines.every((l) => l.requestId === 'abc-123' && l.route === '/api/products/:id/decrease')).toBe(true);
+    expect(lines[1]).toMatchObject({ method: 'POST', status: 400, durationMs: expect.any(Number) });
+
+    const generated = await getProduct(
+      makeRequest(`/api/products/${id}`, { key: CLERK_KEY, headers: { 'x-request-id': 'bad id\n' } }),
+      routeParams(id as string)
+    );
+    expect(generated.headers.get('x-request-id')).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('exposes per-route request metrics and stock-operation counters', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 3 });
+    const decrease = () =>
+      decreaseStock(
+        makeRequest(`/api/products/${id}/decrease`, { method: 'POST', key: CLERK_KEY, body: { amount: 2 } }),
+        routeParams(id as string)
+      );
+    await decrease();
+    await decrease();
+    await getProduct(makeRequest('/api/products/missing', { key: CLERK_KEY }), routeParams('missing'));
+
+    const res = await getMetrics(makeRequest('/api/metrics', { key: CLERK_KEY }));
+    expect(res.headers.get('content-type')).toContain('text/plain; version=0.0.4');
+    const text = await res.text();
+    expect(text).toContain('# TYPE http_requests_total counter');
+    expect(text).toContain('http_requests_total{route="/api/products/:id/decrease",method="POST",status="200"} 1');
+    expect(text).toContain('http_requests_total{route="/api/products/:id/decrease",method="POST",status="400"} 1');
+    expect(text).toContain('http_request_errors_total{route="/api/products/:id",method="GET",kind="client"} 1');
+    expect(text).toContain('http_request_duration_seconds_count{route="/api/products/:id/decrease",method="POST"} 2');
+    expect(text).toContain('http_request_duration_seconds_bucket{route="/api/products/:id/decrease",method="POST",le="+Inf"} 2');
+    expect(text).toContain('stock_operations_total{operation="decrease",outcome="success"} 1');
+    expect(text).toContain('stock_operations_total{operation="decrease",outcome="rejected"} 1');
+  });
+});
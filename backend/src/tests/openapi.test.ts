@@ -0,0 +1,89 @@
+// src/tests/openapi.test.ts
+// The OpenAPI document must describe every route under src/app/api, and nothing else.
+import fs from 'fs';
+import path from 'path';
+import { GET as getOpenApi } from '../app/api/openapi.json/route';
+import { buildOpenApiDocument, openApiPath } from '../lib/openapi';
+import { makeRequest } from './helpers';
+
+const API_DIR = path.join(__dirname, '..', 'app', 'api');
+
+/**
+ * Every exported handler of every route.ts, as "method /api/path/{param}".
+ * Also collects handlers whose instrumentRoute pattern does not match their file path.
+ */
+function implementedOperations(mislabelled: string[] = []): string[] {
+  const operations: string[] = [];
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const full = path.join(dir, entry.name);
+      if (entry.isDirectory()) walk(full);
+      else if (entry.name === 'route.ts') {
+        const route = ('/api/' + path.relative(API_DIR, dir).split(path.sep).join('/')).replace(/\[(\w+)\]/g, ':$1');
+        const source = fs.readFileSync(full, 'utf8');
+        for (const [, pattern] of source.matchAll(/instrumentRoute\('([^']*)'/g)) {
+          if (pattern !== route) mislabelled.push(`${pattern} in ${route}`);
+        }
+        for (const [, method] of source.matchAll(/export (?:const|async function) (GET|POST|PUT|PATCH|DELETE)\b/g)) {
+          operations.push(`${method.toLowerCase()} ${openApiPath(route)}`);
+        }
+      }
+    }
+  };
+  walk(API_DIR);
+  return operations.sort();
+}
+
+function documentedOperations(): string[] {
+  const paths = buildOpenApiDocument().paths as Record<string, Record<string, unknown>>;
+  return Object.entries(paths)
+    .flatMap(([p, methods]) => Object.keys(methods).map((method) => `${method} ${p}`))
+    .sort();
+}
+
+describe('OpenAPI document', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  afterAll(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('describes exactly the implemented routes', () => {
+    const mislabelled: string[] = [];
+    const implemented = implementedOperations(mislabelled);
+    expect(implemented.length).toBeGreaterThan(40);
+    expect(documentedOperations()).toEqual(implemented);
+    // Metrics and logs label requests with the pattern given to instrumentRoute
+    expect(mislabelled).toEqual([]);
+  });
+
+  it('is served with request bodies and query parameters generated from the schemas', async () => {
+    const res = await getOpenApi(makeRequest('/api/openapi.json'));
+    expect(res.status).toBe(200);
+    const doc = await res.json();
+    expect(doc.openapi).toBe('3.1.0');
+
+    const create = doc.paths['/api/products'].post;
+    expect(create.requestBody.content['application/json'].schema).toMatchObject({
+      type: 'object',
+      required: ['name', 'stock_quantity'],
+      properties: {
+        stock_quantity: { anyOf: [{ type: 'integer', minimum: 0 }, { type: 'object', required: ['amount'] }] },
+      },
+    });
+    expect(create.parameters.map((p: { name: string }) => p.name)).toContain('Idempotency-Key');
+    expect(create.security).toEqual([{ apiKey: [] }, { bearerAuth: [] }]);
+
+    const list = doc.paths['/api/products'].get;
+    expect(list.parameters).toContainEqual({
+      name: 'sort',
+      in: 'query',
+      required: false,
+      schema: { type: 'string', enum: ['name', 'stock_quantity', 'updatedAt', 'createdAt'] },
+    });
+    expect(doc.paths['/api/products/{id}/increase'].post.parameters[0]).toMatchObject({ name: 'id', in: 'path', required: true });
+    expect(doc.components.schemas.Problem.properties.code.enum).toContain('INSUFFICIENT_STOCK');
+  });
+});
@@ -0,0 +1,172 @@
+// src/tests/productLots.test.ts
+// Lots, expiry dates and FEFO consumption, against the in-memory repository.
+import { getRepository, MemoryRepository, setRepository } from '../repositories';
+import { today } from '../lib/lots';
+import {
+  applyStockAdjustments,
+  createProduct,
+  decreaseStock,
+  getProductById,
+  increaseStock,
+  listExpiringLots,
+  updateProduct,
+} from '../services/productService';
+import { commitReservation, createReservation, getReservation } from '../services/reservationService';
+import { listMovements } from '../services/stockMovementService';
+import { GET as expiringRoute } from '../app/api/products/expiring/route';
+import { POST as increaseRoute } from '../app/api/products/[id]/increase/route';
+import { makeRequest, routeParams } from './helpers';
+
+const KEY = 'clerk-key';
+
+function inDays(days: number) {
+  return today(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+}
+
+describe('lots and expiry dates', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = `clerk-1:clerk:${KEY}`;
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('consumes lots first-expiry-first-out, then untracked stock', async () => {
+    const { id } = await createProduct({ name: 'Yoghurt', stock_quantity: 2 });
+    const productId = id as string;
+    await increaseStock(productId, 5, {}, undefined, { lotNumber: 'A', expiresAt: inDays(10) });
+    await increaseStock(productId, 3, {}, undefined, { lotNumber: 'B', expiresAt: inDays(5) });
+    await increaseStock(productId, 4, {}, undefined, { lotNumber: 'C' });
+    await increaseStock(productId, 1, {}, undefined, { lotNumber: 'A' });
+    await expect(increaseStock(productId, 1, {}, undefined, { lotNumber: 'A', expiresAt: inDays(11) })).rejects.toMatchObject({
+      status: 409,
+      code: 'LOT_EXPIRY_MISMATCH',
+    });
+
+    await decreaseStock(productId, 4);
+    expect((await listMovements(productId)).items.find((m) => m.delta === -4)?.lots).toEqual([
+      { lotNumber: 'B', delta: -3 },
+      { lotNumber: 'A', delta: -1 },
+    ]);
+    await decreaseStock(productId, 2, {}, undefined, 'C');
+    await expect(decreaseStock(productId, 1, {}, undefined, 'Z')).rejects.toMatchObject({ status: 404, code: 'LOT_NOT_FOUND' });
+    await expect(decreaseStock(productId, 3, {}, undefined, 'C')).rejects.toMatchObject({ status: 400, code: 'INSUFFICIENT_STOCK' });
+
+    const product = await getProductById(productId);
+    expect(product).toMatchObject({ stock_quantity: 9, next_expiry: inDays(10), expired_quantity: 0, available_quantity: 9 });
+    expect(product.lots?.map((l) => [l.lotNumber, l.quantity])).toEqual([
+      ['A', 5],
+      ['C', 2],
+    ]);
+
+    await decreaseStock(productId, 6);
+    expect((await getProductById(productId)).lots).toEqual([expect.objectContaining({ lotNumber: 'C', quantity: 1 })]);
+    // Setting the stock takes units out of lots the same way
+    await updateProduct(productId, { stock_quantity: 1 });
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 1, lots: [], next_expiry: null });
+  });
+
+  it('keeps expired lots out of sellable stock until they are written off', async () => {
+    const { id } = await createProduct({ name: 'Milk', stock_quantity: 0, low_stock_threshold: 1 });
+    const productId = id as string;
+    await increaseStock(productId, 4, {}, undefined, { lotNumber: 'OLD', expiresAt: inDays(-1) });
+    await increaseStock(productId, 3, {}, undefined, { lotNumber: 'NEW', expiresAt: inDays(3) });
+
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 7, expired_quantity: 4, available_quantity: 3 });
+    await expect(decreaseStock(productId, 4)).rejects.toMatchObject({ status: 400, code: 'INSUFFICIENT_STOCK' });
+    await expect(createReservation(productId, 4)).rejects.toMatchObject({ status: 409, code: 'INSUFFICIENT_STOCK' });
+    await expect(decreaseStock(productId, 1, {}, undefined, 'OLD')).rejects.toMatchObject({ status: 409, code: 'LOT_EXPIRED' });
+
+    const reservation = await createReservation(productId, 3);
+    await decreaseStock(productId, 4, { reason: 'damage' }, undefined, 'OLD');
+    await commitReservation(reservation.id);
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 0, lots: [], next_expiry: null });
+  });
+
+  it('keeps lots in step with bulk adjustments', async () => {
+    const { id } = await createProduct({ name: 'Cheese', stock_quantity: 1 });
+    const productId = id as string;
+    await increaseStock(productId, 2, {}, undefined, { lotNumber: 'L1', expiresAt: inDays(-2) });
+    await increaseStock(productId, 2, {}, undefined, { lotNumber: 'L2', expiresAt: inDays(2) });
+
+    await applyStockAdjustments([
+      { productId, delta: -2 },
+      { productId, delta: -1 },
+    ]);
+    const product = await getProductById(productId);
+    expect(product.lots).toEqual([expect.objectContaining({ lotNumber: 'L1', quantity: 2 })]);
+    expect(product).toMatchObject({ stock_quantity: 2, available_quantity: 0 });
+    // Expired units are not sellable stock
+    await expect(applyStockAdjustments([{ productId, delta: -1 }])).rejects.toMatchObject({ code: 'STOCK_ADJUSTMENT_REJECTED' });
+  });
+
+  it('never lets holds end up backed by expired units', async () => {
+    const { id } = await createProduct({ name: 'Yogurt', stock_quantity: 3 });
+    const productId = id as string;
+    await increaseStock(productId, 4, {}, undefined, { lotNumber: 'Y1', expiresAt: inDays(-1) });
+    await increaseStock(productId, 2, {}, undefined, { lotNumber: 'Y2', expiresAt: inDays(4) });
+    const hold = await createReservation(productId, 2);
+
+    // 5 sellable units, 2 of them held
+    await expect(applyStockAdjustments([{ productId, delta: -4 }])).rejects.toMatchObject({ code: 'STOCK_ADJUSTMENT_REJECTED' });
+    await applyStockAdjustments([{ productId, delta: -3 }]);
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 6, reserved_quantity: 2, available_quantity: 0 });
+
+    // A lapsed hold gives its units back to a bulk adjustment
+    await getRepository().collection('reservations').doc(hold.id).update({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+    await applyStockAdjustments([{ productId, delta: -1 }]);
+    expect((await getReservation(hold.id)).status).toBe('expired');
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 5, reserved_quantity: 0, available_quantity: 1 });
+
+    // A lot that expires between the hold and the commit cannot be shipped
+    const kefir = await createProduct({ name: 'Kefir', stock_quantity: 0 });
+    await increaseStock(kefir.id as string, 2, {}, undefined, { lotNumber: 'K1', expiresAt: inDays(3) });
+    const second = await createReservation(kefir.id as string, 2);
+    const { lots } = await getProductById(kefir.id as string);
+    const backdated = (lots ?? []).map((lot) => ({ ...lot, expiresAt: inDays(-1) }));
+    await getRepository().collection('products').doc(kefir.id as string).update({ lots: backdated });
+    await expect(commitReservation(second.id)).rejects.toMatchObject({ status: 409, code: 'INSUFFICIENT_STOCK' });
+    expect((await getProductById(kefir.id as string)).stock_quantity).toBe(2);
+  });
+
+  it('reports lots expiring within a window', async () => {
+    const a = await createProduct({ name: 'Bread', sku: 'BR-1', stock_quantity: 0 });
+    const b = await createProduct({ name: 'Eggs', stock_quantity: 0 });
+    await increaseStock(a.id as string, 2, {}, undefined, { lotNumber: 'B1', expiresAt: inDays(2) });
+    await increaseStock(a.id as string, 2, {}, undefined, { lotNumber: 'B2', expiresAt: inDays(40) });
+    await increaseStock(b.id as string, 6, {}, undefined, { lotNumber: 'E1', expiresAt: inDays(-3) });
+    await increaseStock(b.id as string, 1, {}, undefined, { lotNumber: 'E2' });
+
+    expect(await listExpiringLots(7)).toEqual([
+      { productId: b.id, name: 'Eggs', lotNumber: 'E1', expiresAt: inDays(-3), quantity: 6, days_left: -3, expired: true },
+      { productId: a.id, name: 'Bread', sku: 'BR-1', lotNumber: 'B1', expiresAt: inDays(2), quantity: 2, days_left: 2, expired: false },
+    ]);
+    expect((await listExpiringLots(60)).map((l) => l.lotNumber)).toEqual(['E1', 'B1', 'B2']);
+    await expect(listExpiringLots(400)).rejects.toMatchObject({ status: 400 });
+  });
+
+  it('receives lots and serves the report over HTTP', async () => {
+    const { id } = await createProduct({ name: 'Butter', stock_quantity: 0 });
+    const request = (path: string, body?: unknown) => makeRequest(path, { method: body === undefined ? 'GET' : 'POST', key: KEY, body });
+    const params = routeParams(id as string);
+
+    const received = await increaseRoute(request(`/api/products/${id}/increase`, { amount: 2, lotNumber: 'BT-7', expiresAt: inDays(1) }), params);
+    expect(await received.json()).toEqual({ id, stock_quantity: 2 });
+    const invalid = await increaseRoute(request(`/api/products/${id}/increase`, { amount: 2, expiresAt: inDays(1) }), params);
+    expect(invalid.status).toBe(400);
+
+    const res = await expiringRoute(request('/api/products/expiring?withinDays=3'));
+    expect(await res.json()).toEqual({ items: [expect.objectContaining({ lotNumber: 'BT-7', days_left: 1 })] });
+    expect((await expiringRoute(request('/api/products/expiring?withinDays=-1'))).status).toBe(400);
+  });
+});
@@ -0,0 +1,128 @@
+// src/tests/productRoutes.test.ts
+// Exercises the App Router handlers end to end against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import { GET as listProducts, POST as createProduct } from '../app/api/products/route';
+import { DELETE as deleteProduct, GET as getProduct, PUT as updateProduct } from '../app/api/products/[id]/route';
+import { POST as increaseStock } from '../app/api/products/[id]/increase/route';
+import { makeRequest, routeParams } from './helpers';
+
+const KEYS = { viewer: 'viewer-key', clerk: 'clerk-key', manager: 'manager-key' };
+
+describe('product routes', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = Object.entries(KEYS)
+      .map(([role, key]) => `${role}-client:${role}:${key}`)
+      .join(',');
+    // handleError logs every handled error; keep the test output readable
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('requires credentials and a sufficient role', async () => {
+    expect((await listProducts(makeRequest('/api/products'))).status).toBe(401);
+    expect((await listProducts(makeRequest('/api/products', { key: 'nope' }))).status).toBe(401);
+
+    const denied = await createProduct(
+      makeRequest('/api/products', { method: 'POST', key: KEYS.clerk, body: { name: 'Widget', stock_quantity: 1 } })
+    );
+    expect(denied.status).toBe(403);
+  });
+
+  it('creates, lists and restocks products', async () => {
+    const created = await createProduct(
+      makeRequest('/api/products', { method: 'POST', key: KEYS.manager, body: { name: 'Widget', stock_quantity: 4 } })
+    );
+    expect(created.status).toBe(201);
+    const product = await created.json();
+
+    const body = { amount: 6, reference: 'PO-7' };
+    const headers = { 'idempotency-key': 'restock-1' };
+    const first = await increaseStock(
+      makeRequest(`/api/products/${product.id}/increase`, { method: 'POST', key: KEYS.clerk, body, headers }),
+      routeParams(product.id)
+    );
+    const retry = await increaseStock(
+      makeRequest(`/api/products/${product.id}/increase`, { method: 'POST', key: KEYS.clerk, body, headers }),
+      routeParams(product.id)
+    );
+    expect(first.status).toBe(200);
+    expect(await retry.json()).toEqual(await first.json());
+    // The same key from another caller is a request of its own
+    const other = await increaseStock(
+      makeRequest(`/api/products/${product.id}/increase`, { method: 'POST', key: KEYS.manager, body, headers }),
+      routeParams(product.id)
+    );
+    expect(await other.json()).toMatchObject({ stock_quantity: 16 });
+
+    const list = await listProducts(makeRequest('/api/products?sort=name', { key: KEYS.viewer }));
+    const page = await list.json();
+    expect(page.items).toHaveLength(1);
+    expect(page.items[0]).toMatchObject({ name: 'Widget', stock_quantity: 16 });
+  });
+
+  it('rejects invalid input with 400', async () => {
+    const res = await createProduct(
+      makeRequest('/api/products', { method: 'POST', key: KEYS.manager, body: { name: '', stock_quantity: -1 } })
+    );
+    expect(res.status).toBe(400);
+  });
+
+  it('supports conditional GET, PUT and DELETE with ETags', async () => {
+    const created = await createProduct(
+      makeRequest('/api/products', { method: 'POST', key: KEYS.manager, body: { name: 'Widget', stock_quantity: 1 } })
+    );
+    const { id } = await created.json();
+
+    const fetched = await getProduct(makeRequest(`/api/products/${id}`, { key: KEYS.viewer }), routeParams(id));
+    const etag = fetched.headers.get('etag') as string;
+    expect(etag).toBe('"1"');
+    const cached = await getProduct(
+      makeRequest(`/api/products/${id}`, { key: KEYS.viewer, headers: { 'if-none-match': etag } }),
+      routeParams(id)
+    );
+    expect(cached.status).toBe(304);
+
+    const updated = await updateProduct(
+      makeRequest(`/api/products/${id}`, { method: 'PUT', key: KEYS.manager, body: { name: 'Gadget' }, headers: { 'if-match': etag } }),
+      routeParams(id)
+    );
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get('etag')).toBe('"2"');
+
+    // A second editor still holding the old ETag is refused
+    const stale = await updateProduct(
+      makeRequest(`/api/products/${id}`, { method: 'PUT', key: KEYS.manager, body: { name: 'Gizmo' }, headers: { 'if-match': etag } }),
+      routeParams(id)
+    );
+    expect(stale.status).toBe(412);
+    const staleDelete = await deleteProduct(
+      makeRequest(`/api/products/${id}`, { method: 'DELETE', key: KEYS.manager, headers: { 'if-match': etag } }),
+      routeParams(id)
+    );
+    expect(staleDelete.status).toBe(412);
+
+    // Stock changes bump the version too, so cached copies are invalidated
+    await increaseStock(
+      makeRequest(`/api/products/${id}/increase`, { method: 'POST', key: KEYS.clerk, body: { amount: 1 } }),
+      routeParams(id)
+    );
+    const refetched = await getProduct(
+      makeRequest(`/api/products/${id}`, { key: KEYS.viewer, headers: { 'if-none-match': '"2"' } }),
+      routeParams(id)
+    );
+    expect(refetched.status).toBe(200);
+    expect(refetched.headers.get('etag')).toBe('"3"');
+    expect((await refetched.json()).name).toBe('Gadget');
+  });
+});
@@ -0,0 +1,139 @@
+// src/tests/productSearch.test.ts
+// Categories, tags and full-text search, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import { ProductSearchIndex, tokenize } from '../lib/searchIndex';
+import {
+  createProduct,
+  createVariant,
+  decreaseStock,
+  deleteProduct,
+  importProducts,
+  searchProducts,
+  updateProduct,
+} from '../services/productService';
+import { createCategory, deleteCategory, listCategories, updateCategory } from '../services/categoryService';
+import { GET as searchRoute } from '../app/api/products/search/route';
+import { makeRequest } from './helpers';
+
+describe('ProductSearchIndex', () => {
+  it('matches exact terms, prefixes and typos, best first', () => {
+    expect(tokenize('Café Crème, 250-G')).toEqual(['cafe', 'creme', '250', 'g']);
+
+    const index = new ProductSearchIndex();
+    const product = (id: string, name: string, extra = {}) => ({ id, name, stock_quantity: 0, createdAt: '', updatedAt: '', ...extra });
+    index.upsert(product('a', 'Hammer', { description: 'Claw hammer with wooden handle' }));
+    index.upsert(product('b', 'Screwdriver set', { sku: 'SD-100', tags: ['hand tools'] }));
+    index.upsert(product('c', 'Wooden spoon', { tags: ['kitchen'] }));
+
+    expect(index.search('hammer').map((m) => m.id)).toEqual(['a']);
+    expect(index.search('screw').map((m) => m.id)).toEqual(['b']);
+    expect(index.search('hamer').map((m) => m.id)).toEqual(['a']);
+    expect(index.search('sd-100').map((m) => m.id)).toEqual(['b']);
+    expect(index.search('tools hand').map((m) => m.id)).toEqual(['b']);
+    // Name matches rank above description matches
+    expect(index.search('wooden').map((m) => m.id)).toEqual(['c', 'a']);
+    expect(index.search('wooden kitchen').map((m) => m.id)).toEqual(['c']);
+
+    index.remove('c');
+    expect(index.search('wooden').map((m) => m.id)).toEqual(['a']);
+    index.upsert(product('a', 'Hammer', { deletedAt: '2026-01-01T00:00:00.000Z' }));
+    expect(index.size).toBe(1);
+  });
+});
+
+describe('categories and search', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'viewer-1:viewer:viewer-key';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the category tree consistent', async () => {
+    const tools = await createCategory({ name: 'Tools' });
+    const hand = await createCategory({ name: 'Hand tools', parentId: tools.id });
+    const saws = await createCategory({ name: 'Saws', parentId: hand.id });
+    expect(saws.path).toEqual(['Tools', 'Hand tools', 'Saws']);
+
+    await expect(createCategory({ name: 'hand TOOLS', parentId: tools.id })).rejects.toMatchObject({ code: 'CATEGORY_NAME_IN_USE' });
+    await expect(createCategory({ name: 'X', parentId: 'missing' })).rejects.toMatchObject({ status: 404, code: 'CATEGORY_NOT_FOUND' });
+    await expect(updateCategory(tools.id, { parentId: saws.id })).rejects.toMatchObject({ status: 409, code: 'CATEGORY_CYCLE' });
+
+    const moved = await updateCategory(saws.id, { parentId: null });
+    expect(moved.path).toEqual(['Saws']);
+    expect((await listCategories()).map((c) => c.path?.join(' / '))).toEqual(['Saws', 'Tools', 'Tools / Hand tools']);
+
+    await createProduct({ name: 'Bow saw', categoryId: saws.id, stock_quantity: 1 });
+    await expect(deleteCategory(saws.id)).rejects.toMatchObject({ code: 'CATEGORY_NOT_EMPTY' });
+    await expect(deleteCategory(tools.id)).rejects.toMatchObject({ code: 'CATEGORY_NOT_EMPTY' });
+    await expect(deleteCategory(hand.id)).resolves.toEqual({ id: hand.id });
+    await expect(createProduct({ name: 'Orphan', categoryId: hand.id, stock_quantity: 0 })).rejects.toMatchObject({
+      code: 'CATEGORY_NOT_FOUND',
+    });
+  });
+
+  it('filters by category subtree, tag and stock status', async () => {
+    const tools = await createCategory({ name: 'Tools' });
+    const saws = await createCategory({ name: 'Saws', parentId: tools.id });
+    await createProduct({ name: 'Bow saw', categoryId: saws.id, tags: ['Garden', 'garden '], stock_quantity: 1, low_stock_threshold: 5 });
+    await createProduct({ name: 'Tenon saw', categoryId: saws.id, tags: ['workshop'], stock_quantity: 0 });
+    await createProduct({ name: 'Saw horse', categoryId: tools.id, stock_quantity: 8 });
+    await createProduct({ name: 'Sawdust bag', stock_quantity: 3 });
+
+    const names = async (options: Parameters<typeof searchProducts>[0]) => (await searchProducts(options)).items.map((p) => p.name);
+    expect((await names({ q: 'saw' })).sort()).toEqual(['Bow saw', 'Saw horse', 'Sawdust bag', 'Tenon saw']);
+    expect((await names({ q: 'saw', categoryId: tools.id })).sort()).toEqual(['Bow saw', 'Saw horse', 'Tenon saw']);
+    expect(await names({ categoryId: saws.id, tag: 'GARDEN' })).toEqual(['Bow saw']);
+    expect(await names({ q: 'saw', stock: 'out_of_stock' })).toEqual(['Tenon saw']);
+    expect(await names({ q: 'saw', stock: 'low_stock' })).toEqual(['Bow saw']);
+    await expect(searchProducts({ categoryId: 'missing' })).rejects.toMatchObject({ status: 404 });
+
+    const first = await searchProducts({ q: 'saw', stock: 'in_stock', limit: 2 });
+    expect(first).toMatchObject({ total: 3, nextCursor: expect.any(String) });
+    const second = await searchProducts({ q: 'saw', stock: 'in_stock', limit: 2, cursor: first.nextCursor as string });
+    expect(second.items).toHaveLength(1);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('keeps the index in step with product writes', async () => {
+    const { id } = await createProduct({ name: 'Lantern', stock_quantity: 2 });
+    expect((await searchProducts({ q: 'lantern' })).total).toBe(1);
+
+    await updateProduct(id as string, { name: 'Camping lamp', tags: ['outdoor'] });
+    expect((await searchProducts({ q: 'lantern' })).total).toBe(0);
+    expect((await searchProducts({ q: 'outdor lamp' })).items.map((p) => p.id)).toEqual([id]);
+
+    // Stock is read fresh, not from the index
+    await decreaseStock(id as string, 2);
+    expect((await searchProducts({ q: 'lamp', stock: 'out_of_stock' })).total).toBe(1);
+
+    await importProducts([{ name: 'Lamp oil', sku: 'LO-1', tags: ['outdoor'], stock_quantity: 4 }]);
+    const { id: parentId } = await createProduct({ name: 'Tent', stock_quantity: 0 });
+    await createVariant(parentId as string, { attributes: { size: '2 person' }, stock_quantity: 1 });
+    expect((await searchProducts({ tag: 'outdoor' })).items.map((p) => p.name)).toEqual(['Camping lamp', 'Lamp oil']);
+    expect((await searchProducts({ q: 'tent', stock: 'in_stock' })).items.map((p) => p.name)).toEqual(['Tent', 'Tent (2 person)']);
+
+    await deleteProduct(id as string);
+    expect((await searchProducts({ q: 'lamp' })).items.map((p) => p.name)).toEqual(['Lamp oil']);
+  });
+
+  it('serves search results over HTTP', async () => {
+    await createProduct({ name: 'Bolt', sku: 'B-1', stock_quantity: 1 });
+    const request = (query: string) => makeRequest(`/api/products/search${query}`, { key: 'viewer-key' });
+
+    const res = await searchRoute(request('?q=bolt'));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ total: 1, items: [{ sku: 'B-1' }], nextCursor: null });
+    expect((await searchRoute(request('?stock=plenty'))).status).toBe(400);
+  });
+});
@@ -0,0 +1,192 @@
+// src/tests/productService.test.ts
+import { getRepository, MemoryRepository, setRepository } from '../repositories';
+import {
+  applyStockAdjustments,
+  createProduct,
+  decreaseStock,
+  deleteProduct,
+  getProductByBarcode,
+  getProductById,
+  getProductBySku,
+  importProducts,
+  increaseStock,
+  listLowStock,
+  listProducts,
+  purgeTrash,
+  resolveProductId,
+  updateProduct,
+} from '../services/productService';
+import { listMovements, MOVEMENTS_COLLECTION } from '../services/stockMovementService';
+import { createReservation, RESERVATIONS_COLLECTION } from '../services/reservationService';
+import { movementListQuerySchema } from '../lib/validate';
+import { HttpError } from '../utils/httpErrors';
+
+describe('productService', () => {
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('creates a product and records the opening stock', async () => {
+    const product = await createProduct({ name: 'Widget', stock_quantity: 10 }, { actor: 'tester' });
+    expect(product).toMatchObject({ name: 'Widget', stock_quantity: 10, reserved_quantity: 0, available_quantity: 10 });
+
+    const { items } = await listMovements(product.id as string);
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ reason: 'initial', delta: 10, quantity_before: 0, quantity_after: 10, actor: 'tester' });
+  });
+
+  it('increases and decreases stock with a movement per change', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5 });
+    await increaseStock(id as string, 3, { reference: 'PO-1' });
+    await decreaseStock(id as string, 6);
+    await expect(decreaseStock(id as string, 3)).rejects.toThrow('Insufficient stock');
+
+    expect((await getProductById(id as string)).stock_quantity).toBe(2);
+    const { items } = await listMovements(id as string);
+    expect(items.map((m) => m.delta).sort((x, y) => x - y)).toEqual([-6, 3, 5]);
+  });
+
+  it('replays an idempotent request instead of applying it twice', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5 });
+    const ctx = { key: 'k-1', scope: `products:increase:${id}`, fingerprint: 'f' };
+
+    const first = await increaseStock(id as string, 2, {}, ctx);
+    const second = await increaseStock(id as string, 2, {}, ctx);
+    expect(second).toEqual(first);
+    expect((await getProductById(id as string)).stock_quantity).toBe(7);
+
+    await expect(increaseStock(id as string, 2, {}, { ...ctx, fingerprint: 'other' })).rejects.toMatchObject({
+      status: 409,
+    });
+  });
+
+  it('pages through products with a stable cursor', async () => {
+    for (const name of ['delta', 'alpha', 'charlie', 'bravo', 'echo']) {
+      await createProduct({ name, stock_quantity: 1 });
+    }
+    const first = await listProducts({ sort: 'name', limit: 2 });
+    expect(first.items.map((p) => p.name)).toEqual(['alpha', 'bravo']);
+    const second = await listProducts({ sort: 'name', limit: 2, cursor: first.nextCursor as string });
+    expect(second.items.map((p) => p.name)).toEqual(['charlie', 'delta']);
+    const third = await listProducts({ sort: 'name', limit: 2, cursor: second.nextCursor as string });
+    expect(third.items.map((p) => p.name)).toEqual(['echo']);
+    expect(third.nextCursor).toBeNull();
+
+    await expect(listProducts({ sort: 'createdAt', cursor: first.nextCursor as string })).rejects.toThrow(
+      'Cursor does not match the requested sort'
+    );
+    expect((await listProducts({ namePrefix: 'ch' })).items.map((p) => p.name)).toEqual(['charlie']);
+  });
+
+  it('applies bulk adjustments all-or-nothing', async () => {
+    const a = await createProduct({ name: 'A', stock_quantity: 5 });
+    const b = await createProduct({ name: 'B', stock_quantity: 1 });
+
+    const err = await applyStockAdjustments([
+      { productId: a.id as string, delta: 2 },
+      { productId: b.id as string, delta: -2 },
+      { productId: 'missing', delta: 1 },
+    ]).catch((e) => e);
+    expect(err).toBeInstanceOf(HttpError);
+    expect(err.details.failures.map((f: { index: number; code: string }) => [f.index, f.code])).toEqual([
+      [1, 'INSUFFICIENT_STOCK'],
+      [2, 'PRODUCT_NOT_FOUND'],
+    ]);
+    expect((await getProductById(a.id as string)).stock_quantity).toBe(5);
+
+    const { results } = await applyStockAdjustments([
+      { productId: a.id as string, delta: -1 },
+      { productId: a.id as string, delta: -4 },
+      { productId: b.id as string, delta: 3 },
+    ]);
+    expect(results.map((r) => r.quantity_after)).toEqual([4, 0, 4]);
+    expect((await getProductById(a.id as string)).stock_quantity).toBe(0);
+  });
+
+  it('filters movements by time, whatever the precision of the bounds', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5 });
+    const { items } = await listMovements(id as string);
+    await getRepository().collection(MOVEMENTS_COLLECTION).doc(items[0].id).update({ createdAt: '2024-01-01T00:00:00.500Z' });
+
+    const within = movementListQuerySchema.parse({ from: '2024-01-01T00:00:00Z', to: '2024-01-01T00:00:00.5Z' });
+    expect(within).toEqual({ from: '2024-01-01T00:00:00.000Z', to: '2024-01-01T00:00:00.500Z' });
+    expect((await listMovements(id as string, within)).items).toHaveLength(1);
+    const after = movementListQuerySchema.parse({ from: '2024-01-01T00:00:00.501Z' });
+    expect((await listMovements(id as string, after)).items).toHaveLength(0);
+  });
+
+  it('records manual stock corrections and reports low stock', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 10, low_stock_threshold: 5 });
+    await createProduct({ name: 'Untracked', stock_quantity: 0 });
+    expect(await listLowStock()).toEqual([]);
+
+    await updateProduct(id as string, { stock_quantity: 4 }, { reason: 'damage' });
+    expect((await listLowStock()).map((p) => p.id)).toEqual([id]);
+    const { items } = await listMovements(id as string);
+    expect(items.find((m) => m.reason === 'damage')).toMatchObject({ delta: -6, quantity_after: 4 });
+  });
+
+  it('keeps held stock covered when a correction or import lowers it', async () => {
+    const { id } = await createProduct({ name: 'Widget', sku: 'W-1', stock_quantity: 10 });
+    const hold = await createReservation(id as string, 6);
+
+    const err = await updateProduct(id as string, { stock_quantity: 5 }).catch((e) => e);
+    expect(err).toMatchObject({ status: 400, code: 'INSUFFICIENT_STOCK', message: 'Stock would fall below the stock held by reservations' });
+    const report = await importProducts([{ name: 'Widget', sku: 'W-1', stock_quantity: 5 }], { upsert: true });
+    expect(report.errors).toEqual([{ row: 1, sku: 'W-1', error: 'Stock would fall below the stock held by reservations' }]);
+    expect(await getProductById(id as string)).toMatchObject({ stock_quantity: 10, reserved_quantity: 6 });
+
+    // A lapsed hold gives its units back first
+    await getRepository().collection(RESERVATIONS_COLLECTION).doc(hold.id).update({ expiresAt: '2024-01-01T00:00:00.000Z' });
+    await updateProduct(id as string, { stock_quantity: 5 });
+    expect(await getProductById(id as string)).toMatchObject({ stock_quantity: 5, reserved_quantity: 0, available_quantity: 5 });
+  });
+
+  it('enforces unique SKUs and barcodes and looks products up by them', async () => {
+    const a = await createProduct({ name: 'A', stock_quantity: 1, sku: 'WID-1', barcodes: ['4006381333931'] });
+    await expect(createProduct({ name: 'B', stock_quantity: 1, sku: 'wid-1' })).rejects.toMatchObject({ status: 409 });
+    await expect(createProduct({ name: 'B', stock_quantity: 1, barcodes: ['4006381333931'] })).rejects.toMatchObject({
+      status: 409,
+    });
+
+    expect((await getProductBySku('wid-1')).id).toBe(a.id);
+    expect((await getProductByBarcode('4006381333931')).id).toBe(a.id);
+    expect(await resolveProductId('WID-1')).toBe(a.id);
+    await expect(getProductBySku('nope')).rejects.toMatchObject({ status: 404 });
+
+    const b = await createProduct({ name: 'B', stock_quantity: 1, sku: 'WID-2' });
+    await expect(updateProduct(b.id as string, { sku: 'WID-1' })).rejects.toMatchObject({ status: 409 });
+
+    // Changing identifiers releases the old ones
+    await updateProduct(a.id as string, { sku: 'WID-9', barcodes: ['111'] });
+    await updateProduct(b.id as string, { sku: 'WID-1', barcodes: ['4006381333931'] });
+    expect((await getProductBySku('WID-1')).id).toBe(b.id);
+    expect((await getProductByBarcode('111')).id).toBe(a.id);
+
+    // A product in the trash keeps its identifiers until it is purged
+    await deleteProduct(b.id as string);
+    await expect(getProductBySku('WID-1')).rejects.toMatchObject({ status: 404 });
+    await expect(createProduct({ name: 'C', stock_quantity: 1, sku: 'WID-1' })).rejects.toMatchObject({ status: 409 });
+    await purgeTrash(new Date(Date.now() + 31 * 24 * 60 * 60 * 1000));
+    await createProduct({ name: 'C', stock_quantity: 1, sku: 'WID-1' });
+  });
+
+  it('accepts SKUs in bulk adjustment lines', async () => {
+    const a = await createProduct({ name: 'A', stock_quantity: 5, sku: 'A-1' });
+    const { results } = await applyStockAdjustments([
+      { sku: 'a-1', delta: 2 },
+      { productId: a.id as string, delta: -1 },
+    ]);
+    expect(results.map((r) => [r.productId, r.quantity_after])).toEqual([
+      [a.id, 7],
+      [a.id, 6],
+    ]);
+
+    const err = await applyStockAdjustments([{ sku: 'missing', delta: 1 }]).catch((e) => e);
+    expect(err.details.failures).toEqual([{ index: 0, sku: 'missing', code: 'PRODUCT_NOT_FOUND', error: 'Unknown SKU' }]);
+  });
+});
@@ -0,0 +1,172 @@
+// src/tests/productStream.test.ts
+// Product change events and the Server-Sent Events stream, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import {
+  applyStockAdjustments,
+  createProduct,
+  decreaseStock,
+  deleteProduct,
+  increaseStock,
+  updateProduct,
+} from '../services/productService';
+import { commitReservation, createReservation } from '../services/reservationService';
+import { streamProductEvents } from '../controllers/productController';
+import { productEventSubscribers, resetProductEvents } from '../lib/productEvents';
+import { GET as streamRoute } from '../app/api/products/stream/route';
+import { makeRequest } from './helpers';
+
+interface SseMessage {
+  id?: string;
+  event?: string;
+  data?: Record<string, unknown>;
+}
+
+/**
+ * Reads messages off an event stream, skipping the ones not named in `events`.
+ */
+function sseReader(stream: ReadableStream<Uint8Array>) {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  async function next(events?: string[]): Promise<SseMessage> {
+    for (;;) {
+      const end = buffer.indexOf('\n\n');
+      if (end >= 0) {
+        const block = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        const message: SseMessage = {};
+        for (const line of block.split('\n')) {
+          const [field, ...rest] = line.split(': ');
+          const value = rest.join(': ');
+          if (field === 'id') message.id = value;
+          if (field === 'event') message.event = value;
+          if (field === 'data') message.data = JSON.parse(value);
+        }
+        if (message.event && (!events || events.includes(message.event))) return message;
+        continue;
+      }
+      const { value, done } = await reader.read();
+      if (done) throw new Error('Stream ended');
+      buffer += decoder.decode(value, { stream: true });
+    }
+  }
+
+  return { next, reader };
+}
+
+describe('product event stream', () => {
+  const originalKeys = process.env.API_KEYS;
+  const originalHeartbeat = process.env.PRODUCT_STREAM_HEARTBEAT_MS;
+  let abort: AbortController;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'viewer-1:viewer:viewer-key';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+    resetProductEvents();
+    abort = new AbortController();
+  });
+
+  afterEach(() => {
+    abort.abort();
+    process.env.PRODUCT_STREAM_HEARTBEAT_MS = originalHeartbeat;
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('pushes creates, updates, stock changes and deletes once they commit', async () => {
+    const { next } = sseReader(streamProductEvents({ signal: abort.signal }));
+    const { id } = await createProduct({ name: 'Widget', sku: 'W-1', stock_quantity: 5, low_stock_threshold: 3 });
+    const productId = id as string;
+    await updateProduct(productId, { name: 'Widget XL' });
+    await decreaseStock(productId, 3);
+    await expect(increaseStock(productId, 0)).rejects.toMatchObject({ status: 400 });
+    await deleteProduct(productId);
+
+    const created = await next();
+    expect(created).toMatchObject({
+      event: 'product.created',
+      data: { type: 'product.created', productId, sku: 'W-1', stock_quantity: 5, quantity_before: 0, low_stock: false },
+    });
+    expect(created.id).toBe(created.data?.id);
+    expect((await next()).data).toMatchObject({ type: 'product.updated', product: { name: 'Widget XL' } });
+    const stock = await next();
+    expect(stock.data).toMatchObject({ type: 'stock.changed', stock_quantity: 2, quantity_before: 5, low_stock: true, was_low_stock: false });
+    expect(stock.data?.product).toBeUndefined();
+    expect((await next()).data).toMatchObject({ type: 'product.deleted', productId });
+  });
+
+  it('filters by product ids and by low stock', async () => {
+    const a = await createProduct({ name: 'A', stock_quantity: 10, low_stock_threshold: 5 });
+    const b = await createProduct({ name: 'B', stock_quantity: 10, low_stock_threshold: 5 });
+    const byId = sseReader(streamProductEvents({ productIds: [b.id as string], signal: abort.signal }));
+    const low = sseReader(streamProductEvents({ lowStock: true, signal: abort.signal }));
+
+    await applyStockAdjustments([
+      { productId: a.id as string, delta: -6 },
+      { productId: b.id as string, delta: -1 },
+    ]);
+    await increaseStock(a.id as string, 10);
+    const { id: reservationId } = await createReservation(b.id as string, 2);
+    await commitReservation(reservationId);
+
+    expect((await byId.next()).data).toMatchObject({ productId: b.id, stock_quantity: 9 });
+    expect((await byId.next()).data).toMatchObject({ productId: b.id, stock_quantity: 7 });
+    // A falls below its threshold, then recovers; B stays above it
+    expect((await low.next()).data).toMatchObject({ productId: a.id, stock_quantity: 4, low_stock: true });
+    expect((await low.next()).data).toMatchObject({ productId: a.id, stock_quantity: 14, low_stock: false, was_low_stock: true });
+  });
+
+  it('replays missed events after Last-Event-ID and asks for a resync when it cannot', async () => {
+    const first = await createProduct({ name: 'First', stock_quantity: 1 });
+    const { next, reader } = sseReader(streamProductEvents({ signal: abort.signal }));
+    await increaseStock(first.id as string, 1);
+    const seen = await next();
+    await reader.cancel();
+    expect(productEventSubscribers()).toBe(0);
+
+    // Changes made while the client was away
+    await decreaseStock(first.id as string, 2);
+    const second = await createProduct({ name: 'Second', stock_quantity: 0 });
+
+    const resumed = sseReader(streamProductEvents({ lastEventId: seen.id, signal: abort.signal }));
+    expect((await resumed.next()).data).toMatchObject({ type: 'stock.changed', stock_quantity: 0 });
+    expect((await resumed.next()).data).toMatchObject({ type: 'product.created', productId: second.id });
+
+    const stale = sseReader(streamProductEvents({ lastEventId: 'abc-1', signal: abort.signal }));
+    expect(await stale.next()).toMatchObject({ event: 'resync' });
+    resetProductEvents();
+    const forgotten = sseReader(streamProductEvents({ lastEventId: seen.id, signal: abort.signal }));
+    expect((await forgotten.next()).event).toBe('resync');
+  });
+
+  it('serves the stream with heartbeats and stops when the client goes away', async () => {
+    process.env.PRODUCT_STREAM_HEARTBEAT_MS = '10';
+    const request = (query: string) => makeRequest(`/api/products/stream${query}`, { key: 'viewer-key', signal: abort.signal });
+
+    expect((await streamRoute(request('?productIds=,'))).status).toBe(400);
+    expect((await streamRoute(request('?lowStock=maybe'))).status).toBe(400);
+
+    const res = await streamRoute(request('?productIds=x,y&lowStock=false'));
+    expect(res.status).toBe(200);
+    expect(res.headers.get('content-type')).toBe('text/event-stream; charset=utf-8');
+    expect(res.headers.get('cache-control')).toContain('no-cache');
+    const { next, reader } = sseReader(res.body as ReadableStream<Uint8Array>);
+    const heartbeat = await next();
+    expect(heartbeat).toMatchObject({ event: 'heartbeat', data: { at: expect.any(String) } });
+    expect(heartbeat.id).toBeUndefined();
+    expect(productEventSubscribers()).toBe(1);
+
+    abort.abort();
+    expect(productEventSubscribers()).toBe(0);
+    await expect(reader.read()).resolves.toMatchObject({ done: true });
+  });
+});
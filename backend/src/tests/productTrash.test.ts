@@ -0,0 +1,106 @@
+// src/tests/productTrash.test.ts
+import { MemoryRepository, setRepository } from '../repositories';
+import {
+  applyStockAdjustments,
+  createProduct,
+  decreaseStock,
+  deleteProduct,
+  getProductById,
+  increaseStock,
+  listLowStock,
+  listProducts,
+  listTrash,
+  purgeTrash,
+  restoreProduct,
+  updateProduct,
+} from '../services/productService';
+import { listMovements } from '../services/stockMovementService';
+import { createReservation, releaseReservation } from '../services/reservationService';
+import { adjustStockAtLocation, createLocation, listProductLocations } from '../services/locationService';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('product trash', () => {
+  let repo: MemoryRepository;
+  const originalRetention = process.env.PRODUCT_TRASH_RETENTION_DAYS;
+
+  beforeEach(() => {
+    repo = new MemoryRepository();
+    setRepository(repo);
+  });
+
+  afterAll(() => {
+    process.env.PRODUCT_TRASH_RETENTION_DAYS = originalRetention;
+    setRepository(null);
+  });
+
+  it('hides deleted products from reads, listings and stock operations', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 1, low_stock_threshold: 5 });
+    await createProduct({ name: 'Gadget', stock_quantity: 3 });
+
+    const deleted = await deleteProduct(id as string, undefined, 'manager-1');
+    expect(deleted).toEqual({ id, deletedAt: expect.any(String) });
+    await expect(deleteProduct(id as string)).rejects.toMatchObject({ status: 404 });
+
+    await expect(getProductById(id as string)).rejects.toMatchObject({ status: 404 });
+    expect((await listProducts()).items.map((p) => p.name)).toEqual(['Gadget']);
+    expect(await listLowStock()).toEqual([]);
+    await expect(increaseStock(id as string, 1)).rejects.toMatchObject({ status: 404 });
+    await expect(decreaseStock(id as string, 1)).rejects.toMatchObject({ status: 404 });
+    await expect(updateProduct(id as string, { name: 'Renamed' })).rejects.toMatchObject({ status: 404 });
+    await expect(createReservation(id as string, 1)).rejects.toMatchObject({ status: 404 });
+    const err = await applyStockAdjustments([{ productId: id as string, delta: 1 }]).catch((e) => e);
+    expect(err.details.failures).toEqual([{ index: 0, productId: id, code: 'PRODUCT_NOT_FOUND', error: 'Product not found' }]);
+
+    const { items } = await listTrash();
+    expect(items).toEqual([expect.objectContaining({ id, name: 'Widget', deletedBy: 'manager-1' })]);
+  });
+
+  it('fills list pages past deleted products', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 5; i++) ids.push((await createProduct({ name: `P${i}`, stock_quantity: i })).id as string);
+    await deleteProduct(ids[1]);
+    await deleteProduct(ids[2]);
+
+    const first = await listProducts({ sort: 'name', limit: 2 });
+    expect(first.items.map((p) => p.name)).toEqual(['P0', 'P3']);
+    const second = await listProducts({ sort: 'name', limit: 2, cursor: first.nextCursor as string });
+    expect(second.items.map((p) => p.name)).toEqual(['P4']);
+    expect(second.nextCursor).toBeNull();
+  });
+
+  it('restores a product with its stock and identifiers', async () => {
+    const { id } = await createProduct({ name: 'Widget', sku: 'W-1', stock_quantity: 4 });
+    await expect(restoreProduct(id as string)).rejects.toMatchObject({ status: 409 });
+    await deleteProduct(id as string);
+
+    const restored = await restoreProduct(id as string);
+    expect(restored).toMatchObject({ sku: 'W-1', stock_quantity: 4, deletedAt: null, version: 3 });
+    expect((await listTrash()).items).toEqual([]);
+    await expect(increaseStock(id as string, 1)).resolves.toEqual({ id, stock_quantity: 5 });
+  });
+
+  it('purges products once the retention window has passed', async () => {
+    process.env.PRODUCT_TRASH_RETENTION_DAYS = '7';
+    const { id } = await createProduct({ name: 'Widget', sku: 'W-1', barcodes: ['123'], stock_quantity: 4 });
+    const held = await createProduct({ name: 'Held', stock_quantity: 2 });
+    const shelf = await createLocation({ code: 'A1', name: 'Shelf A1' });
+    await adjustStockAtLocation(id as string, shelf.id as string, 2);
+    const hold = await createReservation(held.id as string, 1);
+    await deleteProduct(id as string);
+    await deleteProduct(held.id as string);
+
+    expect(await purgeTrash(new Date(Date.now() + 6 * DAY))).toEqual({ purged: [] });
+    expect(await purgeTrash(new Date(Date.now() + 8 * DAY))).toEqual({ purged: [id] });
+    expect((await repo.collection('products').doc(id as string).get()).exists).toBe(false);
+    expect(await listProductLocations(id as string)).toEqual([]);
+    // Movements stay as history, identifiers can be reused
+    expect((await listMovements(id as string)).items.length).toBeGreaterThan(0);
+    await createProduct({ name: 'New widget', sku: 'w-1', barcodes: ['123'], stock_quantity: 0 });
+
+    // A product holding reservations is purged once the holds are gone
+    await releaseReservation(hold.id);
+    expect(await purgeTrash(new Date(Date.now() + 8 * DAY))).toEqual({ purged: [held.id] });
+    await expect(restoreProduct(held.id as string)).rejects.toMatchObject({ status: 404 });
+  });
+});
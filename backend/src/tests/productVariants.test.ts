@@ -0,0 +1,203 @@
+// src/tests/productVariants.test.ts
+import { MemoryRepository, setRepository } from '../repositories';
+import {
+  applyStockAdjustments,
+  createProduct,
+  createVariant,
+  deleteProduct,
+  getProductById,
+  getProductBySku,
+  increaseStock,
+  listLowStock,
+  listVariants,
+  restoreProduct,
+  updateProduct,
+} from '../services/productService';
+import { createReservation } from '../services/reservationService';
+import { listMovements } from '../services/stockMovementService';
+import { GET as listVariantsRoute, POST as createVariantRoute } from '../app/api/products/[id]/variants/route';
+import { GET as getVariantRoute } from '../app/api/products/[id]/variants/[variantId]/route';
+import { POST as decreaseVariantRoute } from '../app/api/products/[id]/variants/[variantId]/decrease/route';
+import { POST as increaseVariantRoute } from '../app/api/products/[id]/variants/[variantId]/increase/route';
+import { GET as getProductRoute, PUT as updateProductRoute } from '../app/api/products/[id]/route';
+import { makeRequest, routeParams } from './helpers';
+
+const MANAGER_KEY = 'manager-key';
+
+
+describe('product variants', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = `manager-1:manager:${MANAGER_KEY}`;
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('tracks stock per variant and reports totals on the parent', async () => {
+    const shirt = await createProduct({ name: 'T-shirt', stock_quantity: 0 });
+    const parentId = shirt.id as string;
+    const small = await createVariant(parentId, { attributes: { size: 'S', color: 'red' }, sku: 'TS-S-RED', stock_quantity: 4 });
+    const large = await createVariant(parentId, {
+      name: 'T-shirt large',
+      attributes: { size: 'L', color: 'red' },
+      stock_quantity: 10,
+      low_stock_threshold: 3,
+    });
+    expect(small).toMatchObject({ name: 'T-shirt (S / red)', parentId, attributes: { size: 'S', color: 'red' } });
+
+    await increaseStock(small.id as string, 2);
+    await createReservation(large.id as string, 1);
+    expect(await getProductById(parentId)).toMatchObject({
+      variant_count: 2,
+      stock_quantity: 16,
+      reserved_quantity: 1,
+      available_quantity: 15,
+    });
+    expect(await getProductBySku('TS-S-RED')).toMatchObject({ id: small.id, stock_quantity: 6 });
+    expect((await listMovements(small.id as string)).items.map((m) => m.reason).sort()).toEqual(['initial', 'receipt']);
+
+    // The parent's own stock cannot change
+    await expect(increaseStock(parentId, 1)).rejects.toMatchObject({ status: 409, code: 'STOCK_TRACKED_PER_VARIANT' });
+    await expect(updateProduct(parentId, { stock_quantity: 5 })).rejects.toMatchObject({ code: 'STOCK_TRACKED_PER_VARIANT' });
+    await expect(createReservation(parentId, 1)).rejects.toMatchObject({ code: 'STOCK_TRACKED_PER_VARIANT' });
+    const err = await applyStockAdjustments([{ productId: parentId, delta: 1 }]).catch((e) => e);
+    expect(err.details.failures).toEqual([{ index: 0, productId: parentId, code: 'STOCK_TRACKED_PER_VARIANT', error: 'Stock of this product is tracked per variant' }]);
+  });
+
+  it('rejects variants that clash or would lose stock', async () => {
+    const stocked = await createProduct({ name: 'Cap', stock_quantity: 2 });
+    await expect(createVariant(stocked.id as string, { attributes: { size: 'M' }, stock_quantity: 0 })).rejects.toMatchObject({
+      code: 'PRODUCT_HOLDS_STOCK',
+    });
+
+    const { id: parentId } = await createProduct({ name: 'Sock', stock_quantity: 0 });
+    const variant = await createVariant(parentId as string, { attributes: { Size: 'M', color: 'Blue' }, sku: 'S-1', stock_quantity: 1 });
+    await expect(
+      createVariant(parentId as string, { attributes: { color: 'blue', size: 'm' }, stock_quantity: 0 })
+    ).rejects.toMatchObject({ status: 409, code: 'VARIANT_ATTRIBUTES_IN_USE' });
+    await expect(createVariant(parentId as string, { attributes: { size: 'L' }, sku: 's-1', stock_quantity: 0 })).rejects.toMatchObject({
+      code: 'SKU_IN_USE',
+    });
+    await expect(createVariant(variant.id as string, { attributes: { size: 'L' }, stock_quantity: 0 })).rejects.toMatchObject({
+      code: 'PRODUCT_IS_VARIANT',
+    });
+    await expect(createVariant('missing', { attributes: { size: 'L' }, stock_quantity: 0 })).rejects.toMatchObject({ status: 404 });
+  });
+
+  it('reports low stock per variant', async () => {
+    const { id: parentId } = await createProduct({ name: 'Glove', stock_quantity: 0, low_stock_threshold: 100 });
+    const left = await createVariant(parentId as string, { attributes: { hand: 'left' }, stock_quantity: 1, low_stock_threshold: 2 });
+    await createVariant(parentId as string, { attributes: { hand: 'right' }, stock_quantity: 5, low_stock_threshold: 2 });
+
+    expect((await listLowStock()).map((p) => p.id)).toEqual([left.id]);
+  });
+
+  it('keeps the variant count in step with the trash', async () => {
+    const { id: parentId } = await createProduct({ name: 'Boot', stock_quantity: 0 });
+    const variant = await createVariant(parentId as string, { attributes: { size: '42' }, stock_quantity: 3 });
+
+    await expect(deleteProduct(parentId as string)).rejects.toMatchObject({ status: 409, code: 'PRODUCT_HAS_VARIANTS' });
+    await deleteProduct(variant.id as string);
+    expect(await getProductById(parentId as string)).toMatchObject({ variant_count: 0, stock_quantity: 0 });
+    expect(await listVariants(parentId as string)).toEqual([]);
+
+    const replacement = await createVariant(parentId as string, { attributes: { size: '42' }, stock_quantity: 0 });
+    await expect(restoreProduct(variant.id as string)).rejects.toMatchObject({ code: 'VARIANT_ATTRIBUTES_IN_USE' });
+    await deleteProduct(replacement.id as string);
+    await restoreProduct(variant.id as string);
+    expect(await getProductById(parentId as string)).toMatchObject({ variant_count: 1, stock_quantity: 3 });
+
+    await deleteProduct(variant.id as string);
+    await deleteProduct(parentId as string);
+    await expect(restoreProduct(variant.id as string)).rejects.toMatchObject({ code: 'VARIANT_PARENT_IN_TRASH' });
+  });
+
+  it('manages variants through the routes', async () => {
+    const { id } = await createProduct({ name: 'Hoodie', stock_quantity: 0 });
+    const parentId = id as string;
+    const other = await createProduct({ name: 'Scarf', stock_quantity: 1 });
+    const variants = `/api/products/${parentId}/variants`;
+
+    const created = await createVariantRoute(
+      makeRequest(variants, { method: 'POST', key: MANAGER_KEY, body: { attributes: { size: 'XL' }, stock_quantity: 5 } }),
+      routeParams(parentId)
+    );
+    expect(created.status).toBe(201);
+    const variant = await created.json();
+    const variantParams = routeParams(parentId, { variantId: variant.id as string });
+
+    const decreased = await decreaseVariantRoute(
+      makeRequest(`${variants}/${variant.id}/decrease`, { method: 'POST', key: MANAGER_KEY, body: { amount: 2 } }),
+      variantParams
+    );
+    expect(await decreased.json()).toEqual({ id: variant.id, stock_quantity: 3 });
+
+    const listed = await (await listVariantsRoute(makeRequest(variants, { key: MANAGER_KEY }), routeParams(parentId))).json();
+    expect(listed.items).toEqual([expect.objectContaining({ id: variant.id, stock_quantity: 3 })]);
+
+    const fetched = await getVariantRoute(makeRequest(`${variants}/${variant.id}`, { key: MANAGER_KEY }), variantParams);
+    expect(fetched.headers.get('etag')).toBe('"2"');
+    const foreign = await getVariantRoute(
+      makeRequest(`${variants}/${other.id}`, { key: MANAGER_KEY }),
+      routeParams(parentId, { variantId: other.id as string })
+    );
+    expect(foreign.status).toBe(404);
+    expect(await foreign.json()).toMatchObject({ code: 'VARIANT_NOT_FOUND' });
+
+    const invalid = await createVariantRoute(
+      makeRequest(variants, { method: 'POST', key: MANAGER_KEY, body: { attributes: {}, stock_quantity: 0 } }),
+      routeParams(parentId)
+    );
+    expect(invalid.status).toBe(400);
+  });
+
+  it('changes the parent ETag when a variant stock changes', async () => {
+    const { id } = await createProduct({ name: 'Cap', stock_quantity: 0 });
+    const parentId = id as string;
+    const variant = await createVariant(parentId, { attributes: { color: 'blue' }, stock_quantity: 2 });
+    const get = (etag?: string) =>
+      getProductRoute(
+        makeRequest(`/api/products/${parentId}`, { key: MANAGER_KEY, headers: etag ? { 'if-none-match': etag } : {} }),
+        routeParams(parentId)
+      );
+
+    const first = await get();
+    const etag = first.headers.get('etag') as string;
+    expect(etag).toBe('"2.1"');
+    expect((await get(etag)).status).toBe(304);
+
+    await increaseVariantRoute(
+      makeRequest(`/api/products/${parentId}/variants/${variant.id}/increase`, { method: 'POST', key: MANAGER_KEY, body: { amount: 3 } }),
+      routeParams(parentId, { variantId: variant.id as string })
+    );
+    const changed = await get(etag);
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get('etag')).toBe('"2.2"');
+    expect(await changed.json()).toMatchObject({ stock_quantity: 5 });
+
+    // If-Match on the parent only checks its own version
+    const updated = await updateProductRoute(
+      makeRequest(`/api/products/${parentId}`, {
+        method: 'PUT',
+        key: MANAGER_KEY,
+        body: { name: 'Baseball cap' },
+        headers: { 'if-match': etag },
+      }),
+      routeParams(parentId)
+    );
+    expect(updated.status).toBe(200);
+    // ...and answers with the same ETag a read gives, so the next conditional read is a 304
+    expect(updated.headers.get('etag')).toBe('"3.2"');
+    expect((await get('"3.2"')).status).toBe(304);
+  });
+});
@@ -0,0 +1,129 @@
+// src/tests/rateLimit.test.ts
+// Token buckets, the in-process store and the rate limit applied to every route.
+import { MemoryRepository, setRepository } from '../repositories';
+import { GET as getProduct } from '../app/api/products/[id]/route';
+import { POST as decreaseStock } from '../app/api/products/[id]/decrease/route';
+import { GET as health } from '../app/api/health/route';
+import { createProduct, getProductById } from '../services/productService';
+import { MemoryRateLimitStore, RateLimitStore, setRateLimitStore } from '../lib/rateLimit';
+import { buildOpenApiDocument } from '../lib/openapi';
+import { makeRequest, routeParams } from './helpers';
+
+describe('rate limiting', () => {
+  const originalKeys = process.env.API_KEYS;
+  const originalRead = process.env.RATE_LIMIT_READ;
+  const originalWrite = process.env.RATE_LIMIT_WRITE;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'scanner:clerk:scanner-key,erp:clerk:erp-key';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+    setRateLimitStore(new MemoryRateLimitStore());
+    process.env.RATE_LIMIT_READ = '3';
+    process.env.RATE_LIMIT_WRITE = '2';
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    process.env.RATE_LIMIT_READ = originalRead;
+    process.env.RATE_LIMIT_WRITE = originalWrite;
+    setRepository(null);
+    setRateLimitStore(null);
+    jest.restoreAllMocks();
+  });
+
+  it('refills buckets at the configured rate', async () => {
+    const store = new MemoryRateLimitStore();
+    const policy = { limit: 2, windowSeconds: 60 };
+    await expect(store.take('a', policy, 0)).resolves.toEqual({ allowed: true, limit: 2, remaining: 1, resetSeconds: 30, retryAfterSeconds: 0 });
+    await expect(store.take('a', policy, 0)).resolves.toMatchObject({ allowed: true, remaining: 0, resetSeconds: 60 });
+    await expect(store.take('a', policy, 10_000)).resolves.toMatchObject({ allowed: false, remaining: 0, retryAfterSeconds: 20 });
+    await expect(store.take('b', policy, 10_000)).resolves.toMatchObject({ allowed: true });
+    await expect(store.take('a', policy, 30_000)).resolves.toMatchObject({ allowed: true, remaining: 0 });
+    // A bucket left alone fills up to the limit, never beyond
+    await expect(store.take('a', policy, 600_000)).resolves.toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('answers 429 with Retry-After once a client has used up its writes', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 10 });
+    const productId = id as string;
+    const decrease = (key: string) =>
+      decreaseStock(makeRequest(`/api/products/${productId}/decrease`, { method: 'POST', key, body: { amount: 1 } }), routeParams(productId));
+
+    const first = await decrease('scanner-key');
+    expect(first.status).toBe(200);
+    expect(first.headers.get('ratelimit-limit')).toBe('2');
+    expect(first.headers.get('ratelimit-remaining')).toBe('1');
+    expect(first.headers.get('ratelimit-policy')).toBe('2;w=60');
+    expect((await decrease('scanner-key')).status).toBe(200);
+
+    const limited = await decrease('scanner-key');
+    expect(limited.status).toBe(429);
+    expect(limited.headers.get('content-type')).toBe('application/problem+json');
+    expect(limited.headers.get('retry-after')).toBe('30');
+    expect(limited.headers.get('x-request-id')).toBeTruthy();
+    expect(await limited.json()).toMatchObject({ status: 429, code: 'TOO_MANY_REQUESTS', retryAfter: 30 });
+    expect((await getProductById(productId)).stock_quantity).toBe(8);
+
+    // Reads have their own bucket, and other clients their own buckets
+    const read = await getProduct(makeRequest(`/api/products/${productId}`, { key: 'scanner-key' }), routeParams(productId));
+    expect(read.status).toBe(200);
+    expect(read.headers.get('ratelimit-limit')).toBe('3');
+    expect((await decrease('erp-key')).status).toBe(200);
+  });
+
+  it('limits unknown keys and bearer tokens per address appended by the trusted proxy', async () => {
+    const get = (headers: Record<string, string>) => getProduct(makeRequest('/api/products/p1', { headers }), routeParams('p1'));
+    // The client rotates the value it sends; the proxy appends the same real address every time
+    for (const [i, key] of ['guess-1', 'guess-2', 'guess-3'].entries()) {
+      expect((await get({ 'x-api-key': key, 'x-forwarded-for': `10.0.0.${i}, 203.0.113.9` })).status).toBe(401);
+    }
+    expect((await get({ 'x-api-key': 'guess-4', 'x-forwarded-for': '10.9.9.9, 203.0.113.9' })).status).toBe(429);
+    expect((await get({ authorization: 'Bearer token', 'x-forwarded-for': '203.0.113.9' })).status).toBe(429);
+    expect((await get({ 'x-api-key': 'guess-5', 'x-forwarded-for': '203.0.113.9, 198.51.100.7' })).status).toBe(401);
+
+    // With two proxies, the address the outer one saw is second to last
+    process.env.RATE_LIMIT_TRUSTED_PROXIES = '2';
+    for (const fake of ['1.1.1.1', '2.2.2.2', '3.3.3.3']) {
+      expect((await get({ 'x-forwarded-for': `${fake}, 192.0.2.4, 10.0.0.2` })).status).toBe(401);
+    }
+    expect((await get({ 'x-forwarded-for': '4.4.4.4, 192.0.2.4, 10.0.0.2' })).status).toBe(429);
+    delete process.env.RATE_LIMIT_TRUSTED_PROXIES;
+  });
+
+  it('uses the configured store and can be turned off', async () => {
+    const read = () => getProduct(makeRequest('/api/products/p1', { key: 'erp-key' }), routeParams('p1'));
+    const keys: string[] = [];
+    const recording: RateLimitStore = {
+      take: async (key, policy) => {
+        keys.push(key);
+        return { allowed: true, limit: policy.limit, remaining: policy.limit - 1, resetSeconds: 1, retryAfterSeconds: 0 };
+      },
+    };
+    setRateLimitStore(recording);
+    await read();
+    expect(keys).toEqual(['read:key:erp']);
+
+    // Health checks are never limited; a failing store lets requests through
+    const res = await health(makeRequest('/api/health'));
+    expect(res.headers.get('ratelimit-limit')).toBeNull();
+    setRateLimitStore({ take: async () => Promise.reject(new Error('store down')) });
+    expect((await read()).status).toBe(404);
+
+    setRateLimitStore(new MemoryRateLimitStore());
+    process.env.RATE_LIMIT_READ = '0';
+    for (let i = 0; i < 5; i++) {
+      const unlimited = await read();
+      expect(unlimited.status).toBe(404);
+      expect(unlimited.headers.get('ratelimit-limit')).toBeNull();
+    }
+
+    const paths = buildOpenApiDocument().paths as Record<string, Record<string, { responses: Record<string, unknown> }>>;
+    expect(paths['/api/products/{id}/decrease'].post.responses['429']).toBeDefined();
+    expect(paths['/api/health'].get.responses['429']).toBeUndefined();
+  });
+});
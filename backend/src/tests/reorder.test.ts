@@ -0,0 +1,126 @@
+// src/tests/reorder.test.ts
+import { MemoryRepository, setRepository } from '../repositories';
+import { createProduct, decreaseStock, getProductById, updateProduct } from '../services/productService';
+import { listMovements } from '../services/stockMovementService';
+import {
+  cancelPurchaseOrder,
+  draftPurchaseOrders,
+  listPurchaseOrders,
+  listReorderSuggestions,
+  markPurchaseOrderOrdered,
+  receivePurchaseOrder,
+  updatePurchaseOrder,
+} from '../services/reorderService';
+
+describe('reorder suggestions', () => {
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('suggests quantities from the reorder settings and recent consumption', async () => {
+    const bolts = await createProduct({
+      name: 'Bolts',
+      stock_quantity: 20,
+      reorder_point: 10,
+      max_stock_level: 50,
+      preferred_supplier: 'Acme',
+    });
+    const nuts = await createProduct({
+      name: 'Nuts',
+      stock_quantity: 60,
+      reorder_point: 5,
+      reorder_quantity: 24,
+      lead_time_days: 10,
+      preferred_supplier: 'Acme',
+    });
+    await createProduct({ name: 'Washers', stock_quantity: 4, low_stock_threshold: 5 });
+    await createProduct({ name: 'Plenty', stock_quantity: 100, reorder_point: 10 });
+
+    await decreaseStock(bolts.id as string, 12);
+    // 45 sold over a 30-day window: 1.5 a day, 15 during the 10-day lead time
+    await decreaseStock(nuts.id as string, 45);
+
+    const items = await listReorderSuggestions();
+    expect(items.map((s) => [s.name, s.suggested_quantity])).toEqual([
+      ['Bolts', 42],
+      ['Nuts', 24],
+      ['Washers', 2],
+    ]);
+    expect(items[1]).toMatchObject({
+      reorder_point: 15,
+      daily_consumption: 1.5,
+      lead_time_demand: 15,
+      preferred_supplier: 'Acme',
+    });
+    expect(items[2]).toMatchObject({ preferred_supplier: null, reorder_point: 5 });
+
+    expect((await listReorderSuggestions({ supplier: 'Acme' })).map((s) => s.name)).toEqual(['Bolts', 'Nuts']);
+    // Outside a 1-day window measured from 2 days ahead, nothing was consumed
+    const later = await listReorderSuggestions({ days: 1 }, new Date(Date.now() + 2 * 24 * 60 * 60 * 1000));
+    expect(later.find((s) => s.name === 'Nuts')).toBeUndefined();
+  });
+
+  it('rejects a max_stock_level that is not above the reorder point', async () => {
+    await expect(
+      createProduct({ name: 'Bolts', stock_quantity: 1, reorder_point: 10, max_stock_level: 10 })
+    ).rejects.toMatchObject({ status: 400 });
+    const { id } = await createProduct({ name: 'Bolts', stock_quantity: 1, max_stock_level: 10 });
+    await expect(updateProduct(id as string, { reorder_point: 12 })).rejects.toMatchObject({ status: 400 });
+  });
+});
+
+describe('purchase orders', () => {
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('drafts one order per supplier and counts drafts as stock on order', async () => {
+    await createProduct({ name: 'Bolts', stock_quantity: 0, reorder_point: 5, reorder_quantity: 10, preferred_supplier: 'Acme' });
+    await createProduct({ name: 'Nuts', stock_quantity: 0, reorder_point: 5, reorder_quantity: 10, preferred_supplier: 'Bolt Co' });
+
+    const drafts = await draftPurchaseOrders({ reference: 'weekly' }, { actor: 'manager-1' });
+    expect(drafts.map((d) => [d.supplier, d.status, d.lines.length])).toEqual([
+      ['Acme', 'draft', 1],
+      ['Bolt Co', 'draft', 1],
+    ]);
+    expect(drafts[0]).toMatchObject({ reference: 'weekly', actor: 'manager-1' });
+    expect(await listReorderSuggestions()).toEqual([]);
+    expect(await draftPurchaseOrders()).toEqual([]);
+
+    await cancelPurchaseOrder(drafts[1].id);
+    expect((await listReorderSuggestions()).map((s) => [s.name, s.on_order])).toEqual([['Nuts', 0]]);
+  });
+
+  it('receives an order into stock with receipt movements', async () => {
+    const { id } = await createProduct({ name: 'Bolts', stock_quantity: 2, reorder_point: 5, max_stock_level: 20 });
+    const [draft] = await draftPurchaseOrders();
+    expect(draft.lines).toEqual([{ productId: id, name: 'Bolts', quantity: 18 }]);
+
+    await updatePurchaseOrder(draft.id, { lines: [{ productId: id as string, quantity: 25 }] });
+    const ordered = await markPurchaseOrderOrdered(draft.id);
+    expect(ordered.status).toBe('ordered');
+    await expect(updatePurchaseOrder(draft.id, { reference: 'late edit' })).rejects.toMatchObject({ status: 409 });
+
+    const received = await receivePurchaseOrder(draft.id, { actor: 'clerk-1' });
+    expect(received.status).toBe('received');
+    expect((await getProductById(id as string)).stock_quantity).toBe(27);
+    const { items } = await listMovements(id as string);
+    expect(items.find((m) => m.reason === 'receipt')).toMatchObject({
+      delta: 25,
+      reference: `PO ${draft.id}`,
+      actor: 'clerk-1',
+    });
+
+    await expect(receivePurchaseOrder(draft.id)).rejects.toMatchObject({ status: 409 });
+    await expect(cancelPurchaseOrder(draft.id)).rejects.toMatchObject({ status: 409 });
+    expect((await listPurchaseOrders('received')).map((o) => o.id)).toEqual([draft.id]);
+  });
+});
@@ -0,0 +1,86 @@
+// src/tests/stockOperations.test.ts
+import { MemoryRepository, setRepository } from '../repositories';
+import { createProduct, decreaseStock, getProductById } from '../services/productService';
+import {
+  commitReservation,
+  createReservation,
+  getReservation,
+  releaseReservation,
+  sweepExpiredReservations,
+} from '../services/reservationService';
+import {
+  adjustStockAtLocation,
+  createLocation,
+  listProductLocations,
+  transferStock,
+} from '../services/locationService';
+
+describe('reservations', () => {
+  let repo: MemoryRepository;
+
+  beforeEach(() => {
+    repo = new MemoryRepository();
+    setRepository(repo);
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('holds stock until committed or released', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 10 });
+    const hold = await createReservation(id as string, 7);
+    expect((await getProductById(id as string)).available_quantity).toBe(3);
+    await expect(createReservation(id as string, 4)).rejects.toMatchObject({ status: 409 });
+    await expect(decreaseStock(id as string, 4)).rejects.toThrow('Insufficient stock');
+
+    await commitReservation(hold.id);
+    expect(await getProductById(id as string)).toMatchObject({ stock_quantity: 3, reserved_quantity: 0 });
+    await expect(releaseReservation(hold.id)).rejects.toThrow('Reservation is already committed');
+
+    const second = await createReservation(id as string, 3);
+    await releaseReservation(second.id);
+    expect((await getProductById(id as string)).available_quantity).toBe(3);
+  });
+
+  it('expires lapsed holds when swept', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5 });
+    const hold = await createReservation(id as string, 5);
+    // Backdate the hold instead of waiting for it to lapse
+    await repo.collection('reservations').doc(hold.id).update({ expiresAt: new Date(Date.now() - 1000).toISOString() });
+
+    expect(await sweepExpiredReservations()).toEqual({ expired: 1 });
+    expect((await getReservation(hold.id)).status).toBe('expired');
+    expect((await getProductById(id as string)).available_quantity).toBe(5);
+  });
+});
+
+describe('locations', () => {
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    setRepository(null);
+  });
+
+  it('tracks stock per location and transfers between locations', async () => {
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 2 });
+    const north = await createLocation({ code: 'N', name: 'North' });
+    const south = await createLocation({ code: 'S', name: 'South' });
+    await expect(createLocation({ code: 'N', name: 'Duplicate' })).rejects.toMatchObject({ status: 409 });
+
+    await adjustStockAtLocation(id as string, north.id, 8);
+    await transferStock(id as string, north.id, south.id, 3);
+    await expect(transferStock(id as string, north.id, south.id, 6)).rejects.toThrow(
+      'Insufficient stock at source location'
+    );
+
+    const byLocation = Object.fromEntries((await listProductLocations(id as string)).map((r) => [r.locationId, r.stock_quantity]));
+    expect(byLocation).toEqual({ [north.id]: 5, [south.id]: 3 });
+    expect(await getProductById(id as string)).toMatchObject({ stock_quantity: 10, allocated_quantity: 8 });
+
+    // Only the 2 unallocated units can leave without naming a location
+    await expect(decreaseStock(id as string, 3)).rejects.toThrow('Insufficient unallocated stock');
+  });
+});
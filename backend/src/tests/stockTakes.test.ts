@@ -0,0 +1,151 @@
+// src/tests/stockTakes.test.ts
+// Stock-take sessions: counts, variance report and approval, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import { createProduct, decreaseStock, deleteProduct, getProductById, increaseStock } from '../services/productService';
+import { listMovements } from '../services/stockMovementService';
+import { createReservation, releaseReservation } from '../services/reservationService';
+import {
+  approveStockTake,
+  cancelStockTake,
+  getVarianceReport,
+  listStockTakes,
+  openStockTake,
+  recordCounts,
+} from '../services/stockTakeService';
+import { POST as openRoute } from '../app/api/stock-takes/route';
+import { POST as countsRoute } from '../app/api/stock-takes/[id]/counts/route';
+import { POST as approveRoute } from '../app/api/stock-takes/[id]/approve/route';
+import { makeRequest, routeParams } from './helpers';
+
+describe('stock takes', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'clerk-1:clerk:clerk-key,manager-1:manager:manager-key';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('applies variances on top of stock moved during the session', async () => {
+    const a = await createProduct({ name: 'Apples', stock_quantity: 10 });
+    const b = await createProduct({ name: 'Pears', sku: 'PE-1', stock_quantity: 5 });
+    const c = await createProduct({ name: 'Plums', stock_quantity: 3 });
+    const [aId, bId, cId] = [a.id, b.id, c.id] as string[];
+
+    const take = await openStockTake([aId, bId, cId], { reference: 'COUNT-1', actor: 'clerk-1' });
+    expect(take.lines[1]).toEqual({ productId: bId, name: 'Pears', sku: 'PE-1', expected_quantity: 5, counted_quantity: null });
+    await expect(openStockTake([cId])).rejects.toMatchObject({ status: 409, code: 'PRODUCT_IN_STOCK_TAKE' });
+
+    // 2 sold before the count, 5 received after it: the count of 7 means one apple is missing
+    await decreaseStock(aId, 2);
+    await recordCounts(take.id, [{ productId: aId, counted_quantity: 9 }]);
+    await recordCounts(take.id, [{ productId: aId, counted_quantity: 7 }]);
+    await increaseStock(aId, 5);
+    await recordCounts(take.id, [{ productId: bId, counted_quantity: 6 }], 'clerk-1');
+    await expect(recordCounts(take.id, [{ productId: 'other', counted_quantity: 1 }])).rejects.toMatchObject({ status: 400 });
+
+    const report = await getVarianceReport(take.id);
+    expect(report.lines[0]).toEqual({
+      productId: aId,
+      name: 'Apples',
+      expected_quantity: 10,
+      counted_quantity: 7,
+      moved_before_count: -2,
+      variance: -1,
+      current_quantity: 13,
+    });
+    expect(report).toMatchObject({ counted_lines: 2, uncounted_lines: 1, net_variance: 0 });
+
+    const approved = await approveStockTake(take.id, { actor: 'manager-1' });
+    expect(approved).toMatchObject({ status: 'approved', approvedBy: 'manager-1' });
+    expect(approved.lines.map((l) => l.variance)).toEqual([-1, 1, undefined]);
+    expect((await getProductById(aId)).stock_quantity).toBe(12);
+    expect((await getProductById(bId)).stock_quantity).toBe(6);
+    expect((await getProductById(cId)).stock_quantity).toBe(3);
+    expect((await listMovements(aId)).items.find((m) => m.reason === 'adjustment')).toMatchObject({ delta: -1, reason: 'adjustment', reference: 'COUNT-1', actor: 'manager-1' });
+    expect((await listMovements(cId)).items).toHaveLength(1);
+
+    await expect(approveStockTake(take.id)).rejects.toMatchObject({ status: 409, code: 'STOCK_TAKE_STATE_CONFLICT' });
+    await expect(recordCounts(take.id, [{ productId: cId, counted_quantity: 3 }])).rejects.toMatchObject({ status: 409 });
+    // Products are free for the next session once this one is closed
+    await expect(openStockTake([cId])).resolves.toMatchObject({ status: 'open' });
+    expect((await listStockTakes('approved')).map((t) => t.id)).toEqual([take.id]);
+  });
+
+  it('rejects the whole approval when a line cannot be applied', async () => {
+    const a = await createProduct({ name: 'Flour', stock_quantity: 5 });
+    const b = await createProduct({ name: 'Sugar', stock_quantity: 4 });
+    const c = await createProduct({ name: 'Salt', stock_quantity: 2 });
+    const [aId, bId, cId] = [a.id, b.id, c.id] as string[];
+    const take = await openStockTake([aId, bId, cId]);
+    await recordCounts(take.id, [
+      { productId: aId, counted_quantity: 1 },
+      { productId: bId, counted_quantity: 2 },
+      { productId: cId, counted_quantity: 2 },
+    ]);
+    // More flour sold after the count than was counted
+    await decreaseStock(aId, 3);
+    await deleteProduct(bId);
+
+    const err = await approveStockTake(take.id).catch((e) => e);
+    expect(err).toMatchObject({ status: 400, code: 'STOCK_TAKE_REJECTED' });
+    expect(err.details.failures).toEqual([
+      { productId: aId, error: 'More stock was taken out since the count than was counted' },
+      { productId: bId, error: 'Product not found' },
+    ]);
+    expect((await getProductById(aId)).stock_quantity).toBe(2);
+
+    await expect(cancelStockTake(take.id)).resolves.toMatchObject({ status: 'cancelled' });
+    expect((await getVarianceReport(take.id)).status).toBe('cancelled');
+  });
+
+  it('rejects a counted shortfall that would leave holds uncovered', async () => {
+    const { id } = await createProduct({ name: 'Rice', stock_quantity: 10 });
+    const productId = id as string;
+    const hold = await createReservation(productId, 6);
+    const take = await openStockTake([productId]);
+    await recordCounts(take.id, [{ productId, counted_quantity: 4 }]);
+
+    const err = await approveStockTake(take.id).catch((e) => e);
+    expect(err).toMatchObject({ status: 400, code: 'STOCK_TAKE_REJECTED' });
+    expect(err.details.failures).toEqual([{ productId, error: 'Stock would fall below the stock held by reservations' }]);
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 10, reserved_quantity: 6 });
+
+    // Once the hold no longer needs the missing units, the count can be approved
+    await releaseReservation(hold.id);
+    await createReservation(productId, 4);
+    await expect(approveStockTake(take.id)).resolves.toMatchObject({ status: 'approved' });
+    expect(await getProductById(productId)).toMatchObject({ stock_quantity: 4, reserved_quantity: 4, available_quantity: 0 });
+  });
+
+  it('runs a session through the routes', async () => {
+    const { id } = await createProduct({ name: 'Rice', stock_quantity: 8 });
+    const request = (path: string, key: string, body?: unknown) => makeRequest(path, { method: 'POST', key, body });
+
+    const opened = await openRoute(request('/api/stock-takes', 'clerk-key', { productIds: [id] }));
+    expect(opened.status).toBe(201);
+    const take = await opened.json();
+    const params = routeParams(take.id);
+    expect((await openRoute(request('/api/stock-takes', 'clerk-key', { productIds: [id, id] }))).status).toBe(400);
+
+    const counted = await countsRoute(
+      request(`/api/stock-takes/${take.id}/counts`, 'clerk-key', { counts: [{ productId: id, counted_quantity: 6 }] }),
+      params
+    );
+    expect((await counted.json()).lines[0]).toMatchObject({ counted_quantity: 6, quantity_at_count: 8, countedBy: 'clerk-1' });
+
+    expect((await approveRoute(request(`/api/stock-takes/${take.id}/approve`, 'clerk-key'), params)).status).toBe(403);
+    const approved = await approveRoute(request(`/api/stock-takes/${take.id}/approve`, 'manager-key'), params);
+    expect(approved.status).toBe(200);
+    expect((await getProductById(id as string)).stock_quantity).toBe(6);
+  });
+});
@@ -0,0 +1,129 @@
+// src/tests/unitsOfMeasure.test.ts
+// Base units, alternative units and quantity conversion, against the in-memory repository.
+import { MemoryRepository, setRepository } from '../repositories';
+import { createProduct, getProductById, getProductBySku, importProducts, updateProduct } from '../services/productService';
+import { createVariant, decreaseStock, increaseStock, increaseVariantStock } from '../controllers/productController';
+import { listMovements } from '../services/stockMovementService';
+import { POST as increaseRoute } from '../app/api/products/[id]/increase/route';
+import { POST as decreaseRoute } from '../app/api/products/[id]/decrease/route';
+import { makeRequest, routeParams } from './helpers';
+
+describe('units of measure', () => {
+  const originalKeys = process.env.API_KEYS;
+
+  beforeAll(() => {
+    process.env.API_KEYS = 'clerk-1:clerk:clerk-key';
+    jest.spyOn(console, 'info').mockImplementation(() => undefined);
+  });
+
+  beforeEach(() => {
+    setRepository(new MemoryRepository());
+  });
+
+  afterAll(() => {
+    process.env.API_KEYS = originalKeys;
+    setRepository(null);
+    jest.restoreAllMocks();
+  });
+
+  it('converts stock moved in cases into base units', async () => {
+    const product = await createProduct({
+      name: 'Sparkling water',
+      stock_quantity: { amount: 2, unit: 'Case' },
+      units: [{ name: ' Case ', factor: 24 }],
+    });
+    expect(product).toMatchObject({ stock_quantity: 48, units: [{ name: 'case', factor: 24 }] });
+    expect(product.base_unit).toBeUndefined();
+    const id = product.id as string;
+
+    await expect(increaseStock(id, { amount: 1.5, unit: 'case' })).resolves.toEqual({ id, stock_quantity: 84 });
+    await expect(decreaseStock(id, { amount: 5, unit: 'each' })).resolves.toEqual({ id, stock_quantity: 79 });
+    await expect(decreaseStock(id, { amount: 3 })).resolves.toEqual({ id, stock_quantity: 76 });
+    expect((await listMovements(id)).items.map((m) => m.delta).sort((a, b) => a - b)).toEqual([-5, -3, 36, 48]);
+
+    await expect(decreaseStock(id, { amount: 0.1, unit: 'case' })).rejects.toMatchObject({ status: 400, code: 'FRACTIONAL_QUANTITY' });
+    await expect(decreaseStock(id, { amount: 1.5 })).rejects.toMatchObject({ status: 400, code: 'FRACTIONAL_QUANTITY' });
+    await expect(increaseStock(id, { amount: 1, unit: 'pallet' })).rejects.toMatchObject({ status: 400, code: 'UNKNOWN_UNIT' });
+    await expect(increaseStock('missing', { amount: 1, unit: 'case' })).rejects.toMatchObject({ status: 404 });
+    expect((await getProductById(id)).stock_quantity).toBe(76);
+  });
+
+  it('accepts decimal factors as long as the result is whole', async () => {
+    const { id } = await createProduct({ name: 'Flour', base_unit: 'G', stock_quantity: 0, units: [{ name: 'kg', factor: 1000 }] });
+    const sugar = await createProduct({ name: 'Sugar', base_unit: 'kg', stock_quantity: 10, units: [{ name: 'g', factor: 0.001 }] });
+
+    await expect(increaseStock(id as string, { amount: 0.25, unit: 'kg' })).resolves.toMatchObject({ stock_quantity: 250 });
+    await expect(increaseStock(id as string, { amount: 3, unit: 'g' })).resolves.toMatchObject({ stock_quantity: 253 });
+    await expect(decreaseStock(sugar.id as string, { amount: 2000, unit: 'g' })).resolves.toMatchObject({ stock_quantity: 8 });
+    await expect(decreaseStock(sugar.id as string, { amount: 1500, unit: 'g' })).rejects.toMatchObject({
+      code: 'FRACTIONAL_QUANTITY',
+      message: '1500 g is 1.5 kg; stock moves in whole kg only',
+    });
+    expect((await getProductById(id as string)).base_unit).toBe('g');
+  });
+
+  it('validates unit definitions and converts on update', async () => {
+    await expect(createProduct({ name: 'Bad', stock_quantity: 0, units: [{ name: 'each', factor: 2 }] })).rejects.toMatchObject({ status: 400 });
+    await expect(createProduct({ name: 'Bad', stock_quantity: { amount: 1, unit: 'box' } })).rejects.toMatchObject({ code: 'UNKNOWN_UNIT' });
+
+    const { id } = await createProduct({ name: 'Eggs', stock_quantity: 6 });
+    const productId = id as string;
+    // New units can be used in the same update that defines them
+    const updated = await updateProduct(productId, { units: [{ name: 'Dozen', factor: 12 }], stock_quantity: { amount: 2, unit: 'dozen' } });
+    expect(updated).toMatchObject({ stock_quantity: 24, units: [{ name: 'dozen', factor: 12 }] });
+    await expect(updateProduct(productId, { stock_quantity: { amount: 0.5, unit: 'dozen' } })).resolves.toMatchObject({ stock_quantity: 6 });
+    await expect(updateProduct(productId, { base_unit: 'dozen' })).rejects.toMatchObject({ status: 400 });
+    await expect(updateProduct(productId, { stock_quantity: { amount: 1, unit: 'tray' } })).rejects.toMatchObject({ code: 'UNKNOWN_UNIT' });
+
+    const parent = await createProduct({ name: 'Shirt', stock_quantity: 0 });
+    const variant = await createVariant(parent.id as string, {
+      attributes: { size: 'M' },
+      stock_quantity: { amount: 1, unit: 'pack' },
+      units: [{ name: 'pack', factor: 10 }],
+    });
+    expect(variant.stock_quantity).toBe(10);
+    await expect(increaseVariantStock(parent.id as string, variant.id as string, { amount: 2, unit: 'pack' })).resolves.toMatchObject({
+      stock_quantity: 30,
+    });
+  });
+
+  it('only changes the base unit of a product that holds nothing', async () => {
+    const { id } = await createProduct({ name: 'Rice', sku: 'RICE', stock_quantity: 3 });
+    const productId = id as string;
+    await expect(updateProduct(productId, { base_unit: 'kg' })).rejects.toMatchObject({ status: 409, code: 'PRODUCT_HOLDS_STOCK' });
+    const report = await importProducts([{ name: 'Rice', sku: 'RICE', stock_quantity: 3, base_unit: 'kg' }], { upsert: true });
+    expect(report).toMatchObject({ updated: 0, failed: 1, errors: [{ sku: 'RICE', error: expect.stringContaining('base_unit can only change') }] });
+
+    await decreaseStock(productId, 3);
+    // Renaming to the same unit, or a change on an empty product, goes through
+    await expect(updateProduct(productId, { base_unit: ' Each ' })).resolves.toMatchObject({ base_unit: 'each' });
+    await expect(updateProduct(productId, { base_unit: 'kg' })).resolves.toMatchObject({ base_unit: 'kg', stock_quantity: 0 });
+  });
+
+  it('converts imported quantities with the row or the stored units', async () => {
+    const report = await importProducts([
+      { name: 'Cola', sku: 'COLA', stock_quantity: { amount: 1, unit: 'case' }, units: [{ name: 'case', factor: 24 }] },
+      { name: 'Lime', sku: 'LIME', stock_quantity: { amount: 1, unit: 'case' } },
+    ]);
+    expect(report).toMatchObject({ created: 1, failed: 1, errors: [{ row: 2, sku: 'LIME', error: expect.stringContaining('Unknown unit case') }] });
+
+    const upsert = await importProducts([{ name: 'Cola', sku: 'COLA', stock_quantity: { amount: 3, unit: 'case' } }], { upsert: true });
+    expect(upsert).toMatchObject({ updated: 1, failed: 0 });
+    expect(await getProductBySku('COLA')).toMatchObject({ stock_quantity: 72, units: [{ name: 'case', factor: 24 }] });
+  });
+
+  it('takes a unit in the stock routes', async () => {
+    const { id } = await createProduct({ name: 'Beer', stock_quantity: 0, units: [{ name: 'crate', factor: 20 }] });
+    const params = routeParams(id as string);
+    const request = (path: string, body: unknown) => makeRequest(`/api/products/${id}/${path}`, { method: 'POST', key: 'clerk-key', body });
+
+    const res = await increaseRoute(request('increase', { amount: 2, unit: 'crate' }), params);
+    expect(await res.json()).toEqual({ id, stock_quantity: 40 });
+    const fractional = await decreaseRoute(request('decrease', { amount: 0.25, unit: 'crate' }), params);
+    expect(fractional.status).toBe(200);
+    const rejected = await decreaseRoute(request('decrease', { amount: 0.01, unit: 'crate' }), params);
+    expect(rejected.status).toBe(400);
+    expect((await rejected.json()).code).toBe('FRACTIONAL_QUANTITY');
+    expect((await getProductById(id as string)).stock_quantity).toBe(35);
+  });
+});
@@ -0,0 +1,129 @@
+// src/tests/webhooks.test.ts
+import { createServer, IncomingHttpHeaders, Server } from 'http';
+import { AddressInfo } from 'net';
+import { MemoryRepository, setRepository } from '../repositories';
+import { createProduct, decreaseStock, increaseStock } from '../services/productService';
+import {
+  createSubscription,
+  listDeliveries,
+  processWebhookQueue,
+  signPayload,
+  updateSubscription,
+} from '../services/webhookService';
+import { WebhookDelivery } from '../models/webhook';
+
+interface ReceivedRequest {
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+// Local stand-in for a subscriber: records every request and answers with `status`
+let server: Server;
+let receiverUrl: string;
+let status = 200;
+const received: ReceivedRequest[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(status).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  receiverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+});
+
+afterAll(async () => {
+  setRepository(null);
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  setRepository(new MemoryRepository());
+  received.length = 0;
+  status = 200;
+});
+
+/**
+ * Delivery happens in the background after the stock change returns; poll until it settles.
+ */
+async function settledDeliveries(subscriptionId: string, count: number): Promise<WebhookDelivery[]> {
+  for (let i = 0; i < 200; i++) {
+    const { items } = await listDeliveries(subscriptionId);
+    if (items.length >= count && items.every((d) => d.attempts.length > 0 && !d.leaseUntil)) return items;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  throw new Error('Deliveries did not settle');
+}
+
+describe('low-stock webhooks', () => {
+  it('posts a signed alert when stock drops below the threshold and when it recovers', async () => {
+    const subscription = await createSubscription({ url: receiverUrl });
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 10, low_stock_threshold: 5 });
+
+    await decreaseStock(id as string, 3);
+    expect(await listDeliveries(subscription.id)).toEqual({ items: [], nextCursor: null });
+
+    await decreaseStock(id as string, 4);
+    await decreaseStock(id as string, 1); // already low: no second alert
+    const [low] = await settledDeliveries(subscription.id, 1);
+    expect(low).toMatchObject({ event: 'low_stock', status: 'succeeded' });
+    expect(received).toHaveLength(1);
+
+    const { headers, body } = received[0];
+    expect(headers['x-webhook-id']).toBe(low.id);
+    expect(headers['x-webhook-event']).toBe('low_stock');
+    expect(headers['x-webhook-signature']).toBe(
+      signPayload(subscription.secret, Number(headers['x-webhook-timestamp']), body)
+    );
+    expect(JSON.parse(body)).toMatchObject({
+      type: 'low_stock',
+      data: { productId: id, productName: 'Widget', quantity_before: 7, quantity_after: 3, low_stock_threshold: 5 },
+    });
+
+    await increaseStock(id as string, 10);
+    const deliveries = await settledDeliveries(subscription.id, 2);
+    expect(deliveries.map((d) => d.event).sort()).toEqual(['low_stock', 'low_stock_recovered']);
+    expect(JSON.parse(received[1].body).data).toMatchObject({ quantity_before: 2, quantity_after: 12 });
+  });
+
+  it('retries failed deliveries with backoff and keeps every attempt in the log', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    status = 500;
+    const subscription = await createSubscription({ url: receiverUrl, events: ['low_stock'] });
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5, low_stock_threshold: 5 });
+
+    await decreaseStock(id as string, 1);
+    const [failed] = await settledDeliveries(subscription.id, 1);
+    expect(failed.status).toBe('pending');
+    expect(failed.attempts[0]).toMatchObject({ statusCode: 500 });
+
+    // Not due yet
+    expect(await processWebhookQueue()).toEqual({ dispatched: 0, attempted: 0 });
+
+    status = 204;
+    expect(await processWebhookQueue(new Date(Date.now() + 60_000))).toEqual({ dispatched: 0, attempted: 1 });
+    const [delivered] = (await listDeliveries(subscription.id, { status: 'succeeded' })).items;
+    expect(delivered.attempts.map((a) => a.statusCode)).toEqual([500, 204]);
+    expect(received.map((r) => r.headers['x-webhook-id'])).toEqual([delivered.id, delivered.id]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    warn.mockRestore();
+  });
+
+  it('skips inactive subscriptions and subscriptions to other events', async () => {
+    const inactive = await createSubscription({ url: receiverUrl });
+    await updateSubscription(inactive.id, { active: false });
+    const recoveredOnly = await createSubscription({ url: receiverUrl, events: ['low_stock_recovered'] });
+    const { id } = await createProduct({ name: 'Widget', stock_quantity: 5, low_stock_threshold: 5 });
+
+    await decreaseStock(id as string, 1);
+    // Fans the alert out if the background dispatch has not yet; either way no delivery is created
+    await processWebhookQueue();
+    expect(await listDeliveries(inactive.id)).toEqual({ items: [], nextCursor: null });
+    expect(await listDeliveries(recoveredOnly.id)).toEqual({ items: [], nextCursor: null });
+    expect(received).toHaveLength(0);
+  });
+});
@@ -1,14 +1,78 @@
 // src/utils/httpErrors.ts
-// Simple HttpError class to throw errors with HTTP status codes
+// Simple HttpError class to throw errors with HTTP status codes and a stable, machine-readable code.
+// handleError (src/middlewares/errorHandler.ts) turns it into an RFC 7807 problem+json response.
+
+/**
+ * Error codes returned to clients in the `code` member of error responses.
+ * Codes are part of the API contract: add new ones, never rename or reuse them.
+ */
+export const ERROR_CODES = [
+  // Request problems
+  'VALIDATION_FAILED',
+  'MALFORMED_JSON',
+  'UNSUPPORTED_MEDIA_TYPE',
+  'INVALID_CURSOR',
+  'INVALID_CSV',
+  'UNAUTHENTICATED',
+  'FORBIDDEN',
+  'VERSION_MISMATCH',
+  'IDEMPOTENCY_KEY_REUSED',
+  'UNKNOWN_UNIT',
+  'FRACTIONAL_QUANTITY',
+  'TOO_MANY_REQUESTS',
+  // Missing resources
+  'PRODUCT_NOT_FOUND',
+  'LOCATION_NOT_FOUND',
+  'RESERVATION_NOT_FOUND',
+  'PURCHASE_ORDER_NOT_FOUND',
+  'WEBHOOK_NOT_FOUND',
+  'VARIANT_NOT_FOUND',
+  'CATEGORY_NOT_FOUND',
+  'LOT_NOT_FOUND',
+  'STOCK_TAKE_NOT_FOUND',
+  // Conflicts with stored state
+  'SKU_IN_USE',
+  'BARCODE_IN_USE',
+  'LOCATION_CODE_IN_USE',
+  'LOCATION_INACTIVE',
+  'LOCATION_NOT_EMPTY',
+  'INSUFFICIENT_STOCK',
+  'INSUFFICIENT_UNALLOCATED_STOCK',
+  'STOCK_ADJUSTMENT_REJECTED',
+  'RESERVATION_NOT_ACTIVE',
+  'RESERVATION_EXPIRED',
+  'PURCHASE_ORDER_STATE_CONFLICT',
+  'PRODUCT_NOT_IN_TRASH',
+  'STOCK_TRACKED_PER_VARIANT',
+  'PRODUCT_HAS_VARIANTS',
+  'PRODUCT_HOLDS_STOCK',
+  'PRODUCT_IS_VARIANT',
+  'VARIANT_ATTRIBUTES_IN_USE',
+  'VARIANT_PARENT_IN_TRASH',
+  'CATEGORY_NAME_IN_USE',
+  'CATEGORY_CYCLE',
+  'CATEGORY_NOT_EMPTY',
+  'LOT_EXPIRED',
+  'LOT_EXPIRY_MISMATCH',
+  'STOCK_TAKE_STATE_CONFLICT',
+  'PRODUCT_IN_STOCK_TAKE',
+  'STOCK_TAKE_REJECTED',
+  // Anything unexpected
+  'INTERNAL_ERROR',
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
 
 export class HttpError extends Error {
   public status: number;
-  public details?: any;
+  public code: ErrorCode;
+  public details?: unknown;
 
-  constructor(status: number, message: string, details?: any) {
+  constructor(status: number, code: ErrorCode, message: string, details?: unknown) {
     super(message);
     this.name = 'HttpError';
     this.status = status;
+    this.code = code;
     this.details = details;
     Error.captureStackTrace(this, this.constructor);
   }